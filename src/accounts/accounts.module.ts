@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConnectedAccountsService } from './connected-accounts.service';
+import { ConnectedAccount } from './entities/connected-account.entity';
+import { OrganizationsModule } from '../organizations/organizations.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ConnectedAccount]), OrganizationsModule],
+  providers: [ConnectedAccountsService],
+  exports: [ConnectedAccountsService],
+})
+export class AccountsModule {}
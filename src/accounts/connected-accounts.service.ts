@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, In } from 'typeorm';
+import { ConnectedAccount } from './entities/connected-account.entity';
+import { AdPlatform } from '../common/interfaces/ad-platform.interface';
+import { OrganizationsService } from '../organizations/organizations.service';
+
+/**
+ * Storage for the ad accounts organizations have selected. Seat checks happen where accounts are used, in
+ * CredentialResolverService, so platform services can record selections without depending on it.
+ */
+@Injectable()
+export class ConnectedAccountsService {
+  constructor(
+    private readonly organizationsService: OrganizationsService,
+    @InjectRepository(ConnectedAccount)
+    private readonly connectedAccountRepository: Repository<ConnectedAccount>,
+  ) {}
+
+  /**
+   * The accounts selected in the user's current organization
+   */
+  async getAccounts(userId: number, platform?: AdPlatform): Promise<ConnectedAccount[]> {
+    const organizationId = await this.organizationsService.getCurrentOrganizationId(userId);
+    return this.connectedAccountRepository.find({
+      where: platform ? { organizationId, platform } : { organizationId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * An account selected in any of the user's organizations, preferring the current one
+   */
+  async getAccount(userId: number, platform: AdPlatform, adAccountId: string): Promise<ConnectedAccount | null> {
+    const organizationIds = await this.organizationsService.getOrganizationIds(userId);
+    const accounts = await this.connectedAccountRepository.find({ where: { organizationId: In(organizationIds), platform, adAccountId } });
+    return organizationIds.map(id => accounts.find(account => account.organizationId === id)).find(Boolean) || null;
+  }
+
+  /**
+   * Every organization's selected accounts on a platform
+   */
+  async getAllAccounts(platform: AdPlatform): Promise<ConnectedAccount[]> {
+    return this.connectedAccountRepository.find({ where: { platform }, order: { id: 'ASC' } });
+  }
+
+  /**
+   * Select an account in the user's current organization, or move it to another identity if it was already selected
+   */
+  async connect(userId: number, platform: AdPlatform, sessionId: number, adAccountId: string, adAccountName?: string | null): Promise<ConnectedAccount> {
+    const organizationId = await this.organizationsService.getCurrentOrganizationId(userId);
+    const existing = await this.connectedAccountRepository.findOne({ where: { organizationId, platform, adAccountId } });
+    const account = existing || this.connectedAccountRepository.create({ organizationId, platform, adAccountId });
+
+    account.userId = userId;
+    account.sessionId = sessionId;
+    account.adAccountName = adAccountName || account.adAccountName || null;
+    return this.connectedAccountRepository.save(account);
+  }
+
+  async disconnect(userId: number, platform: AdPlatform, adAccountId: string): Promise<boolean> {
+    const organizationId = await this.organizationsService.getCurrentOrganizationId(userId);
+    const result = await this.connectedAccountRepository.delete({ organizationId, platform, adAccountId });
+    return !!result.affected;
+  }
+
+  /**
+   * Drop the accounts reached through a session that is being deleted, or all the accounts the user connected on
+   * the platform
+   */
+  async disconnectSession(userId: number, platform: AdPlatform, sessionId?: number): Promise<void> {
+    await this.connectedAccountRepository.delete(sessionId ? { userId, platform, sessionId } : { userId, platform });
+  }
+}
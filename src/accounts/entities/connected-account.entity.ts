@@ -0,0 +1,41 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import { AdPlatform } from '../../common/interfaces/ad-platform.interface';
+
+/**
+ * An ad account selected for an organization on a platform, and the member session (connected identity) whose
+ * token reaches it. An organization can select any number of accounts per platform, across several identities.
+ */
+@Entity('connected_ad_accounts')
+@Index(['organizationId', 'platform', 'adAccountId'], { unique: true })
+@Index(['platform', 'adAccountId'])
+export class ConnectedAccount {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // Null only for rows saved before organizations, until they are assigned at startup
+  @Column({ name: 'organization_id', type: 'integer', nullable: true })
+  organizationId: number | null;
+
+  // The member who connected the account, and whose session is used
+  @Column({ name: 'user_id' })
+  userId: number;
+
+  @Column({ type: 'varchar' })
+  platform: AdPlatform;
+
+  @Column({ name: 'ad_account_id' })
+  adAccountId: string;
+
+  @Column({ name: 'ad_account_name', type: 'varchar', nullable: true })
+  adAccountName: string | null;
+
+  // Row id in the platform's sessions table
+  @Column({ name: 'session_id' })
+  sessionId: number;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
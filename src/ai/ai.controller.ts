@@ -2,6 +2,8 @@ import { Controller, Get, Post, Put, Delete, Body, Query, Param, UseGuards, BadR
 import { AiService } from './ai.service';
 import { GeminiService } from './services/gemini.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 
 @Controller('ai')
@@ -92,9 +94,10 @@ export class AiController {
 
   // AI Generated Creatives - CREATE
   @Post('creatives')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('creatives.edit')
   async createCreative(@CurrentUser() user: any, @Body() creativeData: any) {
-    const id = await this.aiService.saveAIGeneratedCreative(user.userId, creativeData);
+    const id = await this.aiService.saveAIGeneratedCreative(user.id, creativeData);
     return { success: true, id };
   }
 
@@ -108,7 +111,7 @@ export class AiController {
     @Query('limit') limit?: string,
     @Query('offset') offset?: string,
   ) {
-    const result = await this.aiService.getAIGeneratedCreatives(user.userId, {
+    const result = await this.aiService.getAIGeneratedCreatives(user.id, {
       adAccountId,
       status,
       limit: limit ? parseInt(limit) : undefined,
@@ -122,55 +125,60 @@ export class AiController {
   @Get('creatives/:id')
   @UseGuards(JwtAuthGuard)
   async getCreative(@Param('id') id: string, @CurrentUser() user: any) {
-    const creative = await this.aiService.getAIGeneratedCreative(+id, user.userId);
+    const creative = await this.aiService.getAIGeneratedCreative(+id, user.id);
     return { success: true, creative };
   }
 
   // AI Generated Creatives - UPDATE
   @Put('creatives/:id')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('creatives.edit')
   async updateCreative(
     @Param('id') id: string,
     @CurrentUser() user: any,
     @Body() updateData: any,
   ) {
-    const creative = await this.aiService.updateAIGeneratedCreative(+id, user.userId, updateData);
+    const creative = await this.aiService.updateAIGeneratedCreative(+id, user.id, updateData);
     return { success: true, creative };
   }
 
   // AI Generated Creatives - DELETE
   @Delete('creatives/:id')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('creatives.edit')
   async deleteCreative(@Param('id') id: string, @CurrentUser() user: any) {
-    await this.aiService.deleteAIGeneratedCreative(+id, user.userId);
+    await this.aiService.deleteAIGeneratedCreative(+id, user.id);
     return { success: true, message: 'Creative deleted successfully' };
   }
 
   // AI Generated Creatives - BULK SAVE
   @Post('creatives/bulk')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('creatives.edit')
   async bulkSaveCreatives(@CurrentUser() user: any, @Body() body: { creatives: any[] }) {
     if (!body.creatives || !Array.isArray(body.creatives)) {
       throw new BadRequestException('creatives array is required');
     }
 
-    const ids = await this.aiService.bulkSaveAICreatives(user.userId, body.creatives);
+    const ids = await this.aiService.bulkSaveAICreatives(user.id, body.creatives);
     return { success: true, ids, count: ids.length };
   }
 
   // Toggle favorite
   @Post('creatives/:id/favorite')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('creatives.edit')
   async toggleFavorite(@Param('id') id: string, @CurrentUser() user: any) {
-    const creative = await this.aiService.toggleFavorite(+id, user.userId);
+    const creative = await this.aiService.toggleFavorite(+id, user.id);
     return { success: true, isFavorite: creative.isFavorite };
   }
 
   // Legacy endpoint alias
   @Post('generated-creative')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('creatives.edit')
   async saveGeneratedCreative(@CurrentUser() user: any, @Body() creativeData: any) {
-    const id = await this.aiService.saveAIGeneratedCreative(user.userId, creativeData);
+    const id = await this.aiService.saveAIGeneratedCreative(user.id, creativeData);
     return { success: true, id };
   }
 }
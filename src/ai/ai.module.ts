@@ -8,6 +8,7 @@ import { GeminiService } from './services/gemini.service';
 import { AiCreativeScore } from './entities/ai-creative-score.entity';
 import { AiGeneratedCreative } from './entities/ai-generated-creative.entity';
 import { ConfigModule } from '@nestjs/config';
+import { OrganizationsModule } from '../organizations/organizations.module';
 
 @Module({
   imports: [
@@ -16,6 +17,7 @@ import { ConfigModule } from '@nestjs/config';
       AiGeneratedCreative,
     ]),
     ConfigModule,
+    OrganizationsModule,
   ],
   controllers: [AiController, AnalyzeCreativesController, GenerateVariationsController],
   providers: [AiService, GeminiService],
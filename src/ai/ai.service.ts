@@ -4,10 +4,12 @@ import { Repository, In } from 'typeorm';
 import { AiCreativeScore } from './entities/ai-creative-score.entity';
 import { AiGeneratedCreative } from './entities/ai-generated-creative.entity';
 import { ConfigService } from '@nestjs/config';
+import { OrganizationsService } from '../organizations/organizations.service';
 
 @Injectable()
 export class AiService {
   constructor(
+    private readonly organizationsService: OrganizationsService,
     @InjectRepository(AiCreativeScore)
     private aiCreativeScoreRepository: Repository<AiCreativeScore>,
     @InjectRepository(AiGeneratedCreative)
@@ -70,8 +72,9 @@ export class AiService {
     },
   ): Promise<number> {
     const creative = this.aiGeneratedCreativeRepository.create({
-      userId,
       ...creativeData,
+      userId,
+      organizationId: await this.organizationsService.getCurrentOrganizationId(userId),
       status: creativeData.status || 'draft',
       thumbnailUrl: creativeData.thumbnailUrl || creativeData.imageUrl,
     });
@@ -79,12 +82,12 @@ export class AiService {
     return saved.id;
   }
 
-  // AI Generated Creatives - READ (all for user)
+  // AI Generated Creatives - READ (all for the user's current organization)
   async getAIGeneratedCreatives(
     userId: number,
     options?: { adAccountId?: string; status?: string; limit?: number; offset?: number }
   ): Promise<{ creatives: AiGeneratedCreative[]; total: number }> {
-    const where: any = { userId };
+    const where: any = { organizationId: await this.organizationsService.getCurrentOrganizationId(userId) };
     
     if (options?.adAccountId) {
       where.adAccountId = options.adAccountId;
@@ -105,8 +108,9 @@ export class AiService {
 
   // AI Generated Creatives - READ (single)
   async getAIGeneratedCreative(id: number, userId: number): Promise<AiGeneratedCreative> {
+    const organizationId = await this.organizationsService.getCurrentOrganizationId(userId);
     const creative = await this.aiGeneratedCreativeRepository.findOne({
-      where: { id, userId },
+      where: { id, organizationId },
     });
     
     if (!creative) {
@@ -124,8 +128,8 @@ export class AiService {
   ): Promise<AiGeneratedCreative> {
     const creative = await this.getAIGeneratedCreative(id, userId);
     
-    // Merge and save
-    Object.assign(creative, updateData);
+    // Merge and save, keeping the creative where it is
+    Object.assign(creative, updateData, { id: creative.id, userId: creative.userId, organizationId: creative.organizationId });
     return this.aiGeneratedCreativeRepository.save(creative);
   }
 
@@ -159,10 +163,12 @@ export class AiService {
       status?: string;
     }>,
   ): Promise<number[]> {
+    const organizationId = await this.organizationsService.getCurrentOrganizationId(userId);
     const creatives = creativesData.map(data =>
       this.aiGeneratedCreativeRepository.create({
-        userId,
         ...data,
+        userId,
+        organizationId,
         status: data.status || 'draft',
         thumbnailUrl: data.thumbnailUrl || data.imageUrl,
       }),
@@ -6,6 +6,11 @@ export class AiGeneratedCreative {
   @PrimaryGeneratedColumn()
   id: number;
 
+  // Null only for rows saved before organizations, until they are assigned at startup
+  @Column({ name: 'organization_id', type: 'integer', nullable: true })
+  organizationId: number | null;
+
+  // The member who generated the creative
   @Column({ name: 'user_id' })
   userId: number;
 
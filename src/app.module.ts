@@ -1,15 +1,27 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { DatabaseModule } from './database/database.module';
 import { UsersModule } from './users/users.module';
 import { AuthModule } from './auth/auth.module';
+import { OrganizationsModule } from './organizations/organizations.module';
 import { SubscriptionsModule } from './subscriptions/subscriptions.module';
 import { StripeModule } from './stripe/stripe.module';
 import { FacebookModule } from './facebook/facebook.module';
 import { TikTokModule } from './tiktok/tiktok.module';
 import { GoogleAdsModule } from './google-ads/google-ads.module';
+import { LinkedInModule } from './linkedin/linkedin.module';
+import { SnapchatModule } from './snapchat/snapchat.module';
+import { TwitterModule } from './twitter/twitter.module';
+import { PlatformsModule } from './platforms/platforms.module';
+import { FxModule } from './fx/fx.module';
+import { SyncModule } from './sync/sync.module';
+import { CacheModule } from './cache/cache.module';
+import { RetentionModule } from './retention/retention.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { EncryptionModule } from './encryption/encryption.module';
 import { AiModule } from './ai/ai.module';
 import { ShareableLinksModule } from './shareable-links/shareable-links.module';
 import { HealthController } from './common/health.controller';
@@ -19,23 +31,44 @@ import { stripeConfig } from './config/stripe.config';
 import { facebookConfig } from './config/facebook.config';
 import { tiktokConfig } from './config/tiktok.config';
 import googleAdsConfig from './config/google-ads.config';
+import { linkedinConfig } from './config/linkedin.config';
+import { snapchatConfig } from './config/snapchat.config';
+import { twitterConfig } from './config/twitter.config';
 import { authConfig } from './config/auth.config';
 import { aiConfig } from './config/ai.config';
+import { fxConfig } from './config/fx.config';
+import { syncConfig } from './config/sync.config';
+import { cacheConfig } from './config/cache.config';
+import { retentionConfig } from './config/retention.config';
+import { tokenRefreshConfig } from './config/token-refresh.config';
+import { encryptionConfig } from './config/encryption.config';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [databaseConfig, stripeConfig, facebookConfig, tiktokConfig, googleAdsConfig, authConfig, aiConfig],
+      load: [databaseConfig, stripeConfig, facebookConfig, tiktokConfig, googleAdsConfig, linkedinConfig, snapchatConfig, twitterConfig, authConfig, aiConfig, fxConfig, syncConfig, cacheConfig, retentionConfig, tokenRefreshConfig, encryptionConfig],
     }),
+    ScheduleModule.forRoot(),
     DatabaseModule,
+    EncryptionModule,
+    CacheModule,
     UsersModule,
     AuthModule,
+    OrganizationsModule,
     SubscriptionsModule,
     StripeModule,
     FacebookModule,
     TikTokModule,
     GoogleAdsModule,
+    LinkedInModule,
+    SnapchatModule,
+    TwitterModule,
+    FxModule,
+    PlatformsModule,
+    SyncModule,
+    RetentionModule,
+    NotificationsModule,
     AiModule,
     ShareableLinksModule,
   ],
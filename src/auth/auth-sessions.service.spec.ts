@@ -0,0 +1,107 @@
+import { Test } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { IsNull } from 'typeorm';
+import { AuthSessionsService } from './auth-sessions.service';
+import { AuthSession } from './entities/auth-session.entity';
+
+const session = (overrides: Partial<AuthSession> = {}): AuthSession => ({
+  id: 1,
+  userId: 7,
+  familyId: 'family-1',
+  tokenHash: 'hash',
+  provider: 'email',
+  userAgent: null,
+  ipAddress: null,
+  signedInAt: new Date(),
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  rotatedAt: null,
+  revokedAt: null,
+  revokedReason: null,
+  exchangeCodeHash: null,
+  exchangeCodeExpiresAt: null,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe('AuthSessionsService', () => {
+  let service: AuthSessionsService;
+  let repository: { findOneBy: jest.Mock; update: jest.Mock; create: jest.Mock; save: jest.Mock };
+
+  beforeEach(async () => {
+    repository = {
+      findOneBy: jest.fn(),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      create: jest.fn(values => values),
+      save: jest.fn(values => Promise.resolve({ ...values, id: 2 })),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        AuthSessionsService,
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: getRepositoryToken(AuthSession), useValue: repository },
+      ],
+    }).compile();
+
+    service = module.get(AuthSessionsService);
+  });
+
+  it('should rotate a refresh token into a new one in the same family', async () => {
+    repository.findOneBy.mockResolvedValue(session());
+
+    const issued = await service.rotate('token', {});
+
+    expect(repository.update).toHaveBeenCalledWith({ id: 1, rotatedAt: IsNull() }, { rotatedAt: expect.any(Date) });
+    expect(issued.session.familyId).toBe('family-1');
+    expect(issued.refreshToken).not.toBe('token');
+  });
+
+  it('should revoke the whole family when a rotated token is reused', async () => {
+    repository.findOneBy.mockResolvedValue(session({ rotatedAt: new Date() }));
+
+    await expect(service.rotate('token', {})).rejects.toThrow(UnauthorizedException);
+
+    expect(repository.update).toHaveBeenCalledTimes(1);
+    expect(repository.update).toHaveBeenCalledWith(
+      { userId: 7, familyId: 'family-1', revokedAt: IsNull() },
+      { revokedAt: expect.any(Date), revokedReason: 'reuse_detected' },
+    );
+    expect(repository.save).not.toHaveBeenCalled();
+  });
+
+  it('should let only one of two concurrent rotations succeed and revoke the family', async () => {
+    // Both requests read the token before either claims it; the conditional update only matches once
+    repository.findOneBy.mockImplementation(() => Promise.resolve(session()));
+    let claimed = false;
+    repository.update.mockImplementation((where: Record<string, unknown>) => {
+      if ('rotatedAt' in where) {
+        const affected = claimed ? 0 : 1;
+        claimed = true;
+        return Promise.resolve({ affected });
+      }
+      return Promise.resolve({ affected: 2 });
+    });
+
+    const results = await Promise.allSettled([service.rotate('token', {}), service.rotate('token', {})]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.filter(result => result.status === 'rejected')).toHaveLength(1);
+    expect(repository.save).toHaveBeenCalledTimes(1);
+    expect(repository.update).toHaveBeenCalledWith(
+      { userId: 7, familyId: 'family-1', revokedAt: IsNull() },
+      { revokedAt: expect.any(Date), revokedReason: 'reuse_detected' },
+    );
+  });
+
+  it('should reject revoked and expired tokens without rotating them', async () => {
+    repository.findOneBy.mockResolvedValueOnce(session({ revokedAt: new Date() }));
+    await expect(service.rotate('token', {})).rejects.toThrow(UnauthorizedException);
+
+    repository.findOneBy.mockResolvedValueOnce(session({ expiresAt: new Date(Date.now() - 1000) }));
+    await expect(service.rotate('token', {})).rejects.toThrow(UnauthorizedException);
+
+    expect(repository.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,195 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, IsNull, MoreThan } from 'typeorm';
+import { randomBytes, randomUUID, createHash } from 'crypto';
+import { AuthSession, AuthSessionRevokedReason } from './entities/auth-session.entity';
+
+export interface DeviceInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface IssuedRefreshToken {
+  session: AuthSession;
+  refreshToken: string;
+}
+
+// How long the code in an OAuth redirect can be exchanged for tokens
+const EXCHANGE_CODE_TTL_MS = 60 * 1000;
+
+/**
+ * Rotating refresh tokens for app logins, stored hashed in auth_sessions
+ */
+@Injectable()
+export class AuthSessionsService {
+  private readonly logger = new Logger(AuthSessionsService.name);
+  private readonly refreshTokenTtlDays: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(AuthSession)
+    private readonly sessionRepository: Repository<AuthSession>,
+  ) {
+    this.refreshTokenTtlDays = this.configService.get<number>('auth.refreshTokenTtlDays') || 30;
+  }
+
+  // ==================== TOKENS ====================
+
+  /**
+   * Start a new token family for a login on one device
+   */
+  async create(userId: number, provider: string, device: DeviceInfo): Promise<IssuedRefreshToken> {
+    return this.issue({
+      userId,
+      familyId: randomUUID(),
+      provider,
+      signedInAt: new Date(),
+    }, device);
+  }
+
+  /**
+   * Exchange a refresh token for a new one in the same family. A token that was already rotated is being
+   * replayed, most likely from a stolen copy, so the whole family is revoked and the device must sign in again.
+   */
+  async rotate(refreshToken: string, device: DeviceInfo): Promise<IssuedRefreshToken> {
+    const session = await this.findByToken(refreshToken);
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
+
+    // Claim the token atomically so two concurrent refreshes can't both succeed
+    const claimed = session.rotatedAt
+      ? 0
+      : (await this.sessionRepository.update({ id: session.id, rotatedAt: IsNull() }, { rotatedAt: new Date() })).affected;
+
+    if (!claimed) {
+      this.logger.warn(`Refresh token reuse detected for user ${session.userId}, revoking session family ${session.familyId}`);
+      await this.revokeFamily(session.userId, session.familyId, 'reuse_detected');
+      throw new UnauthorizedException('Refresh token has already been used; please sign in again');
+    }
+
+    return this.issue({
+      userId: session.userId,
+      familyId: session.familyId,
+      provider: session.provider,
+      signedInAt: session.signedInAt,
+    }, device);
+  }
+
+  /**
+   * Sign out the device a refresh token belongs to
+   */
+  async revokeToken(refreshToken: string): Promise<void> {
+    const session = await this.findByToken(refreshToken);
+    if (session) {
+      await this.revokeFamily(session.userId, session.familyId, 'logout');
+    }
+  }
+
+  // ==================== SESSIONS ====================
+
+  /**
+   * The user's signed-in devices: the current token of every family that is still valid
+   */
+  async getActiveSessions(userId: number): Promise<AuthSession[]> {
+    return this.sessionRepository.find({
+      where: { userId, rotatedAt: IsNull(), revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Whether access tokens issued to a family are still honoured
+   */
+  async isActive(familyId: string): Promise<boolean> {
+    return this.sessionRepository.exists({
+      where: { familyId, rotatedAt: IsNull(), revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+    });
+  }
+
+  async revokeFamily(userId: number, familyId: string, reason: AuthSessionRevokedReason): Promise<boolean> {
+    const result = await this.sessionRepository.update(
+      { userId, familyId, revokedAt: IsNull() },
+      { revokedAt: new Date(), revokedReason: reason },
+    );
+    return !!result.affected;
+  }
+
+  /**
+   * Sign the user out everywhere
+   */
+  async revokeAll(userId: number, reason: AuthSessionRevokedReason): Promise<void> {
+    await this.sessionRepository.update({ userId, revokedAt: IsNull() }, { revokedAt: new Date(), revokedReason: reason });
+  }
+
+  // ==================== EXCHANGE CODES ====================
+
+  /**
+   * A short-lived, single-use code for the session of a refresh token, so an OAuth redirect never carries a
+   * token in its URL
+   */
+  async createExchangeCode(refreshToken: string): Promise<string> {
+    const code = randomBytes(32).toString('base64url');
+    await this.sessionRepository.update({ tokenHash: this.hash(refreshToken) }, {
+      exchangeCodeHash: this.hash(code),
+      exchangeCodeExpiresAt: new Date(Date.now() + EXCHANGE_CODE_TTL_MS),
+    });
+    return code;
+  }
+
+  /**
+   * Redeem an exchange code, rotating the session's refresh token so the one set before the redirect is retired
+   */
+  async redeemExchangeCode(code: string, device: DeviceInfo): Promise<IssuedRefreshToken> {
+    const session = await this.sessionRepository.findOneBy({ exchangeCodeHash: this.hash(code) });
+    if (!session || !session.exchangeCodeExpiresAt || session.exchangeCodeExpiresAt < new Date()) {
+      throw new UnauthorizedException('Invalid or expired code');
+    }
+
+    const redeemed = await this.sessionRepository.update(
+      { id: session.id, exchangeCodeHash: this.hash(code) },
+      { exchangeCodeHash: null, exchangeCodeExpiresAt: null },
+    );
+    if (!redeemed.affected || session.revokedAt) {
+      throw new UnauthorizedException('Invalid or expired code');
+    }
+
+    const rotated = await this.sessionRepository.update({ id: session.id, rotatedAt: IsNull() }, { rotatedAt: new Date() });
+    if (!rotated.affected) {
+      throw new UnauthorizedException('Invalid or expired code');
+    }
+
+    return this.issue({
+      userId: session.userId,
+      familyId: session.familyId,
+      provider: session.provider,
+      signedInAt: session.signedInAt,
+    }, device);
+  }
+
+  private async issue(
+    family: Pick<AuthSession, 'userId' | 'familyId' | 'provider' | 'signedInAt'>,
+    device: DeviceInfo,
+  ): Promise<IssuedRefreshToken> {
+    const refreshToken = randomBytes(48).toString('base64url');
+
+    const session = await this.sessionRepository.save(this.sessionRepository.create({
+      ...family,
+      tokenHash: this.hash(refreshToken),
+      userAgent: device.userAgent?.slice(0, 500) || null,
+      ipAddress: device.ipAddress || null,
+      expiresAt: new Date(Date.now() + this.refreshTokenTtlDays * 24 * 60 * 60 * 1000),
+    }));
+
+    return { session, refreshToken };
+  }
+
+  private async findByToken(refreshToken: string): Promise<AuthSession | null> {
+    return this.sessionRepository.findOneBy({ tokenHash: this.hash(refreshToken) });
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+}
@@ -1,59 +1,253 @@
-import { Controller, Post, Body, Res, UseGuards, Get, HttpStatus, Req } from '@nestjs/common';
+import { Controller, Post, Put, Delete, Body, Param, Res, UseGuards, Get, HttpCode, HttpStatus, Req, UnauthorizedException, NotFoundException } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
-import { AuthService } from './auth.service';
+import { AuthService, AuthTokens, SignInResult } from './auth.service';
+import { AuthSessionsService, DeviceInfo } from './auth-sessions.service';
+import { TwoFactorService } from './two-factor.service';
 import type { Response, Request } from 'express';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { CurrentUser } from './decorators/current-user.decorator';
-import { LoginDto, RegisterDto } from './dto/auth.dto';
+import { LoginDto, RegisterDto, RefreshTokenDto, ExchangeCodeDto, ForgotPasswordDto, ResetPasswordDto, VerifyEmailDto, TwoFactorCodeDto, TwoFactorChallengeDto, TwoFactorLoginDto, TwoFactorPolicyDto } from './dto/auth.dto';
 import { ConfigService } from '@nestjs/config';
 
+const REFRESH_COOKIE = 'refresh_token';
+const REFRESH_COOKIE_PATH = '/api/auth';
+
 @Controller('auth')
 export class AuthController {
   constructor(
     private authService: AuthService,
+    private authSessionsService: AuthSessionsService,
+    private twoFactorService: TwoFactorService,
     private configService: ConfigService,
   ) {}
 
   @Post('login')
-  async login(@Body() loginDto: LoginDto, @Res({ passthrough: true }) response: Response) {
+  async login(@Body() loginDto: LoginDto, @Req() request: Request, @Res({ passthrough: true }) response: Response) {
     const user = await this.authService.validateUser(loginDto.email, loginDto.password);
     if (!user) {
       response.status(HttpStatus.UNAUTHORIZED).json({ error: 'Invalid credentials' });
       return;
     }
     
-    const { access_token, user: userData } = await this.authService.login(user);
-    
-    response.cookie('session_token', access_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-      path: '/',
-    });
-
-    return { success: true, user: userData, access_token };
+    const result = await this.authService.signIn(user, this.getDevice(request));
+    return this.toSignInResponse(response, result);
   }
 
   @Post('signup')
-  async signup(@Body() registerDto: RegisterDto, @Res({ passthrough: true }) response: Response) {
+  async signup(@Body() registerDto: RegisterDto, @Req() request: Request, @Res({ passthrough: true }) response: Response) {
     const user = await this.authService.register(registerDto);
-    const { access_token, user: userData } = await this.authService.login(user);
+    const tokens = await this.authService.login(user, this.getDevice(request));
+    this.setAuthCookies(response, tokens);
 
-    response.cookie('session_token', access_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-      path: '/',
-    });
+    return { success: true, user: tokens.user, access_token: tokens.access_token, refresh_token: tokens.refresh_token };
+  }
 
-    return { success: true, user: userData, access_token };
+  /**
+   * Swap a refresh token for a new access token and refresh token. Each refresh token works once.
+   */
+  @Post('refresh')
+  async refresh(@Body() body: RefreshTokenDto, @Req() request: Request, @Res({ passthrough: true }) response: Response) {
+    const refreshToken = body.refreshToken || request.cookies?.[REFRESH_COOKIE];
+    if (!refreshToken) {
+      throw new UnauthorizedException('Refresh token is required');
+    }
+
+    try {
+      const tokens = await this.authService.refresh(refreshToken, this.getDevice(request));
+      this.setAuthCookies(response, tokens);
+      return { success: true, access_token: tokens.access_token, refresh_token: tokens.refresh_token };
+    } catch (error) {
+      this.clearAuthCookies(response);
+      throw error;
+    }
+  }
+
+  /**
+   * Trade the code from the Google sign-in redirect for tokens
+   */
+  @Post('exchange')
+  async exchange(@Body() body: ExchangeCodeDto, @Req() request: Request, @Res({ passthrough: true }) response: Response) {
+    const tokens = await this.authService.exchangeCode(body.code, this.getDevice(request));
+    this.setAuthCookies(response, tokens);
+
+    return { success: true, user: tokens.user, access_token: tokens.access_token, refresh_token: tokens.refresh_token };
   }
 
   @Post('logout')
-  async logout(@Res({ passthrough: true }) response: Response) {
-    response.clearCookie('session_token');
+  async logout(@Body() body: RefreshTokenDto, @Req() request: Request, @Res({ passthrough: true }) response: Response) {
+    await this.authService.logout(body.refreshToken || request.cookies?.[REFRESH_COOKIE]);
+    this.clearAuthCookies(response);
+    return { success: true };
+  }
+
+  // ==================== TWO-FACTOR ====================
+
+  @UseGuards(JwtAuthGuard)
+  @Get('2fa')
+  async getTwoFactorStatus(@CurrentUser() user: any) {
+    return { success: true, twoFactor: await this.twoFactorService.getStatus(user.id) };
+  }
+
+  /**
+   * Start enrollment: the secret and an otpauth:// URI to show as a QR code
+   */
+  @UseGuards(JwtAuthGuard)
+  @Post('2fa/enroll')
+  @HttpCode(HttpStatus.OK)
+  async enrollTwoFactor(@CurrentUser() user: any) {
+    return { success: true, ...await this.twoFactorService.enroll(user.id, user.email) };
+  }
+
+  /**
+   * Confirm enrollment with a code from the app. The recovery codes are only ever returned here.
+   */
+  @UseGuards(JwtAuthGuard)
+  @Post('2fa/enable')
+  @HttpCode(HttpStatus.OK)
+  async enableTwoFactor(@CurrentUser() user: any, @Body() body: TwoFactorCodeDto) {
+    return { success: true, recoveryCodes: await this.twoFactorService.enable(user.id, body.code) };
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('2fa/disable')
+  @HttpCode(HttpStatus.OK)
+  async disableTwoFactor(@CurrentUser() user: any, @Body() body: TwoFactorCodeDto) {
+    await this.twoFactorService.disable(user.id, body.code);
+    return { success: true };
+  }
+
+  /**
+   * Replace the recovery codes, invalidating the old ones
+   */
+  @UseGuards(JwtAuthGuard)
+  @Post('2fa/recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  async regenerateRecoveryCodes(@CurrentUser() user: any, @Body() body: TwoFactorCodeDto) {
+    return { success: true, recoveryCodes: await this.twoFactorService.regenerateRecoveryCodes(user.id, body.code) };
+  }
+
+  /**
+   * Second login step, with the challenge token from POST /auth/login
+   */
+  @Post('2fa/login')
+  @HttpCode(HttpStatus.OK)
+  async twoFactorLogin(@Body() body: TwoFactorLoginDto, @Req() request: Request, @Res({ passthrough: true }) response: Response) {
+    const tokens = await this.authService.completeTwoFactorLogin(body.challengeToken, body.code, this.getDevice(request));
+    this.setAuthCookies(response, tokens);
+
+    return { success: true, user: tokens.user, access_token: tokens.access_token, refresh_token: tokens.refresh_token };
+  }
+
+  /**
+   * Trade the code from a Google sign-in redirect for the two-factor challenge token
+   */
+  @Post('2fa/exchange')
+  @HttpCode(HttpStatus.OK)
+  async exchangeTwoFactorCode(@Body() body: ExchangeCodeDto, @Req() request: Request, @Res({ passthrough: true }) response: Response) {
+    const result = await this.authService.exchangeTwoFactorChallengeCode(body.code, this.getDevice(request));
+    return this.toSignInResponse(response, result);
+  }
+
+  /**
+   * Enrollment during login, for members of an organization that requires 2FA
+   */
+  @Post('2fa/setup')
+  @HttpCode(HttpStatus.OK)
+  async twoFactorSetup(@Body() body: TwoFactorChallengeDto) {
+    return { success: true, ...await this.authService.startTwoFactorSetup(body.challengeToken) };
+  }
+
+  @Post('2fa/setup/confirm')
+  @HttpCode(HttpStatus.OK)
+  async confirmTwoFactorSetup(@Body() body: TwoFactorLoginDto, @Req() request: Request, @Res({ passthrough: true }) response: Response) {
+    const { tokens, recoveryCodes } = await this.authService.completeTwoFactorSetup(body.challengeToken, body.code, this.getDevice(request));
+    this.setAuthCookies(response, tokens);
+
+    return { success: true, user: tokens.user, access_token: tokens.access_token, refresh_token: tokens.refresh_token, recoveryCodes };
+  }
+
+  /**
+   * Require 2FA for every member of an organization the user manages
+   */
+  @UseGuards(JwtAuthGuard)
+  @Put('2fa/organization-policy')
+  async setTwoFactorPolicy(@CurrentUser() user: any, @Body() body: TwoFactorPolicyDto) {
+    return { success: true, required: await this.twoFactorService.setOrganizationPolicy(user.id, body.organizationId, body.required) };
+  }
+
+  // ==================== PASSWORD RESET ====================
+
+  /**
+   * Email a reset link. The response is the same whether or not the address has an account.
+   */
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  async forgotPassword(@Body() body: ForgotPasswordDto) {
+    await this.authService.requestPasswordReset(body.email);
+    return { success: true, message: 'If an account exists for that email, a password reset link has been sent' };
+  }
+
+  /**
+   * Set a new password with the token from the reset link; every device is signed out
+   */
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  async resetPassword(@Body() body: ResetPasswordDto, @Res({ passthrough: true }) response: Response) {
+    await this.authService.resetPassword(body.token, body.newPassword);
+    this.clearAuthCookies(response);
+    return { success: true, message: 'Password has been reset; please sign in again' };
+  }
+
+  // ==================== EMAIL VERIFICATION ====================
+
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  async verifyEmail(@Body() body: VerifyEmailDto) {
+    await this.authService.verifyEmail(body.token);
+    return { success: true, message: 'Email address verified' };
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('verify-email/resend')
+  @HttpCode(HttpStatus.OK)
+  async resendVerificationEmail(@CurrentUser() user: any) {
+    const { alreadyVerified } = await this.authService.resendEmailVerification(user.id);
+    return { success: true, message: alreadyVerified ? 'Email address is already verified' : 'Verification email sent' };
+  }
+
+  // ==================== SESSIONS ====================
+
+  /**
+   * Devices the user is signed in on
+   */
+  @UseGuards(JwtAuthGuard)
+  @Get('sessions')
+  async getSessions(@CurrentUser() user: any) {
+    const sessions = await this.authSessionsService.getActiveSessions(user.id);
+    return {
+      success: true,
+      sessions: sessions.map(session => ({
+        id: session.familyId,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        signedInAt: session.signedInAt,
+        lastActiveAt: session.createdAt,
+        expiresAt: session.expiresAt,
+        current: session.familyId === user.sessionId,
+      })),
+    };
+  }
+
+  /**
+   * Sign out one device; its access token stops working straight away
+   */
+  @UseGuards(JwtAuthGuard)
+  @Delete('sessions/:id')
+  async revokeSession(@CurrentUser() user: any, @Param('id') sessionId: string) {
+    const revoked = await this.authSessionsService.revokeFamily(user.id, sessionId, 'revoked');
+    if (!revoked) {
+      throw new NotFoundException('Session not found');
+    }
     return { success: true };
   }
 
@@ -89,22 +283,24 @@ export class AuthController {
         lastName: googleUser.lastName,
       });
       
-      // Generate JWT
-      const { access_token, user: userData } = await this.authService.login(user);
+      // Start a session, unless a two-factor code is needed first
+      const frontendUrl = this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000';
+      const { tokens, twoFactorChallenge } = await this.authService.signIn(user, this.getDevice(req));
+      if (twoFactorChallenge) {
+        // A one-time code for POST /auth/2fa/exchange, so the challenge token never appears in a URL
+        const challengeUrl = new URL('/auth/two-factor', frontendUrl);
+        challengeUrl.searchParams.set('code', await this.authService.createTwoFactorChallengeCode(user));
+        challengeUrl.searchParams.set('type', twoFactorChallenge.type);
+        return res.redirect(challengeUrl.toString());
+      }
       
-      // Set cookie (will work if frontend and backend are on same domain)
-      res.cookie('session_token', access_token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-        path: '/',
-      });
+      // Set cookies (will work if frontend and backend are on same domain)
+      this.setAuthCookies(res, tokens);
       
-      // Redirect to frontend callback page with token in URL (as backup)
-      // This ensures auth works even when cookie can't be set across different ports
-      const frontendUrl = this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000';
-      const redirectUrl = `${frontendUrl}/auth/callback?token=${encodeURIComponent(access_token)}`;
+      // Redirect to frontend callback page with a one-time code for POST /auth/exchange (as backup)
+      // This ensures auth works even when cookies can't be set across different ports, without putting a token in the URL
+      const code = await this.authService.createExchangeCode(tokens);
+      const redirectUrl = `${frontendUrl}/auth/callback?code=${encodeURIComponent(code)}`;
       return res.redirect(redirectUrl);
     } catch (error) {
       console.error('Google auth callback error:', error);
@@ -112,5 +308,39 @@ export class AuthController {
       return res.redirect(`${frontendUrl}/login?error=google_auth_failed`);
     }
   }
-}
 
+  private toSignInResponse(response: Response, { tokens, twoFactorChallenge }: SignInResult) {
+    if (twoFactorChallenge) {
+      return {
+        success: true,
+        twoFactorRequired: twoFactorChallenge.type === 'verify',
+        twoFactorSetupRequired: twoFactorChallenge.type === 'setup',
+        challengeToken: twoFactorChallenge.challengeToken,
+      };
+    }
+
+    this.setAuthCookies(response, tokens);
+    return { success: true, user: tokens.user, access_token: tokens.access_token, refresh_token: tokens.refresh_token };
+  }
+
+  private getDevice(request: Request): DeviceInfo {
+    return { userAgent: request.headers['user-agent'], ipAddress: request.ip };
+  }
+
+  private setAuthCookies(response: Response, tokens: AuthTokens) {
+    const options = {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax' as const,
+    };
+
+    response.cookie('session_token', tokens.access_token, { ...options, expires: tokens.accessTokenExpiresAt, path: '/' });
+    // Only sent to the auth routes that use it
+    response.cookie(REFRESH_COOKIE, tokens.refresh_token, { ...options, expires: tokens.refreshTokenExpiresAt, path: REFRESH_COOKIE_PATH });
+  }
+
+  private clearAuthCookies(response: Response) {
+    response.clearCookie('session_token', { path: '/' });
+    response.clearCookie(REFRESH_COOKIE, { path: REFRESH_COOKIE_PATH });
+  }
+}
@@ -1,7 +1,17 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { AuthService } from './auth.service';
+import { AuthSessionsService } from './auth-sessions.service';
+import { UserTokensService } from './user-tokens.service';
+import { TwoFactorService } from './two-factor.service';
+import { AuthSession } from './entities/auth-session.entity';
+import { UserToken } from './entities/user-token.entity';
+import { TwoFactorAuth } from './entities/two-factor-auth.entity';
+import { TwoFactorRecoveryCode } from './entities/two-factor-recovery-code.entity';
 import { AuthController } from './auth.controller';
 import { UsersModule } from '../users/users.module';
+import { MailModule } from '../mail/mail.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
 import { PassportModule } from '@nestjs/passport';
 import { JwtModule } from '@nestjs/jwt';
 import { ConfigModule, ConfigService } from '@nestjs/config';
@@ -10,20 +20,23 @@ import { GoogleStrategy } from './strategies/google.strategy';
 
 @Module({
   imports: [
+    TypeOrmModule.forFeature([AuthSession, UserToken, TwoFactorAuth, TwoFactorRecoveryCode]),
     UsersModule,
+    MailModule,
+    OrganizationsModule,
     PassportModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
         secret: configService.get<string>('auth.jwtSecret'),
-        signOptions: { expiresIn: (configService.get<string>('auth.jwtExpiresIn') || '7d') as any },
+        signOptions: { expiresIn: (configService.get<string>('auth.jwtExpiresIn') || '15m') as any },
       }),
       inject: [ConfigService],
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, GoogleStrategy],
-  exports: [AuthService],
+  providers: [AuthService, AuthSessionsService, UserTokensService, TwoFactorService, JwtStrategy, GoogleStrategy],
+  exports: [AuthService, AuthSessionsService],
 })
 export class AuthModule {}
 
@@ -1,15 +1,52 @@
-import { Injectable, UnauthorizedException, ConflictException } from '@nestjs/common';
+import { Injectable, Logger, UnauthorizedException, ConflictException, BadRequestException } from '@nestjs/common';
 import { UsersService } from '../users/users.service';
 import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcryptjs';
 import { ConfigService } from '@nestjs/config';
+import { AuthSessionsService, DeviceInfo, IssuedRefreshToken } from './auth-sessions.service';
+import { UserTokensService } from './user-tokens.service';
+import { TwoFactorService, TwoFactorEnrollment } from './two-factor.service';
+import { MailService } from '../mail/mail.service';
+import { User } from '../users/entities/user.entity';
+
+export interface AuthTokens {
+  access_token: string;
+  refresh_token: string;
+  accessTokenExpiresAt: Date;
+  refreshTokenExpiresAt: Date;
+  sessionId: string;
+  user: any;
+}
+
+export type TwoFactorChallengeType = 'verify' | 'setup';
+
+// A challenge comes back instead of tokens when the user still has to enter (or first set up) a two-factor code
+export type SignInResult =
+  | { tokens: AuthTokens; twoFactorChallenge?: undefined }
+  | { tokens?: undefined; twoFactorChallenge: { type: TwoFactorChallengeType; challengeToken: string } };
+
+interface TwoFactorChallengePayload {
+  typ: 'two_factor_challenge';
+  type: TwoFactorChallengeType;
+  userId: number;
+  provider: string;
+}
+
+// How long the code standing in for a two-factor challenge in the Google redirect can be exchanged
+const TWO_FACTOR_CODE_TTL_MS = 60 * 1000;
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     private usersService: UsersService,
     private jwtService: JwtService,
     private configService: ConfigService,
+    private authSessionsService: AuthSessionsService,
+    private userTokensService: UserTokensService,
+    private mailService: MailService,
+    private twoFactorService: TwoFactorService,
   ) {}
 
   async validateUser(email: string, pass: string): Promise<any> {
@@ -21,16 +58,88 @@ export class AuthService {
     return null;
   }
 
-  async login(user: any) {
+  /**
+   * Sign the user in on a new device: a short-lived access token plus the first refresh token of a new session
+   */
+  async login(user: any, device: DeviceInfo = {}): Promise<AuthTokens> {
+    const issued = await this.authSessionsService.create(user.id, user.provider || 'email', device);
+    return this.toTokens(user, issued);
+  }
+
+  /**
+   * Sign in after the password (or Google) check, unless the user has to pass two-factor authentication first,
+   * or set it up because their organization requires it
+   */
+  async signIn(user: any, device: DeviceInfo = {}): Promise<SignInResult> {
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      return { twoFactorChallenge: { type: 'verify', challengeToken: this.createTwoFactorChallenge(user, 'verify') } };
+    }
+    if (await this.twoFactorService.isRequired(user.id)) {
+      return { twoFactorChallenge: { type: 'setup', challengeToken: this.createTwoFactorChallenge(user, 'setup') } };
+    }
+    return { tokens: await this.login(user, device) };
+  }
+
+  /**
+   * Rotate a refresh token and issue a fresh access token for the same session
+   */
+  async refresh(refreshToken: string, device: DeviceInfo = {}): Promise<AuthTokens> {
+    const issued = await this.authSessionsService.rotate(refreshToken, device);
+    return this.toTokens(await this.findSessionUser(issued), issued);
+  }
+
+  /**
+   * Trade the one-time code from an OAuth redirect for the session's tokens
+   */
+  async exchangeCode(code: string, device: DeviceInfo = {}): Promise<AuthTokens> {
+    const issued = await this.authSessionsService.redeemExchangeCode(code, device);
+    return this.toTokens(await this.findSessionUser(issued), issued);
+  }
+
+  /**
+   * A one-time code the frontend trades for these tokens at POST /auth/exchange
+   */
+  async createExchangeCode(tokens: AuthTokens): Promise<string> {
+    return this.authSessionsService.createExchangeCode(tokens.refresh_token);
+  }
+
+  async logout(refreshToken?: string): Promise<void> {
+    if (refreshToken) {
+      await this.authSessionsService.revokeToken(refreshToken);
+    }
+  }
+
+  private async findSessionUser({ session }: IssuedRefreshToken) {
+    const user = await this.usersService.findOne(session.userId);
+    if (!user) {
+      await this.authSessionsService.revokeFamily(session.userId, session.familyId, 'revoked');
+      throw new UnauthorizedException('User no longer exists');
+    }
+
+    const result: Partial<typeof user> & { provider: string } = { ...user, provider: session.provider };
+    delete result.password;
+    return result;
+  }
+
+  private toTokens(user: any, { session, refreshToken }: IssuedRefreshToken): AuthTokens {
     const payload = { 
       userId: user.id, 
       email: user.email,
       name: `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email,
-      provider: user.provider || 'email'
+      provider: user.provider || 'email',
+      // Ties the access token to its session, so revoking the session also stops the token
+      sid: session.familyId,
     };
-    
+
+    const accessToken = this.jwtService.sign(payload);
+    const { exp } = this.jwtService.decode<{ exp: number }>(accessToken);
+
     return {
-      access_token: this.jwtService.sign(payload),
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      accessTokenExpiresAt: new Date(exp * 1000),
+      refreshTokenExpiresAt: session.expiresAt,
+      sessionId: session.familyId,
       user: user,
     };
   }
@@ -48,10 +157,181 @@ export class AuthService {
       password: hashedPassword,
     });
 
+    // A failed email shouldn't fail the signup; the user can ask for another from the app
+    await this.sendEmailVerification(newUser).catch((error) => {
+      this.logger.warn(`Could not send verification email to user ${newUser.id}: ${error.message}`);
+    });
+
     const { password, ...result } = newUser;
     return result;
   }
 
+  // ==================== TWO-FACTOR LOGIN ====================
+
+  /**
+   * Finish signing in with an authenticator or recovery code
+   */
+  async completeTwoFactorLogin(challengeToken: string, code: string, device: DeviceInfo = {}): Promise<AuthTokens> {
+    const challenge = this.verifyTwoFactorChallenge(challengeToken, 'verify');
+    await this.twoFactorService.verify(challenge.userId, code);
+    return this.login(await this.findChallengeUser(challenge), device);
+  }
+
+  /**
+   * Enroll a user whose organization requires 2FA, partway through signing in
+   */
+  async startTwoFactorSetup(challengeToken: string): Promise<TwoFactorEnrollment> {
+    const user = await this.findChallengeUser(this.verifyTwoFactorChallenge(challengeToken, 'setup'));
+    return this.twoFactorService.enroll(user.id as number, user.email as string);
+  }
+
+  /**
+   * Confirm the new authenticator and finish signing in, returning the recovery codes alongside the tokens
+   */
+  async completeTwoFactorSetup(challengeToken: string, code: string, device: DeviceInfo = {}): Promise<{ tokens: AuthTokens; recoveryCodes: string[] }> {
+    const challenge = this.verifyTwoFactorChallenge(challengeToken, 'setup');
+    const recoveryCodes = await this.twoFactorService.enable(challenge.userId, code);
+    return { tokens: await this.login(await this.findChallengeUser(challenge), device), recoveryCodes };
+  }
+
+  /**
+   * A one-time code the Google redirect carries instead of a challenge token, traded at POST /auth/2fa/exchange
+   */
+  async createTwoFactorChallengeCode(user: any): Promise<string> {
+    return this.userTokensService.issue(user.id, user.email, 'two_factor_challenge', TWO_FACTOR_CODE_TTL_MS);
+  }
+
+  /**
+   * Redeem a code from the Google redirect, resuming the sign-in where the redirect left it: normally a
+   * challenge again, now returned in the response body
+   */
+  async exchangeTwoFactorChallengeCode(code: string, device: DeviceInfo = {}): Promise<SignInResult> {
+    const { userId } = await this.userTokensService.consume(code, 'two_factor_challenge');
+    // Only the Google sign-in hands these codes out
+    return this.signIn(await this.findChallengeUser({ userId, provider: 'google' }), device);
+  }
+
+  /**
+   * A short-lived token proving the first login step passed. It carries no session, so it is refused as an access token.
+   */
+  private createTwoFactorChallenge(user: any, type: TwoFactorChallengeType): string {
+    const payload: TwoFactorChallengePayload = { typ: 'two_factor_challenge', type, userId: user.id, provider: user.provider || 'email' };
+    const expiresIn = this.configService.get<string>('auth.twoFactorChallengeTtl') || '5m';
+    return this.jwtService.sign(payload, { expiresIn: expiresIn as any });
+  }
+
+  private verifyTwoFactorChallenge(challengeToken: string, type: TwoFactorChallengeType): TwoFactorChallengePayload {
+    let payload: TwoFactorChallengePayload;
+    try {
+      payload = this.jwtService.verify<TwoFactorChallengePayload>(challengeToken);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired two-factor challenge; please sign in again');
+    }
+
+    if (payload.typ !== 'two_factor_challenge' || payload.type !== type) {
+      throw new UnauthorizedException('Invalid or expired two-factor challenge; please sign in again');
+    }
+    return payload;
+  }
+
+  private async findChallengeUser({ userId, provider }: Pick<TwoFactorChallengePayload, 'userId' | 'provider'>) {
+    const user = await this.usersService.findOne(userId);
+    if (!user) {
+      throw new UnauthorizedException('User no longer exists');
+    }
+
+    const result: Partial<typeof user> & { provider: string } = { ...user, provider };
+    delete result.password;
+    return result;
+  }
+
+  // ==================== PASSWORD RESET ====================
+
+  /**
+   * Email a password reset link if an account exists for the address. Callers always report success so the
+   * response doesn't reveal which addresses have accounts.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+    if (!user) {
+      this.logger.log('Password reset requested for an unknown email');
+      return;
+    }
+
+    const ttlMinutes = this.configService.get<number>('auth.passwordResetTtlMinutes') || 60;
+    const token = await this.userTokensService.issue(user.id, user.email, 'password_reset', ttlMinutes * 60 * 1000);
+
+    try {
+      await this.mailService.sendPasswordReset(user.email, this.getFrontendLink('/reset-password', token), ttlMinutes);
+    } catch (error: any) {
+      this.logger.error(`Could not send password reset email to user ${user.id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Set a new password from a reset link. Every device is signed out, since whoever knew the old password may
+   * still hold a session.
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const record = await this.userTokensService.consume(token, 'password_reset');
+    const user = await this.findTokenUser(record.userId, record.email);
+
+    await this.usersService.setPassword(user.id, newPassword);
+    // The link reached the inbox, which is all verification proves
+    await this.usersService.markEmailVerified(user.id);
+    await this.authSessionsService.revokeAll(user.id, 'password_reset');
+
+    this.logger.log(`Password reset for user ${user.id}`);
+  }
+
+  // ==================== EMAIL VERIFICATION ====================
+
+  async sendEmailVerification(user: Pick<User, 'id' | 'email'>): Promise<void> {
+    const ttlHours = this.configService.get<number>('auth.emailVerificationTtlHours') || 48;
+    const token = await this.userTokensService.issue(user.id, user.email, 'email_verification', ttlHours * 60 * 60 * 1000);
+    await this.mailService.sendEmailVerification(user.email, this.getFrontendLink('/verify-email', token));
+  }
+
+  /**
+   * Send a new verification link to a signed-in user, unless their address is already verified
+   */
+  async resendEmailVerification(userId: number): Promise<{ alreadyVerified: boolean }> {
+    const user = await this.usersService.findOne(userId);
+    if (!user) {
+      throw new UnauthorizedException('User no longer exists');
+    }
+    if (user.emailVerifiedAt) {
+      return { alreadyVerified: true };
+    }
+
+    await this.sendEmailVerification(user);
+    return { alreadyVerified: false };
+  }
+
+  async verifyEmail(token: string): Promise<void> {
+    const record = await this.userTokensService.consume(token, 'email_verification');
+    const user = await this.findTokenUser(record.userId, record.email);
+    await this.usersService.markEmailVerified(user.id);
+  }
+
+  /**
+   * The user a token was issued to, as long as they still have the address it was sent to
+   */
+  private async findTokenUser(userId: number, email: string): Promise<User> {
+    const user = await this.usersService.findOne(userId);
+    if (!user || user.email !== email) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+    return user;
+  }
+
+  private getFrontendLink(path: string, token: string): string {
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000';
+    const url = new URL(path, frontendUrl);
+    url.searchParams.set('token', token);
+    return url.toString();
+  }
+
   async findOrCreateGoogleUser(googleUserData: {
     email: string;
     firstName?: string;
@@ -66,7 +346,10 @@ export class AuthService {
         firstName: googleUserData.firstName || '',
         lastName: googleUserData.lastName || '',
         password: undefined, // No password for OAuth users
+        emailVerifiedAt: new Date(), // Google has already verified the address
       });
+    } else if (!user.emailVerifiedAt) {
+      await this.usersService.markEmailVerified(user.id);
     }
     
     const result = { ...user, provider: 'google' };
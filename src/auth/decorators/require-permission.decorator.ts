@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import type { Permission } from '../../organizations/organization-roles.util';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Permissions the user's role in their current organization must grant; checked by PermissionsGuard, which has
+ * to run after JwtAuthGuard
+ */
+export const RequirePermission = (...permissions: Permission[]) => SetMetadata(PERMISSIONS_KEY, permissions);
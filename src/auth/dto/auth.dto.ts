@@ -1,4 +1,4 @@
-import { IsEmail, IsString, MinLength, IsOptional, IsBoolean } from 'class-validator';
+import { IsEmail, IsString, MinLength, IsOptional, IsBoolean, IsInt } from 'class-validator';
 
 export class LoginDto {
   @IsEmail({}, { message: 'Please provide a valid email address' })
@@ -33,3 +33,61 @@ export class RegisterDto {
   @IsBoolean()
   isTrialSignup?: boolean;
 }
+
+export class RefreshTokenDto {
+  // Browsers send the refresh_token cookie instead
+  @IsOptional()
+  @IsString()
+  refreshToken?: string;
+}
+
+export class ExchangeCodeDto {
+  @IsString()
+  code: string;
+}
+
+export class ForgotPasswordDto {
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  email: string;
+}
+
+export class ResetPasswordDto {
+  @IsString()
+  token: string;
+
+  @IsString()
+  @MinLength(8, { message: 'Password must be at least 8 characters long' })
+  newPassword: string;
+}
+
+export class VerifyEmailDto {
+  @IsString()
+  token: string;
+}
+
+export class TwoFactorCodeDto {
+  // An authenticator code, or one of the recovery codes
+  @IsString()
+  code: string;
+}
+
+export class TwoFactorChallengeDto {
+  @IsString()
+  challengeToken: string;
+}
+
+export class TwoFactorLoginDto {
+  @IsString()
+  challengeToken: string;
+
+  @IsString()
+  code: string;
+}
+
+export class TwoFactorPolicyDto {
+  @IsInt()
+  organizationId: number;
+
+  @IsBoolean()
+  required: boolean;
+}
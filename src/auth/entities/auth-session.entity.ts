@@ -0,0 +1,63 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, Index } from 'typeorm';
+
+export type AuthSessionRevokedReason = 'logout' | 'revoked' | 'reuse_detected' | 'password_reset';
+
+/**
+ * One refresh token issued for an app login. Every refresh rotates the token into a new row of the same
+ * family, so a family is one signed-in device and only its newest, unrotated row can be used.
+ */
+@Entity('auth_sessions')
+@Index(['userId', 'revokedAt'])
+export class AuthSession {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'user_id' })
+  userId: number;
+
+  @Index()
+  @Column({ name: 'family_id', type: 'uuid' })
+  familyId: string;
+
+  // SHA-256 of the refresh token; the token itself is never stored
+  @Index({ unique: true })
+  @Column({ name: 'token_hash', length: 64 })
+  tokenHash: string;
+
+  // How the user signed in, carried into each access token
+  @Column({ length: 20, default: 'email' })
+  provider: string;
+
+  @Column({ name: 'user_agent', type: 'text', nullable: true })
+  userAgent: string | null;
+
+  @Column({ name: 'ip_address', type: 'varchar', length: 45, nullable: true })
+  ipAddress: string | null;
+
+  // When the family started, copied onto every rotated row
+  @Column({ name: 'signed_in_at', type: 'timestamp' })
+  signedInAt: Date;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt: Date;
+
+  // Set once the token has been exchanged for a newer one; presenting it again means it was stolen
+  @Column({ name: 'rotated_at', type: 'timestamp', nullable: true })
+  rotatedAt: Date | null;
+
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @Column({ name: 'revoked_reason', type: 'varchar', length: 20, nullable: true })
+  revokedReason: AuthSessionRevokedReason | null;
+
+  // One-time code handed to the frontend after an OAuth redirect instead of the tokens themselves
+  @Column({ name: 'exchange_code_hash', type: 'varchar', length: 64, nullable: true })
+  exchangeCodeHash: string | null;
+
+  @Column({ name: 'exchange_code_expires_at', type: 'timestamp', nullable: true })
+  exchangeCodeExpiresAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,40 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import { encryptedColumn } from '../../encryption/encrypted-column.transformer';
+
+/**
+ * A user's TOTP authenticator. The row exists from enrollment, but 2FA is only on once a code from the app
+ * has been confirmed.
+ */
+@Entity('user_two_factor')
+export class TwoFactorAuth {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index({ unique: true })
+  @Column({ name: 'user_id' })
+  userId: number;
+
+  // Base32 TOTP secret, encrypted at rest like platform tokens
+  @Column({ type: 'text', transformer: encryptedColumn })
+  secret: string;
+
+  @Column({ name: 'enabled_at', type: 'timestamp', nullable: true })
+  enabledAt: Date | null;
+
+  // Time step of the last accepted code, so a code can't be used twice
+  @Column({ name: 'last_used_step', type: 'integer', nullable: true })
+  lastUsedStep: number | null;
+
+  // Wrong codes in a row; too many lock out code checks for a while
+  @Column({ name: 'failed_attempts', default: 0 })
+  failedAttempts: number;
+
+  @Column({ name: 'locked_until', type: 'timestamp', nullable: true })
+  lockedUntil: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,24 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, Index } from 'typeorm';
+
+/**
+ * A one-time code that stands in for an authenticator code when the user has lost their device
+ */
+@Entity('two_factor_recovery_codes')
+@Index(['userId', 'codeHash'])
+export class TwoFactorRecoveryCode {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'user_id' })
+  userId: number;
+
+  // SHA-256 of the normalized code; the codes are only shown once, when generated
+  @Column({ name: 'code_hash', length: 64 })
+  codeHash: string;
+
+  @Column({ name: 'used_at', type: 'timestamp', nullable: true })
+  usedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,38 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, Index } from 'typeorm';
+
+export type UserTokenPurpose = 'password_reset' | 'email_verification' | 'two_factor_challenge';
+
+/**
+ * A single-use token emailed to a user, to reset their password or verify their address, or handed to the
+ * frontend in a sign-in redirect that still needs a two-factor code
+ */
+@Entity('user_tokens')
+@Index(['userId', 'purpose'])
+export class UserToken {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'user_id' })
+  userId: number;
+
+  @Column({ length: 30 })
+  purpose: UserTokenPurpose;
+
+  // SHA-256 of the token; the token itself only exists in the email
+  @Index({ unique: true })
+  @Column({ name: 'token_hash', length: 64 })
+  tokenHash: string;
+
+  // The address the token was sent to, so verifying it can't confirm an address the user has since changed
+  @Column({ length: 255 })
+  email: string;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ name: 'used_at', type: 'timestamp', nullable: true })
+  usedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,65 @@
+import { ExecutionContext, ForbiddenException, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PermissionsGuard } from './permissions.guard';
+import { RequirePermission } from '../decorators/require-permission.decorator';
+import { OrganizationsService } from '../../organizations/organizations.service';
+
+class BillingController {}
+
+// Route handlers, with the metadata @RequirePermission() would put on them
+const checkout = () => {};
+RequirePermission('billing.manage')(checkout);
+const plans = () => {};
+
+const context = (handler: () => void, user?: { id: number }) => ({
+  getHandler: () => handler,
+  getClass: () => BillingController,
+  switchToHttp: () => ({ getRequest: () => ({ user }) }),
+}) as unknown as ExecutionContext;
+
+describe('PermissionsGuard', () => {
+  let getCurrentRole: jest.Mock;
+  let guard: PermissionsGuard;
+
+  beforeEach(() => {
+    getCurrentRole = jest.fn();
+    guard = new PermissionsGuard(new Reflector(), { getCurrentRole } as unknown as OrganizationsService);
+  });
+
+  it('should let a role with the permission through', async () => {
+    getCurrentRole.mockResolvedValue('billing');
+
+    await expect(guard.canActivate(context(checkout, { id: 7 }))).resolves.toBe(true);
+    expect(getCurrentRole).toHaveBeenCalledWith(7);
+  });
+
+  it('should refuse a role without the permission', async () => {
+    getCurrentRole.mockResolvedValue('admin');
+
+    await expect(guard.canActivate(context(checkout, { id: 7 }))).rejects.toThrow(
+      new ForbiddenException('Your role (admin) does not allow billing.manage'),
+    );
+  });
+
+  it('should refuse a role this version does not know', async () => {
+    getCurrentRole.mockResolvedValue('member');
+
+    await expect(guard.canActivate(context(checkout, { id: 7 }))).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should refuse a user outside their current organization', async () => {
+    getCurrentRole.mockRejectedValue(new NotFoundException('Organization not found'));
+
+    await expect(guard.canActivate(context(checkout, { id: 7 }))).rejects.toThrow(NotFoundException);
+  });
+
+  it('should refuse a request without a user', async () => {
+    await expect(guard.canActivate(context(checkout))).rejects.toThrow(UnauthorizedException);
+    expect(getCurrentRole).not.toHaveBeenCalled();
+  });
+
+  it('should let routes without a required permission through', async () => {
+    await expect(guard.canActivate(context(plans))).resolves.toBe(true);
+    expect(getCurrentRole).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,36 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PERMISSIONS_KEY } from '../decorators/require-permission.decorator';
+import { OrganizationsService } from '../../organizations/organizations.service';
+import { Permission, hasPermission } from '../../organizations/organization-roles.util';
+
+/**
+ * Enforces @RequirePermission() against the user's role in their current organization. Routes without the
+ * decorator pass.
+ */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly organizationsService: OrganizationsService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const permissions = this.reflector.getAllAndOverride<Permission[] | undefined>(PERMISSIONS_KEY, [context.getHandler(), context.getClass()]);
+    if (!permissions?.length) {
+      return true;
+    }
+
+    const { user } = context.switchToHttp().getRequest();
+    if (!user?.id) {
+      throw new UnauthorizedException();
+    }
+
+    const role = await this.organizationsService.getCurrentRole(user.id);
+    const missing = permissions.find(permission => !hasPermission(role, permission));
+    if (missing) {
+      throw new ForbiddenException(`Your role (${role}) does not allow ${missing}`);
+    }
+    return true;
+  }
+}
@@ -1,11 +1,15 @@
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { PassportStrategy } from '@nestjs/passport';
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { AuthSessionsService } from '../auth-sessions.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(configService: ConfigService) {
+  constructor(
+    configService: ConfigService,
+    private readonly authSessionsService: AuthSessionsService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromExtractors([
         // Try Authorization header first (for API clients, mobile apps)
@@ -21,11 +25,17 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   }
 
   async validate(payload: any) {
+    // Tokens from before sessions were tracked, or from a signed-out or revoked session, are refused
+    if (!payload.sid || !await this.authSessionsService.isActive(payload.sid)) {
+      throw new UnauthorizedException('Session has ended');
+    }
+
     return { 
       id: payload.userId, 
       email: payload.email,
       name: payload.name,
       provider: payload.provider,
+      sessionId: payload.sid,
     };
   }
 }
@@ -0,0 +1,46 @@
+import { base32Encode, base32Decode, generateTotp, verifyTotp, getTimeStep, buildOtpAuthUri, generateRecoveryCodes, normalizeRecoveryCode } from './totp.util';
+
+// The SHA-1 secret from RFC 6238 appendix B, "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('should round-trip base32', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890');
+    expect(base32Decode('gezd gnbv-gy3t qojq gezd gnbv gy3t qojq').toString()).toBe('12345678901234567890');
+  });
+
+  it('should match the RFC 6238 test vectors, truncated to six digits', () => {
+    expect(generateTotp(RFC_SECRET, getTimeStep(new Date(59 * 1000)))).toBe('287082');
+    expect(generateTotp(RFC_SECRET, getTimeStep(new Date(1111111109 * 1000)))).toBe('081804');
+    expect(generateTotp(RFC_SECRET, getTimeStep(new Date(1234567890 * 1000)))).toBe('005924');
+    expect(generateTotp(RFC_SECRET, getTimeStep(new Date(2000000000 * 1000)))).toBe('279037');
+  });
+
+  it('should accept codes from adjacent steps and return the step they matched', () => {
+    const at = new Date(1234567890 * 1000);
+    const step = getTimeStep(at);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), at)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), at)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), at)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', at)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '12345', at)).toBeNull();
+  });
+
+  it('should build an otpauth URI', () => {
+    const uri = buildOtpAuthUri(RFC_SECRET, 'jane@example.com', 'Intrend');
+
+    expect(uri.startsWith('otpauth://totp/Intrend%3Ajane%40example.com?')).toBe(true);
+    expect(new URL(uri).searchParams.get('secret')).toBe(RFC_SECRET);
+    expect(new URL(uri).searchParams.get('issuer')).toBe('Intrend');
+  });
+
+  it('should generate distinct recovery codes that match however they are typed', () => {
+    const codes = generateRecoveryCodes(10);
+
+    expect(new Set(codes).size).toBe(10);
+    expect(codes[0]).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/);
+    expect(normalizeRecoveryCode(codes[0].toUpperCase().replace('-', ' '))).toBe(normalizeRecoveryCode(codes[0]));
+  });
+});
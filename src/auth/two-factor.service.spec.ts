@@ -0,0 +1,101 @@
+import { Test } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { createHash } from 'crypto';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorAuth } from './entities/two-factor-auth.entity';
+import { TwoFactorRecoveryCode } from './entities/two-factor-recovery-code.entity';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { generateTotpSecret, generateTotp, getTimeStep, generateRecoveryCodes, normalizeRecoveryCode } from './totp.util';
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+  let record: TwoFactorAuth;
+  let recoveryCodes: string[];
+  let storedCodes: Pick<TwoFactorRecoveryCode, 'codeHash' | 'usedAt'>[];
+
+  beforeEach(async () => {
+    record = {
+      id: 1,
+      userId: 7,
+      secret: generateTotpSecret(),
+      enabledAt: new Date(),
+      lastUsedStep: null,
+      failedAttempts: 0,
+      lockedUntil: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    recoveryCodes = generateRecoveryCodes(2);
+    storedCodes = recoveryCodes.map(code => ({
+      codeHash: createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex'),
+      usedAt: null,
+    }));
+
+    // The conditional updates stand in for the database: a step is only claimed once, a code only used once
+    const twoFactorRepository = {
+      findOneBy: jest.fn(() => Promise.resolve({ ...record })),
+      update: jest.fn((where: number | Record<string, unknown>, values: Partial<TwoFactorAuth>) => {
+        if (typeof where === 'object' && 'lastUsedStep' in where && record.lastUsedStep !== null && record.lastUsedStep >= values.lastUsedStep!) {
+          return Promise.resolve({ affected: 0 });
+        }
+        Object.assign(record, values);
+        return Promise.resolve({ affected: 1 });
+      }),
+    };
+    const recoveryCodeRepository = {
+      update: jest.fn((where: { codeHash: string }, values: { usedAt: Date }) => {
+        const code = storedCodes.find(stored => stored.codeHash === where.codeHash && !stored.usedAt);
+        if (code) {
+          code.usedAt = values.usedAt;
+        }
+        return Promise.resolve({ affected: code ? 1 : 0 });
+      }),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: OrganizationsService, useValue: { requiresTwoFactor: jest.fn().mockResolvedValue(false) } },
+        { provide: getRepositoryToken(TwoFactorAuth), useValue: twoFactorRepository },
+        { provide: getRepositoryToken(TwoFactorRecoveryCode), useValue: recoveryCodeRepository },
+      ],
+    }).compile();
+
+    service = module.get(TwoFactorService);
+  });
+
+  it('should reject an authenticator code replayed in the same time step', async () => {
+    const code = generateTotp(record.secret, getTimeStep());
+
+    await expect(service.verify(7, code)).resolves.toBeUndefined();
+    await expect(service.verify(7, code)).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should lock code checks after too many invalid codes', async () => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await expect(service.verify(7, 'abcdef')).rejects.toThrow('Invalid two-factor code');
+    }
+    expect(record.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+
+    // Even a valid code is refused until the lock runs out
+    await expect(service.verify(7, generateTotp(record.secret, getTimeStep()))).rejects.toThrow('Too many invalid codes');
+    expect(record.lastUsedStep).toBeNull();
+  });
+
+  it('should reset the failed attempts after a valid code', async () => {
+    await expect(service.verify(7, 'abcdef')).rejects.toThrow(UnauthorizedException);
+    expect(record.failedAttempts).toBe(1);
+
+    await service.verify(7, generateTotp(record.secret, getTimeStep()));
+    expect(record.failedAttempts).toBe(0);
+  });
+
+  it('should accept each recovery code only once', async () => {
+    await expect(service.verify(7, recoveryCodes[0].toUpperCase())).resolves.toBeUndefined();
+    await expect(service.verify(7, recoveryCodes[0])).rejects.toThrow(UnauthorizedException);
+    await expect(service.verify(7, recoveryCodes[1])).resolves.toBeUndefined();
+  });
+});
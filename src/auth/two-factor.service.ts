@@ -0,0 +1,221 @@
+import { Injectable, Logger, BadRequestException, ConflictException, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, IsNull, LessThan, Not, Or } from 'typeorm';
+import { createHash } from 'crypto';
+import { TwoFactorAuth } from './entities/two-factor-auth.entity';
+import { TwoFactorRecoveryCode } from './entities/two-factor-recovery-code.entity';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { generateTotpSecret, verifyTotp, buildOtpAuthUri, generateRecoveryCodes, normalizeRecoveryCode } from './totp.util';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Wrong codes in a row before code checks are refused, and for how long
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+/**
+ * TOTP two-factor authentication: enrollment, code checks and recovery codes
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly organizationsService: OrganizationsService,
+    @InjectRepository(TwoFactorAuth)
+    private readonly twoFactorRepository: Repository<TwoFactorAuth>,
+    @InjectRepository(TwoFactorRecoveryCode)
+    private readonly recoveryCodeRepository: Repository<TwoFactorRecoveryCode>,
+  ) {}
+
+  async getStatus(userId: number): Promise<TwoFactorStatus> {
+    const [record, recoveryCodesRemaining, required] = await Promise.all([
+      this.findEnabled(userId),
+      this.recoveryCodeRepository.countBy({ userId, usedAt: IsNull() }),
+      this.isRequired(userId),
+    ]);
+
+    return {
+      enabled: !!record,
+      enabledAt: record?.enabledAt || null,
+      recoveryCodesRemaining: record ? recoveryCodesRemaining : 0,
+      required,
+    };
+  }
+
+  async isEnabled(userId: number): Promise<boolean> {
+    return this.twoFactorRepository.exists({ where: { userId, enabledAt: Not(IsNull()) } });
+  }
+
+  /**
+   * Whether one of the user's organizations requires its members to use 2FA
+   */
+  async isRequired(userId: number): Promise<boolean> {
+    return this.organizationsService.requiresTwoFactor(userId);
+  }
+
+  /**
+   * Require (or stop requiring) 2FA for the members of an organization the user manages. They have to turn it on
+   * for themselves first so they can't lock themselves out.
+   */
+  async setOrganizationPolicy(userId: number, organizationId: number, required: boolean): Promise<boolean> {
+    if (required && !await this.isEnabled(userId)) {
+      throw new BadRequestException('Turn on two-factor authentication for your own account first');
+    }
+
+    await this.organizationsService.setTwoFactorPolicy(userId, organizationId, required);
+    return required;
+  }
+
+  // ==================== ENROLLMENT ====================
+
+  /**
+   * Start (or restart) enrollment with a new secret. 2FA stays off until a code from the app is confirmed.
+   */
+  async enroll(userId: number, accountName: string): Promise<TwoFactorEnrollment> {
+    const existing = await this.twoFactorRepository.findOneBy({ userId });
+    if (existing?.enabledAt) {
+      throw new ConflictException('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.twoFactorRepository.save(
+      this.twoFactorRepository.create({ ...existing, userId, secret, lastUsedStep: null, failedAttempts: 0, lockedUntil: null }),
+    );
+
+    const issuer = this.configService.get<string>('auth.twoFactorIssuer') || 'Intrend';
+    return { secret, otpauthUri: buildOtpAuthUri(secret, accountName, issuer) };
+  }
+
+  /**
+   * Turn 2FA on with the first code from the app, returning the recovery codes to show the user once
+   */
+  async enable(userId: number, code: string): Promise<string[]> {
+    const record = await this.twoFactorRepository.findOneBy({ userId });
+    if (!record) {
+      throw new BadRequestException('Start two-factor enrollment first');
+    }
+    if (record.enabledAt) {
+      throw new ConflictException('Two-factor authentication is already enabled');
+    }
+
+    const step = verifyTotp(record.secret, code);
+    if (step === null) {
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    await this.twoFactorRepository.update(record.id, { enabledAt: new Date(), lastUsedStep: step, failedAttempts: 0, lockedUntil: null });
+    this.logger.log(`Two-factor authentication enabled for user ${userId}`);
+
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  /**
+   * Turn 2FA off after checking a code, unless an organization requires it
+   */
+  async disable(userId: number, code: string): Promise<void> {
+    if (await this.isRequired(userId)) {
+      throw new ForbiddenException('Your organization requires two-factor authentication');
+    }
+
+    await this.verify(userId, code);
+    await this.twoFactorRepository.delete({ userId });
+    await this.recoveryCodeRepository.delete({ userId });
+    this.logger.log(`Two-factor authentication disabled for user ${userId}`);
+  }
+
+  async regenerateRecoveryCodes(userId: number, code: string): Promise<string[]> {
+    await this.verify(userId, code);
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  // ==================== VERIFICATION ====================
+
+  /**
+   * Check an authenticator code or an unused recovery code. Each code works once, and repeated wrong codes
+   * lock the check for a while so six digits can't be guessed.
+   */
+  async verify(userId: number, code: string): Promise<void> {
+    const record = await this.findEnabled(userId);
+    if (!record) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (record.lockedUntil && record.lockedUntil > new Date()) {
+      throw new UnauthorizedException('Too many invalid codes; try again later');
+    }
+
+    if (await this.useTotp(record, code) || await this.useRecoveryCode(userId, code)) {
+      if (record.failedAttempts) {
+        await this.twoFactorRepository.update(record.id, { failedAttempts: 0 });
+      }
+      return;
+    }
+
+    const failedAttempts = record.failedAttempts + 1;
+    if (failedAttempts >= MAX_FAILED_ATTEMPTS) {
+      this.logger.warn(`Too many invalid two-factor codes for user ${userId}, locking code checks`);
+      await this.twoFactorRepository.update(record.id, { failedAttempts: 0, lockedUntil: new Date(Date.now() + LOCKOUT_MS) });
+    } else {
+      await this.twoFactorRepository.update(record.id, { failedAttempts });
+    }
+    throw new UnauthorizedException('Invalid two-factor code');
+  }
+
+  private async useTotp(record: TwoFactorAuth, code: string): Promise<boolean> {
+    const step = verifyTotp(record.secret, code);
+    if (step === null) {
+      return false;
+    }
+
+    // Claim the step atomically so the same code can't be replayed, even concurrently
+    const claimed = await this.twoFactorRepository.update(
+      { id: record.id, lastUsedStep: Or(IsNull(), LessThan(step)) },
+      { lastUsedStep: step },
+    );
+    return !!claimed.affected;
+  }
+
+  private async useRecoveryCode(userId: number, code: string): Promise<boolean> {
+    const used = await this.recoveryCodeRepository.update(
+      { userId, codeHash: this.hash(normalizeRecoveryCode(code)), usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (used.affected) {
+      this.logger.log(`Recovery code used by user ${userId}`);
+    }
+    return !!used.affected;
+  }
+
+  private async replaceRecoveryCodes(userId: number): Promise<string[]> {
+    const codes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+
+    await this.recoveryCodeRepository.delete({ userId });
+    await this.recoveryCodeRepository.save(
+      codes.map(code => this.recoveryCodeRepository.create({ userId, codeHash: this.hash(normalizeRecoveryCode(code)) })),
+    );
+
+    return codes;
+  }
+
+  private async findEnabled(userId: number): Promise<TwoFactorAuth | null> {
+    return this.twoFactorRepository.findOneBy({ userId, enabledAt: Not(IsNull()) });
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+}
@@ -0,0 +1,61 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull } from 'typeorm';
+import { randomBytes, createHash } from 'crypto';
+import { UserToken, UserTokenPurpose } from './entities/user-token.entity';
+
+/**
+ * Single-use, expiring tokens for the links in account emails and sign-in redirects, stored hashed in user_tokens
+ */
+@Injectable()
+export class UserTokensService {
+  constructor(
+    @InjectRepository(UserToken)
+    private readonly tokenRepository: Repository<UserToken>,
+  ) {}
+
+  /**
+   * Issue a token for the given purpose. Tokens issued earlier for the same purpose stop working, so only
+   * the link in the latest email is valid.
+   */
+  async issue(userId: number, email: string, purpose: UserTokenPurpose, ttlMs: number): Promise<string> {
+    await this.invalidate(userId, purpose);
+
+    const token = randomBytes(32).toString('base64url');
+    await this.tokenRepository.save(this.tokenRepository.create({
+      userId,
+      email,
+      purpose,
+      tokenHash: this.hash(token),
+      expiresAt: new Date(Date.now() + ttlMs),
+    }));
+
+    return token;
+  }
+
+  /**
+   * Use up a token, returning the row it was issued as
+   */
+  async consume(token: string, purpose: UserTokenPurpose): Promise<UserToken> {
+    const record = await this.tokenRepository.findOneBy({ tokenHash: this.hash(token), purpose });
+    if (!record || record.usedAt || record.expiresAt < new Date()) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    // Claim the token atomically so two concurrent requests can't both use it
+    const claimed = await this.tokenRepository.update({ id: record.id, usedAt: IsNull() }, { usedAt: new Date() });
+    if (!claimed.affected) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    return record;
+  }
+
+  async invalidate(userId: number, purpose: UserTokenPurpose): Promise<void> {
+    await this.tokenRepository.update({ userId, purpose, usedAt: IsNull() }, { usedAt: new Date() });
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+}
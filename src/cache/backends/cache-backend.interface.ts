@@ -0,0 +1,14 @@
+import { CacheEntry } from '../cache.util';
+
+export const CACHE_BACKEND = 'CACHE_BACKEND';
+
+/**
+ * Storage behind CacheService. Backends keep entries past their expiry; deciding whether an
+ * entry is fresh, stale or expired is left to the service.
+ */
+export interface CacheBackend {
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  deleteByPrefix(prefix: string): Promise<number>;
+}
@@ -0,0 +1,31 @@
+import { MemoryCacheBackend } from './memory-cache.backend';
+
+const entry = (key: string, value: unknown) => ({ key, value, storedAt: new Date(), expiresAt: new Date(Date.now() + 60000) });
+
+describe('MemoryCacheBackend', () => {
+  it('should evict the least recently used entry', async () => {
+    const backend = new MemoryCacheBackend(2);
+    await backend.set(entry('a', 1));
+    await backend.set(entry('b', 2));
+    await backend.get('a');
+    await backend.set(entry('c', 3));
+
+    expect(await backend.get('b')).toBeNull();
+    expect((await backend.get('a'))?.value).toBe(1);
+    expect((await backend.get('c'))?.value).toBe(3);
+  });
+
+  it('should return copies and delete by prefix', async () => {
+    const backend = new MemoryCacheBackend(10);
+    await backend.set(entry('tiktok:1:metrics', { spend: 1 }));
+    await backend.set(entry('tiktok:1:creatives', { ads: [] }));
+    await backend.set(entry('tiktok:10:metrics', { spend: 2 }));
+
+    const cached = await backend.get<{ spend: number }>('tiktok:1:metrics');
+    cached!.value.spend = 99;
+    expect((await backend.get<{ spend: number }>('tiktok:1:metrics'))?.value.spend).toBe(1);
+
+    expect(await backend.deleteByPrefix('tiktok:1:')).toBe(2);
+    expect(await backend.get('tiktok:10:metrics')).not.toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import { CacheBackend } from './cache-backend.interface';
+import { CacheEntry } from '../cache.util';
+
+/**
+ * Per-process LRU. Values are stored as JSON, like the Postgres backend, so callers never share
+ * (or mutate) a cached object.
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  private readonly entries = new Map<string, { json: string; storedAt: Date; expiresAt: Date }>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return Promise.resolve(null);
+    }
+
+    // Re-insert so Map order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    return Promise.resolve({ key, value: JSON.parse(entry.json) as T, storedAt: entry.storedAt, expiresAt: entry.expiresAt });
+  }
+
+  set<T>(entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, { json: JSON.stringify(entry.value), storedAt: entry.storedAt, expiresAt: entry.expiresAt });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  deleteByPrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+    return Promise.resolve(deleted);
+  }
+}
@@ -0,0 +1,33 @@
+import { Repository } from 'typeorm';
+import { CacheBackend } from './cache-backend.interface';
+import { CacheEntry } from '../cache.util';
+import { CacheEntryRecord } from '../entities/cache-entry.entity';
+
+/**
+ * Entries in the cache_entries table, shared by every instance and kept across restarts
+ */
+export class PostgresCacheBackend implements CacheBackend {
+  constructor(private readonly repository: Repository<CacheEntryRecord>) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const record = await this.repository.findOneBy({ key });
+    return record ? { key, value: record.value as T, storedAt: record.storedAt, expiresAt: record.expiresAt } : null;
+  }
+
+  async set<T>(entry: CacheEntry<T>): Promise<void> {
+    await this.repository.upsert({ key: entry.key, value: entry.value as any, storedAt: entry.storedAt, expiresAt: entry.expiresAt }, ['key']);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.repository.delete({ key });
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    // starts_with avoids escaping the `_` and `%` a LIKE pattern would treat as wildcards
+    const result = await this.repository.createQueryBuilder()
+      .delete()
+      .where('starts_with(key, :prefix)', { prefix })
+      .execute();
+    return result.affected || 0;
+  }
+}
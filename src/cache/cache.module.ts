@@ -0,0 +1,37 @@
+import { Module, Global } from '@nestjs/common';
+import { TypeOrmModule, getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { CacheService } from './cache.service';
+import { CACHE_BACKEND } from './backends/cache-backend.interface';
+import { MemoryCacheBackend } from './backends/memory-cache.backend';
+import { PostgresCacheBackend } from './backends/postgres-cache.backend';
+import { CacheEntryRecord } from './entities/cache-entry.entity';
+import { cacheConfig } from '../config/cache.config';
+
+@Global()
+@Module({
+  imports: [
+    ConfigModule.forFeature(cacheConfig),
+    TypeOrmModule.forFeature([CacheEntryRecord]),
+  ],
+  providers: [
+    {
+      provide: CACHE_BACKEND,
+      inject: [ConfigService, getRepositoryToken(CacheEntryRecord)],
+      useFactory: (configService: ConfigService, repository: Repository<CacheEntryRecord>) => {
+        const backend = configService.get<string>('cache.backend');
+        if (backend === 'memory') {
+          return new MemoryCacheBackend(configService.get<number>('cache.memoryMaxEntries') || 5000);
+        }
+        if (backend && backend !== 'postgres') {
+          throw new Error(`Unsupported cache backend: ${backend}. Expected postgres or memory`);
+        }
+        return new PostgresCacheBackend(repository);
+      },
+    },
+    CacheService,
+  ],
+  exports: [CacheService],
+})
+export class CacheModule {}
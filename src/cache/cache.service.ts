@@ -0,0 +1,123 @@
+import { Injectable, Inject, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { CacheBackend } from './backends/cache-backend.interface';
+import { CACHE_BACKEND } from './backends/cache-backend.interface';
+import { CacheDataType, accountCachePrefix, getEntryState } from './cache.util';
+import { AdPlatform } from '../common/interfaces/ad-platform.interface';
+
+export interface CachedValue<T> {
+  value: T;
+  cachedAt: Date;
+}
+
+const DEFAULT_TTL_SECONDS: Record<CacheDataType, number> = {
+  metrics: 300,
+  creatives: 86400,
+};
+
+/**
+ * One cache for every platform: namespaced keys (see cacheKey), a TTL per type of data,
+ * stale-while-revalidate, and a pluggable backend chosen with cache.backend
+ */
+@Injectable()
+export class CacheService {
+  private readonly logger = new Logger(CacheService.name);
+  private readonly staleWhileRevalidateMs: number;
+
+  // Loads in flight, so concurrent misses and background refreshes of a key share one platform call
+  private readonly loading = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(CACHE_BACKEND)
+    private readonly backend: CacheBackend,
+  ) {
+    this.staleWhileRevalidateMs = (this.configService.get<number>('cache.staleWhileRevalidate') ?? 3600) * 1000;
+  }
+
+  /**
+   * The cached value if it is still fresh
+   */
+  async get<T>(key: string): Promise<T | null> {
+    const entry = await this.backend.get<T>(key);
+    return entry && getEntryState(entry, 0) === 'fresh' ? entry.value : null;
+  }
+
+  async set<T>(key: string, type: CacheDataType, value: T): Promise<void> {
+    const storedAt = new Date();
+    await this.backend.set({ key, value, storedAt, expiresAt: new Date(storedAt.getTime() + this.getTtlMs(type)) });
+  }
+
+  /**
+   * Serve a fresh entry as is, a stale one while `load` refreshes it in the background,
+   * and otherwise wait for `load` and cache its result. Errors from `load` are not cached.
+   */
+  async getOrLoad<T>(key: string, type: CacheDataType, load: () => Promise<T>): Promise<T> {
+    const entry = await this.backend.get<T>(key);
+    const state = entry ? getEntryState(entry, this.staleWhileRevalidateMs) : 'expired';
+
+    if (entry && state === 'fresh') {
+      return entry.value;
+    }
+
+    if (entry && state === 'stale') {
+      this.load(key, type, load).catch((error: any) => this.logger.warn(`Background refresh of ${key} failed: ${error.message}`));
+      return entry.value;
+    }
+
+    return this.load(key, type, load);
+  }
+
+  /**
+   * The last value cached for a key however old, for answering while a platform is unavailable
+   */
+  async getLastKnown<T>(key: string): Promise<CachedValue<T> | null> {
+    const entry = await this.backend.get<T>(key);
+    return entry ? { value: entry.value, cachedAt: entry.storedAt } : null;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.backend.delete(key);
+  }
+
+  /**
+   * Drop every entry whose key starts with `prefix`
+   */
+  async invalidate(prefix: string): Promise<number> {
+    const deleted = await this.backend.deleteByPrefix(prefix);
+    if (deleted > 0) {
+      this.logger.log(`Invalidated ${deleted} cache entries under ${prefix}`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Drop everything cached for an ad account, e.g. when it is selected again or its token is refreshed
+   */
+  async invalidateAccount(platform: AdPlatform, adAccountId: string | null | undefined): Promise<void> {
+    if (adAccountId) {
+      await this.invalidate(accountCachePrefix(platform, adAccountId));
+    }
+  }
+
+  private load<T>(key: string, type: CacheDataType, load: () => Promise<T>): Promise<T> {
+    const inFlight = this.loading.get(key);
+    if (inFlight) {
+      return inFlight as Promise<T>;
+    }
+
+    const promise = load()
+      .then(async (value) => {
+        await this.set(key, type, value);
+        return value;
+      })
+      .finally(() => this.loading.delete(key));
+
+    this.loading.set(key, promise);
+    return promise;
+  }
+
+  private getTtlMs(type: CacheDataType): number {
+    return (this.configService.get<number>(`cache.ttl.${type}`) ?? DEFAULT_TTL_SECONDS[type]) * 1000;
+  }
+}
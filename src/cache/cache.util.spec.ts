@@ -0,0 +1,25 @@
+import { cacheKey, accountCachePrefix, getEntryState } from './cache.util';
+import { AdPlatform } from '../common/interfaces/ad-platform.interface';
+
+describe('cacheKey', () => {
+  it('should namespace keys under the account prefix', () => {
+    const key = cacheKey(AdPlatform.TIKTOK, '123', 'metrics', 'account', null, '2024-01-01_2024-01-31');
+
+    expect(key).toBe('tiktok:123:metrics:account::2024-01-01_2024-01-31');
+    expect(key.startsWith(accountCachePrefix(AdPlatform.TIKTOK, '123'))).toBe(true);
+    expect(key.startsWith(accountCachePrefix(AdPlatform.TIKTOK, '12'))).toBe(false);
+    expect(key.startsWith(accountCachePrefix(AdPlatform.TIKTOK, '123', 'metrics'))).toBe(true);
+    expect(key.startsWith(accountCachePrefix(AdPlatform.TIKTOK, '123', 'creatives'))).toBe(false);
+  });
+});
+
+describe('getEntryState', () => {
+  const entry = { expiresAt: new Date('2024-01-01T12:00:00Z') };
+
+  it('should be fresh before expiry, stale within the revalidate window and expired after it', () => {
+    expect(getEntryState(entry, 60000, new Date('2024-01-01T11:59:59Z'))).toBe('fresh');
+    expect(getEntryState(entry, 60000, new Date('2024-01-01T12:00:30Z'))).toBe('stale');
+    expect(getEntryState(entry, 60000, new Date('2024-01-01T12:01:00Z'))).toBe('expired');
+    expect(getEntryState(entry, 0, new Date('2024-01-01T12:00:00Z'))).toBe('expired');
+  });
+});
@@ -0,0 +1,38 @@
+import { AdPlatform } from '../common/interfaces/ad-platform.interface';
+
+export type CacheDataType = 'metrics' | 'creatives';
+
+export type CacheEntryState = 'fresh' | 'stale' | 'expired';
+
+export interface CacheEntry<T = unknown> {
+  key: string;
+  value: T;
+  storedAt: Date;
+  expiresAt: Date; // served as fresh until this point
+}
+
+/**
+ * Keys are namespaced `platform:adAccountId:type:...parts` so everything cached for an account
+ * can be dropped with one prefix
+ */
+export function cacheKey(platform: AdPlatform, adAccountId: string, type: CacheDataType, ...parts: (string | null | undefined)[]): string {
+  return [accountCachePrefix(platform, adAccountId) + type, ...parts.map(part => part ?? '')].join(':');
+}
+
+/**
+ * Prefix of every key cached for an account, or only those of one type of data
+ */
+export function accountCachePrefix(platform: AdPlatform, adAccountId: string, type?: CacheDataType): string {
+  return `${platform}:${adAccountId}:${type ? `${type}:` : ''}`;
+}
+
+/**
+ * Fresh until expiresAt, then stale (served while a refresh runs) for `staleWhileRevalidateMs`, then expired
+ */
+export function getEntryState(entry: Pick<CacheEntry, 'expiresAt'>, staleWhileRevalidateMs: number, now: Date = new Date()): CacheEntryState {
+  const expiresAt = entry.expiresAt.getTime();
+  if (now.getTime() < expiresAt) {
+    return 'fresh';
+  }
+  return now.getTime() < expiresAt + staleWhileRevalidateMs ? 'stale' : 'expired';
+}
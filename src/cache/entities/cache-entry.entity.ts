@@ -0,0 +1,18 @@
+import { Entity, Column, PrimaryColumn, Index } from 'typeorm';
+
+@Entity('cache_entries')
+@Index(['storedAt'])
+export class CacheEntryRecord {
+  // `platform:adAccountId:type:...`, see cacheKey()
+  @PrimaryColumn({ type: 'text' })
+  key: string;
+
+  @Column({ type: 'jsonb' })
+  value: any;
+
+  @Column({ name: 'stored_at', type: 'timestamp' })
+  storedAt: Date;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt: Date;
+}
@@ -1,7 +1,10 @@
 import { Controller, Get } from '@nestjs/common';
+import { PlatformRegistryService } from '../platforms/platform-registry.service';
 
 @Controller('health')
 export class HealthController {
+  constructor(private readonly platformRegistry: PlatformRegistryService) {}
+
   @Get()
   check() {
     return { 
@@ -16,8 +19,20 @@ export class HealthController {
   ready() {
     // Add more sophisticated readiness checks here
     // e.g., database connection, external service availability
+    const platforms = Object.fromEntries(
+      this.platformRegistry.getAll().map(({ platform, service }) => [platform, service.getCircuitStatus()]),
+    );
+
+    // An open circuit degrades that platform (served from cache) but the API itself stays ready
+    const degraded = Object.entries(platforms)
+      .filter(([, circuit]) => circuit.state !== 'closed')
+      .map(([platform]) => platform);
+
     return { 
       ready: true, 
+      status: degraded.length > 0 ? 'degraded' : 'ok',
+      degraded,
+      platforms,
       timestamp: new Date().toISOString(),
     };
   }
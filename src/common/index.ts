@@ -1,2 +1,3 @@
 export * from './interfaces';
 export * from './services';
+export * from './utils';
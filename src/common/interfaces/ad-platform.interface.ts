@@ -20,10 +20,22 @@ export interface PlatformSession {
   refreshToken?: string;
   adAccountId?: string;
   tokenExpiresAt?: Date;
+  identityId?: string | null; // the platform's id for the login behind the token, where one session per login is kept
+  identityName?: string | null;
+  needsReauth?: boolean; // the token could not be refreshed and the user has to reconnect
+  reauthReason?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * The platform login a token belongs to
+ */
+export interface SessionIdentity {
+  id: string;
+  name?: string;
+}
+
 export interface PlatformMetrics {
   impressions: number;
   clicks: number;
@@ -36,6 +48,19 @@ export interface PlatformMetrics {
   conversions?: number;
   costPerConversion?: number;
   roas?: number;
+  revenue?: number;
+  currency?: string; // ISO 4217 code the monetary values are reported in
+}
+
+/**
+ * One ad's metrics for one day in the ad account's timezone, with its place in the hierarchy
+ */
+export interface DailyAdMetrics {
+  date: string; // YYYY-MM-DD
+  campaignId: string;
+  adGroupId: string;
+  adId: string;
+  metrics: PlatformMetrics;
 }
 
 export interface PlatformCampaign {
@@ -99,6 +124,8 @@ export interface PlatformApiResponse<T> {
     page?: number;
     totalCount?: number;
   };
+  stale?: boolean; // served from cache because the platform is unavailable
+  cachedAt?: Date;
 }
 
 export interface AIAnalysisResult {
@@ -1,5 +1,11 @@
-import { Logger } from '@nestjs/common';
-import { AdPlatform, PlatformSession, PlatformMetrics, PlatformCampaign, PlatformAdGroup, PlatformAd, PlatformDateRange, PlatformApiResponse } from '../interfaces/ad-platform.interface';
+import { Logger, ServiceUnavailableException } from '@nestjs/common';
+import { AdPlatform, PlatformSession, PlatformMetrics, PlatformCampaign, PlatformAdGroup, PlatformAd, PlatformDateRange, PlatformApiResponse, DailyAdMetrics } from '../interfaces/ad-platform.interface';
+import { resolveDateRange } from '../utils/date-range.util';
+import { CircuitBreaker, CircuitStatus } from '../utils/circuit-breaker.util';
+import { RateLimit, RateLimiter, RetryPolicy, DEFAULT_RATE_LIMIT, DEFAULT_RETRY_POLICY, RETRYABLE_STATUSES, backoffDelay, parseRetryAfter } from '../utils/rate-limit.util';
+
+// A platform call that takes longer than this counts as a failure
+const REQUEST_TIMEOUT_MS = 30000;
 
 /**
  * Abstract base service for all ad platform integrations
@@ -10,40 +16,85 @@ export abstract class BaseAdPlatformService {
   protected abstract readonly logger: Logger;
   protected abstract readonly apiVersion: string;
   protected abstract readonly baseUrl: string;
+  private rateLimiterInstance?: RateLimiter;
+  private readonly circuitBreaker = new CircuitBreaker();
 
-  // Session Management
+  // Session Management. Where a platform allows several connected identities per user, each is its own
+  // session and getSession returns the most recently used one; sessionId picks a specific identity.
   abstract saveSession(userId: number, accessToken: string, refreshToken?: string, adAccountId?: string, tokenExpiresAt?: Date): Promise<PlatformSession>;
   abstract getSession(userId: number): Promise<PlatformSession | null>;
-  abstract deleteSession(userId: number): Promise<void>;
-  abstract refreshAccessToken(userId: number): Promise<PlatformSession>;
+  abstract deleteSession(userId: number, sessionId?: number): Promise<void>;
+  abstract getConnectedSessions(): Promise<PlatformSession[]>; // every user's session with an ad account selected
+  abstract refreshAccessToken(userId: number, sessionId?: number): Promise<PlatformSession>;
+  abstract getSessionsExpiringBefore(date: Date): Promise<PlatformSession[]>; // skips sessions already flagged for re-auth
+  abstract markNeedsReauth(userId: number, reason: string, sessionId?: number): Promise<void>;
+
+  /**
+   * Every identity the user has connected; platforms with one session per user return just that one
+   */
+  async getSessions(userId: number): Promise<PlatformSession[]> {
+    const session = await this.getSession(userId);
+    return session ? [session] : [];
+  }
+
+  async getSessionById(userId: number, sessionId: number): Promise<PlatformSession | null> {
+    const sessions = await this.getSessions(userId);
+    return sessions.find(session => session.id === sessionId) || null;
+  }
+
+  // Account
+  abstract getAccountCurrency(accessToken: string, adAccountId: string): Promise<string>;
+  abstract getAccountTimezone(accessToken: string, adAccountId: string): Promise<string>;
+
+  /**
+   * Resolve a preset such as last_7d against the ad account's own calendar; explicit ranges pass through
+   */
+  async resolveAccountDateRange(
+    accessToken: string,
+    adAccountId: string,
+    dateRange?: string | PlatformDateRange,
+  ): Promise<PlatformDateRange> {
+    if (dateRange && typeof dateRange !== 'string') {
+      return dateRange;
+    }
+
+    const timezone = await this.getAccountTimezone(accessToken, adAccountId);
+    return resolveDateRange(dateRange, timezone);
+  }
 
   // Campaign Operations
+  // Platforms that nest every object under its ad account (e.g. LinkedIn) receive it as the trailing argument
   abstract getCampaigns(accessToken: string, adAccountId: string, dateRange?: PlatformDateRange): Promise<PlatformApiResponse<PlatformCampaign[]>>;
-  abstract getCampaign(accessToken: string, campaignId: string): Promise<PlatformApiResponse<PlatformCampaign>>;
+  abstract getCampaign(accessToken: string, campaignId: string, adAccountId?: string): Promise<PlatformApiResponse<PlatformCampaign>>;
 
   // Ad Group Operations
-  abstract getAdGroups(accessToken: string, campaignId: string, dateRange?: PlatformDateRange): Promise<PlatformApiResponse<PlatformAdGroup[]>>;
-  abstract getAdGroup(accessToken: string, adGroupId: string): Promise<PlatformApiResponse<PlatformAdGroup>>;
+  abstract getAdGroups(accessToken: string, campaignId: string, dateRange?: PlatformDateRange, adAccountId?: string): Promise<PlatformApiResponse<PlatformAdGroup[]>>;
+  abstract getAdGroup(accessToken: string, adGroupId: string, adAccountId?: string): Promise<PlatformApiResponse<PlatformAdGroup>>;
 
   // Ad Operations
-  abstract getAds(accessToken: string, adGroupId: string, dateRange?: PlatformDateRange): Promise<PlatformApiResponse<PlatformAd[]>>;
-  abstract getAd(accessToken: string, adId: string): Promise<PlatformApiResponse<PlatformAd>>;
+  abstract getAds(accessToken: string, adGroupId: string, dateRange?: PlatformDateRange, adAccountId?: string): Promise<PlatformApiResponse<PlatformAd[]>>;
+  abstract getAd(accessToken: string, adId: string, adAccountId?: string): Promise<PlatformApiResponse<PlatformAd>>;
 
   // Metrics
   abstract getAccountMetrics(accessToken: string, adAccountId: string, dateRange: PlatformDateRange): Promise<PlatformApiResponse<PlatformMetrics>>;
-  abstract getCampaignMetrics(accessToken: string, campaignId: string, dateRange: PlatformDateRange): Promise<PlatformApiResponse<PlatformMetrics>>;
+  abstract getCampaignMetrics(accessToken: string, campaignId: string, dateRange: PlatformDateRange, adAccountId?: string): Promise<PlatformApiResponse<PlatformMetrics>>;
+  abstract getDailyAdMetrics(accessToken: string, adAccountId: string, dateRange: PlatformDateRange): Promise<PlatformApiResponse<DailyAdMetrics[]>>;
 
   // Common utility methods
+  protected getRequestHeaders(accessToken: string): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    };
+  }
+
   protected async makeApiCall<T>(
     url: string,
     accessToken: string,
     params?: Record<string, any>,
     method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
   ): Promise<T> {
-    const headers: Record<string, string> = {
-      'Authorization': `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    };
+    const headers = this.getRequestHeaders(accessToken);
 
     const options: RequestInit = {
       method,
@@ -64,7 +115,7 @@ export abstract class BaseAdPlatformService {
     }
 
     try {
-      const response = await fetch(finalUrl, options);
+      const response = await this.fetchWithRetry(finalUrl, options, this.getRateLimitKey(finalUrl));
       if (!response.ok) {
         const errorText = await response.text();
         this.logger.error(`API call failed: ${response.status} - ${errorText}`);
@@ -77,6 +128,107 @@ export abstract class BaseAdPlatformService {
     }
   }
 
+  // ==================== RATE LIMITING ====================
+
+  /**
+   * Requests allowed per rate limit key; override where the platform publishes its own limits
+   */
+  protected getRateLimit(): RateLimit {
+    return DEFAULT_RATE_LIMIT;
+  }
+
+  protected getRetryPolicy(): RetryPolicy {
+    return DEFAULT_RETRY_POLICY;
+  }
+
+  /**
+   * Platforms meter usage per ad account, so platforms override this to key calls by the account in the URL.
+   * Falls back to one bucket per API host.
+   */
+  protected getRateLimitKey(url: string): string {
+    return new URL(url).host;
+  }
+
+  protected get rateLimiter(): RateLimiter {
+    if (!this.rateLimiterInstance) {
+      this.rateLimiterInstance = new RateLimiter(this.getRateLimit());
+    }
+    return this.rateLimiterInstance;
+  }
+
+  /**
+   * How long to wait before retrying a response, or null to hand it back to the caller.
+   * Retries 429 and 5xx, honoring Retry-After; platforms that signal throttling in headers or
+   * the body extend this.
+   */
+  protected getRetryDelay(response: Response, attempt: number): Promise<number | null> {
+    if (!RETRYABLE_STATUSES.includes(response.status)) {
+      return Promise.resolve(null);
+    }
+    return Promise.resolve(parseRetryAfter(response.headers.get('retry-after')) ?? backoffDelay(attempt, this.getRetryPolicy()));
+  }
+
+  /**
+   * fetch() behind the circuit breaker and the per-key token bucket, retrying throttled responses and
+   * network errors with backoff. Pass `init` as a function when each attempt needs fresh headers
+   * (e.g. a new OAuth 1.0a nonce). Throws ServiceUnavailableException while the breaker is open.
+   */
+  protected async fetchWithRetry(url: string, init: RequestInit | (() => RequestInit) = {}, rateLimitKey: string = 'default'): Promise<Response> {
+    const { maxRetries } = this.getRetryPolicy();
+
+    for (let attempt = 0; ; attempt++) {
+      if (!this.circuitBreaker.canRequest()) {
+        throw new ServiceUnavailableException(`${this.platform} API is unavailable, retry after ${this.circuitBreaker.getStatus().retryAt?.toISOString()}`);
+      }
+
+      await this.rateLimiter.acquire(rateLimitKey);
+
+      let response: Response;
+      try {
+        const options = typeof init === 'function' ? init() : init;
+        response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS), ...options });
+      } catch (error: any) {
+        // Network errors and timeouts are what an outage looks like
+        this.circuitBreaker.recordFailure();
+        if (attempt >= maxRetries) {
+          throw error;
+        }
+        const delay = backoffDelay(attempt, this.getRetryPolicy());
+        this.logger.warn(`${this.platform} request failed (${error.message}), retrying in ${delay}ms (${attempt + 1}/${maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
+      }
+
+      // Throttling and client errors mean the platform is up
+      if (response.status >= 500) {
+        this.circuitBreaker.recordFailure();
+      } else {
+        this.circuitBreaker.recordSuccess();
+      }
+
+      const delay = await this.getRetryDelay(response, attempt);
+      if (delay === null || attempt >= maxRetries) {
+        return response;
+      }
+
+      // Pausing the bucket rather than just this call keeps concurrent callers off the account too
+      this.rateLimiter.pause(rateLimitKey, delay);
+      this.logger.warn(`${this.platform} API throttled (${response.status}), retrying in ${delay}ms (${attempt + 1}/${maxRetries})`);
+    }
+  }
+
+  getCircuitStatus(): CircuitStatus {
+    return this.circuitBreaker.getStatus();
+  }
+
+  /**
+   * True when the error means the platform is down (breaker open) rather than the request being wrong,
+   * i.e. when it is worth answering from cache instead
+   */
+  protected isPlatformUnavailable(error: unknown): boolean {
+    return error instanceof ServiceUnavailableException;
+  }
+
   protected formatDateRange(dateRange: PlatformDateRange): { since: string; until: string } {
     return {
       since: dateRange.since,
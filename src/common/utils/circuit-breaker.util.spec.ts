@@ -0,0 +1,38 @@
+import { CircuitBreaker } from './circuit-breaker.util';
+
+describe('CircuitBreaker', () => {
+  const options = { failureThreshold: 3, resetTimeoutMs: 1000 };
+
+  it('should open after consecutive failures and stay closed while calls succeed', () => {
+    const breaker = new CircuitBreaker(options);
+
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+    breaker.recordSuccess();
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+    expect(breaker.canRequest(0)).toBe(true);
+
+    breaker.recordFailure(0);
+    expect(breaker.canRequest(500)).toBe(false);
+    expect(breaker.getStatus()).toMatchObject({ state: 'open', failures: 3, retryAt: new Date(1000) });
+  });
+
+  it('should let a single probe through once the reset timeout passes', () => {
+    const breaker = new CircuitBreaker(options);
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure(0);
+    }
+
+    expect(breaker.canRequest(1000)).toBe(true);
+    expect(breaker.canRequest(1000)).toBe(false);
+
+    breaker.recordFailure(1000);
+    expect(breaker.getStatus().state).toBe('open');
+    expect(breaker.canRequest(1500)).toBe(false);
+
+    expect(breaker.canRequest(2000)).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.getStatus()).toEqual({ state: 'closed', failures: 0 });
+  });
+});
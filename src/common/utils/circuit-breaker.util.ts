@@ -0,0 +1,74 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // consecutive failures that trip the breaker
+  resetTimeoutMs: number; // how long it stays open before letting a probe request through
+}
+
+export interface CircuitStatus {
+  state: CircuitState;
+  failures: number;
+  openedAt?: Date;
+  retryAt?: Date;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = { failureThreshold: 5, resetTimeoutMs: 30000 };
+
+/**
+ * Stops calling a dependency after repeated failures. Once the reset timeout passes a single probe
+ * is let through (half open): success closes the breaker again, failure re-opens it.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+
+  constructor(private readonly options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS) {}
+
+  canRequest(now: number = Date.now()): boolean {
+    if (this.state === 'open' && now >= this.openedAt + this.options.resetTimeoutMs) {
+      this.state = 'half_open';
+      this.probeInFlight = false;
+    }
+
+    if (this.state === 'half_open') {
+      if (this.probeInFlight) {
+        return false;
+      }
+      this.probeInFlight = true;
+      return true;
+    }
+
+    return this.state === 'closed';
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(now: number = Date.now()): void {
+    this.failures += 1;
+    this.probeInFlight = false;
+
+    if (this.state === 'half_open' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  getStatus(): CircuitStatus {
+    if (this.state === 'closed') {
+      return { state: this.state, failures: this.failures };
+    }
+
+    return {
+      state: this.state,
+      failures: this.failures,
+      openedAt: new Date(this.openedAt),
+      retryAt: new Date(this.openedAt + this.options.resetTimeoutMs),
+    };
+  }
+}
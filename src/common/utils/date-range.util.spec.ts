@@ -0,0 +1,54 @@
+import { resolveDateRange, isDatePreset, splitDateRange, addDays, addMonths, countDays, toAccountMidnight } from './date-range.util';
+
+describe('resolveDateRange', () => {
+  // 03:30 UTC on 1 March is still 28 February in Los Angeles
+  const now = new Date('2024-03-01T03:30:00Z');
+
+  it('should resolve "today" in the account timezone', () => {
+    expect(resolveDateRange('today', 'UTC', now)).toEqual({ since: '2024-03-01', until: '2024-03-01' });
+    expect(resolveDateRange('today', 'America/Los_Angeles', now)).toEqual({ since: '2024-02-29', until: '2024-02-29' });
+  });
+
+  it('should end rolling presets yesterday', () => {
+    expect(resolveDateRange('last_7d', 'UTC', now)).toEqual({ since: '2024-02-23', until: '2024-02-29' });
+    expect(resolveDateRange('last_7d', 'America/Los_Angeles', now)).toEqual({ since: '2024-02-22', until: '2024-02-28' });
+  });
+
+  it('should resolve calendar month presets', () => {
+    expect(resolveDateRange('this_month', 'Asia/Tokyo', now)).toEqual({ since: '2024-03-01', until: '2024-03-01' });
+    expect(resolveDateRange('last_month', 'UTC', now)).toEqual({ since: '2024-02-01', until: '2024-02-29' });
+  });
+
+  it('should pass explicit ranges through and fall back for unknown input', () => {
+    expect(resolveDateRange({ since: '2024-01-01', until: '2024-01-31' }, 'Asia/Tokyo', now))
+      .toEqual({ since: '2024-01-01', until: '2024-01-31' });
+    expect(resolveDateRange('lifetime', 'Not/AZone', now)).toEqual({ since: '2024-01-31', until: '2024-02-29' });
+    expect(isDatePreset('last_30d')).toBe(true);
+    expect(isDatePreset('last_31d')).toBe(false);
+  });
+});
+
+describe('splitDateRange', () => {
+  it('should split a range into chunks of at most maxDays', () => {
+    expect(splitDateRange({ since: '2024-02-25', until: '2024-03-05' }, 4)).toEqual([
+      { since: '2024-02-25', until: '2024-02-28' },
+      { since: '2024-02-29', until: '2024-03-03' },
+      { since: '2024-03-04', until: '2024-03-05' },
+    ]);
+    expect(splitDateRange({ since: '2024-03-01', until: '2024-03-01' }, 30)).toEqual([{ since: '2024-03-01', until: '2024-03-01' }]);
+    expect(splitDateRange({ since: '2024-03-02', until: '2024-03-01' }, 30)).toEqual([]);
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+    expect(addMonths('2024-03-31', -1)).toBe('2024-02-29');
+    expect(countDays({ since: '2024-02-25', until: '2024-03-05' })).toBe(10);
+  });
+});
+
+describe('toAccountMidnight', () => {
+  it('should use the offset in effect at midnight, across DST changes', () => {
+    // New York moves to daylight time at 02:00 on 10 March 2024; midnight that day is still EST
+    expect(toAccountMidnight('2024-03-10', 'America/New_York')).toBe('2024-03-10T00:00:00.000-05:00');
+    expect(toAccountMidnight('2024-03-11', 'America/New_York')).toBe('2024-03-11T00:00:00.000-04:00');
+    expect(toAccountMidnight('2024-03-10', 'Asia/Kolkata')).toBe('2024-03-10T00:00:00.000+05:30');
+    expect(toAccountMidnight('2024-03-10', 'Not/AZone')).toBe('2024-03-10T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,123 @@
+import { DateTime } from 'luxon';
+import { PlatformDateRange } from '../interfaces/ad-platform.interface';
+
+export const DATE_PRESETS = [
+  'today',
+  'yesterday',
+  'last_7d',
+  'last_14d',
+  'last_30d',
+  'last_90d',
+  'this_month',
+  'last_month',
+] as const;
+
+export type DatePreset = typeof DATE_PRESETS[number];
+
+export const DEFAULT_DATE_PRESET: DatePreset = 'last_30d';
+
+export function isDatePreset(value: unknown): value is DatePreset {
+  return typeof value === 'string' && (DATE_PRESETS as readonly string[]).includes(value);
+}
+
+/**
+ * Turn a preset (or an explicit range, returned as-is) into concrete YYYY-MM-DD dates as seen
+ * from the ad account's timezone. `last_Nd` presets end yesterday, matching Facebook's semantics.
+ * Unknown presets fall back to `fallback`, and an invalid timezone to UTC.
+ */
+export function resolveDateRange(
+  dateRange: string | PlatformDateRange | undefined,
+  timezone: string = 'UTC',
+  now: Date = new Date(),
+  fallback: DatePreset = DEFAULT_DATE_PRESET,
+): PlatformDateRange {
+  if (dateRange && typeof dateRange !== 'string') {
+    return dateRange;
+  }
+
+  let today = DateTime.fromJSDate(now, { zone: timezone || 'UTC' });
+  if (!today.isValid) {
+    today = DateTime.fromJSDate(now, { zone: 'UTC' });
+  }
+  today = today.startOf('day');
+
+  const preset = isDatePreset(dateRange) ? dateRange : fallback;
+  const yesterday = today.minus({ days: 1 });
+
+  switch (preset) {
+    case 'today':
+      return toRange(today, today);
+    case 'yesterday':
+      return toRange(yesterday, yesterday);
+    case 'last_7d':
+      return toRange(today.minus({ days: 7 }), yesterday);
+    case 'last_14d':
+      return toRange(today.minus({ days: 14 }), yesterday);
+    case 'last_30d':
+      return toRange(today.minus({ days: 30 }), yesterday);
+    case 'last_90d':
+      return toRange(today.minus({ days: 90 }), yesterday);
+    case 'this_month':
+      return toRange(today.startOf('month'), today);
+    case 'last_month': {
+      const lastMonth = today.minus({ months: 1 });
+      return toRange(lastMonth.startOf('month'), lastMonth.endOf('month'));
+    }
+  }
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of calendar days
+ */
+export function addDays(date: string, days: number): string {
+  return DateTime.fromISO(date, { zone: 'UTC' }).plus({ days }).toISODate()!;
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of calendar months, clamping to the end of shorter months
+ */
+export function addMonths(date: string, months: number): string {
+  return DateTime.fromISO(date, { zone: 'UTC' }).plus({ months }).toISODate()!;
+}
+
+/**
+ * Midnight of a YYYY-MM-DD date in the given IANA timezone, as an ISO 8601 timestamp with offset. An invalid
+ * timezone falls back to UTC.
+ */
+export function toAccountMidnight(date: string, timezone: string): string {
+  let midnight = DateTime.fromISO(date, { zone: timezone || 'UTC' }).startOf('day');
+  if (!midnight.isValid) {
+    midnight = DateTime.fromISO(date, { zone: 'UTC' });
+  }
+  return midnight.toISO()!;
+}
+
+/**
+ * Number of days in an inclusive range (0 when since is after until)
+ */
+export function countDays(dateRange: PlatformDateRange): number {
+  const days = DateTime.fromISO(dateRange.until, { zone: 'UTC' }).diff(DateTime.fromISO(dateRange.since, { zone: 'UTC' }), 'days').days + 1;
+  return Math.max(Math.round(days), 0);
+}
+
+/**
+ * Break an inclusive range into consecutive chunks of at most `maxDays` days, for APIs that cap
+ * how many days a single report may cover
+ */
+export function splitDateRange(dateRange: PlatformDateRange, maxDays: number): PlatformDateRange[] {
+  const end = DateTime.fromISO(dateRange.until, { zone: 'UTC' });
+  const chunks: PlatformDateRange[] = [];
+
+  let start = DateTime.fromISO(dateRange.since, { zone: 'UTC' });
+  while (start <= end) {
+    const chunkEnd = DateTime.min(start.plus({ days: Math.max(maxDays, 1) - 1 }), end);
+    chunks.push(toRange(start, chunkEnd));
+    start = chunkEnd.plus({ days: 1 });
+  }
+
+  return chunks;
+}
+
+function toRange(since: DateTime, until: DateTime): PlatformDateRange {
+  return { since: since.toISODate()!, until: until.toISODate()! };
+}
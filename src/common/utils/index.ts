@@ -0,0 +1,3 @@
+export * from './date-range.util';
+export * from './rate-limit.util';
+export * from './circuit-breaker.util';
@@ -0,0 +1,76 @@
+import { TokenBucket, RateLimiter, backoffDelay, parseRetryAfter, parseFacebookUsage } from './rate-limit.util';
+
+describe('TokenBucket', () => {
+  it('should allow a burst up to the limit and then refill evenly', () => {
+    const bucket = new TokenBucket({ requests: 2, windowMs: 1000 }, 0);
+
+    expect(bucket.take(0)).toBe(0);
+    expect(bucket.take(0)).toBe(0);
+    expect(bucket.take(0)).toBe(500);
+    expect(bucket.take(500)).toBe(0);
+  });
+
+  it('should hold callers back while paused', () => {
+    const bucket = new TokenBucket({ requests: 10, windowMs: 1000 }, 0);
+    bucket.pause(3000, 0);
+
+    expect(bucket.take(1000)).toBe(2000);
+    expect(bucket.take(3000)).toBe(0);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('should drop buckets only once they are full and unused', async () => {
+    const limiter = new RateLimiter({ requests: 2, windowMs: 1000 }, 60000);
+    await limiter.acquire('act_1');
+    await limiter.acquire('act_2');
+    limiter.pause('act_2', 120000);
+    expect(limiter.size).toBe(2);
+
+    limiter.evictIdle(Date.now() + 30000);
+    expect(limiter.size).toBe(2);
+
+    // act_2 is still paused, so it keeps its bucket
+    limiter.evictIdle(Date.now() + 90000);
+    expect(limiter.size).toBe(1);
+
+    limiter.evictIdle(Date.now() + 150000);
+    expect(limiter.size).toBe(0);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('should grow exponentially up to the cap', () => {
+    const policy = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+
+    expect(backoffDelay(0, policy, 1)).toBe(100);
+    expect(backoffDelay(2, policy, 1)).toBe(400);
+    expect(backoffDelay(6, policy, 1)).toBe(1000);
+    expect(backoffDelay(2, policy, 0)).toBe(200);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should accept delta seconds and HTTP dates', () => {
+    const now = Date.parse('2024-03-01T00:00:00Z');
+
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter('Fri, 01 Mar 2024 00:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('soon', now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+});
+
+describe('parseFacebookUsage', () => {
+  it('should report the highest usage and the longest wait across headers', () => {
+    const headers = new Map<string, string>([
+      ['x-app-usage', JSON.stringify({ call_count: 12, total_cputime: 5, total_time: 8 })],
+      ['x-business-use-case-usage', JSON.stringify({
+        '1234': [{ type: 'ads_insights', call_count: 100, total_cputime: 40, total_time: 60, estimated_time_to_regain_access: 2 }],
+      })],
+    ]);
+
+    expect(parseFacebookUsage({ get: name => headers.get(name) ?? null })).toEqual({ usage: 100, regainAccessMs: 120000 });
+    expect(parseFacebookUsage({ get: () => 'not json' })).toEqual({ usage: 0, regainAccessMs: 0 });
+  });
+});
@@ -0,0 +1,200 @@
+export interface RateLimit {
+  requests: number;
+  windowMs: number;
+}
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimit = { requests: 10, windowMs: 1000 };
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxRetries: 4, baseDelayMs: 500, maxDelayMs: 60000 };
+
+export const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+
+// How long a full, unused bucket is kept before RateLimiter drops it
+export const DEFAULT_BUCKET_IDLE_MS = 10 * 60 * 1000;
+
+/**
+ * Classic token bucket: holds up to `requests` tokens and refills them evenly over `windowMs`
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+  private blockedUntil = 0;
+
+  constructor(private readonly limit: RateLimit, now: number = Date.now()) {
+    this.tokens = limit.requests;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Take a token if one is available and return 0, otherwise return how many ms until one is
+   */
+  take(now: number = Date.now()): number {
+    this.refill(now);
+
+    if (now < this.blockedUntil) {
+      return this.blockedUntil - now;
+    }
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - this.tokens) * (this.limit.windowMs / this.limit.requests));
+  }
+
+  /**
+   * Hold every caller back for `ms`, e.g. when the platform says it is throttling us
+   */
+  pause(ms: number, now: number = Date.now()): void {
+    this.blockedUntil = Math.max(this.blockedUntil, now + ms);
+    this.tokens = 0;
+  }
+
+  /**
+   * Whether the bucket is full again, not paused, and hasn't been used for `idleMs`; such a bucket behaves exactly
+   * like a new one
+   */
+  isIdle(idleMs: number, now: number = Date.now()): boolean {
+    const elapsed = now - this.updatedAt;
+    const tokens = this.tokens + (Math.max(elapsed, 0) * this.limit.requests) / this.limit.windowMs;
+    return elapsed >= idleMs && now >= this.blockedUntil && tokens >= this.limit.requests;
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(now - this.updatedAt, 0);
+    this.tokens = Math.min(this.limit.requests, this.tokens + (elapsed * this.limit.requests) / this.limit.windowMs);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * One token bucket per key (typically an ad account) sharing the same limit. Idle buckets are dropped as new
+ * keys come and go, so the map doesn't grow with every account ever seen.
+ */
+export class RateLimiter {
+  private readonly buckets = new Map<string, TokenBucket>();
+  private sweptAt = Date.now();
+
+  constructor(
+    private readonly limit: RateLimit,
+    private readonly idleMs: number = DEFAULT_BUCKET_IDLE_MS,
+  ) {}
+
+  get size(): number {
+    return this.buckets.size;
+  }
+
+  async acquire(key: string): Promise<void> {
+    const bucket = this.getBucket(key);
+
+    let wait = bucket.take();
+    while (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+      wait = bucket.take();
+    }
+  }
+
+  pause(key: string, ms: number): void {
+    this.getBucket(key).pause(ms);
+  }
+
+  /**
+   * Drop the buckets that have been full and unused for `idleMs`. Buckets with waiters are never full, so
+   * nobody holding one is affected.
+   */
+  evictIdle(now: number = Date.now()): void {
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.isIdle(this.idleMs, now)) {
+        this.buckets.delete(key);
+      }
+    }
+    this.sweptAt = now;
+  }
+
+  private getBucket(key: string): TokenBucket {
+    const now = Date.now();
+    if (now - this.sweptAt >= this.idleMs) {
+      this.evictIdle(now);
+    }
+
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(this.limit, now);
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+}
+
+/**
+ * Exponential backoff with jitter: base * 2^attempt, capped, then scaled into [50%, 100%]
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY, random: number = Math.random()): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling * (0.5 + random / 2));
+}
+
+/**
+ * A Retry-After header (delta seconds or an HTTP date) in ms, or null when absent or unparseable
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+
+  if (/^\d+(\.\d+)?$/.test(value.trim())) {
+    return Math.round(parseFloat(value) * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(date - now, 0);
+}
+
+/**
+ * Highest usage percentage and longest wait reported in Facebook's x-app-usage, x-ad-account-usage
+ * and x-business-use-case-usage headers
+ */
+export function parseFacebookUsage(headers: { get(name: string): string | null }): { usage: number; regainAccessMs: number } {
+  let usage = 0;
+  let regainAccessMs = 0;
+
+  const parse = (name: string): any => {
+    try {
+      const value = headers.get(name);
+      return value ? JSON.parse(value) : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const appUsage = parse('x-app-usage');
+  if (appUsage) {
+    usage = Math.max(usage, appUsage.call_count || 0, appUsage.total_cputime || 0, appUsage.total_time || 0);
+  }
+
+  const accountUsage = parse('x-ad-account-usage');
+  if (accountUsage) {
+    usage = Math.max(usage, accountUsage.acc_id_util_pct || 0);
+    if (accountUsage.acc_id_util_pct >= 100 && accountUsage.reset_time_duration) {
+      regainAccessMs = Math.max(regainAccessMs, accountUsage.reset_time_duration * 1000);
+    }
+  }
+
+  // { "<business id>": [{ type, call_count, total_cputime, total_time, estimated_time_to_regain_access (minutes) }] }
+  const businessUsage = parse('x-business-use-case-usage');
+  if (businessUsage) {
+    for (const entries of Object.values<any[]>(businessUsage)) {
+      for (const entry of entries || []) {
+        usage = Math.max(usage, entry.call_count || 0, entry.total_cputime || 0, entry.total_time || 0);
+        regainAccessMs = Math.max(regainAccessMs, (entry.estimated_time_to_regain_access || 0) * 60 * 1000);
+      }
+    }
+  }
+
+  return { usage, regainAccessMs };
+}
@@ -2,7 +2,17 @@ import { registerAs } from '@nestjs/config';
 
 export const authConfig = registerAs('auth', () => ({
   jwtSecret: process.env.JWT_SECRET || 'your-secret-key-change-in-production',
-  jwtExpiresIn: process.env.JWT_EXPIRES_IN || '7d',
+  // Access tokens are short-lived; clients renew them with the refresh token at POST /auth/refresh
+  jwtExpiresIn: process.env.JWT_EXPIRES_IN || '15m',
+  refreshTokenTtlDays: parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10),
+
+  // How long the links in password reset and email verification emails work
+  passwordResetTtlMinutes: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10),
+  emailVerificationTtlHours: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '48', 10),
+
+  // Name shown for the account in authenticator apps, and how long the second login step can take
+  twoFactorIssuer: process.env.TWO_FACTOR_ISSUER || 'Intrend',
+  twoFactorChallengeTtl: process.env.TWO_FACTOR_CHALLENGE_TTL || '5m',
   
   // Google OAuth
   googleClientId: process.env.GOOGLE_CLIENT_ID,
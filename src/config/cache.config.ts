@@ -0,0 +1,18 @@
+import { registerAs } from '@nestjs/config';
+
+export const cacheConfig = registerAs('cache', () => ({
+  // 'postgres' shares entries across instances and survives restarts; 'memory' is a per-process LRU
+  backend: process.env.CACHE_BACKEND || 'postgres',
+
+  // Entries kept by the in-memory backend before the least recently used are evicted
+  memoryMaxEntries: parseInt(process.env.CACHE_MEMORY_MAX_ENTRIES || '5000', 10),
+
+  // How long each type of data is served without going back to the platform, in seconds
+  ttl: {
+    metrics: parseInt(process.env.CACHE_TTL_METRICS || '300', 10),
+    creatives: parseInt(process.env.CACHE_TTL_CREATIVES || '86400', 10),
+  },
+
+  // How long past its TTL an entry is still served while it is refreshed in the background, in seconds
+  staleWhileRevalidate: parseInt(process.env.CACHE_STALE_WHILE_REVALIDATE || '3600', 10),
+}));
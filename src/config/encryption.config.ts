@@ -0,0 +1,13 @@
+import { registerAs } from '@nestjs/config';
+
+export const encryptionConfig = registerAs('encryption', () => ({
+  // Master keys as comma-separated keyId:base64 pairs, each key 32 bytes (openssl rand -base64 32).
+  // Keep retired keys listed until the rotation command has re-encrypted every row.
+  keys: process.env.TOKEN_ENCRYPTION_KEYS || '',
+
+  // Key new values are encrypted with (default: the first key listed)
+  activeKeyId: process.env.TOKEN_ENCRYPTION_ACTIVE_KEY_ID,
+
+  // Refuse to store tokens in plaintext when no keys are configured
+  required: process.env.NODE_ENV === 'production',
+}));
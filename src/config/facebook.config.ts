@@ -5,4 +5,10 @@ export const facebookConfig = registerAs('facebook', () => ({
   appSecret: process.env.FACEBOOK_APP_SECRET,
   accessToken: process.env.FACEBOOK_ACCESS_TOKEN,
   graphApiVersion: process.env.FACEBOOK_GRAPH_API_VERSION || 'v21.0',
+
+  // Upper bound on pages walked when following Graph API cursors for one list
+  maxPages: parseInt(process.env.FACEBOOK_MAX_PAGES || '50', 10),
+
+  // How often queued async insights reports are submitted and polled (cron with seconds)
+  reportPollCron: process.env.FACEBOOK_REPORT_POLL_CRON || '*/20 * * * * *',
 }));
@@ -0,0 +1,12 @@
+import { registerAs } from '@nestjs/config';
+
+export const fxConfig = registerAs('fx', () => ({
+  // Currency that cross rates are triangulated through when no direct pair is stored
+  baseCurrency: (process.env.FX_BASE_CURRENCY || 'USD').toUpperCase(),
+
+  // Used when neither the user nor their organization has picked a reporting currency
+  defaultReportingCurrency: (process.env.FX_DEFAULT_REPORTING_CURRENCY || 'USD').toUpperCase(),
+
+  // A rate older than this (relative to the date being converted) is treated as missing
+  maxRateAgeDays: parseInt(process.env.FX_MAX_RATE_AGE_DAYS || '7', 10),
+}));
@@ -22,10 +22,6 @@ export default registerAs('googleAds', () => ({
     'https://www.googleapis.com/auth/userinfo.profile',
   ],
   
-  // Cache configuration
-  cacheEnabled: process.env.GOOGLE_ADS_CACHE_ENABLED !== 'false',
-  cacheTtlHours: parseInt(process.env.GOOGLE_ADS_CACHE_TTL_HOURS || '6', 10),
-  
   // Rate limiting
   maxRequestsPerMinute: parseInt(process.env.GOOGLE_ADS_MAX_REQUESTS_PER_MINUTE || '100', 10),
   
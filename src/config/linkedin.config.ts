@@ -0,0 +1,41 @@
+import { registerAs } from '@nestjs/config';
+
+export const linkedinConfig = registerAs('linkedin', () => ({
+  clientId: process.env.LINKEDIN_CLIENT_ID,
+  clientSecret: process.env.LINKEDIN_CLIENT_SECRET,
+  redirectUri: process.env.LINKEDIN_REDIRECT_URI || `${process.env.BACKEND_URL || 'http://localhost:3001'}/linkedin/auth/callback`,
+
+  // OAuth scopes required for reading ad accounts and reporting
+  scopes: (process.env.LINKEDIN_SCOPES || 'r_ads,r_ads_reporting,r_basicprofile').split(','),
+
+  // API Configuration (versioned REST API, YYYYMM)
+  apiVersion: process.env.LINKEDIN_API_VERSION || '202406',
+  baseUrl: 'https://api.linkedin.com/rest',
+}));
+
+// LinkedIn Marketing API endpoints reference
+export const LINKEDIN_ENDPOINTS = {
+  // OAuth
+  AUTH_URL: 'https://www.linkedin.com/oauth/v2/authorization',
+  ACCESS_TOKEN: 'https://www.linkedin.com/oauth/v2/accessToken',
+
+  // Ad Accounts
+  AD_ACCOUNTS: '/adAccounts',
+  AD_ACCOUNT: (accountId: string) => `/adAccounts/${accountId}`,
+
+  // Campaign Groups / Campaigns / Creatives (nested under the ad account)
+  CAMPAIGN_GROUPS: (accountId: string) => `/adAccounts/${accountId}/adCampaignGroups`,
+  CAMPAIGNS: (accountId: string) => `/adAccounts/${accountId}/adCampaigns`,
+  CREATIVES: (accountId: string) => `/adAccounts/${accountId}/creatives`,
+
+  // Reporting
+  AD_ANALYTICS: '/adAnalytics',
+} as const;
+
+// LinkedIn URN prefixes
+export const LINKEDIN_URNS = {
+  ACCOUNT: 'urn:li:sponsoredAccount:',
+  CAMPAIGN_GROUP: 'urn:li:sponsoredCampaignGroup:',
+  CAMPAIGN: 'urn:li:sponsoredCampaign:',
+  CREATIVE: 'urn:li:sponsoredCreative:',
+} as const;
@@ -0,0 +1,19 @@
+import { registerAs } from '@nestjs/config';
+
+export const mailConfig = registerAs('mail', () => ({
+  // 'smtp' delivers for real; 'file' writes each message to fileDir and 'console' logs it, for development and tests
+  transport: process.env.MAIL_TRANSPORT || 'console',
+
+  from: process.env.MAIL_FROM || 'Intrend <no-reply@localhost>',
+
+  smtp: {
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    // true for implicit TLS (usually port 465); otherwise STARTTLS is used when the server offers it
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+  },
+
+  fileDir: process.env.MAIL_FILE_DIR || 'tmp/mail',
+}));
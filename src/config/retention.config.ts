@@ -0,0 +1,33 @@
+import { registerAs } from '@nestjs/config';
+
+// Retention periods are in days; 0 keeps a table's rows forever
+export const retentionConfig = registerAs('retention', () => ({
+  enabled: process.env.RETENTION_ENABLED !== 'false',
+
+  // When old rows are purged (default: daily at 03:00)
+  cron: process.env.RETENTION_CRON || '0 3 * * *',
+
+  // Cache entries, counted from when they expired; kept a while as a fallback for platform outages
+  cacheEntriesDays: parseInt(process.env.RETENTION_CACHE_ENTRIES_DAYS || '7', 10),
+
+  // Async insights reports and their rows, counted from when they were requested
+  insightsReportsDays: parseInt(process.env.RETENTION_INSIGHTS_REPORTS_DAYS || '30', 10),
+
+  // Finished backfill jobs
+  syncJobsDays: parseInt(process.env.RETENTION_SYNC_JOBS_DAYS || '90', 10),
+
+  // Campaign snapshots saved by the per-platform dashboards
+  campaignDataDays: parseInt(process.env.RETENTION_CAMPAIGN_DATA_DAYS || '90', 10),
+
+  // App login refresh tokens, counted from when they expired
+  authSessionsDays: parseInt(process.env.RETENTION_AUTH_SESSIONS_DAYS || '30', 10),
+
+  // Password reset and email verification tokens, counted from when they expired
+  userTokensDays: parseInt(process.env.RETENTION_USER_TOKENS_DAYS || '7', 10),
+
+  // Organization invitations, counted from when they expired
+  organizationInvitationsDays: parseInt(process.env.RETENTION_ORGANIZATION_INVITATIONS_DAYS || '30', 10),
+
+  // The daily metrics warehouse, by metric date
+  dailyMetricsDays: parseInt(process.env.RETENTION_DAILY_METRICS_DAYS || '0', 10),
+}));
@@ -0,0 +1,48 @@
+import { registerAs } from '@nestjs/config';
+
+export const snapchatConfig = registerAs('snapchat', () => ({
+  clientId: process.env.SNAPCHAT_CLIENT_ID,
+  clientSecret: process.env.SNAPCHAT_CLIENT_SECRET,
+  redirectUri: process.env.SNAPCHAT_REDIRECT_URI || `${process.env.BACKEND_URL || 'http://localhost:3001'}/snapchat/auth/callback`,
+
+  // API Configuration
+  apiVersion: 'v1',
+  baseUrl: 'https://adsapi.snapchat.com',
+}));
+
+// Snapchat Marketing API endpoints reference
+export const SNAPCHAT_ENDPOINTS = {
+  // OAuth
+  AUTH_URL: 'https://accounts.snapchat.com/login/oauth2/authorize',
+  ACCESS_TOKEN: 'https://accounts.snapchat.com/login/oauth2/access_token',
+  SCOPE: 'snapchat-marketing-api',
+
+  // Organizations / Ad Accounts
+  ME_ORGANIZATIONS: '/me/organizations',
+  AD_ACCOUNT: (adAccountId: string) => `/adaccounts/${adAccountId}`,
+
+  // Campaigns
+  ACCOUNT_CAMPAIGNS: (adAccountId: string) => `/adaccounts/${adAccountId}/campaigns`,
+  CAMPAIGN: (campaignId: string) => `/campaigns/${campaignId}`,
+
+  // Ad Squads
+  ACCOUNT_ADSQUADS: (adAccountId: string) => `/adaccounts/${adAccountId}/adsquads`,
+  CAMPAIGN_ADSQUADS: (campaignId: string) => `/campaigns/${campaignId}/adsquads`,
+  ADSQUAD: (adSquadId: string) => `/adsquads/${adSquadId}`,
+
+  // Ads
+  ACCOUNT_ADS: (adAccountId: string) => `/adaccounts/${adAccountId}/ads`,
+  ADSQUAD_ADS: (adSquadId: string) => `/adsquads/${adSquadId}/ads`,
+  AD: (adId: string) => `/ads/${adId}`,
+
+  // Creatives
+  ACCOUNT_CREATIVES: (adAccountId: string) => `/adaccounts/${adAccountId}/creatives`,
+  CREATIVE: (creativeId: string) => `/creatives/${creativeId}`,
+
+  // Stats
+  ACCOUNT_STATS: (adAccountId: string) => `/adaccounts/${adAccountId}/stats`,
+  CAMPAIGN_STATS: (campaignId: string) => `/campaigns/${campaignId}/stats`,
+} as const;
+
+// Snapchat reports spend and conversion values in micro-currency
+export const SNAPCHAT_MICRO = 1_000_000;
@@ -28,6 +28,24 @@ export const stripeConfig = registerAs('stripe', () => ({
   tiktokStarterAnnualPriceId: process.env.STRIPE_TIKTOK_STARTER_ANNUAL_PRICE_ID,
   tiktokProMonthlyPriceId: process.env.STRIPE_TIKTOK_PRO_MONTHLY_PRICE_ID,
   tiktokProAnnualPriceId: process.env.STRIPE_TIKTOK_PRO_ANNUAL_PRICE_ID,
+
+  // LinkedIn Platform Price IDs
+  linkedinStarterMonthlyPriceId: process.env.STRIPE_LINKEDIN_STARTER_MONTHLY_PRICE_ID,
+  linkedinStarterAnnualPriceId: process.env.STRIPE_LINKEDIN_STARTER_ANNUAL_PRICE_ID,
+  linkedinProMonthlyPriceId: process.env.STRIPE_LINKEDIN_PRO_MONTHLY_PRICE_ID,
+  linkedinProAnnualPriceId: process.env.STRIPE_LINKEDIN_PRO_ANNUAL_PRICE_ID,
+
+  // Snapchat Platform Price IDs
+  snapchatStarterMonthlyPriceId: process.env.STRIPE_SNAPCHAT_STARTER_MONTHLY_PRICE_ID,
+  snapchatStarterAnnualPriceId: process.env.STRIPE_SNAPCHAT_STARTER_ANNUAL_PRICE_ID,
+  snapchatProMonthlyPriceId: process.env.STRIPE_SNAPCHAT_PRO_MONTHLY_PRICE_ID,
+  snapchatProAnnualPriceId: process.env.STRIPE_SNAPCHAT_PRO_ANNUAL_PRICE_ID,
+
+  // X (Twitter) Platform Price IDs
+  twitterStarterMonthlyPriceId: process.env.STRIPE_TWITTER_STARTER_MONTHLY_PRICE_ID,
+  twitterStarterAnnualPriceId: process.env.STRIPE_TWITTER_STARTER_ANNUAL_PRICE_ID,
+  twitterProMonthlyPriceId: process.env.STRIPE_TWITTER_PRO_MONTHLY_PRICE_ID,
+  twitterProAnnualPriceId: process.env.STRIPE_TWITTER_PRO_ANNUAL_PRICE_ID,
 }));
 
 // Subscription status constants
@@ -59,3 +77,17 @@ export const PLAN_LIMITS = {
     features: ['enterprise_analytics', 'api_access', 'custom_integrations', '24_7_support'],
   },
 } as const;
+
+// Organization checkouts name their plan 'basic' or 'pro'
+const PLAN_TIER_ALIASES: Record<string, keyof typeof PLAN_LIMITS> = { basic: 'starter', pro: 'professional' };
+
+/**
+ * Limits for a plan id, treating an unknown or missing plan as starter
+ */
+export function getPlanLimits(planId?: string | null): typeof PLAN_LIMITS[keyof typeof PLAN_LIMITS] {
+  const key = (planId || '').toLowerCase();
+  if (Object.hasOwn(PLAN_LIMITS, key)) {
+    return PLAN_LIMITS[key as keyof typeof PLAN_LIMITS];
+  }
+  return PLAN_LIMITS[Object.hasOwn(PLAN_TIER_ALIASES, key) ? PLAN_TIER_ALIASES[key] : 'starter'];
+}
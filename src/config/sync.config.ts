@@ -0,0 +1,20 @@
+import { registerAs } from '@nestjs/config';
+
+export const syncConfig = registerAs('sync', () => ({
+  enabled: process.env.METRICS_SYNC_ENABLED !== 'false',
+
+  // When the background sync runs for every connected ad account (default: every 6 hours)
+  cron: process.env.METRICS_SYNC_CRON || '0 */6 * * *',
+
+  // Days re-pulled on each run, since platforms keep restating recent conversions
+  lookbackDays: parseInt(process.env.METRICS_SYNC_LOOKBACK_DAYS || '3', 10),
+
+  // Longest date range requested from a platform in one call
+  maxWindowDays: parseInt(process.env.METRICS_SYNC_MAX_WINDOW_DAYS || '30', 10),
+
+  // How far back history is imported when an ad account is first selected
+  backfillMonths: parseInt(process.env.METRICS_BACKFILL_MONTHS || '24', 10),
+
+  // How often pending backfill jobs are picked up (default: every minute)
+  backfillCron: process.env.METRICS_BACKFILL_CRON || '* * * * *',
+}));
@@ -12,9 +12,6 @@ export const tiktokConfig = registerAs('tiktok', () => ({
   // Rate Limiting
   rateLimitRequests: parseInt(process.env.TIKTOK_RATE_LIMIT_REQUESTS || '10', 10),
   rateLimitWindow: parseInt(process.env.TIKTOK_RATE_LIMIT_WINDOW || '1000', 10), // milliseconds
-  
-  // Cache TTL
-  cacheTTL: parseInt(process.env.TIKTOK_CACHE_TTL || '300000', 10), // 5 minutes default
 }));
 
 // TikTok API endpoints reference
@@ -0,0 +1,11 @@
+import { registerAs } from '@nestjs/config';
+
+export const tokenRefreshConfig = registerAs('tokenRefresh', () => ({
+  enabled: process.env.TOKEN_REFRESH_ENABLED !== 'false',
+
+  // How often sessions are scanned for expiring tokens (default: every 10 minutes)
+  cron: process.env.TOKEN_REFRESH_CRON || '*/10 * * * *',
+
+  // Tokens expiring within this many minutes are refreshed; longer than the cron interval so none are missed
+  windowMinutes: parseInt(process.env.TOKEN_REFRESH_WINDOW_MINUTES || '30', 10),
+}));
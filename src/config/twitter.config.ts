@@ -0,0 +1,39 @@
+import { registerAs } from '@nestjs/config';
+
+export const twitterConfig = registerAs('twitter', () => ({
+  consumerKey: process.env.TWITTER_CONSUMER_KEY,
+  consumerSecret: process.env.TWITTER_CONSUMER_SECRET,
+  callbackUrl: process.env.TWITTER_CALLBACK_URL || `${process.env.BACKEND_URL || 'http://localhost:3001'}/twitter/auth/callback`,
+
+  // API Configuration
+  apiVersion: process.env.TWITTER_ADS_API_VERSION || '12',
+  baseUrl: 'https://ads-api.x.com',
+
+  // Async stats jobs
+  statsJobPollInterval: parseInt(process.env.TWITTER_STATS_JOB_POLL_INTERVAL || '2000', 10), // milliseconds
+  statsJobMaxAttempts: parseInt(process.env.TWITTER_STATS_JOB_MAX_ATTEMPTS || '30', 10),
+}));
+
+// X (Twitter) Ads API endpoints reference
+export const TWITTER_ENDPOINTS = {
+  // OAuth 1.0a
+  REQUEST_TOKEN: 'https://api.x.com/oauth/request_token',
+  AUTHORIZE: 'https://api.x.com/oauth/authorize',
+  ACCESS_TOKEN: 'https://api.x.com/oauth/access_token',
+
+  // Accounts
+  ACCOUNTS: '/accounts',
+  ACCOUNT: (accountId: string) => `/accounts/${accountId}`,
+  FUNDING_INSTRUMENTS: (accountId: string) => `/accounts/${accountId}/funding_instruments`,
+
+  // Campaign hierarchy
+  CAMPAIGNS: (accountId: string) => `/accounts/${accountId}/campaigns`,
+  LINE_ITEMS: (accountId: string) => `/accounts/${accountId}/line_items`,
+  PROMOTED_TWEETS: (accountId: string) => `/accounts/${accountId}/promoted_tweets`,
+
+  // Async stats jobs
+  STATS_JOBS: (accountId: string) => `/stats/jobs/accounts/${accountId}`,
+} as const;
+
+// X reports monetary values in micro-currency
+export const TWITTER_MICRO = 1_000_000;
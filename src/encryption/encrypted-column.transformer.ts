@@ -0,0 +1,43 @@
+import { Logger } from '@nestjs/common';
+import { ValueTransformer } from 'typeorm';
+import { encryptionConfig } from '../config/encryption.config';
+import { Keyring, parseKeyring, encryptValue, decryptValue } from './envelope-encryption.util';
+
+const logger = new Logger('EncryptedColumn');
+
+// Entity metadata is built before Nest loads config, so the keyring is read on first use
+let keyring: Keyring | null | undefined;
+
+export function getKeyring(): Keyring | null {
+  if (keyring === undefined) {
+    const config = encryptionConfig();
+    keyring = parseKeyring(config.keys, config.activeKeyId);
+
+    if (!keyring) {
+      if (config.required) {
+        throw new Error('TOKEN_ENCRYPTION_KEYS must be set to store platform tokens');
+      }
+      logger.warn('TOKEN_ENCRYPTION_KEYS is not set; platform tokens are stored unencrypted');
+    }
+  }
+  return keyring;
+}
+
+/**
+ * Encrypts a text column at rest. Rows written before encryption was enabled are still read as plaintext
+ * and get encrypted on their next save, or by the key rotation command.
+ */
+export const encryptedColumn: ValueTransformer = {
+  to(value: string | null | undefined): string | null | undefined {
+    if (value === null || value === undefined || value === '') {
+      return value;
+    }
+
+    const activeKeyring = getKeyring();
+    return activeKeyring ? encryptValue(value, activeKeyring) : value;
+  },
+
+  from(value: string | null): string | null {
+    return value ? decryptValue(value, getKeyring()) : value;
+  },
+};
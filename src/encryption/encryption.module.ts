@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { KeyRotationService } from './key-rotation.service';
+import { encryptionConfig } from '../config/encryption.config';
+
+@Module({
+  imports: [ConfigModule.forFeature(encryptionConfig)],
+  providers: [KeyRotationService],
+  exports: [KeyRotationService],
+})
+export class EncryptionModule {}
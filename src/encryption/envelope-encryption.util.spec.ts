@@ -0,0 +1,51 @@
+import { randomBytes } from 'crypto';
+import { parseKeyring, encryptValue, decryptValue, getKeyId, isEncrypted } from './envelope-encryption.util';
+
+describe('envelope encryption', () => {
+  const oldKey = randomBytes(32).toString('base64');
+  const newKey = randomBytes(32).toString('base64');
+
+  it('should round-trip a value under the active key', () => {
+    const keyring = parseKeyring(`k1:${oldKey}`)!;
+    const encrypted = encryptValue('EAAB-token', keyring);
+
+    expect(isEncrypted(encrypted)).toBe(true);
+    expect(encrypted).not.toContain('EAAB-token');
+    expect(getKeyId(encrypted)).toBe('k1');
+    expect(decryptValue(encrypted, keyring)).toBe('EAAB-token');
+  });
+
+  it('should use a fresh data key for every value', () => {
+    const keyring = parseKeyring(`k1:${oldKey}`)!;
+
+    expect(encryptValue('same', keyring)).not.toBe(encryptValue('same', keyring));
+  });
+
+  it('should read values under a retired key once a new key is active', () => {
+    const encrypted = encryptValue('token', parseKeyring(`k1:${oldKey}`)!);
+    const rotated = parseKeyring(`k1:${oldKey},k2:${newKey}`, 'k2')!;
+
+    expect(decryptValue(encrypted, rotated)).toBe('token');
+    expect(getKeyId(encryptValue('token', rotated))).toBe('k2');
+    expect(() => decryptValue(encrypted, parseKeyring(`k2:${newKey}`))).toThrow('Encryption key k1 is not configured');
+  });
+
+  it('should pass plaintext values through', () => {
+    expect(decryptValue('legacy-token', null)).toBe('legacy-token');
+    expect(getKeyId('legacy-token')).toBeNull();
+  });
+
+  it('should reject a value relabelled to another key', () => {
+    const keyring = parseKeyring(`k1:${oldKey},k2:${oldKey}`)!;
+    const relabelled = encryptValue('token', keyring).replace(':k1:', ':k2:');
+
+    expect(() => decryptValue(relabelled, keyring)).toThrow();
+  });
+
+  it('should validate the configured keys', () => {
+    expect(parseKeyring('')).toBeNull();
+    expect(() => parseKeyring('k1:c2hvcnQ=')).toThrow('must be 32 bytes');
+    expect(() => parseKeyring(oldKey)).toThrow('keyId:base64key');
+    expect(() => parseKeyring(`k1:${oldKey}`, 'k2')).toThrow('k2 is not in the keyring');
+  });
+});
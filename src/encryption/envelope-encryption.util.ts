@@ -0,0 +1,110 @@
+import { randomBytes, createCipheriv, createDecipheriv } from 'crypto';
+
+export interface Keyring {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+export const ENCRYPTED_PREFIX = 'enc:v1:';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/**
+ * Parse "keyId:base64key,keyId:base64key" into a keyring. The active key defaults to the first one listed.
+ */
+export function parseKeyring(keys: string, activeKeyId?: string): Keyring | null {
+  const entries = keys.split(',').map(entry => entry.trim()).filter(Boolean);
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const keyring: Keyring = { activeKeyId: activeKeyId || '', keys: new Map() };
+  for (const entry of entries) {
+    const separator = entry.indexOf(':');
+    const keyId = separator > 0 ? entry.slice(0, separator) : '';
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+
+    if (!keyId) {
+      throw new Error('Encryption keys must be given as keyId:base64key');
+    }
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`Encryption key ${keyId} must be ${KEY_BYTES} bytes, got ${key.length}`);
+    }
+    keyring.keys.set(keyId, key);
+    keyring.activeKeyId = keyring.activeKeyId || keyId;
+  }
+
+  if (!keyring.keys.has(keyring.activeKeyId)) {
+    throw new Error(`Active encryption key ${keyring.activeKeyId} is not in the keyring`);
+  }
+  return keyring;
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * The id of the master key a value was encrypted under, or null for a plaintext value
+ */
+export function getKeyId(value: string): string | null {
+  return isEncrypted(value) ? value.slice(ENCRYPTED_PREFIX.length).split(':')[0] : null;
+}
+
+/**
+ * Envelope-encrypt a value: a fresh data key encrypts the value, and the active master key encrypts the
+ * data key. Result: enc:v1:<keyId>:<wrapped data key>:<ciphertext>, each part iv + tag + ciphertext in base64.
+ */
+export function encryptValue(plaintext: string, keyring: Keyring): string {
+  const keyId = keyring.activeKeyId;
+  const dataKey = randomBytes(KEY_BYTES);
+
+  // The key id is authenticated with the data key, so a row can't be relabelled to another master key
+  const wrappedKey = seal(dataKey, keyring.keys.get(keyId)!, Buffer.from(keyId));
+  const ciphertext = seal(Buffer.from(plaintext, 'utf8'), dataKey);
+
+  return `${ENCRYPTED_PREFIX}${keyId}:${wrappedKey}:${ciphertext}`;
+}
+
+/**
+ * Decrypt a value from encryptValue. Plaintext values written before encryption was enabled are returned as is.
+ */
+export function decryptValue(value: string, keyring: Keyring | null): string {
+  if (!isEncrypted(value)) {
+    return value;
+  }
+
+  const [keyId, wrappedKey, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  const masterKey = keyring?.keys.get(keyId);
+  if (!masterKey) {
+    throw new Error(`Encryption key ${keyId} is not configured`);
+  }
+
+  const dataKey = open(wrappedKey, masterKey, Buffer.from(keyId));
+  return open(ciphertext, dataKey).toString('utf8');
+}
+
+function seal(plaintext: Buffer, key: Buffer, aad?: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  if (aad) {
+    cipher.setAAD(aad);
+  }
+
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function open(sealed: string, key: Buffer, aad?: Buffer): Buffer {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_BYTES));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  if (aad) {
+    decipher.setAAD(aad);
+  }
+
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
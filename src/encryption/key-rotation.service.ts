@@ -0,0 +1,84 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { ColumnMetadata } from 'typeorm/metadata/ColumnMetadata';
+import { EntityMetadata } from 'typeorm/metadata/EntityMetadata';
+import { encryptedColumn, getKeyring } from './encrypted-column.transformer';
+import { Keyring, ENCRYPTED_PREFIX, encryptValue, decryptValue } from './envelope-encryption.util';
+
+export interface KeyRotationResult {
+  table: string;
+  column: string;
+  reEncrypted: number;
+  failed: number;
+}
+
+// Rows read per query while re-encrypting
+const ROTATION_BATCH_SIZE = 500;
+
+/**
+ * Re-encrypts every encrypted column under the active master key, including plaintext rows written before
+ * encryption was enabled, so retired keys can be removed from TOKEN_ENCRYPTION_KEYS afterwards
+ */
+@Injectable()
+export class KeyRotationService {
+  private readonly logger = new Logger(KeyRotationService.name);
+
+  constructor(
+    @InjectDataSource()
+    private readonly dataSource: DataSource,
+  ) {}
+
+  async rotateAll(): Promise<KeyRotationResult[]> {
+    const keyring = getKeyring();
+    if (!keyring) {
+      throw new Error('TOKEN_ENCRYPTION_KEYS must be set to rotate keys');
+    }
+
+    const results: KeyRotationResult[] = [];
+    for (const metadata of this.dataSource.entityMetadatas) {
+      for (const column of metadata.columns.filter(c => c.transformer === encryptedColumn)) {
+        results.push(await this.rotateColumn(metadata, column, keyring));
+      }
+    }
+    return results;
+  }
+
+  private async rotateColumn(metadata: EntityMetadata, column: ColumnMetadata, keyring: Keyring): Promise<KeyRotationResult> {
+    const result: KeyRotationResult = { table: metadata.tableName, column: column.databaseName, reEncrypted: 0, failed: 0 };
+    const table = `"${metadata.tablePath}"`;
+    const id = `"${metadata.primaryColumns[0].databaseName}"`;
+    const target = `"${column.databaseName}"`;
+    const current = `${ENCRYPTED_PREFIX}${keyring.activeKeyId}:%`;
+
+    // Walk by id rather than re-querying the filter, so rows that fail to decrypt are not picked up again
+    let lastId = 0;
+    for (;;) {
+      const rows: { id: number; value: string }[] = await this.dataSource.query(
+        `SELECT ${id} AS id, ${target} AS value FROM ${table}
+         WHERE ${id} > $1 AND ${target} IS NOT NULL AND ${target} <> '' AND ${target} NOT LIKE $2
+         ORDER BY ${id} LIMIT ${ROTATION_BATCH_SIZE}`,
+        [lastId, current],
+      );
+      if (rows.length === 0) {
+        break;
+      }
+
+      for (const row of rows) {
+        try {
+          const value = encryptValue(decryptValue(row.value, keyring), keyring);
+          // Only replace the value we read, so a token saved meanwhile is not overwritten
+          await this.dataSource.query(`UPDATE ${table} SET ${target} = $1 WHERE ${id} = $2 AND ${target} = $3`, [value, row.id, row.value]);
+          result.reEncrypted++;
+        } catch (error: any) {
+          result.failed++;
+          this.logger.error(`Could not re-encrypt ${metadata.tableName}.${column.databaseName} row ${row.id}: ${error.message}`);
+        }
+      }
+      lastId = rows[rows.length - 1].id;
+    }
+
+    this.logger.log(`${metadata.tableName}.${column.databaseName}: ${result.reEncrypted} re-encrypted, ${result.failed} failed`);
+    return result;
+  }
+}
@@ -0,0 +1,29 @@
+import { NestFactory } from '@nestjs/core';
+import { Logger } from '@nestjs/common';
+import { AppModule } from '../app.module';
+import { KeyRotationService } from './key-rotation.service';
+
+/**
+ * Re-encrypt stored platform tokens under the active key: npm run encryption:rotate-keys
+ * (after npm run build). Exits non-zero if any row could not be re-encrypted.
+ */
+async function rotateKeys() {
+  const app = await NestFactory.createApplicationContext(AppModule, { logger: ['log', 'warn', 'error'] });
+  const logger = new Logger('RotateKeys');
+
+  try {
+    const results = await app.get(KeyRotationService).rotateAll();
+    const reEncrypted = results.reduce((sum, result) => sum + result.reEncrypted, 0);
+    const failed = results.reduce((sum, result) => sum + result.failed, 0);
+
+    logger.log(`Re-encrypted ${reEncrypted} values across ${results.length} columns, ${failed} failed`);
+    process.exitCode = failed > 0 ? 1 : 0;
+  } finally {
+    await app.close();
+  }
+}
+
+rotateKeys().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
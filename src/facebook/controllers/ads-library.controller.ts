@@ -1,7 +1,10 @@
-import { Controller, Get, Post, Body, Query, Param, Res, UseGuards, BadRequestException } from '@nestjs/common';
+import { Controller, Get, Post, Body, Param, Res, UseGuards, BadRequestException } from '@nestjs/common';
 import type { Response } from 'express';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { CredentialResolverService } from '../../platforms/credential-resolver.service';
+import { AdPlatform } from '../../common/interfaces/ad-platform.interface';
+import { FacebookService } from '../facebook.service';
 
 interface AdsLibraryFilters {
   region?: string | string[];
@@ -44,12 +47,17 @@ interface TransformedAd {
 export class AdsLibraryController {
   private readonly graphApiVersion = 'v21.0';
 
+  constructor(
+    private readonly credentialResolver: CredentialResolverService,
+    private readonly facebookService: FacebookService,
+  ) {}
+
   // POST /facebook/ads-library - Search ads library
   @Post()
   @UseGuards(JwtAuthGuard)
   async searchAdsLibrary(
+    @CurrentUser() user: any,
     @Body() body: {
-      accessToken: string;
       searchQuery?: string;
       filters?: AdsLibraryFilters;
       page?: number;
@@ -58,7 +66,6 @@ export class AdsLibraryController {
     },
   ) {
     const {
-      accessToken,
       searchQuery = '',
       filters: rawFilters = {},
       page = 1,
@@ -66,14 +73,12 @@ export class AdsLibraryController {
       adAccountId,
     } = body;
 
-    if (!accessToken) {
-      throw new BadRequestException('Access token is required');
-    }
-
     if (!adAccountId) {
       throw new BadRequestException('Ad account ID is required');
     }
 
+    const { accessToken } = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id, adAccountId);
+
     const normalizedFilters = {
       region: rawFilters.region ?? 'US',
       mediaType: rawFilters.mediaType ?? 'all',
@@ -143,21 +148,18 @@ export class AdsLibraryController {
       'ad_creative_link_descriptions', 'ad_creative_link_titles', 'bylines',
     ].join(',');
 
-    const queryParams = new URLSearchParams();
+    const queryParams: Record<string, string> = {};
     Object.entries(searchParams).forEach(([key, value]) => {
       if (Array.isArray(value)) {
-        queryParams.append(key, JSON.stringify(value));
+        queryParams[key] = JSON.stringify(value);
       } else {
-        queryParams.append(key, String(value));
+        queryParams[key] = String(value);
       }
     });
-    queryParams.append('fields', fields);
-    queryParams.append('access_token', accessToken);
-
-    const url = `https://graph.facebook.com/${this.graphApiVersion}/ads_archive?${queryParams.toString()}`;
+    queryParams.fields = fields;
 
     try {
-      const response = await fetch(url);
+      const response = await this.facebookService.fetchGraph('/ads_archive', accessToken, queryParams, this.graphApiVersion);
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -262,22 +264,19 @@ export class AdsLibraryController {
   @Get(':adId')
   @UseGuards(JwtAuthGuard)
   async getAdById(
+    @CurrentUser() user: any,
     @Param('adId') adId: string,
-    @Query('access_token') accessToken: string,
   ) {
-    if (!accessToken) {
-      throw new BadRequestException('Access token is required');
-    }
-
     if (!adId) {
       throw new BadRequestException('Ad ID is required');
     }
 
+    const { accessToken } = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id);
+
     const fields = 'id,ad_creative_body,ad_creative_link_title,ad_creative_link_description,ad_creative_link_caption,ad_snapshot_url,page_id,page_name,ad_delivery_start_time,ad_delivery_stop_time,currency,ad_spend,ad_reached_count,publisher_platforms,ad_type,ad_status,ad_reached_countries,disclaimer,ad_category';
-    const url = `https://graph.facebook.com/${this.graphApiVersion}/${adId}?fields=${fields}&access_token=${accessToken}`;
 
     try {
-      const response = await fetch(url);
+      const response = await this.facebookService.fetchGraph(`/${encodeURIComponent(adId)}`, accessToken, { fields }, this.graphApiVersion);
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -337,24 +336,22 @@ export class AdsLibraryController {
   @Post('export')
   @UseGuards(JwtAuthGuard)
   async exportAds(
+    @CurrentUser() user: any,
     @Body() body: {
-      accessToken: string;
       searchQuery: string;
       filters?: AdsLibraryFilters;
       format?: 'csv' | 'json';
     },
     @Res() res: Response,
   ) {
-    const { accessToken, searchQuery, filters = {}, format = 'csv' } = body;
-
-    if (!accessToken) {
-      throw new BadRequestException('Access token is required');
-    }
+    const { searchQuery, filters = {}, format = 'csv' } = body;
 
     if (!searchQuery || searchQuery.trim() === '') {
       throw new BadRequestException('Search query is required');
     }
 
+    const { accessToken } = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id);
+
     // Build search params
     const searchParams: Record<string, any> = {
       search_terms: searchQuery.trim(),
@@ -375,16 +372,13 @@ export class AdsLibraryController {
       searchParams.ad_delivery_date_max = now.toISOString().split('T')[0];
     }
 
-    const queryParams = new URLSearchParams();
+    const queryParams: Record<string, string> = {};
     Object.entries(searchParams).forEach(([key, value]) => {
-      queryParams.append(key, Array.isArray(value) ? JSON.stringify(value) : String(value));
+      queryParams[key] = Array.isArray(value) ? JSON.stringify(value) : String(value);
     });
-    queryParams.append('access_token', accessToken);
-
-    const url = `https://graph.facebook.com/${this.graphApiVersion}/ads_archive?${queryParams.toString()}`;
 
     try {
-      const response = await fetch(url);
+      const response = await this.facebookService.fetchGraph('/ads_archive', accessToken, queryParams, this.graphApiVersion);
 
       if (!response.ok) {
         const errorData = await response.json();
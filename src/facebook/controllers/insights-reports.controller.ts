@@ -0,0 +1,111 @@
+import { Controller, Get, Post, Body, Query, Param, UseGuards, BadRequestException } from '@nestjs/common';
+import { INSIGHTS_BREAKDOWNS, InsightsBreakdown, InsightsLevel } from '../facebook.service';
+import { InsightsReportService } from '../insights-report.service';
+import { InsightsReport } from '../entities/insights-report.entity';
+import { InsightsReportRow } from '../entities/insights-report-row.entity';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { CredentialResolverService } from '../../platforms/credential-resolver.service';
+import { AdPlatform, PlatformApiResponse } from '../../common/interfaces/ad-platform.interface';
+
+const INSIGHTS_LEVELS: InsightsLevel[] = ['account', 'campaign', 'adset', 'ad'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_ROWS_LIMIT = 1000;
+const MAX_ROWS_LIMIT = 5000;
+
+/**
+ * Async insights reports: queue a heavy breakdown, poll its status, then page through the stored rows
+ */
+@Controller('facebook/reports')
+@UseGuards(JwtAuthGuard)
+export class InsightsReportsController {
+  constructor(
+    private readonly insightsReportService: InsightsReportService,
+    private readonly credentialResolver: CredentialResolverService,
+  ) {}
+
+  @Post()
+  async createReport(
+    @CurrentUser() user: any,
+    @Body() body: {
+      adAccountId?: string;
+      level?: string;
+      breakdowns?: string[];
+      since: string;
+      until: string;
+      daily?: boolean;
+    },
+  ): Promise<PlatformApiResponse<InsightsReport>> {
+    if (!DATE_PATTERN.test(body.since || '') || !DATE_PATTERN.test(body.until || '') || body.since > body.until) {
+      throw new BadRequestException('since and until must be YYYY-MM-DD dates with since on or before until');
+    }
+
+    const level = (body.level || 'account') as InsightsLevel;
+    if (!INSIGHTS_LEVELS.includes(level)) {
+      throw new BadRequestException(`Unsupported level: ${body.level}. Expected one of ${INSIGHTS_LEVELS.join(', ')}`);
+    }
+
+    const breakdowns = body.breakdowns || [];
+    const unsupported = breakdowns.filter(breakdown => !(INSIGHTS_BREAKDOWNS as readonly string[]).includes(breakdown));
+    if (unsupported.length > 0) {
+      throw new BadRequestException(`Unsupported breakdowns: ${unsupported.join(', ')}. Expected any of ${INSIGHTS_BREAKDOWNS.join(', ')}`);
+    }
+
+    const { adAccountId } = await this.credentialResolver.resolveAccount(AdPlatform.FACEBOOK, user.id, body.adAccountId);
+
+    const report = await this.insightsReportService.enqueue(user.id, {
+      adAccountId,
+      level,
+      breakdowns: breakdowns as InsightsBreakdown[],
+      dateRange: { since: body.since, until: body.until },
+      daily: body.daily !== false,
+    });
+    return { success: true, data: report };
+  }
+
+  @Get()
+  async getReports(@CurrentUser() user: any): Promise<PlatformApiResponse<InsightsReport[]>> {
+    const reports = await this.insightsReportService.getReports(user.id);
+    return { success: true, data: reports };
+  }
+
+  /**
+   * Status and percent complete; rows are available once status is `completed`
+   */
+  @Get(':id')
+  async getReport(@CurrentUser() user: any, @Param('id') id: string): Promise<PlatformApiResponse<InsightsReport>> {
+    const report = await this.insightsReportService.getReport(user.id, this.parseId(id));
+    return { success: true, data: report };
+  }
+
+  @Get(':id/rows')
+  async getRows(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ): Promise<PlatformApiResponse<InsightsReportRow[]>> {
+    const take = Math.min(Math.max(parseInt(limit || '', 10) || DEFAULT_ROWS_LIMIT, 1), MAX_ROWS_LIMIT);
+    const skip = Math.max(parseInt(offset || '', 10) || 0, 0);
+
+    const report = await this.insightsReportService.getReport(user.id, this.parseId(id));
+    if (report.status !== 'completed') {
+      throw new BadRequestException(`Insights report ${report.id} is ${report.status}`);
+    }
+
+    const { rows, total } = await this.insightsReportService.getRows(user.id, report.id, take, skip);
+    return {
+      success: true,
+      data: rows,
+      pagination: { hasMore: skip + rows.length < total, totalCount: total },
+    };
+  }
+
+  private parseId(id: string): number {
+    const reportId = parseInt(id, 10);
+    if (!Number.isInteger(reportId) || reportId <= 0) {
+      throw new BadRequestException('Invalid report ID');
+    }
+    return reportId;
+  }
+}
@@ -1,5 +1,7 @@
 import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
 import { User } from '../../users/entities/user.entity';
+import { AdPlatform } from '../../common/interfaces/ad-platform.interface';
+import { encryptedColumn } from '../../encryption/encrypted-column.transformer';
 
 @Entity('facebook_sessions')
 export class FacebookSession {
@@ -13,7 +15,7 @@ export class FacebookSession {
   @JoinColumn({ name: 'user_id' })
   user: User;
 
-  @Column({ name: 'access_token', type: 'text' })
+  @Column({ name: 'access_token', type: 'text', transformer: encryptedColumn })
   accessToken: string;
 
   @Column({ name: 'ad_account_id', nullable: true })
@@ -22,9 +24,27 @@ export class FacebookSession {
   @Column({ name: 'token_expires_at', nullable: true })
   tokenExpiresAt: Date;
 
+  // The platform login behind the token; a user can connect several, each with its own session
+  @Column({ name: 'identity_id', type: 'varchar', nullable: true })
+  identityId: string | null;
+
+  @Column({ name: 'identity_name', type: 'varchar', nullable: true })
+  identityName: string | null;
+
+  // Set when the token could not be refreshed; the user has to connect the platform again
+  @Column({ name: 'needs_reauth', default: false })
+  needsReauth: boolean;
+
+  @Column({ name: 'reauth_reason', type: 'text', nullable: true })
+  reauthReason: string | null;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
   @UpdateDateColumn({ name: 'updated_at' })
   updatedAt: Date;
+
+  get platform(): AdPlatform {
+    return AdPlatform.FACEBOOK;
+  }
 }
@@ -0,0 +1,32 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { InsightsReport } from './insights-report.entity';
+import type { PlatformMetrics } from '../../common/interfaces/ad-platform.interface';
+
+@Entity('facebook_insights_report_rows')
+@Index(['reportId', 'dateStart'])
+export class InsightsReportRow {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'report_id' })
+  reportId: number;
+
+  @ManyToOne(() => InsightsReport, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'report_id' })
+  report: InsightsReport;
+
+  @Column({ name: 'date_start', type: 'date' })
+  dateStart: string;
+
+  @Column({ name: 'date_stop', type: 'date' })
+  dateStop: string;
+
+  @Column({ name: 'object_id', type: 'varchar', nullable: true })
+  objectId: string | null;
+
+  @Column({ type: 'jsonb', default: {} })
+  dimensions: Record<string, string>;
+
+  @Column({ type: 'jsonb' })
+  metrics: PlatformMetrics;
+}
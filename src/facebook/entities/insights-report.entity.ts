@@ -0,0 +1,66 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+
+export type InsightsReportStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/**
+ * An async insights report requested by a user. It is submitted to Facebook as a report run
+ * while `pending`, polled while `running`, and its rows are stored in facebook_insights_report_rows.
+ */
+@Entity('facebook_insights_reports')
+@Index(['userId'])
+@Index(['status'])
+export class InsightsReport {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'user_id' })
+  userId: number;
+
+  @Column({ name: 'ad_account_id' })
+  adAccountId: string;
+
+  @Column({ name: 'report_run_id', type: 'varchar', nullable: true })
+  reportRunId: string | null;
+
+  @Column({ length: 20 })
+  level: string;
+
+  @Column({ type: 'text', array: true, default: '{}' })
+  breakdowns: string[];
+
+  @Column({ type: 'date' })
+  since: string;
+
+  @Column({ type: 'date' })
+  until: string;
+
+  @Column({ default: true })
+  daily: boolean;
+
+  @Column({ length: 20, default: 'pending' })
+  status: InsightsReportStatus;
+
+  @Column({ default: 0 })
+  percent: number;
+
+  @Column({ name: 'row_count', default: 0 })
+  rowCount: number;
+
+  @Column({ default: 0 })
+  attempts: number; // consecutive failed calls to Facebook
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column({ name: 'started_at', type: 'timestamp', nullable: true })
+  startedAt: Date | null;
+
+  @Column({ name: 'completed_at', type: 'timestamp', nullable: true })
+  completedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
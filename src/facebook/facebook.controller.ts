@@ -2,10 +2,15 @@ import { Controller, Get, Post, Delete, Body, Query, Param, UseGuards, BadReques
 import { FacebookService } from './facebook.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CredentialResolverService } from '../platforms/credential-resolver.service';
+import { AdPlatform } from '../common/interfaces/ad-platform.interface';
 
 @Controller('facebook')
 export class FacebookController {
-  constructor(private readonly facebookService: FacebookService) {}
+  constructor(
+    private readonly facebookService: FacebookService,
+    private readonly credentialResolver: CredentialResolverService,
+  ) {}
 
   @Get('health')
   async healthCheck() {
@@ -20,7 +25,7 @@ export class FacebookController {
   @Get('session')
   @UseGuards(JwtAuthGuard)
   async getSession(@CurrentUser() user: any) {
-    const session = await this.facebookService.getFacebookSession(user.userId);
+    const session = await this.facebookService.getSession(user.id);
     if (!session) {
       return { success: false, message: 'No Facebook session found' };
     }
@@ -43,11 +48,14 @@ export class FacebookController {
     @Body() body: { accessToken: string; adAccountId?: string; tokenExpiresAt?: string },
   ) {
     const expiresAt = body.tokenExpiresAt ? new Date(body.tokenExpiresAt) : undefined;
-    const session = await this.facebookService.saveFacebookSession(
-      user.userId,
+    const identity = await this.facebookService.getIdentity(body.accessToken);
+    const session = await this.facebookService.saveSession(
+      user.id,
       body.accessToken,
+      undefined,
       body.adAccountId,
       expiresAt,
+      identity,
     );
     return { 
       success: true, 
@@ -56,6 +64,20 @@ export class FacebookController {
     };
   }
 
+  @Delete('session')
+  @UseGuards(JwtAuthGuard)
+  async deleteSession(@CurrentUser() user: any) {
+    await this.facebookService.deleteSession(user.id);
+    return { success: true, message: 'Facebook session deleted' };
+  }
+
+  @Post('session/refresh')
+  @UseGuards(JwtAuthGuard)
+  async refreshToken(@CurrentUser() user: any) {
+    const session = await this.facebookService.refreshAccessToken(user.id);
+    return { success: true, expiresAt: session.tokenExpiresAt };
+  }
+
   // Auth - exchange for long-lived token
   @Post('auth')
   @UseGuards(JwtAuthGuard)
@@ -78,12 +100,15 @@ export class FacebookController {
       // Get ad accounts
       const adAccounts = await this.facebookService.getAdAccounts(accessToken);
 
-      // Save session
-      const session = await this.facebookService.saveFacebookSession(
-        user.userId,
+      // Save session; each Facebook login is kept as its own session so several can be connected at once
+      const identity = await this.facebookService.getIdentity(accessToken);
+      const session = await this.facebookService.saveSession(
+        user.id,
         accessToken,
+        undefined,
         body.adAccountId,
         expiresAt,
+        identity,
       );
 
       return {
@@ -106,7 +131,7 @@ export class FacebookController {
   @Get('ad-accounts')
   @UseGuards(JwtAuthGuard)
   async getAdAccounts(@CurrentUser() user: any) {
-    const session = await this.facebookService.getFacebookSession(user.userId);
+    const session = await this.facebookService.getSession(user.id);
     if (!session) {
       return { success: false, error: 'No Facebook session found' };
     }
@@ -122,17 +147,17 @@ export class FacebookController {
     @CurrentUser() user: any,
     @Query('adAccountId') adAccountId: string,
     @Query('dateRange') dateRange: string = 'last_30d',
+    @Query('since') since?: string,
+    @Query('until') until?: string,
   ) {
     if (!adAccountId) {
       throw new BadRequestException('adAccountId is required');
     }
 
-    const session = await this.facebookService.getFacebookSession(user.userId);
-    if (!session) {
-      return { success: false, error: 'No Facebook session found' };
-    }
+    const { accessToken } = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id, adAccountId);
 
-    const result = await this.facebookService.getAds(adAccountId, session.accessToken, dateRange);
+    const range = since && until ? { since, until } : dateRange;
+    const result = await this.facebookService.getAccountAds(adAccountId, accessToken, range);
     return { success: true, ...result };
   }
 
@@ -143,17 +168,17 @@ export class FacebookController {
     @CurrentUser() user: any,
     @Query('adAccountId') adAccountId: string,
     @Query('dateRange') dateRange: string = 'last_30d',
+    @Query('since') since?: string,
+    @Query('until') until?: string,
   ) {
     if (!adAccountId) {
       throw new BadRequestException('adAccountId is required');
     }
 
-    const session = await this.facebookService.getFacebookSession(user.userId);
-    if (!session) {
-      return { success: false, error: 'No Facebook session found' };
-    }
+    const { accessToken } = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id, adAccountId);
 
-    const insights = await this.facebookService.getInsights(adAccountId, session.accessToken, dateRange);
+    const range = since && until ? { since, until } : dateRange;
+    const insights = await this.facebookService.getInsights(adAccountId, accessToken, range);
     return { success: true, insights };
   }
 
@@ -168,12 +193,9 @@ export class FacebookController {
       throw new BadRequestException('adAccountId is required');
     }
 
-    const session = await this.facebookService.getFacebookSession(user.userId);
-    if (!session) {
-      return { success: false, error: 'No Facebook session found' };
-    }
+    const { accessToken } = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id, adAccountId);
 
-    const creatives = await this.facebookService.getCreatives(adAccountId, session.accessToken);
+    const creatives = await this.facebookService.getCreatives(adAccountId, accessToken);
     return { success: true, creatives };
   }
 
@@ -184,20 +206,20 @@ export class FacebookController {
     @CurrentUser() user: any,
     @Query('adAccountId') adAccountId: string,
     @Query('dateRange') dateRange: string = 'last_30d',
+    @Query('since') since?: string,
+    @Query('until') until?: string,
   ) {
     if (!adAccountId) {
       throw new BadRequestException('adAccountId is required');
     }
 
-    const session = await this.facebookService.getFacebookSession(user.userId);
-    if (!session) {
-      return { success: false, error: 'No Facebook session found' };
-    }
+    const { accessToken } = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id, adAccountId);
 
+    const range = since && until ? { since, until } : dateRange;
     const demographics = await this.facebookService.getDemographics(
       adAccountId,
-      session.accessToken,
-      dateRange,
+      accessToken,
+      range,
     );
     return { success: true, demographics };
   }
@@ -208,28 +230,132 @@ export class FacebookController {
   async getCampaigns(
     @CurrentUser() user: any,
     @Query('dateRange') dateRange: string = 'last_30d',
+    @Query('adAccountId') adAccountId?: string,
   ) {
-    const session = await this.facebookService.getFacebookSession(user.userId);
-    if (!session) {
-      return { success: false, error: 'No Facebook session found' };
-    }
+    const { session } = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id, adAccountId);
     const campaigns = await this.facebookService.getCampaignData(session.id, dateRange);
     return { success: true, campaigns };
   }
 
+  @Get('campaigns/:id')
+  @UseGuards(JwtAuthGuard)
+  async getCampaign(@CurrentUser() user: any, @Param('id') campaignId: string, @Query('adAccountId') adAccountId?: string) {
+    const { accessToken } = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id, adAccountId);
+    return this.facebookService.getCampaign(accessToken, campaignId);
+  }
+
+  // Ad sets and ads, mapped to the common platform hierarchy
+  @Get('adsets')
+  @UseGuards(JwtAuthGuard)
+  async getAdGroups(
+    @CurrentUser() user: any,
+    @Query('adAccountId') adAccountId?: string,
+    @Query('campaignId') campaignId?: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+  ) {
+    const { accessToken, adAccountId: accountId } = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id, adAccountId);
+    if (!campaignId && !accountId) {
+      throw new BadRequestException('adAccountId or campaignId is required');
+    }
+
+    const dateRange = since && until ? { since, until } : undefined;
+    return this.facebookService.getAdGroups(accessToken, campaignId || '', dateRange, accountId || undefined);
+  }
+
+  @Get('adsets/:id')
+  @UseGuards(JwtAuthGuard)
+  async getAdGroup(@CurrentUser() user: any, @Param('id') adSetId: string, @Query('adAccountId') adAccountId?: string) {
+    const { accessToken } = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id, adAccountId);
+    return this.facebookService.getAdGroup(accessToken, adSetId);
+  }
+
+  @Get('ads/:id')
+  @UseGuards(JwtAuthGuard)
+  async getAd(@CurrentUser() user: any, @Param('id') adId: string, @Query('adAccountId') adAccountId?: string) {
+    const { accessToken } = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id, adAccountId);
+    return this.facebookService.getAd(accessToken, adId);
+  }
+
+  // Typed metrics
+  @Get('metrics/account')
+  @UseGuards(JwtAuthGuard)
+  async getAccountMetrics(
+    @CurrentUser() user: any,
+    @Query('since') since: string,
+    @Query('until') until: string,
+    @Query('adAccountId') adAccountId?: string,
+  ) {
+    if (!since || !until) {
+      throw new BadRequestException('since and until date parameters are required');
+    }
+
+    const { accessToken, adAccountId: accountId } = await this.credentialResolver.resolveAccount(AdPlatform.FACEBOOK, user.id, adAccountId);
+    return this.facebookService.getAccountMetrics(accessToken, accountId, { since, until });
+  }
+
+  @Get('metrics/campaigns/:id')
+  @UseGuards(JwtAuthGuard)
+  async getCampaignMetrics(
+    @CurrentUser() user: any,
+    @Param('id') campaignId: string,
+    @Query('since') since: string,
+    @Query('until') until: string,
+    @Query('adAccountId') adAccountId?: string,
+  ) {
+    if (!since || !until) {
+      throw new BadRequestException('since and until date parameters are required');
+    }
+
+    const { accessToken } = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id, adAccountId);
+    return this.facebookService.getCampaignMetrics(accessToken, campaignId, { since, until });
+  }
+
+  /**
+   * Insights for many campaigns, ad sets or ads at once: ?ids=123,456&since=...&until=...
+   */
+  @Get('metrics/batch')
+  @UseGuards(JwtAuthGuard)
+  async getBatchMetrics(
+    @CurrentUser() user: any,
+    @Query('ids') ids: string,
+    @Query('since') since: string,
+    @Query('until') until: string,
+    @Query('adAccountId') adAccountId?: string,
+  ) {
+    if (!since || !until) {
+      throw new BadRequestException('since and until date parameters are required');
+    }
+
+    const objectIds = (ids || '').split(',').map(id => id.trim()).filter(Boolean);
+    if (objectIds.length === 0) {
+      throw new BadRequestException('ids is required');
+    }
+
+    const { accessToken, adAccountId: accountId } = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id, adAccountId);
+    return this.facebookService.getInsightsBatch(accessToken, objectIds, { since, until }, accountId || undefined);
+  }
+
   // Cache management
   @Post('cache/clear')
   @UseGuards(JwtAuthGuard)
   async clearCache(
+    @CurrentUser() user: any,
     @Body() body: { adAccountId?: string; dateRange?: string },
   ) {
-    await this.facebookService.clearCreativesCache(body.adAccountId, body.dateRange);
+    const { adAccountId } = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id, body.adAccountId);
+    if (!adAccountId) {
+      throw new BadRequestException('adAccountId is required');
+    }
+
+    await this.facebookService.clearCreativesCache(adAccountId, body.dateRange);
     return { success: true, message: 'Cache cleared' };
   }
 
   @Get('creatives-cache')
   @UseGuards(JwtAuthGuard)
   async getCreativesCache(
+    @CurrentUser() user: any,
     @Query('adAccountId') adAccountId: string,
     @Query('dateRange') dateRange: string,
     @Query('maxAgeHours') maxAgeHours: string = '24',
@@ -238,6 +364,8 @@ export class FacebookController {
       throw new BadRequestException('adAccountId and dateRange are required');
     }
 
+    await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id, adAccountId);
+
     const cached = await this.facebookService.getCreativesCache(
       adAccountId,
       dateRange,
@@ -255,20 +383,13 @@ export class FacebookController {
   @UseGuards(JwtAuthGuard)
   async getAdsets(
     @CurrentUser() user: any,
-    @Body() body: { accessToken?: string; adAccountId: string; dateRange?: string },
+    @Body() body: { adAccountId: string; dateRange?: string },
   ) {
     if (!body.adAccountId) {
       throw new BadRequestException('adAccountId is required');
     }
 
-    let accessToken = body.accessToken;
-    if (!accessToken) {
-      const session = await this.facebookService.getFacebookSession(user.userId);
-      if (!session) {
-        return { success: false, error: 'No Facebook session found' };
-      }
-      accessToken = session.accessToken;
-    }
+    const { accessToken } = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id, body.adAccountId);
 
     const result = await this.facebookService.getAdsets(
       body.adAccountId.replace('act_', ''),
@@ -283,20 +404,13 @@ export class FacebookController {
   @UseGuards(JwtAuthGuard)
   async getAdPreview(
     @CurrentUser() user: any,
-    @Body() body: { accessToken?: string; adId: string; format?: string },
+    @Body() body: { adId: string; format?: string; adAccountId?: string },
   ) {
     if (!body.adId) {
       throw new BadRequestException('adId is required');
     }
 
-    let accessToken = body.accessToken;
-    if (!accessToken) {
-      const session = await this.facebookService.getFacebookSession(user.userId);
-      if (!session) {
-        return { success: false, error: 'No Facebook session found' };
-      }
-      accessToken = session.accessToken;
-    }
+    const { accessToken } = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id, body.adAccountId);
 
     const result = await this.facebookService.getAdPreview(
       body.adId,
@@ -312,17 +426,14 @@ export class FacebookController {
     @CurrentUser() user: any,
     @Query('adId') adId: string,
     @Query('format') format: string = 'DESKTOP_FEED_STANDARD',
+    @Query('adAccountId') adAccountId?: string,
   ) {
     if (!adId) {
       throw new BadRequestException('adId is required');
     }
 
-    const session = await this.facebookService.getFacebookSession(user.userId);
-    if (!session) {
-      return { success: false, error: 'No Facebook session found' };
-    }
-
-    return this.facebookService.getAdPreview(adId, session.accessToken, format);
+    const { accessToken } = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id, adAccountId);
+    return this.facebookService.getAdPreview(adId, accessToken, format);
   }
 
   // Creative Preview
@@ -331,19 +442,14 @@ export class FacebookController {
   async getCreativePreview(
     @CurrentUser() user: any,
     @Query('creativeId') creativeId: string,
+    @Query('adAccountId') adAccountId?: string,
   ) {
     if (!creativeId) {
       throw new BadRequestException('creativeId is required');
     }
 
-    const session = await this.facebookService.getFacebookSession(user.userId);
-    if (!session) {
-      return { success: false, error: 'No Facebook session found' };
-    }
-
-    const result = await this.facebookService.getCreativePreview(creativeId, session.accessToken);
+    const { accessToken } = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, user.id, adAccountId);
+    const result = await this.facebookService.getCreativePreview(creativeId, accessToken);
     return { success: true, creative: result };
   }
 }
-
-
@@ -1,28 +1,34 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { FacebookService } from './facebook.service';
 import { FacebookController } from './facebook.controller';
 import { AdsLibraryController } from './controllers/ads-library.controller';
 import { AdsLibraryEmbedController } from './controllers/ads-library-embed.controller';
+import { InsightsReportsController } from './controllers/insights-reports.controller';
+import { InsightsReportService } from './insights-report.service';
 import { FacebookSession } from './entities/facebook-session.entity';
 import { CampaignData } from './entities/campaign-data.entity';
-import { MetricsCache } from './entities/metrics-cache.entity';
-import { CreativesCache } from './entities/creatives-cache.entity';
+import { InsightsReport } from './entities/insights-report.entity';
+import { InsightsReportRow } from './entities/insights-report-row.entity';
 import { ConfigModule } from '@nestjs/config';
+import { PlatformsModule } from '../platforms/platforms.module';
+import { AccountsModule } from '../accounts/accounts.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([
       FacebookSession,
       CampaignData,
-      MetricsCache,
-      CreativesCache,
+      InsightsReport,
+      InsightsReportRow,
     ]),
     ConfigModule,
+    AccountsModule,
+    forwardRef(() => PlatformsModule),
   ],
-  controllers: [FacebookController, AdsLibraryController, AdsLibraryEmbedController],
-  providers: [FacebookService],
-  exports: [FacebookService],
+  controllers: [FacebookController, AdsLibraryController, AdsLibraryEmbedController, InsightsReportsController],
+  providers: [FacebookService, InsightsReportService],
+  exports: [FacebookService, InsightsReportService],
 })
 export class FacebookModule {}
 
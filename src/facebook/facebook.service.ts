@@ -1,73 +1,398 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, UnauthorizedException, ForbiddenException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Repository, Not, IsNull, LessThan } from 'typeorm';
 import { FacebookSession } from './entities/facebook-session.entity';
 import { CampaignData } from './entities/campaign-data.entity';
-import { MetricsCache } from './entities/metrics-cache.entity';
-import { CreativesCache } from './entities/creatives-cache.entity';
 import { ConfigService } from '@nestjs/config';
+import { BaseAdPlatformService } from '../common/services/base-ad-platform.service';
+import { CacheService } from '../cache/cache.service';
+import { ConnectedAccountsService } from '../accounts/connected-accounts.service';
+import { cacheKey, accountCachePrefix } from '../cache/cache.util';
+import {
+  AdPlatform,
+  PlatformMetrics,
+  PlatformCampaign,
+  PlatformAdGroup,
+  PlatformAd,
+  PlatformCreative,
+  PlatformDateRange,
+  PlatformApiResponse,
+  SessionIdentity,
+  DailyAdMetrics,
+} from '../common/interfaces/ad-platform.interface';
+import { backoffDelay, parseFacebookUsage } from '../common/utils/rate-limit.util';
+
+export interface FacebookPaging {
+  cursors?: {
+    before?: string;
+    after?: string;
+  };
+  next?: string;
+}
+
+interface FacebookListResponse<T> {
+  data?: T[];
+  paging?: FacebookPaging;
+}
+
+interface FacebookBatchResponseItem {
+  code: number;
+  body: string;
+}
+
+export interface FacebookAdAccountApiData {
+  id: string;
+  name: string;
+  account_status: number;
+  currency: string;
+  timezone_name: string;
+}
+
+interface FacebookActionStat {
+  action_type: string;
+  value: string;
+}
+
+export interface FacebookInsightsApiData {
+  campaign_id?: string;
+  adset_id?: string;
+  ad_id?: string;
+  impressions?: string;
+  clicks?: string;
+  spend?: string;
+  reach?: string;
+  frequency?: string;
+  cpc?: string;
+  cpm?: string;
+  ctr?: string;
+  actions?: FacebookActionStat[];
+  action_values?: FacebookActionStat[];
+  conversions?: FacebookActionStat[];
+  date_start?: string;
+  date_stop?: string;
+}
+
+interface FacebookCampaignApiData {
+  id: string;
+  name: string;
+  status: string;
+  effective_status?: string;
+  objective?: string;
+  daily_budget?: string;
+  lifetime_budget?: string;
+  start_time?: string;
+  stop_time?: string;
+}
+
+interface FacebookAdSetApiData {
+  id: string;
+  name: string;
+  status: string;
+  effective_status?: string;
+  campaign_id?: string;
+  campaign?: { id: string; name: string };
+  daily_budget?: string;
+  lifetime_budget?: string;
+  bid_amount?: string;
+  targeting?: Record<string, any>;
+  optimization_goal?: string;
+  start_time?: string;
+  end_time?: string;
+}
+
+export interface FacebookCreativeApiData {
+  id: string;
+  name?: string;
+  title?: string;
+  body?: string;
+  thumbnail_url?: string;
+  image_url?: string;
+  video_id?: string;
+  call_to_action_type?: string;
+  object_story_spec?: Record<string, any>;
+  effective_object_story_id?: string;
+}
+
+export interface FacebookAdApiData {
+  id: string;
+  name: string;
+  status: string;
+  effective_status?: string;
+  adset_id?: string;
+  campaign_id?: string;
+  creative?: FacebookCreativeApiData;
+  insights?: FacebookListResponse<FacebookInsightsApiData>;
+}
+
+// What getAccountAds keeps in the creatives cache
+export interface FacebookCachedCreatives {
+  ads: FacebookAdApiData[];
+  paging?: FacebookPaging;
+}
+
+interface FacebookTokenResponse {
+  access_token?: string;
+  expires_in?: number;
+  error?: { message: string };
+}
+
+const INSIGHTS_FIELDS = 'impressions,clicks,spend,reach,frequency,cpc,cpm,ctr,actions,action_values';
+
+// Used when facebook.maxPages is not configured
+const DEFAULT_MAX_PAGES = 50;
+
+// Graph API accepts at most 50 requests per batch call
+const GRAPH_BATCH_SIZE = 50;
+
+export const INSIGHTS_BREAKDOWNS = [
+  'age',
+  'gender',
+  'country',
+  'region',
+  'publisher_platform',
+  'platform_position',
+  'device_platform',
+  'impression_device',
+] as const;
+
+export type InsightsBreakdown = typeof INSIGHTS_BREAKDOWNS[number];
+
+export type InsightsLevel = 'account' | 'campaign' | 'adset' | 'ad';
+
+export interface InsightsReportOptions {
+  level: InsightsLevel;
+  breakdowns: InsightsBreakdown[];
+  dateRange: PlatformDateRange;
+  daily: boolean; // one row per day (time_increment=1) rather than one for the whole range
+}
+
+export interface InsightsReportRunStatus {
+  status: string; // 'Job Not Started' | 'Job Started' | 'Job Running' | 'Job Completed' | 'Job Failed' | 'Job Skipped'
+  percent: number;
+}
+
+export interface InsightsResultRow {
+  dateStart: string;
+  dateStop: string;
+  objectId: string | null; // campaign, ad set or ad ID; null at account level
+  dimensions: Partial<Record<InsightsBreakdown, string>>;
+  metrics: PlatformMetrics;
+}
+const CAMPAIGN_FIELDS = 'id,name,status,effective_status,objective,daily_budget,lifetime_budget,start_time,stop_time';
+const ADSET_FIELDS = 'id,name,status,effective_status,campaign_id,daily_budget,lifetime_budget,bid_amount,targeting,optimization_goal,start_time,end_time';
+const AD_FIELDS = 'id,name,status,effective_status,adset_id,campaign_id,creative{id,name,title,body,thumbnail_url,image_url,video_id,call_to_action_type,object_story_spec}';
+
+// Graph returns budgets and bids in the currency's minor unit (cents)
+const FACEBOOK_MINOR_UNIT = 100;
+
+// Aggregated purchase action across pixel, app and offline events
+const PURCHASE_ACTION_TYPE = 'purchase';
+
+// Graph error codes for app, user, page, custom and business use case rate limits
+const FACEBOOK_THROTTLE_CODES = [4, 17, 32, 613, 80000, 80001, 80002, 80003, 80004, 80005, 80006, 80008, 80009, 80014];
 
 @Injectable()
-export class FacebookService {
-  private readonly logger = new Logger(FacebookService.name);
-  private readonly graphApiVersion = 'v18.0';
+export class FacebookService extends BaseAdPlatformService {
+  protected readonly logger = new Logger(FacebookService.name);
+  protected readonly platform = AdPlatform.FACEBOOK;
+  protected readonly apiVersion = 'v18.0';
+  protected readonly baseUrl = 'https://graph.facebook.com';
+  private readonly accountSettings = new Map<string, Pick<FacebookAdAccountApiData, 'currency' | 'timezone_name'>>();
 
   constructor(
     @InjectRepository(FacebookSession)
     private facebookSessionRepository: Repository<FacebookSession>,
     @InjectRepository(CampaignData)
     private campaignDataRepository: Repository<CampaignData>,
-    @InjectRepository(MetricsCache)
-    private metricsCacheRepository: Repository<MetricsCache>,
-    @InjectRepository(CreativesCache)
-    private creativesCacheRepository: Repository<CreativesCache>,
     private configService: ConfigService,
-  ) {}
+    private readonly cacheService: CacheService,
+    private readonly connectedAccountsService: ConnectedAccountsService,
+  ) {
+    super();
+  }
+
+  // ==================== SESSION MANAGEMENT ====================
 
-  // Session Management
-  async saveFacebookSession(
+  /**
+   * Facebook issues no refresh tokens; long-lived tokens are re-exchanged in refreshAccessToken instead.
+   * Each Facebook login gets its own session; without an identity the most recently used session is updated.
+   */
+  async saveSession(
     userId: number,
     accessToken: string,
+    refreshToken?: string,
     adAccountId?: string,
     tokenExpiresAt?: Date,
+    identity?: SessionIdentity,
   ): Promise<FacebookSession> {
-    let session = await this.facebookSessionRepository.findOneBy({ userId });
+    let session = await this.findIdentitySession(userId, identity);
     if (session) {
       session.accessToken = accessToken;
       session.adAccountId = adAccountId || session.adAccountId;
       session.tokenExpiresAt = tokenExpiresAt || session.tokenExpiresAt;
+      session.identityId = identity?.id || session.identityId;
+      session.identityName = identity?.name || session.identityName;
+      session.needsReauth = false;
+      session.reauthReason = null;
     } else {
       session = this.facebookSessionRepository.create({
         userId,
         accessToken,
         adAccountId,
         tokenExpiresAt,
+        identityId: identity?.id || null,
+        identityName: identity?.name || null,
       });
     }
-    return this.facebookSessionRepository.save(session);
+    const saved = await this.facebookSessionRepository.save(session);
+
+    if (saved.adAccountId) {
+      await this.connectedAccountsService.connect(userId, this.platform, saved.id, saved.adAccountId);
+    }
+
+    // Selecting the ad account again or refreshing its token starts it from a clean cache
+    await this.cacheService.invalidateAccount(AdPlatform.FACEBOOK, saved.adAccountId?.replace(/^act_/, ''));
+    return saved;
   }
 
-  async getFacebookSession(userId: number): Promise<FacebookSession | null> {
+  async getSession(userId: number): Promise<FacebookSession | null> {
     return this.facebookSessionRepository.findOne({
       where: { userId },
       order: { updatedAt: 'DESC' },
     });
   }
 
-  // Facebook Graph API Methods
-  async makeGraphApiCall(endpoint: string, accessToken: string, params?: Record<string, string>): Promise<any> {
-    const url = new URL(`https://graph.facebook.com/${this.graphApiVersion}${endpoint}`);
-    url.searchParams.append('access_token', accessToken);
-    
-    if (params) {
-      Object.entries(params).forEach(([key, value]) => {
-        url.searchParams.append(key, value);
-      });
+  async getSessions(userId: number): Promise<FacebookSession[]> {
+    return this.facebookSessionRepository.find({ where: { userId }, order: { updatedAt: 'DESC' } });
+  }
+
+  async getSessionById(userId: number, sessionId: number): Promise<FacebookSession | null> {
+    return this.facebookSessionRepository.findOne({ where: { id: sessionId, userId } });
+  }
+
+  async deleteSession(userId: number, sessionId?: number): Promise<void> {
+    await this.facebookSessionRepository.delete(sessionId ? { id: sessionId, userId } : { userId });
+    await this.connectedAccountsService.disconnectSession(userId, this.platform, sessionId);
+  }
+
+  /**
+   * The Facebook login behind a token
+   */
+  async getIdentity(accessToken: string): Promise<SessionIdentity> {
+    const me = await this.makeGraphApiCall<{ id: string; name?: string }>('/me', accessToken, { fields: 'id,name' });
+    return { id: me.id, name: me.name };
+  }
+
+  private async findIdentitySession(userId: number, identity?: SessionIdentity): Promise<FacebookSession | null> {
+    if (!identity) {
+      return this.getSession(userId);
+    }
+
+    // A session saved before identities were recorded is taken over by the first login connected
+    return await this.facebookSessionRepository.findOne({ where: { userId, identityId: identity.id } })
+      || await this.facebookSessionRepository.findOne({ where: { userId, identityId: IsNull() } });
+  }
+
+  async getConnectedSessions(): Promise<FacebookSession[]> {
+    return this.facebookSessionRepository.find({ where: { adAccountId: Not(IsNull()) } });
+  }
+
+  async getSessionsExpiringBefore(date: Date): Promise<FacebookSession[]> {
+    return this.facebookSessionRepository.find({ where: { tokenExpiresAt: LessThan(date), needsReauth: false } });
+  }
+
+  async markNeedsReauth(userId: number, reason: string, sessionId?: number): Promise<void> {
+    await this.facebookSessionRepository.update(sessionId ? { id: sessionId, userId } : { userId }, { needsReauth: true, reauthReason: reason });
+  }
+
+  /**
+   * Facebook has no paid seats, so an ad account is allowed when one of the user's connected logins can see it
+   */
+  async validateAdAccountAccess(userId: number, adAccountId: string): Promise<void> {
+    // An account a teammate connected for the organization has to be visible to the teammate's logins instead
+    const shared = await this.connectedAccountsService.getAccount(userId, this.platform, adAccountId);
+    if (shared && shared.userId !== userId) {
+      return this.validateAdAccountAccess(shared.userId, adAccountId);
+    }
+
+    const sessions = (await this.getSessions(userId)).filter(session => session.accessToken);
+    if (sessions.length === 0) {
+      throw new UnauthorizedException('No Facebook session found');
+    }
+
+    const accountId = adAccountId.replace(/^act_/, '');
+    if (sessions.some(session => session.adAccountId?.replace(/^act_/, '') === accountId)) {
+      return;
+    }
+
+    for (const session of sessions) {
+      const adAccounts = await this.getAdAccounts(session.accessToken);
+      if (adAccounts.some(account => account.id.replace(/^act_/, '') === accountId)) {
+        return;
+      }
+    }
+    throw new ForbiddenException(`No access to ad account ${adAccountId}`);
+  }
+
+  /**
+   * Exchange the stored token for a fresh long-lived one, extending its ~60 day lifetime
+   */
+  async refreshAccessToken(userId: number, sessionId?: number): Promise<FacebookSession> {
+    const session = sessionId ? await this.getSessionById(userId, sessionId) : await this.getSession(userId);
+    if (!session || !session.accessToken) {
+      throw new UnauthorizedException('No Facebook session found');
+    }
+
+    let exchanged: { accessToken: string; expiresIn: number };
+    try {
+      exchanged = await this.exchangeForLongLivedToken(session.accessToken);
+    } catch (error: any) {
+      this.logger.warn(`Token refresh failed for user ${userId}: ${error.message}`);
+      throw new UnauthorizedException(error.message);
+    }
+
+    const tokenExpiresAt = exchanged.expiresIn
+      ? new Date(Date.now() + exchanged.expiresIn * 1000)
+      : session.tokenExpiresAt;
+
+    const identity = session.identityId ? { id: session.identityId, name: session.identityName || undefined } : undefined;
+    return this.saveSession(userId, exchanged.accessToken, undefined, session.adAccountId, tokenExpiresAt, identity);
+  }
+
+  async exchangeForLongLivedToken(shortLivedToken: string): Promise<{
+    accessToken: string;
+    expiresIn: number;
+  }> {
+    const appId = this.configService.get<string>('facebook.appId');
+    const appSecret = this.configService.get<string>('facebook.appSecret');
+
+    const url = `${this.baseUrl}/${this.apiVersion}/oauth/access_token`;
+    const params = new URLSearchParams({
+      grant_type: 'fb_exchange_token',
+      client_id: appId || '',
+      client_secret: appSecret || '',
+      fb_exchange_token: shortLivedToken,
+    });
+
+    const response = await fetch(`${url}?${params.toString()}`);
+    const data: FacebookTokenResponse = await response.json();
+
+    if (data.error || !data.access_token) {
+      throw new Error(data.error?.message || `Token exchange failed: ${response.status}`);
     }
 
+    return {
+      accessToken: data.access_token,
+      expiresIn: data.expires_in || 0,
+    };
+  }
+
+  // ==================== GRAPH API ====================
+
+  async makeGraphApiCall<T = any>(endpoint: string, accessToken: string, params?: Record<string, string>): Promise<T> {
     try {
-      const response = await fetch(url.toString());
-      
+      const response = await this.fetchGraph(endpoint, accessToken, params);
+
       if (!response.ok) {
         const error = await response.json();
         throw new Error(error.error?.message || `Facebook API error: ${response.status}`);
@@ -80,101 +405,565 @@ export class FacebookService {
     }
   }
 
-  async getAdAccounts(accessToken: string): Promise<any[]> {
-    const result = await this.makeGraphApiCall('/me/adaccounts', accessToken, {
+  /**
+   * A Graph API GET behind the same limiter, retries and circuit breaker, returning the response as is for
+   * callers that act on the error themselves (the Ads Library reports missing API access by subcode)
+   */
+  async fetchGraph(endpoint: string, accessToken: string, params?: Record<string, string>, apiVersion: string = this.apiVersion): Promise<Response> {
+    const url = new URL(`${this.baseUrl}/${apiVersion}${endpoint}`);
+    url.searchParams.append('access_token', accessToken);
+
+    if (params) {
+      Object.entries(params).forEach(([key, value]) => {
+        url.searchParams.append(key, value);
+      });
+    }
+
+    return this.fetchWithRetry(url.toString(), {}, this.getRateLimitKey(url.toString()));
+  }
+
+  async makeGraphApiPost<T = any>(endpoint: string, accessToken: string, params: Record<string, string>): Promise<T> {
+    const url = `${this.baseUrl}/${this.apiVersion}${endpoint}`;
+    const body = new URLSearchParams({ ...params, access_token: accessToken });
+
+    const response = await this.fetchWithRetry(url, { method: 'POST', body }, this.getRateLimitKey(url));
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error?.message || `Facebook API error: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Follow `after` cursors until the list is exhausted or facebook.maxPages is reached. When the cap
+   * cuts the list short the returned paging still has `next` and the cursor to resume from.
+   */
+  private async fetchAllPages<T>(endpoint: string, accessToken: string, params: Record<string, string> = {}): Promise<FacebookListResponse<T> & { data: T[] }> {
+    const maxPages = this.configService.get<number>('facebook.maxPages') || DEFAULT_MAX_PAGES;
+    const data: T[] = [];
+    let paging: FacebookPaging | undefined;
+
+    for (let page = 0; page < maxPages; page++) {
+      const after = paging?.cursors?.after;
+      const result = await this.makeGraphApiCall<FacebookListResponse<T>>(endpoint, accessToken, {
+        ...params,
+        ...(after ? { after } : {}),
+      });
+
+      data.push(...(result.data || []));
+      paging = result.paging;
+      if (!paging?.next || !paging.cursors?.after) {
+        return { data, paging };
+      }
+    }
+
+    this.logger.warn(`Stopped paging ${endpoint} after ${maxPages} pages (${data.length} items)`);
+    return { data, paging };
+  }
+
+  /**
+   * Several GET requests in one round trip through the Graph API batch endpoint, in chunks of 50.
+   * Results line up with `relativeUrls`; a request that failed inside the batch comes back as null.
+   */
+  async makeGraphBatchCall<T = any>(accessToken: string, relativeUrls: string[], rateLimitKey?: string): Promise<(T | null)[]> {
+    const url = `${this.baseUrl}/${this.apiVersion}/`;
+    const results: (T | null)[] = [];
+
+    for (let i = 0; i < relativeUrls.length; i += GRAPH_BATCH_SIZE) {
+      const chunk = relativeUrls.slice(i, i + GRAPH_BATCH_SIZE);
+      const body = new URLSearchParams({
+        access_token: accessToken,
+        include_headers: 'false',
+        batch: JSON.stringify(chunk.map(relativeUrl => ({ method: 'GET', relative_url: relativeUrl }))),
+      });
+
+      const response = await this.fetchWithRetry(url, { method: 'POST', body }, rateLimitKey || this.getRateLimitKey(url));
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error?.message || `Facebook batch API error: ${response.status}`);
+      }
+
+      const items: (FacebookBatchResponseItem | null)[] = await response.json();
+      chunk.forEach((relativeUrl, index) => {
+        const item = items[index];
+        if (!item || item.code !== 200) {
+          this.logger.warn(`Batched Graph request ${relativeUrl} failed: ${item ? `${item.code} ${item.body}` : 'no response'}`);
+          results.push(null);
+          return;
+        }
+        results.push(JSON.parse(item.body) as T);
+      });
+    }
+
+    return results;
+  }
+
+  async getAdAccounts(accessToken: string): Promise<FacebookAdAccountApiData[]> {
+    const result = await this.fetchAllPages<FacebookAdAccountApiData>('/me/adaccounts', accessToken, {
       fields: 'id,name,account_status,currency,timezone_name',
       limit: '100',
     });
-    return result.data || [];
+    return result.data;
   }
 
-  async getAds(adAccountId: string, accessToken: string, dateRange: string): Promise<any> {
-    const datePreset = this.getDatePreset(dateRange);
-    
-    const result = await this.makeGraphApiCall(`/act_${adAccountId}/ads`, accessToken, {
-      fields: 'id,name,status,creative{id,name,thumbnail_url,object_story_spec},insights.date_preset(' + datePreset + '){impressions,clicks,spend,ctr,cpc,cpm,reach,frequency}',
-      limit: '500',
+  async getAccountCurrency(accessToken: string, adAccountId: string): Promise<string> {
+    return (await this.getAccountSettings(accessToken, adAccountId)).currency;
+  }
+
+  async getAccountTimezone(accessToken: string, adAccountId: string): Promise<string> {
+    return (await this.getAccountSettings(accessToken, adAccountId)).timezone_name || 'UTC';
+  }
+
+  private async getAccountSettings(accessToken: string, adAccountId: string): Promise<Pick<FacebookAdAccountApiData, 'currency' | 'timezone_name'>> {
+    if (!this.accountSettings.has(adAccountId)) {
+      const account = await this.makeGraphApiCall<FacebookAdAccountApiData>(this.accountPath(adAccountId), accessToken, {
+        fields: 'currency,timezone_name',
+      });
+      this.accountSettings.set(adAccountId, { currency: account.currency, timezone_name: account.timezone_name });
+    }
+
+    return this.accountSettings.get(adAccountId)!;
+  }
+
+  /**
+   * Graph throttles with a 400 and an error code rather than a 429; the usage headers say how long until access returns
+   */
+  protected async getRetryDelay(response: Response, attempt: number): Promise<number | null> {
+    if (response.ok) {
+      return null;
+    }
+
+    const body = await response.clone().json().catch(() => null);
+    const error = body?.error;
+    if (error && (FACEBOOK_THROTTLE_CODES.includes(error.code) || error.is_transient)) {
+      const { regainAccessMs } = parseFacebookUsage(response.headers);
+      return regainAccessMs || backoffDelay(attempt, this.getRetryPolicy());
+    }
+
+    return super.getRetryDelay(response, attempt);
+  }
+
+  protected getRateLimitKey(url: string): string {
+    return url.match(/\/(act_\d+)/)?.[1] || super.getRateLimitKey(url);
+  }
+
+  // ==================== CAMPAIGN OPERATIONS ====================
+
+  async getCampaigns(
+    accessToken: string,
+    adAccountId: string,
+    dateRange?: PlatformDateRange,
+  ): Promise<PlatformApiResponse<PlatformCampaign[]>> {
+    try {
+      const result = await this.fetchAllPages<FacebookCampaignApiData>(
+        `${this.accountPath(adAccountId)}/campaigns`,
+        accessToken,
+        { fields: CAMPAIGN_FIELDS, limit: '500' },
+      );
+
+      const campaigns = result.data.map(campaign => this.mapCampaign(campaign));
+
+      // Fetch metrics if date range provided
+      if (dateRange && campaigns.length > 0) {
+        const metricsMap = await this.getLevelMetrics(accessToken, this.accountPath(adAccountId), 'campaign', dateRange);
+        campaigns.forEach((campaign) => {
+          campaign.metrics = metricsMap[campaign.id];
+        });
+      }
+
+      return {
+        success: true,
+        data: campaigns,
+        pagination: this.toPagination(result.paging, campaigns.length),
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to get campaigns', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getCampaign(accessToken: string, campaignId: string): Promise<PlatformApiResponse<PlatformCampaign>> {
+    try {
+      const campaign = await this.makeGraphApiCall<FacebookCampaignApiData>(`/${campaignId}`, accessToken, {
+        fields: CAMPAIGN_FIELDS,
+      });
+
+      return { success: true, data: this.mapCampaign(campaign) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ==================== AD SET OPERATIONS ====================
+
+  async getAdGroups(
+    accessToken: string,
+    campaignId: string,
+    dateRange?: PlatformDateRange,
+    adAccountId?: string,
+  ): Promise<PlatformApiResponse<PlatformAdGroup[]>> {
+    if (!campaignId && !adAccountId) {
+      return { success: false, error: 'Either a campaign ID or an ad account ID is required' };
+    }
+
+    try {
+      const parent = campaignId ? `/${campaignId}` : this.accountPath(adAccountId!);
+      const result = await this.fetchAllPages<FacebookAdSetApiData>(`${parent}/adsets`, accessToken, {
+        fields: ADSET_FIELDS,
+        limit: '500',
+      });
+
+      const adGroups = result.data.map(adSet => this.mapAdSet(adSet));
+
+      if (dateRange && adGroups.length > 0) {
+        const metricsMap = await this.getLevelMetrics(accessToken, parent, 'adset', dateRange);
+        adGroups.forEach((adGroup) => {
+          adGroup.metrics = metricsMap[adGroup.id];
+        });
+      }
+
+      return {
+        success: true,
+        data: adGroups,
+        pagination: this.toPagination(result.paging, adGroups.length),
+      };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getAdGroup(accessToken: string, adGroupId: string): Promise<PlatformApiResponse<PlatformAdGroup>> {
+    try {
+      const adSet = await this.makeGraphApiCall<FacebookAdSetApiData>(`/${adGroupId}`, accessToken, {
+        fields: ADSET_FIELDS,
+      });
+
+      return { success: true, data: this.mapAdSet(adSet) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ==================== AD OPERATIONS ====================
+
+  async getAds(
+    accessToken: string,
+    adGroupId: string,
+    dateRange?: PlatformDateRange,
+    adAccountId?: string,
+  ): Promise<PlatformApiResponse<PlatformAd[]>> {
+    if (!adGroupId && !adAccountId) {
+      return { success: false, error: 'Either an ad set ID or an ad account ID is required' };
+    }
+
+    try {
+      const parent = adGroupId ? `/${adGroupId}` : this.accountPath(adAccountId!);
+      const result = await this.fetchAllPages<FacebookAdApiData>(`${parent}/ads`, accessToken, {
+        fields: AD_FIELDS,
+        limit: '500',
+      });
+
+      const ads = result.data.map(ad => this.mapAd(ad));
+
+      if (dateRange && ads.length > 0) {
+        const metricsMap = await this.getLevelMetrics(accessToken, parent, 'ad', dateRange);
+        ads.forEach((ad) => {
+          ad.metrics = metricsMap[ad.id];
+        });
+      }
+
+      return {
+        success: true,
+        data: ads,
+        pagination: this.toPagination(result.paging, ads.length),
+      };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getAd(accessToken: string, adId: string): Promise<PlatformApiResponse<PlatformAd>> {
+    try {
+      const ad = await this.makeGraphApiCall<FacebookAdApiData>(`/${adId}`, accessToken, {
+        fields: AD_FIELDS,
+      });
+
+      return { success: true, data: this.mapAd(ad) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ==================== METRICS ====================
+
+  async getAccountMetrics(
+    accessToken: string,
+    adAccountId: string,
+    dateRange: PlatformDateRange,
+  ): Promise<PlatformApiResponse<PlatformMetrics>> {
+    try {
+      const result = await this.makeGraphApiCall<FacebookListResponse<FacebookInsightsApiData>>(
+        `${this.accountPath(adAccountId)}/insights`,
+        accessToken,
+        { fields: INSIGHTS_FIELDS, level: 'account', ...this.getTimeParams(dateRange) },
+      );
+
+      return { success: true, data: this.transformMetrics(result.data?.[0]) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getCampaignMetrics(
+    accessToken: string,
+    campaignId: string,
+    dateRange: PlatformDateRange,
+  ): Promise<PlatformApiResponse<PlatformMetrics>> {
+    try {
+      const result = await this.makeGraphApiCall<FacebookListResponse<FacebookInsightsApiData>>(
+        `/${campaignId}/insights`,
+        accessToken,
+        { fields: INSIGHTS_FIELDS, level: 'campaign', ...this.getTimeParams(dateRange) },
+      );
+
+      return { success: true, data: this.transformMetrics(result.data?.[0]) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Insights for every campaign, ad set or ad under a parent node, keyed by object ID
+   */
+  private async getLevelMetrics(
+    accessToken: string,
+    parent: string,
+    level: 'campaign' | 'adset' | 'ad',
+    dateRange: PlatformDateRange,
+  ): Promise<Record<string, PlatformMetrics>> {
+    const metricsMap: Record<string, PlatformMetrics> = {};
+
+    try {
+      const result = await this.fetchAllPages<FacebookInsightsApiData>(`${parent}/insights`, accessToken, {
+        fields: `${level}_id,${INSIGHTS_FIELDS}`,
+        level,
+        limit: '500',
+        ...this.getTimeParams(dateRange),
+      });
+
+      result.data.forEach((row) => {
+        const id = level === 'campaign' ? row.campaign_id : level === 'adset' ? row.adset_id : row.ad_id;
+        if (id) {
+          metricsMap[id] = this.transformMetrics(row);
+        }
+      });
+    } catch (error: any) {
+      this.logger.warn(`Failed to get ${level} insights: ${error.message}`);
+    }
+
+    return metricsMap;
+  }
+
+  /**
+   * Insights for any mix of campaign, ad set and ad IDs in as few round trips as the batch endpoint allows,
+   * keyed by object ID. Objects whose request failed are left out.
+   */
+  async getInsightsBatch(
+    accessToken: string,
+    objectIds: string[],
+    dateRange: PlatformDateRange,
+    adAccountId?: string,
+  ): Promise<PlatformApiResponse<Record<string, PlatformMetrics>>> {
+    try {
+      const query = new URLSearchParams({ fields: INSIGHTS_FIELDS, ...this.getTimeParams(dateRange) }).toString();
+      const results = await this.makeGraphBatchCall<FacebookListResponse<FacebookInsightsApiData>>(
+        accessToken,
+        objectIds.map(id => `${id}/insights?${query}`),
+        adAccountId ? this.accountPath(adAccountId).slice(1) : undefined,
+      );
+
+      const metricsMap: Record<string, PlatformMetrics> = {};
+      results.forEach((result, index) => {
+        if (result) {
+          metricsMap[objectIds[index]] = this.transformMetrics(result.data?.[0]);
+        }
+      });
+
+      return { success: true, data: metricsMap };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Ad-level insights split by day (time_increment=1), walking every page of the report
+   */
+  async getDailyAdMetrics(
+    accessToken: string,
+    adAccountId: string,
+    dateRange: PlatformDateRange,
+  ): Promise<PlatformApiResponse<DailyAdMetrics[]>> {
+    try {
+      const result = await this.fetchAllPages<FacebookInsightsApiData>(`${this.accountPath(adAccountId)}/insights`, accessToken, {
+        fields: `campaign_id,adset_id,ad_id,${INSIGHTS_FIELDS}`,
+        level: 'ad',
+        time_increment: '1',
+        limit: '500',
+        ...this.getTimeParams(dateRange),
+      });
+
+      const rows: DailyAdMetrics[] = result.data
+        .filter(row => row.ad_id && row.date_start)
+        .map(row => ({
+          date: row.date_start!,
+          campaignId: row.campaign_id || '',
+          adGroupId: row.adset_id || '',
+          adId: row.ad_id!,
+          metrics: this.transformMetrics(row),
+        }));
+
+      return { success: true, data: rows };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ==================== ASYNC INSIGHTS REPORTS ====================
+
+  /**
+   * Submit an insights query as an async report run; Facebook builds it in the background and
+   * returns an ID to poll with getInsightsReportRun
+   */
+  async createInsightsReportRun(accessToken: string, adAccountId: string, options: InsightsReportOptions): Promise<string> {
+    const result = await this.makeGraphApiPost<{ report_run_id?: string }>(`${this.accountPath(adAccountId)}/insights`, accessToken, {
+      fields: options.level === 'account' ? INSIGHTS_FIELDS : `${options.level}_id,${INSIGHTS_FIELDS}`,
+      level: options.level,
+      time_increment: options.daily ? '1' : 'all_days',
+      ...(options.breakdowns.length ? { breakdowns: options.breakdowns.join(',') } : {}),
+      ...this.getTimeParams(options.dateRange),
+    });
+
+    if (!result.report_run_id) {
+      throw new Error('Facebook did not return a report run ID');
+    }
+    return result.report_run_id;
+  }
+
+  async getInsightsReportRun(accessToken: string, reportRunId: string): Promise<InsightsReportRunStatus> {
+    const result = await this.makeGraphApiCall<{ async_status?: string; async_percent_completion?: number }>(`/${reportRunId}`, accessToken, {
+      fields: 'async_status,async_percent_completion',
     });
 
     return {
-      ads: result.data || [],
-      paging: result.paging,
+      status: result.async_status || 'Job Not Started',
+      percent: result.async_percent_completion || 0,
     };
   }
 
-  async getInsights(adAccountId: string, accessToken: string, dateRange: string): Promise<any> {
-    const datePreset = this.getDatePreset(dateRange);
-    
-    const result = await this.makeGraphApiCall(`/act_${adAccountId}/insights`, accessToken, {
+  /**
+   * Every row of a completed report run
+   */
+  async getInsightsReportRows(accessToken: string, reportRunId: string, options: InsightsReportOptions): Promise<InsightsResultRow[]> {
+    const result = await this.fetchAllPages<FacebookInsightsApiData & Partial<Record<InsightsBreakdown, string>>>(`/${reportRunId}/insights`, accessToken, {
+      limit: '500',
+    });
+
+    return result.data.map((row) => {
+      const dimensions: Partial<Record<InsightsBreakdown, string>> = {};
+      for (const breakdown of options.breakdowns) {
+        dimensions[breakdown] = row[breakdown];
+      }
+
+      const objectId = options.level === 'campaign' ? row.campaign_id : options.level === 'adset' ? row.adset_id : options.level === 'ad' ? row.ad_id : undefined;
+
+      return {
+        dateStart: row.date_start || options.dateRange.since,
+        dateStop: row.date_stop || options.dateRange.until,
+        objectId: objectId || null,
+        dimensions,
+        metrics: this.transformMetrics(row),
+      };
+    });
+  }
+
+  // ==================== ACCOUNT REPORTS ====================
+
+  /**
+   * Ads with their creative and insights. Each result is kept in the creatives cache and served
+   * from there, flagged stale, while Graph API is unavailable.
+   */
+  async getAccountAds(adAccountId: string, accessToken: string, dateRange: string | PlatformDateRange): Promise<FacebookCachedCreatives & { stale?: boolean; cachedAt?: Date }> {
+    const key = this.creativesCacheKey(adAccountId, typeof dateRange === 'string' ? dateRange : `${dateRange.since}_${dateRange.until}`);
+
+    try {
+      const range = await this.resolveAccountDateRange(accessToken, adAccountId, dateRange);
+      const result = await this.fetchAllPages<FacebookAdApiData>(`${this.accountPath(adAccountId)}/ads`, accessToken, {
+        fields: 'id,name,status,creative{id,name,thumbnail_url,object_story_spec},insights.' + this.getInsightsModifier(range) + '{impressions,clicks,spend,ctr,cpc,cpm,reach,frequency}',
+        limit: '500',
+      });
+
+      const payload: FacebookCachedCreatives = {
+        ads: result.data,
+        paging: result.paging,
+      };
+      await this.cacheService.set(key, 'creatives', payload);
+
+      return payload;
+    } catch (error) {
+      if (this.isPlatformUnavailable(error)) {
+        const cached = await this.cacheService.getLastKnown<FacebookCachedCreatives>(key);
+        if (cached) {
+          return { ...cached.value, stale: true, cachedAt: cached.cachedAt };
+        }
+      }
+      throw error;
+    }
+  }
+
+  async getInsights(adAccountId: string, accessToken: string, dateRange: string | PlatformDateRange): Promise<FacebookInsightsApiData> {
+    const range = await this.resolveAccountDateRange(accessToken, adAccountId, dateRange);
+    const result = await this.makeGraphApiCall<FacebookListResponse<FacebookInsightsApiData>>(`${this.accountPath(adAccountId)}/insights`, accessToken, {
       fields: 'impressions,clicks,spend,ctr,cpc,cpm,reach,frequency,actions,conversions',
-      date_preset: datePreset,
       level: 'account',
+      ...this.getTimeParams(range),
     });
 
     return result.data?.[0] || {};
   }
 
-  async getCreatives(adAccountId: string, accessToken: string): Promise<any[]> {
-    const result = await this.makeGraphApiCall(`/act_${adAccountId}/adcreatives`, accessToken, {
+  async getCreatives(adAccountId: string, accessToken: string): Promise<FacebookCreativeApiData[]> {
+    const result = await this.fetchAllPages<FacebookCreativeApiData>(`${this.accountPath(adAccountId)}/adcreatives`, accessToken, {
       fields: 'id,name,title,body,thumbnail_url,image_url,object_story_spec,effective_object_story_id',
       limit: '200',
     });
 
-    return result.data || [];
+    return result.data;
   }
 
-  async getDemographics(adAccountId: string, accessToken: string, dateRange: string): Promise<any> {
-    const datePreset = this.getDatePreset(dateRange);
-    
-    const result = await this.makeGraphApiCall(`/act_${adAccountId}/insights`, accessToken, {
+  async getDemographics(adAccountId: string, accessToken: string, dateRange: string | PlatformDateRange): Promise<(FacebookInsightsApiData & { age?: string; gender?: string })[]> {
+    const range = await this.resolveAccountDateRange(accessToken, adAccountId, dateRange);
+    const result = await this.fetchAllPages<FacebookInsightsApiData & { age?: string; gender?: string }>(`${this.accountPath(adAccountId)}/insights`, accessToken, {
       fields: 'impressions,clicks,spend,actions',
-      date_preset: datePreset,
       breakdowns: 'age,gender',
+      ...this.getTimeParams(range),
     });
 
-    return result.data || [];
+    return result.data;
   }
 
-  async exchangeForLongLivedToken(shortLivedToken: string): Promise<{
-    accessToken: string;
-    expiresIn: number;
-  }> {
-    const appId = this.configService.get<string>('facebook.appId');
-    const appSecret = this.configService.get<string>('facebook.appSecret');
-
-    const url = `https://graph.facebook.com/${this.graphApiVersion}/oauth/access_token`;
-    const params = new URLSearchParams({
-      grant_type: 'fb_exchange_token',
-      client_id: appId || '',
-      client_secret: appSecret || '',
-      fb_exchange_token: shortLivedToken,
-    });
-
-    const response = await fetch(`${url}?${params.toString()}`);
-    const data = await response.json();
-
-    if (data.error) {
-      throw new Error(data.error.message);
-    }
-
-    return {
-      accessToken: data.access_token,
-      expiresIn: data.expires_in,
-    };
+  /**
+   * Insights time window params for an explicit since/until range
+   */
+  private getTimeParams(dateRange: PlatformDateRange): Record<string, string> {
+    return { time_range: JSON.stringify(this.formatDateRange(dateRange)) };
   }
 
-  private getDatePreset(dateRange: string): string {
-    const presetMap: Record<string, string> = {
-      'today': 'today',
-      'yesterday': 'yesterday',
-      'last_7d': 'last_7d',
-      'last_14d': 'last_14d',
-      'last_30d': 'last_30d',
-      'last_90d': 'last_90d',
-      'this_month': 'this_month',
-      'last_month': 'last_month',
-    };
-    return presetMap[dateRange] || 'last_30d';
+  /**
+   * Same time window, as a field expansion modifier (e.g. insights.time_range({...}){...})
+   */
+  private getInsightsModifier(dateRange: PlatformDateRange): string {
+    return `time_range(${JSON.stringify(this.formatDateRange(dateRange))})`;
   }
 
   // Cache methods (unchanged)
@@ -207,83 +996,55 @@ export class FacebookService {
     });
   }
 
-  async saveMetricsCache(sessionId: number, metrics: any[], dateRange: string): Promise<void> {
-    await this.metricsCacheRepository.delete({ sessionId, dateRange });
-    
-    const entities = metrics.map(metric => this.metricsCacheRepository.create({
-      sessionId,
-      metricName: metric.label,
-      metricValue: metric.value,
-      dateRange,
-    }));
-    
-    await this.metricsCacheRepository.save(entities);
-  }
+  async getCreativesCache(adAccountId: string, dateRange: string, maxAgeHours: number): Promise<FacebookCachedCreatives | null> {
+    const cached = await this.cacheService.getLastKnown<FacebookCachedCreatives>(this.creativesCacheKey(adAccountId, dateRange));
+    if (!cached) return null;
 
-  async getMetricsCache(sessionId: number, dateRange: string): Promise<MetricsCache[]> {
-    return this.metricsCacheRepository.find({
-      where: { sessionId, dateRange },
-    });
-  }
-
-  async saveCreativesCache(adAccountId: string, dateRange: string, payload: any): Promise<void> {
-    await this.creativesCacheRepository.delete({ adAccountId, dateRange });
-    
-    const cache = this.creativesCacheRepository.create({
-      adAccountId,
-      dateRange,
-      payload,
-    });
-    await this.creativesCacheRepository.save(cache);
-  }
-
-  async getCreativesCache(adAccountId: string, dateRange: string, maxAgeHours: number): Promise<any | null> {
-    const cache = await this.creativesCacheRepository.findOne({
-      where: { adAccountId, dateRange },
-      order: { createdAt: 'DESC' },
-    });
-
-    if (!cache) return null;
-
-    const ageMs = Date.now() - cache.createdAt.getTime();
+    const ageMs = Date.now() - cached.cachedAt.getTime();
     const ttlMs = Math.max(0, Number(maxAgeHours) || 0) * 60 * 60 * 1000;
     
     if (ttlMs > 0 && ageMs < ttlMs) {
-      return cache.payload;
+      return cached.value;
     }
     return null;
   }
 
-  async clearCreativesCache(adAccountId?: string, dateRange?: string): Promise<void> {
-    if (adAccountId && dateRange) {
-      await this.creativesCacheRepository.delete({ adAccountId, dateRange });
+  /**
+   * Drop one cached date range for the account, or all of its cached creatives
+   */
+  async clearCreativesCache(adAccountId: string, dateRange?: string): Promise<void> {
+    if (dateRange) {
+      await this.cacheService.delete(this.creativesCacheKey(adAccountId, dateRange));
     } else {
-      await this.creativesCacheRepository.clear();
+      await this.cacheService.invalidate(accountCachePrefix(AdPlatform.FACEBOOK, adAccountId.replace(/^act_/, ''), 'creatives'));
     }
   }
 
-  async getAdsets(adAccountId: string, accessToken: string, dateRange: string): Promise<any> {
-    const datePreset = this.getDatePreset(dateRange);
-    
-    const result = await this.makeGraphApiCall(`/act_${adAccountId}/adsets`, accessToken, {
+  private creativesCacheKey(adAccountId: string, dateRange: string): string {
+    return cacheKey(AdPlatform.FACEBOOK, adAccountId.replace(/^act_/, ''), 'creatives', 'ads', dateRange);
+  }
+
+  async getAdsets(adAccountId: string, accessToken: string, dateRange: string | PlatformDateRange): Promise<any> {
+    const range = await this.resolveAccountDateRange(accessToken, adAccountId, dateRange);
+    const result = await this.fetchAllPages<FacebookAdSetApiData>(`${this.accountPath(adAccountId)}/adsets`, accessToken, {
       fields: 'id,name,status,effective_status,daily_budget,lifetime_budget,start_time,end_time,campaign{id,name},targeting,optimization_goal',
       limit: '200',
     });
 
-    const adsets = result.data || [];
+    const adsets = result.data;
 
     // Fetch insights for adsets
-    const insightsResult = await this.makeGraphApiCall(`/act_${adAccountId}/insights`, accessToken, {
+    const insightsResult = await this.fetchAllPages<FacebookInsightsApiData>(`${this.accountPath(adAccountId)}/insights`, accessToken, {
       fields: 'adset_id,impressions,clicks,spend,reach,frequency,cpc,cpm,ctr,actions,action_values',
       level: 'adset',
       time_increment: 'all_days',
-      date_preset: datePreset,
       limit: '200',
+      ...this.getTimeParams(range),
     });
 
     const insightsByAdset = new Map<string, any>();
-    for (const insight of (insightsResult.data || [])) {
-      insightsByAdset.set(insight.adset_id, {
+    for (const insight of insightsResult.data) {
+      insightsByAdset.set(insight.adset_id!, {
         impressions: parseInt(insight.impressions || '0'),
         clicks: parseInt(insight.clicks || '0'),
         spend: parseFloat(insight.spend || '0'),
@@ -295,7 +1056,7 @@ export class FacebookService {
       });
     }
 
-    const adsetsWithInsights = adsets.map((adset: any) => ({
+    const adsetsWithInsights = adsets.map((adset) => ({
       ...adset,
       insights: insightsByAdset.get(adset.id) || {
         impressions: 0,
@@ -357,6 +1118,113 @@ export class FacebookService {
 
     return result;
   }
-}
 
+  // ==================== UTILITIES ====================
+
+  /**
+   * Ad account node path; accepts IDs with or without the act_ prefix
+   */
+  private accountPath(adAccountId: string): string {
+    return `/act_${adAccountId.replace(/^act_/, '')}`;
+  }
+
+  private toPagination(paging: FacebookPaging | undefined, count: number): PlatformApiResponse<unknown>['pagination'] {
+    return {
+      hasMore: !!paging?.next,
+      cursor: paging?.cursors?.after,
+      totalCount: count,
+    };
+  }
+
+  private mapCampaign(c: FacebookCampaignApiData): PlatformCampaign {
+    return {
+      id: c.id,
+      name: c.name,
+      status: c.status,
+      objective: c.objective,
+      budget: c.daily_budget
+        ? Number(c.daily_budget) / FACEBOOK_MINOR_UNIT
+        : c.lifetime_budget ? Number(c.lifetime_budget) / FACEBOOK_MINOR_UNIT : undefined,
+      budgetType: c.daily_budget ? 'daily' : c.lifetime_budget ? 'lifetime' : undefined,
+      startTime: c.start_time ? new Date(c.start_time) : undefined,
+      endTime: c.stop_time ? new Date(c.stop_time) : undefined,
+    };
+  }
+
+  private mapAdSet(as: FacebookAdSetApiData): PlatformAdGroup {
+    const budget = as.daily_budget || as.lifetime_budget;
+
+    return {
+      id: as.id,
+      campaignId: as.campaign_id || as.campaign?.id || '',
+      name: as.name,
+      status: as.status,
+      targeting: as.targeting,
+      budget: budget ? Number(budget) / FACEBOOK_MINOR_UNIT : undefined,
+      bidAmount: as.bid_amount ? Number(as.bid_amount) / FACEBOOK_MINOR_UNIT : undefined,
+    };
+  }
+
+  private mapAd(ad: FacebookAdApiData): PlatformAd {
+    return {
+      id: ad.id,
+      adGroupId: ad.adset_id || '',
+      campaignId: ad.campaign_id || '',
+      name: ad.name,
+      status: ad.status,
+      creativeId: ad.creative?.id,
+      creative: ad.creative ? this.mapCreative(ad.creative) : undefined,
+    };
+  }
+
+  private mapCreative(creative: FacebookCreativeApiData): PlatformCreative {
+    const spec = creative.object_story_spec;
+
+    let type: PlatformCreative['type'] = 'image';
+    if (creative.video_id || spec?.video_data) {
+      type = 'video';
+    } else if (spec?.link_data?.child_attachments?.length) {
+      type = 'carousel';
+    } else if (spec?.template_data) {
+      type = 'dynamic';
+    }
 
+    return {
+      id: creative.id,
+      type,
+      title: creative.title || creative.name,
+      body: creative.body,
+      imageUrl: creative.image_url,
+      thumbnailUrl: creative.thumbnail_url,
+      callToAction: creative.call_to_action_type,
+      landingUrl: spec?.link_data?.link || spec?.video_data?.call_to_action?.value?.link,
+    };
+  }
+
+  private transformMetrics(raw?: FacebookInsightsApiData): PlatformMetrics {
+    const impressions = parseInt(raw?.impressions || '0');
+    const clicks = parseInt(raw?.clicks || '0');
+    const spend = parseFloat(raw?.spend || '0');
+    const conversions = this.getActionValue(raw?.actions, PURCHASE_ACTION_TYPE);
+    const revenue = this.getActionValue(raw?.action_values, PURCHASE_ACTION_TYPE);
+
+    return {
+      impressions,
+      clicks,
+      spend,
+      reach: parseInt(raw?.reach || '0'),
+      frequency: parseFloat(raw?.frequency || '0'),
+      cpc: this.calculateCPC(spend, clicks),
+      cpm: this.calculateCPM(spend, impressions),
+      ctr: this.calculateCTR(clicks, impressions),
+      conversions,
+      costPerConversion: conversions > 0 ? spend / conversions : 0,
+      roas: revenue > 0 ? this.calculateROAS(revenue, spend) : undefined,
+    };
+  }
+
+  private getActionValue(actions: FacebookActionStat[] | undefined, actionType: string): number {
+    const action = actions?.find(a => a.action_type === actionType);
+    return action ? parseFloat(action.value) || 0 : 0;
+  }
+}
@@ -0,0 +1,215 @@
+import { Injectable, Logger, OnModuleInit, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { Repository, In } from 'typeorm';
+import { FacebookService, InsightsReportOptions, InsightsBreakdown, InsightsLevel } from './facebook.service';
+import { InsightsReport } from './entities/insights-report.entity';
+import { InsightsReportRow } from './entities/insights-report-row.entity';
+import { CredentialResolverService } from '../platforms/credential-resolver.service';
+import { AdPlatform, PlatformDateRange } from '../common/interfaces/ad-platform.interface';
+
+export interface InsightsReportRequest {
+  adAccountId: string;
+  level: InsightsLevel;
+  breakdowns: InsightsBreakdown[];
+  dateRange: PlatformDateRange;
+  daily: boolean;
+}
+
+const REPORT_POLL_JOB_NAME = 'facebook-insights-reports';
+
+// Consecutive failed calls to Facebook before the report is marked failed
+const MAX_ATTEMPTS = 5;
+
+// Facebook occasionally leaves a run stuck at a low percentage; give up rather than poll forever
+const REPORT_TIMEOUT_MS = 60 * 60 * 1000;
+
+const INSERT_CHUNK_SIZE = 500;
+
+/**
+ * Heavy insights queries (big accounts, breakdowns by day) run through Facebook's async report_run flow.
+ * Requests are queued here, submitted and polled by a background worker, and the finished rows stored in our database.
+ */
+@Injectable()
+export class InsightsReportService implements OnModuleInit {
+  private readonly logger = new Logger(InsightsReportService.name);
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly facebookService: FacebookService,
+    private readonly credentialResolver: CredentialResolverService,
+    @InjectRepository(InsightsReport)
+    private readonly reportRepository: Repository<InsightsReport>,
+    @InjectRepository(InsightsReportRow)
+    private readonly reportRowRepository: Repository<InsightsReportRow>,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {}
+
+  onModuleInit() {
+    // Reports left pending/running by a restart are picked up again on the next tick
+    const cron = this.configService.get<string>('facebook.reportPollCron') || '*/20 * * * * *';
+    const job = CronJob.from({
+      cronTime: cron,
+      onTick: () => {
+        this.processReports().catch((error: any) => this.logger.error(`Insights report run failed: ${error.message}`));
+      },
+    });
+
+    this.schedulerRegistry.addCronJob(REPORT_POLL_JOB_NAME, job);
+    job.start();
+  }
+
+  // ==================== REPORTS ====================
+
+  async enqueue(userId: number, request: InsightsReportRequest): Promise<InsightsReport> {
+    const report = await this.reportRepository.save(this.reportRepository.create({
+      userId,
+      adAccountId: request.adAccountId,
+      level: request.level,
+      breakdowns: request.breakdowns,
+      since: request.dateRange.since,
+      until: request.dateRange.until,
+      daily: request.daily,
+    }));
+
+    this.logger.log(`Queued insights report ${report.id} for account ${request.adAccountId} (${request.level}, ${request.breakdowns.join(',') || 'no breakdowns'})`);
+    return report;
+  }
+
+  async getReports(userId: number): Promise<InsightsReport[]> {
+    return this.reportRepository.find({ where: { userId }, order: { createdAt: 'DESC' } });
+  }
+
+  async getReport(userId: number, reportId: number): Promise<InsightsReport> {
+    const report = await this.reportRepository.findOne({ where: { id: reportId, userId } });
+    if (!report) {
+      throw new NotFoundException(`Insights report ${reportId} not found`);
+    }
+    return report;
+  }
+
+  async getRows(userId: number, reportId: number, limit: number, offset: number): Promise<{ rows: InsightsReportRow[]; total: number }> {
+    const report = await this.getReport(userId, reportId);
+    const [rows, total] = await this.reportRowRepository.findAndCount({
+      where: { reportId: report.id },
+      order: { dateStart: 'ASC', id: 'ASC' },
+      take: limit,
+      skip: offset,
+    });
+    return { rows, total };
+  }
+
+  // ==================== WORKER ====================
+
+  async processReports(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const reports = await this.reportRepository.find({
+        where: { status: In(['pending', 'running']) },
+        order: { createdAt: 'ASC' },
+      });
+
+      for (const report of reports) {
+        await this.processReport(report);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Move one report a step forward: submit it, check on the run, or store the finished rows
+   */
+  private async processReport(report: InsightsReport): Promise<void> {
+    // The token of the login the report's ad account was connected through
+    const credentials = await this.credentialResolver.resolve(AdPlatform.FACEBOOK, report.userId, report.adAccountId).catch(() => null);
+    if (!credentials) {
+      await this.fail(report, 'Facebook session not found');
+      return;
+    }
+    const { accessToken } = credentials;
+
+    const options = this.toOptions(report);
+
+    try {
+      if (report.status === 'pending' || !report.reportRunId) {
+        report.reportRunId = await this.facebookService.createInsightsReportRun(accessToken, report.adAccountId, options);
+        report.status = 'running';
+        report.startedAt = new Date();
+        report.attempts = 0;
+        await this.reportRepository.save(report);
+        return;
+      }
+
+      const run = await this.facebookService.getInsightsReportRun(accessToken, report.reportRunId);
+      report.attempts = 0;
+
+      if (run.status === 'Job Failed' || run.status === 'Job Skipped') {
+        await this.fail(report, `Facebook report run ${report.reportRunId}: ${run.status}`);
+        return;
+      }
+
+      if (run.status !== 'Job Completed' || run.percent < 100) {
+        if (report.startedAt && Date.now() - report.startedAt.getTime() > REPORT_TIMEOUT_MS) {
+          await this.fail(report, `Facebook report run ${report.reportRunId} did not finish within ${REPORT_TIMEOUT_MS / 60000} minutes`);
+          return;
+        }
+
+        report.percent = run.percent;
+        await this.reportRepository.save(report);
+        return;
+      }
+
+      const rows = await this.facebookService.getInsightsReportRows(accessToken, report.reportRunId, options);
+      await this.reportRepository.manager.transaction(async (manager) => {
+        await manager.delete(InsightsReportRow, { reportId: report.id });
+        for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+          await manager.insert(InsightsReportRow, rows.slice(i, i + INSERT_CHUNK_SIZE).map(row => ({ reportId: report.id, ...row })));
+        }
+
+        report.status = 'completed';
+        report.percent = 100;
+        report.rowCount = rows.length;
+        report.lastError = null;
+        report.completedAt = new Date();
+        await manager.save(report);
+      });
+
+      this.logger.log(`Insights report ${report.id} completed: ${rows.length} rows`);
+    } catch (error: any) {
+      report.attempts += 1;
+      report.lastError = error.message;
+      this.logger.warn(`Insights report ${report.id} failed (attempt ${report.attempts}): ${error.message}`);
+
+      if (report.attempts >= MAX_ATTEMPTS) {
+        await this.fail(report, error.message);
+        return;
+      }
+      await this.reportRepository.save(report);
+    }
+  }
+
+  private async fail(report: InsightsReport, error: string): Promise<void> {
+    report.status = 'failed';
+    report.lastError = error;
+    report.completedAt = new Date();
+    await this.reportRepository.save(report);
+    this.logger.warn(`Insights report ${report.id} failed: ${error}`);
+  }
+
+  private toOptions(report: InsightsReport): InsightsReportOptions {
+    return {
+      level: report.level as InsightsLevel,
+      breakdowns: report.breakdowns as InsightsBreakdown[],
+      dateRange: { since: report.since, until: report.until },
+      daily: report.daily,
+    };
+  }
+}
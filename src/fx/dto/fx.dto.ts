@@ -0,0 +1,23 @@
+import { IsString, IsOptional, IsIn, Length, MaxLength } from 'class-validator';
+
+export class ImportFxRatesDto {
+  @IsString()
+  csv: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  source?: string;
+}
+
+export class UpdateReportingCurrencyDto {
+  // null clears the setting so the organization's (or the default) currency applies again
+  @IsOptional()
+  @IsString()
+  @Length(3, 3, { message: 'currency must be an ISO 4217 code' })
+  currency?: string | null;
+
+  @IsOptional()
+  @IsIn(['user', 'organization'])
+  scope?: 'user' | 'organization';
+}
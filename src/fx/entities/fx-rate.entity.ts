@@ -0,0 +1,32 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+
+/**
+ * Daily exchange rate: 1 unit of base currency = rate units of quote currency
+ */
+@Entity('fx_rates')
+@Index(['baseCurrency', 'quoteCurrency', 'rateDate'], { unique: true })
+export class FxRate {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'rate_date', type: 'date' })
+  rateDate: string; // YYYY-MM-DD
+
+  @Column({ name: 'base_currency', length: 3 })
+  baseCurrency: string;
+
+  @Column({ name: 'quote_currency', length: 3 })
+  quoteCurrency: string;
+
+  @Column({ type: 'double precision' })
+  rate: number;
+
+  @Column({ length: 50, default: 'csv' })
+  source: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
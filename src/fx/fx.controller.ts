@@ -0,0 +1,74 @@
+import { Controller, Get, Post, Put, Body, Query, UseGuards, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FxService } from './fx.service';
+import { ImportFxRatesDto, UpdateReportingCurrencyDto } from './dto/fx.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { OrganizationsService } from '../organizations/organizations.service';
+
+@Controller('fx')
+@UseGuards(JwtAuthGuard)
+export class FxController {
+  constructor(
+    private readonly fxService: FxService,
+    private readonly configService: ConfigService,
+    private readonly organizationsService: OrganizationsService,
+  ) {}
+
+  @Get('rates')
+  async getRates(
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+    @Query('base') base?: string,
+  ) {
+    const rates = await this.fxService.getRates(since, until, base);
+    return { success: true, data: rates };
+  }
+
+  @Get('rate')
+  async getRate(
+    @Query('from') from: string,
+    @Query('to') to: string,
+    @Query('date') date?: string,
+  ) {
+    if (!from || !to) {
+      throw new BadRequestException('from and to currency parameters are required');
+    }
+
+    const rateDate = date || new Date().toISOString().substring(0, 10);
+    const rate = await this.fxService.getRate(from, to, rateDate);
+    return { success: true, data: { from: from.toUpperCase(), to: to.toUpperCase(), date: rateDate, rate } };
+  }
+
+  /**
+   * Load a daily rate table (`date,base,quote,rate`); restricted to super users since rates are shared by everyone
+   */
+  @Post('rates/import')
+  async importRates(@CurrentUser() user: any, @Body() body: ImportFxRatesDto) {
+    const superUserEmails = this.configService.get<string[]>('auth.superUserEmails') || [];
+    if (!superUserEmails.includes(user.email)) {
+      throw new ForbiddenException('Only administrators can import FX rates');
+    }
+
+    const result = await this.fxService.importCsv(body.csv, body.source);
+    return { success: true, ...result };
+  }
+
+  @Get('reporting-currency')
+  async getReportingCurrency(@CurrentUser() user: any) {
+    const reportingCurrency = await this.fxService.getReportingCurrency(user.id);
+    return { success: true, data: reportingCurrency };
+  }
+
+  @Put('reporting-currency')
+  async updateReportingCurrency(@CurrentUser() user: any, @Body() body: UpdateReportingCurrencyDto) {
+    // The organization's currency applies to every member, so it takes more than changing your own
+    if (body.scope === 'organization') {
+      const organizationId = await this.organizationsService.getCurrentOrganizationId(user.id);
+      await this.organizationsService.assertPermission(user.id, organizationId, 'organization.manage');
+    }
+
+    const reportingCurrency = await this.fxService.setReportingCurrency(user.id, body.currency ?? null, body.scope);
+    return { success: true, data: reportingCurrency };
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { FxService } from './fx.service';
+import { FxController } from './fx.controller';
+import { FxRate } from './entities/fx-rate.entity';
+import { UsersModule } from '../users/users.module';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
+import { fxConfig } from '../config/fx.config';
+
+@Module({
+  imports: [
+    ConfigModule.forFeature(fxConfig),
+    TypeOrmModule.forFeature([FxRate]),
+    UsersModule,
+    SubscriptionsModule,
+    OrganizationsModule,
+  ],
+  controllers: [FxController],
+  providers: [FxService],
+  exports: [FxService],
+})
+export class FxModule {}
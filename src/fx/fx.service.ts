@@ -0,0 +1,186 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, LessThanOrEqual, MoreThanOrEqual, Between } from 'typeorm';
+import { FxRate } from './entities/fx-rate.entity';
+import { FxRateRow, ConvertedMetrics, parseFxRatesCsv, convertMetrics, normalizeCurrency } from './fx.util';
+import { UsersService } from '../users/users.service';
+import { SubscriptionsService } from '../subscriptions/subscriptions.service';
+import { PlatformMetrics } from '../common/interfaces/ad-platform.interface';
+
+export type ReportingCurrencyScope = 'user' | 'organization';
+
+export interface ReportingCurrency {
+  currency: string;
+  source: ReportingCurrencyScope | 'default';
+}
+
+const IMPORT_CHUNK_SIZE = 500;
+
+@Injectable()
+export class FxService {
+  private readonly logger = new Logger(FxService.name);
+  private readonly baseCurrency: string;
+  private readonly defaultReportingCurrency: string;
+  private readonly maxRateAgeDays: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(FxRate)
+    private readonly fxRateRepository: Repository<FxRate>,
+    private readonly usersService: UsersService,
+    private readonly subscriptionsService: SubscriptionsService,
+  ) {
+    this.baseCurrency = this.configService.get<string>('fx.baseCurrency') || 'USD';
+    this.defaultReportingCurrency = this.configService.get<string>('fx.defaultReportingCurrency') || 'USD';
+    this.maxRateAgeDays = this.configService.get<number>('fx.maxRateAgeDays') ?? 7;
+  }
+
+  // ==================== RATE TABLE ====================
+
+  /**
+   * Import a `date,base,quote,rate` CSV; rows for an existing pair and date overwrite the stored rate
+   */
+  async importCsv(csv: string, source: string = 'csv'): Promise<{ imported: number; from?: string; to?: string }> {
+    let rows: FxRateRow[];
+    try {
+      rows = parseFxRatesCsv(csv);
+    } catch (error: any) {
+      throw new BadRequestException(error.message);
+    }
+
+    for (let i = 0; i < rows.length; i += IMPORT_CHUNK_SIZE) {
+      await this.fxRateRepository.upsert(
+        rows.slice(i, i + IMPORT_CHUNK_SIZE).map(row => ({ ...row, source })),
+        ['baseCurrency', 'quoteCurrency', 'rateDate'],
+      );
+    }
+
+    const dates = rows.map(row => row.rateDate).sort();
+    this.logger.log(`Imported ${rows.length} FX rates (${dates[0] || '-'} to ${dates[dates.length - 1] || '-'})`);
+
+    return { imported: rows.length, from: dates[0], to: dates[dates.length - 1] };
+  }
+
+  async getRates(since?: string, until?: string, baseCurrency?: string): Promise<FxRate[]> {
+    const where: Record<string, any> = {};
+    if (since && until) {
+      where.rateDate = Between(since, until);
+    } else if (since) {
+      where.rateDate = MoreThanOrEqual(since);
+    } else if (until) {
+      where.rateDate = LessThanOrEqual(until);
+    }
+    if (baseCurrency) {
+      where.baseCurrency = normalizeCurrency(baseCurrency);
+    }
+
+    return this.fxRateRepository.find({
+      where,
+      order: { rateDate: 'DESC', baseCurrency: 'ASC', quoteCurrency: 'ASC' },
+      take: 1000,
+    });
+  }
+
+  /**
+   * Units of `to` per unit of `from` on a date, using the most recent stored rate on or before it.
+   * Falls back to the inverse pair, then to a cross rate through the base currency.
+   */
+  async getRate(from: string, to: string, date: string): Promise<number> {
+    const fromCurrency = normalizeCurrency(from);
+    const toCurrency = normalizeCurrency(to);
+    if (fromCurrency === toCurrency) {
+      return 1;
+    }
+
+    const direct = await this.findPairRate(fromCurrency, toCurrency, date);
+    if (direct !== null) {
+      return direct;
+    }
+
+    if (fromCurrency !== this.baseCurrency && toCurrency !== this.baseCurrency) {
+      const fromBase = await this.findPairRate(fromCurrency, this.baseCurrency, date);
+      const baseTo = await this.findPairRate(this.baseCurrency, toCurrency, date);
+      if (fromBase !== null && baseTo !== null) {
+        return fromBase * baseTo;
+      }
+    }
+
+    throw new NotFoundException(`No FX rate for ${fromCurrency}/${toCurrency} on or before ${date}`);
+  }
+
+  async convertMetrics(metrics: PlatformMetrics, from: string, to: string, date: string): Promise<ConvertedMetrics> {
+    const rate = await this.getRate(from, to, date);
+    return convertMetrics(metrics, normalizeCurrency(from), normalizeCurrency(to), rate);
+  }
+
+  private async findPairRate(base: string, quote: string, date: string): Promise<number | null> {
+    const oldest = new Date(`${date}T00:00:00Z`);
+    oldest.setUTCDate(oldest.getUTCDate() - this.maxRateAgeDays);
+    const window = Between(oldest.toISOString().substring(0, 10), date);
+
+    const direct = await this.fxRateRepository.findOne({
+      where: { baseCurrency: base, quoteCurrency: quote, rateDate: window },
+      order: { rateDate: 'DESC' },
+    });
+    if (direct) {
+      return direct.rate;
+    }
+
+    const inverse = await this.fxRateRepository.findOne({
+      where: { baseCurrency: quote, quoteCurrency: base, rateDate: window },
+      order: { rateDate: 'DESC' },
+    });
+    return inverse ? 1 / inverse.rate : null;
+  }
+
+  // ==================== REPORTING CURRENCY ====================
+
+  /**
+   * The user's own choice wins, then their organization's, then the configured default
+   */
+  async getReportingCurrency(userId: number): Promise<ReportingCurrency> {
+    const user = await this.usersService.findOne(userId);
+    if (user?.reportingCurrency) {
+      return { currency: user.reportingCurrency, source: 'user' };
+    }
+
+    const organization = await this.subscriptionsService.getOrganizationSubscription(userId);
+    if (organization?.reportingCurrency) {
+      return { currency: organization.reportingCurrency, source: 'organization' };
+    }
+
+    return { currency: this.defaultReportingCurrency, source: 'default' };
+  }
+
+  /**
+   * Set (or clear, with null) the reporting currency for the user or their current organization. Callers check
+   * the user may manage the organization.
+   */
+  async setReportingCurrency(
+    userId: number,
+    currency: string | null,
+    scope: ReportingCurrencyScope = 'user',
+  ): Promise<ReportingCurrency> {
+    let normalized: string | null = null;
+    if (currency) {
+      try {
+        normalized = normalizeCurrency(currency);
+      } catch (error: any) {
+        throw new BadRequestException(error.message);
+      }
+    }
+
+    if (scope === 'organization') {
+      const organization = await this.subscriptionsService.getOrganizationSubscription(userId);
+      if (!organization) {
+        throw new NotFoundException('No active organization subscription found');
+      }
+      await this.subscriptionsService.updateOrganizationReportingCurrency(organization.id, normalized as string);
+    } else {
+      await this.usersService.update(userId, { reportingCurrency: normalized as string });
+    }
+
+    return this.getReportingCurrency(userId);
+  }
+}
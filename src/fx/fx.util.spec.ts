@@ -0,0 +1,44 @@
+import { parseFxRatesCsv, convertMetrics } from './fx.util';
+
+describe('parseFxRatesCsv', () => {
+  it('should parse rows using the header column order', () => {
+    const rows = parseFxRatesCsv('Rate,Date,Base,Quote\n0.92,2024-03-01,usd,eur\n\n1.27,2024-03-01,GBP,USD\n');
+
+    expect(rows).toEqual([
+      { rateDate: '2024-03-01', baseCurrency: 'USD', quoteCurrency: 'EUR', rate: 0.92 },
+      { rateDate: '2024-03-01', baseCurrency: 'GBP', quoteCurrency: 'USD', rate: 1.27 },
+    ]);
+  });
+
+  it('should reject a header without the required columns', () => {
+    expect(() => parseFxRatesCsv('date,base,rate\n2024-03-01,USD,1')).toThrow('missing column(s): quote');
+  });
+
+  it('should report the line number of an invalid row', () => {
+    expect(() => parseFxRatesCsv('date,base,quote,rate\n2024-03-01,USD,EUR,0.92\n2024-03-02,USD,EURO,0.91'))
+      .toThrow('Line 3: Invalid currency code: EURO');
+    expect(() => parseFxRatesCsv('date,base,quote,rate\n2024-03-01,USD,EUR,-1')).toThrow('Line 2: invalid rate');
+  });
+});
+
+describe('convertMetrics', () => {
+  it('should convert monetary fields and keep the original values', () => {
+    const converted = convertMetrics(
+      { impressions: 1000, clicks: 10, spend: 100, cpc: 10, cpm: 100, ctr: 1, conversions: 2, costPerConversion: 50, roas: 3 },
+      'EUR',
+      'USD',
+      1.1,
+    );
+
+    expect(converted.impressions).toBe(1000);
+    expect(converted.ctr).toBe(1);
+    expect(converted.roas).toBe(3);
+    expect(converted.spend).toBeCloseTo(110);
+    expect(converted.cpc).toBeCloseTo(11);
+    expect(converted.cpm).toBeCloseTo(110);
+    expect(converted.costPerConversion).toBeCloseTo(55);
+    expect(converted.revenue).toBeCloseTo(330);
+    expect(converted.currency).toBe('USD');
+    expect(converted.original).toEqual({ currency: 'EUR', spend: 100, cpc: 10, cpm: 100, revenue: 300 });
+  });
+});
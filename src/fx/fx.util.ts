@@ -0,0 +1,115 @@
+import { PlatformMetrics } from '../common/interfaces/ad-platform.interface';
+
+export interface FxRateRow {
+  rateDate: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+}
+
+/**
+ * Metrics with monetary values converted into a reporting currency; the values as reported
+ * by the platform are kept under `original`
+ */
+export interface ConvertedMetrics extends PlatformMetrics {
+  currency: string;
+  fxRate: number;
+  original: {
+    currency: string;
+    spend: number;
+    cpc: number;
+    cpm: number;
+    revenue: number;
+  };
+}
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const REQUIRED_COLUMNS = ['date', 'base', 'quote', 'rate'];
+
+export function normalizeCurrency(value: string): string {
+  const currency = (value || '').trim().toUpperCase();
+  if (!CURRENCY_PATTERN.test(currency)) {
+    throw new Error(`Invalid currency code: ${value}`);
+  }
+  return currency;
+}
+
+/**
+ * Parse a rate table CSV with a `date,base,quote,rate` header (columns in any order, extra columns ignored)
+ */
+export function parseFxRatesCsv(csv: string): FxRateRow[] {
+  const lines = csv.split(/\r?\n/).map(line => line.trim());
+  const headerIndex = lines.findIndex(line => line.length > 0);
+  if (headerIndex === -1) {
+    return [];
+  }
+
+  const header = lines[headerIndex].split(',').map(column => column.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter(column => !header.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`CSV header is missing column(s): ${missing.join(', ')}`);
+  }
+  const [dateCol, baseCol, quoteCol, rateCol] = REQUIRED_COLUMNS.map(column => header.indexOf(column));
+
+  const rows: FxRateRow[] = [];
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (!lines[i]) continue;
+
+    const cells = lines[i].split(',').map(cell => cell.trim());
+    const lineNumber = i + 1;
+    const rateDate = cells[dateCol];
+    const rate = Number(cells[rateCol]);
+
+    if (!DATE_PATTERN.test(rateDate || '') || isNaN(Date.parse(rateDate))) {
+      throw new Error(`Line ${lineNumber}: invalid date "${rateDate}"`);
+    }
+    if (!isFinite(rate) || rate <= 0) {
+      throw new Error(`Line ${lineNumber}: invalid rate "${cells[rateCol]}"`);
+    }
+
+    try {
+      rows.push({
+        rateDate,
+        baseCurrency: normalizeCurrency(cells[baseCol]),
+        quoteCurrency: normalizeCurrency(cells[quoteCol]),
+        rate,
+      });
+    } catch (error: any) {
+      throw new Error(`Line ${lineNumber}: ${error.message}`);
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Convert the monetary fields of a metrics set with a single rate. Counts and ratios
+ * (impressions, clicks, ctr, roas) are unit-free and carried over unchanged.
+ */
+export function convertMetrics(
+  metrics: PlatformMetrics,
+  fromCurrency: string,
+  toCurrency: string,
+  rate: number,
+): ConvertedMetrics {
+  const revenue = metrics.revenue ?? (metrics.roas || 0) * (metrics.spend || 0);
+
+  return {
+    ...metrics,
+    spend: (metrics.spend || 0) * rate,
+    cpc: (metrics.cpc || 0) * rate,
+    cpm: (metrics.cpm || 0) * rate,
+    costPerConversion: metrics.costPerConversion !== undefined ? metrics.costPerConversion * rate : undefined,
+    revenue: revenue * rate,
+    currency: toCurrency,
+    fxRate: rate,
+    original: {
+      currency: fromCurrency,
+      spend: metrics.spend || 0,
+      cpc: metrics.cpc || 0,
+      cpm: metrics.cpm || 0,
+      revenue,
+    },
+  };
+}
@@ -1,5 +1,7 @@
 import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
 import { User } from '../../users/entities/user.entity';
+import { AdPlatform } from '../../common/interfaces/ad-platform.interface';
+import { encryptedColumn } from '../../encryption/encrypted-column.transformer';
 
 @Entity('google_ads_sessions')
 export class GoogleAdsSession {
@@ -13,10 +15,10 @@ export class GoogleAdsSession {
   @JoinColumn({ name: 'user_id' })
   user: User;
 
-  @Column({ name: 'access_token', type: 'text' })
+  @Column({ name: 'access_token', type: 'text', transformer: encryptedColumn })
   accessToken: string;
 
-  @Column({ name: 'refresh_token', type: 'text', nullable: true })
+  @Column({ name: 'refresh_token', type: 'text', nullable: true, transformer: encryptedColumn })
   refreshToken: string;
 
   @Column({ name: 'customer_id', nullable: true })
@@ -31,6 +33,20 @@ export class GoogleAdsSession {
   @Column({ name: 'token_expires_at', nullable: true })
   tokenExpiresAt: Date;
 
+  // The platform login behind the token; a user can connect several, each with its own session
+  @Column({ name: 'identity_id', type: 'varchar', nullable: true })
+  identityId: string | null;
+
+  @Column({ name: 'identity_name', type: 'varchar', nullable: true })
+  identityName: string | null;
+
+  // Set when the token could not be refreshed; the user has to connect the platform again
+  @Column({ name: 'needs_reauth', default: false })
+  needsReauth: boolean;
+
+  @Column({ name: 'reauth_reason', type: 'text', nullable: true })
+  reauthReason: string | null;
+
   @Column({ name: 'login_customer_id', nullable: true })
   loginCustomerId: string;
 
@@ -39,4 +55,15 @@ export class GoogleAdsSession {
 
   @UpdateDateColumn({ name: 'updated_at' })
   updatedAt: Date;
+
+  get platform(): AdPlatform {
+    return AdPlatform.GOOGLE;
+  }
+
+  /**
+   * The selected customer, under the common PlatformSession name
+   */
+  get adAccountId(): string {
+    return this.customerId;
+  }
 }
@@ -1,3 +1,2 @@
 export * from './google-ads-session.entity';
-export * from './google-ads-metrics-cache.entity';
 export * from './google-ads-campaign-data.entity';
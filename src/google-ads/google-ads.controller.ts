@@ -14,6 +14,9 @@ import {
 import type { Response, Request } from 'express';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { GoogleAdsService } from './google-ads.service';
+import { BackfillService } from '../sync/backfill.service';
+import { CredentialResolverService, AccountCredentials } from '../platforms/credential-resolver.service';
+import { AdPlatform, PlatformApiResponse, PlatformCampaign, PlatformAdGroup, PlatformAd, PlatformMetrics } from '../common/interfaces/ad-platform.interface';
 import { ConfigService } from '@nestjs/config';
 
 interface AuthenticatedRequest extends Request {
@@ -25,6 +28,8 @@ export class GoogleAdsController {
   constructor(
     private readonly googleAdsService: GoogleAdsService,
     private readonly configService: ConfigService,
+    private readonly backfillService: BackfillService,
+    private readonly credentialResolver: CredentialResolverService,
   ) {}
 
   // ==================== SUBSCRIPTION ====================
@@ -163,7 +168,8 @@ export class GoogleAdsController {
       throw new UnauthorizedException('Not authenticated');
     }
 
-    return this.googleAdsService.deleteSession(req.user.id);
+    await this.googleAdsService.deleteSession(req.user.id);
+    return { success: true };
   }
 
   /**
@@ -212,14 +218,19 @@ export class GoogleAdsController {
   async selectCustomer(
     @Req() req: AuthenticatedRequest,
     @Body() body: { customerId: string; customerName?: string },
-  ): Promise<{ success: boolean }> {
+  ): Promise<{ success: boolean; backfillJobId: number }> {
     if (!req.user?.id) {
       throw new UnauthorizedException('Not authenticated');
     }
 
     // No subscription validation - users can select any account they have OAuth access to
     // Subscription is checked when accessing data (campaigns, metrics, etc.)
-    return this.googleAdsService.selectCustomer(req.user.id, body.customerId, body.customerName);
+    const result = await this.googleAdsService.selectCustomer(req.user.id, body.customerId, body.customerName);
+
+    // Import the customer's history in the background; progress is reported by GET /sync/jobs
+    const backfillJob = await this.backfillService.enqueue(AdPlatform.GOOGLE, req.user.id, body.customerId);
+
+    return { ...result, backfillJobId: backfillJob.id };
   }
 
   // ==================== CAMPAIGNS ====================
@@ -233,16 +244,12 @@ export class GoogleAdsController {
     @Req() req: AuthenticatedRequest,
     @Query('since') since?: string,
     @Query('until') until?: string,
-  ): Promise<{ success: boolean; data: any[] }> {
-    if (!req.user?.id) {
-      throw new UnauthorizedException('Not authenticated');
-    }
+    @Query('customerId') customerId?: string,
+  ): Promise<PlatformApiResponse<PlatformCampaign[]>> {
+    const credentials = await this.getCustomerCredentials(req, customerId);
 
-    // Subscription validation
-    await this.googleAdsService.validateSubscription(req.user.id);
-
-    const campaigns = await this.googleAdsService.getCampaigns(req.user.id, since, until);
-    return { success: true, data: campaigns };
+    const dateRange = since && until ? { since, until } : undefined;
+    return this.googleAdsService.getCampaigns(credentials.accessToken, credentials.adAccountId, dateRange);
   }
 
   /**
@@ -253,16 +260,10 @@ export class GoogleAdsController {
   async getCampaign(
     @Req() req: AuthenticatedRequest,
     @Param('id') campaignId: string,
-  ): Promise<{ success: boolean; data?: any }> {
-    if (!req.user?.id) {
-      throw new UnauthorizedException('Not authenticated');
-    }
-
-    // Subscription validation
-    await this.googleAdsService.validateSubscription(req.user.id);
-
-    const campaign = await this.googleAdsService.getCampaign(req.user.id, campaignId);
-    return { success: true, data: campaign };
+    @Query('customerId') customerId?: string,
+  ): Promise<PlatformApiResponse<PlatformCampaign>> {
+    const credentials = await this.getCustomerCredentials(req, customerId);
+    return this.googleAdsService.getCampaign(credentials.accessToken, campaignId, credentials.adAccountId);
   }
 
   // ==================== AD GROUPS ====================
@@ -277,16 +278,12 @@ export class GoogleAdsController {
     @Query('campaignId') campaignId?: string,
     @Query('since') since?: string,
     @Query('until') until?: string,
-  ): Promise<{ success: boolean; data: any[] }> {
-    if (!req.user?.id) {
-      throw new UnauthorizedException('Not authenticated');
-    }
+    @Query('customerId') customerId?: string,
+  ): Promise<PlatformApiResponse<PlatformAdGroup[]>> {
+    const credentials = await this.getCustomerCredentials(req, customerId);
 
-    // Subscription validation
-    await this.googleAdsService.validateSubscription(req.user.id);
-
-    const adGroups = await this.googleAdsService.getAdGroups(req.user.id, campaignId, since, until);
-    return { success: true, data: adGroups };
+    const dateRange = since && until ? { since, until } : undefined;
+    return this.googleAdsService.getAdGroups(credentials.accessToken, campaignId || '', dateRange, credentials.adAccountId);
   }
 
   // ==================== ADS ====================
@@ -301,16 +298,12 @@ export class GoogleAdsController {
     @Query('adGroupId') adGroupId?: string,
     @Query('since') since?: string,
     @Query('until') until?: string,
-  ): Promise<{ success: boolean; data: any[] }> {
-    if (!req.user?.id) {
-      throw new UnauthorizedException('Not authenticated');
-    }
-
-    // Subscription validation
-    await this.googleAdsService.validateSubscription(req.user.id);
+    @Query('customerId') customerId?: string,
+  ): Promise<PlatformApiResponse<PlatformAd[]>> {
+    const credentials = await this.getCustomerCredentials(req, customerId);
 
-    const ads = await this.googleAdsService.getAds(req.user.id, adGroupId, since, until);
-    return { success: true, data: ads };
+    const dateRange = since && until ? { since, until } : undefined;
+    return this.googleAdsService.getAds(credentials.accessToken, adGroupId || '', dateRange, credentials.adAccountId);
   }
 
   // ==================== METRICS ====================
@@ -322,27 +315,19 @@ export class GoogleAdsController {
   @UseGuards(JwtAuthGuard)
   async getAccountMetrics(
     @Req() req: AuthenticatedRequest,
-    @Query('since') since: string,
-    @Query('until') until: string,
-  ): Promise<{ success: boolean; data: any }> {
-    if (!req.user?.id) {
-      throw new UnauthorizedException('Not authenticated');
-    }
-
-    // Subscription validation
-    await this.googleAdsService.validateSubscription(req.user.id);
-
-    if (!since || !until) {
-      // Default to last 30 days
-      const endDate = new Date();
-      const startDate = new Date();
-      startDate.setDate(startDate.getDate() - 30);
-      since = startDate.toISOString().split('T')[0];
-      until = endDate.toISOString().split('T')[0];
-    }
-
-    const metrics = await this.googleAdsService.getAccountMetrics(req.user.id, since, until);
-    return { success: true, data: metrics };
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+    @Query('dateRange') dateRange: string = 'last_30d',
+    @Query('customerId') customerId?: string,
+  ): Promise<PlatformApiResponse<PlatformMetrics>> {
+    const credentials = await this.getCustomerCredentials(req, customerId);
+    const range = await this.googleAdsService.resolveAccountDateRange(
+      credentials.accessToken,
+      credentials.adAccountId,
+      since && until ? { since, until } : dateRange,
+    );
+
+    return this.googleAdsService.getAccountMetrics(credentials.accessToken, credentials.adAccountId, range);
   }
 
   /**
@@ -352,9 +337,27 @@ export class GoogleAdsController {
   @UseGuards(JwtAuthGuard)
   async getMetricsByDate(
     @Req() req: AuthenticatedRequest,
-    @Query('since') since: string,
-    @Query('until') until: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+    @Query('dateRange') dateRange: string = 'last_30d',
+    @Query('customerId') customerId?: string,
   ): Promise<{ success: boolean; data: any[] }> {
+    const credentials = await this.getCustomerCredentials(req, customerId);
+    const range = await this.googleAdsService.resolveAccountDateRange(
+      credentials.accessToken,
+      credentials.adAccountId,
+      since && until ? { since, until } : dateRange,
+    );
+
+    const data = await this.googleAdsService.getMetricsByDate(credentials.accessToken, credentials.adAccountId, range.since, range.until);
+    return { success: true, data };
+  }
+
+  /**
+   * Check the user's subscription and resolve the token for the requested customer (or the most recently
+   * selected one), checking the customer is covered by a seat
+   */
+  private async getCustomerCredentials(req: AuthenticatedRequest, customerId?: string): Promise<AccountCredentials> {
     if (!req.user?.id) {
       throw new UnauthorizedException('Not authenticated');
     }
@@ -362,15 +365,6 @@ export class GoogleAdsController {
     // Subscription validation
     await this.googleAdsService.validateSubscription(req.user.id);
 
-    if (!since || !until) {
-      const endDate = new Date();
-      const startDate = new Date();
-      startDate.setDate(startDate.getDate() - 30);
-      since = startDate.toISOString().split('T')[0];
-      until = endDate.toISOString().split('T')[0];
-    }
-
-    const data = await this.googleAdsService.getMetricsByDate(req.user.id, since, until);
-    return { success: true, data };
+    return this.credentialResolver.resolveAccount(AdPlatform.GOOGLE, req.user.id, customerId);
   }
 }
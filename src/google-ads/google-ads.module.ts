@@ -4,9 +4,11 @@ import { ConfigModule } from '@nestjs/config';
 import { GoogleAdsController } from './google-ads.controller';
 import { GoogleAdsService } from './google-ads.service';
 import { GoogleAdsSession } from './entities/google-ads-session.entity';
-import { GoogleAdsMetricsCache } from './entities/google-ads-metrics-cache.entity';
 import { GoogleAdsCampaignData } from './entities/google-ads-campaign-data.entity';
 import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { SyncModule } from '../sync/sync.module';
+import { AccountsModule } from '../accounts/accounts.module';
+import { PlatformsModule } from '../platforms/platforms.module';
 import googleAdsConfig from '../config/google-ads.config';
 
 @Module({
@@ -14,10 +16,13 @@ import googleAdsConfig from '../config/google-ads.config';
     ConfigModule.forFeature(googleAdsConfig),
     TypeOrmModule.forFeature([
       GoogleAdsSession,
-      GoogleAdsMetricsCache,
       GoogleAdsCampaignData,
     ]),
     forwardRef(() => SubscriptionsModule),
+    forwardRef(() => SyncModule),
+    AccountsModule,
+    // Controllers resolve credentials through this module
+    forwardRef(() => PlatformsModule),
   ],
   controllers: [GoogleAdsController],
   providers: [GoogleAdsService],
@@ -1,12 +1,16 @@
 import { Injectable, Logger, UnauthorizedException, BadRequestException, ForbiddenException, Inject, forwardRef } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, MoreThan } from 'typeorm';
+import { Repository, Not, IsNull, LessThan } from 'typeorm';
 import { GoogleAdsSession } from './entities/google-ads-session.entity';
-import { GoogleAdsMetricsCache } from './entities/google-ads-metrics-cache.entity';
 import { GoogleAdsCampaignData } from './entities/google-ads-campaign-data.entity';
-import { PlatformMetrics, PlatformCampaign, PlatformAdGroup, PlatformAd } from '../common/interfaces/ad-platform.interface';
+import { BaseAdPlatformService } from '../common/services/base-ad-platform.service';
+import { CacheService } from '../cache/cache.service';
+import { ConnectedAccountsService } from '../accounts/connected-accounts.service';
+import { cacheKey } from '../cache/cache.util';
+import { AdPlatform, PlatformMetrics, PlatformCampaign, PlatformAdGroup, PlatformAd, PlatformDateRange, PlatformApiResponse, SessionIdentity, DailyAdMetrics } from '../common/interfaces/ad-platform.interface';
 import { SubscriptionsService } from '../subscriptions/subscriptions.service';
+import { parseRetryAfter } from '../common/utils/rate-limit.util';
 
 // Google Ads API base URL
 const GOOGLE_ADS_API_BASE = 'https://googleads.googleapis.com';
@@ -23,6 +27,14 @@ interface GoogleAdsCustomer {
   testAccount: boolean;
 }
 
+/**
+ * What a request needs to authenticate; a GoogleAdsSession satisfies this directly
+ */
+interface GoogleAdsCredentials {
+  accessToken: string;
+  loginCustomerId?: string;
+}
+
 interface GoogleAdsApiResponse<T> {
   results?: T[];
   nextPageToken?: string;
@@ -30,38 +42,42 @@ interface GoogleAdsApiResponse<T> {
 }
 
 @Injectable()
-export class GoogleAdsService {
-  private readonly logger = new Logger(GoogleAdsService.name);
+export class GoogleAdsService extends BaseAdPlatformService {
+  protected readonly logger = new Logger(GoogleAdsService.name);
+  protected readonly platform = AdPlatform.GOOGLE;
+  protected readonly apiVersion: string;
+  protected readonly baseUrl = GOOGLE_ADS_API_BASE;
   private readonly clientId: string;
   private readonly clientSecret: string;
   private readonly developerToken: string;
   private readonly redirectUri: string;
-  private readonly apiVersion: string;
+  private readonly loginCustomerId: string;
   private readonly scopes: string[];
-  private readonly cacheTtlHours: number;
+  private readonly customerSettings = new Map<string, { currencyCode: string; timeZone: string }>();
 
   constructor(
     private readonly configService: ConfigService,
     @InjectRepository(GoogleAdsSession)
     private readonly sessionRepository: Repository<GoogleAdsSession>,
-    @InjectRepository(GoogleAdsMetricsCache)
-    private readonly metricsCacheRepository: Repository<GoogleAdsMetricsCache>,
     @InjectRepository(GoogleAdsCampaignData)
     private readonly campaignDataRepository: Repository<GoogleAdsCampaignData>,
     @Inject(forwardRef(() => SubscriptionsService))
     private readonly subscriptionsService: SubscriptionsService,
+    private readonly cacheService: CacheService,
+    private readonly connectedAccountsService: ConnectedAccountsService,
   ) {
+    super();
     const googleAdsConfig = this.configService.get('googleAds');
     this.clientId = googleAdsConfig?.clientId || '';
     this.clientSecret = googleAdsConfig?.clientSecret || '';
     this.developerToken = googleAdsConfig?.developerToken || '';
     this.redirectUri = googleAdsConfig?.redirectUri || 'http://localhost:3001/google-ads/auth/callback';
     this.apiVersion = googleAdsConfig?.apiVersion || 'v18';
+    this.loginCustomerId = googleAdsConfig?.loginCustomerId || '';
     this.scopes = googleAdsConfig?.scopes || [
       'https://www.googleapis.com/auth/adwords',
       'https://www.googleapis.com/auth/userinfo.email',
     ];
-    this.cacheTtlHours = googleAdsConfig?.cacheTtlHours || 6;
   }
 
   // ==================== SUBSCRIPTION VALIDATION ====================
@@ -179,25 +195,17 @@ export class GoogleAdsService {
       const tokenExpiresAt = new Date();
       tokenExpiresAt.setSeconds(tokenExpiresAt.getSeconds() + (tokenData.expires_in || 3600));
 
-      // Find or create session
-      let session = await this.sessionRepository.findOne({
-        where: { userId },
-      });
+      // Each Google login is kept as its own session so several can be connected at once
+      const identity = await this.getIdentity(tokenData.access_token);
 
-      if (session) {
-        session.accessToken = tokenData.access_token;
-        session.refreshToken = tokenData.refresh_token || session.refreshToken;
-        session.tokenExpiresAt = tokenExpiresAt;
-      } else {
-        session = this.sessionRepository.create({
-          userId,
-          accessToken: tokenData.access_token,
-          refreshToken: tokenData.refresh_token,
-          tokenExpiresAt,
-        });
-      }
-
-      await this.sessionRepository.save(session);
+      const session = await this.saveSession(
+        userId,
+        tokenData.access_token,
+        tokenData.refresh_token,
+        undefined,
+        tokenExpiresAt,
+        identity,
+      );
 
       this.logger.log(`Google Ads session created/updated for user ${userId}`);
       return { success: true, session };
@@ -210,8 +218,8 @@ export class GoogleAdsService {
   /**
    * Refresh access token
    */
-  async refreshToken(userId: number): Promise<{ success: boolean; expiresAt?: Date; error?: string }> {
-    const session = await this.sessionRepository.findOne({ where: { userId } });
+  async refreshToken(userId: number, sessionId?: number): Promise<{ success: boolean; expiresAt?: Date; error?: string }> {
+    const session = sessionId ? await this.getSessionById(userId, sessionId) : await this.findLatestSession(userId);
 
     if (!session || !session.refreshToken) {
       return { success: false, error: 'No refresh token available' };
@@ -243,6 +251,8 @@ export class GoogleAdsService {
 
       session.accessToken = tokenData.access_token;
       session.tokenExpiresAt = tokenExpiresAt;
+      session.needsReauth = false;
+      session.reauthReason = null;
       await this.sessionRepository.save(session);
 
       return { success: true, expiresAt: tokenExpiresAt };
@@ -252,30 +262,144 @@ export class GoogleAdsService {
     }
   }
 
+  /**
+   * Like refreshToken, but returns the updated session and throws when the refresh fails
+   */
+  async refreshAccessToken(userId: number, sessionId?: number): Promise<GoogleAdsSession> {
+    const result = await this.refreshToken(userId, sessionId);
+    if (!result.success) {
+      throw new UnauthorizedException(result.error || 'Token refresh failed');
+    }
+
+    const session = sessionId ? await this.getSessionById(userId, sessionId) : await this.findLatestSession(userId);
+    if (!session) {
+      throw new UnauthorizedException('No valid Google Ads session');
+    }
+
+    return session;
+  }
+
+  /**
+   * Create or update the session for a Google login; without an identity the most recently used session is updated
+   */
+  async saveSession(
+    userId: number,
+    accessToken: string,
+    refreshToken?: string,
+    customerId?: string,
+    tokenExpiresAt?: Date,
+    identity?: SessionIdentity,
+  ): Promise<GoogleAdsSession> {
+    let session = await this.findIdentitySession(userId, identity);
+
+    if (session) {
+      session.accessToken = accessToken;
+      session.refreshToken = refreshToken || session.refreshToken;
+      session.customerId = customerId || session.customerId;
+      session.tokenExpiresAt = tokenExpiresAt || session.tokenExpiresAt;
+      session.identityId = identity?.id || session.identityId;
+      session.identityName = identity?.name || session.identityName;
+      session.needsReauth = false;
+      session.reauthReason = null;
+    } else {
+      session = this.sessionRepository.create({
+        userId,
+        accessToken,
+        refreshToken,
+        customerId,
+        tokenExpiresAt,
+        identityId: identity?.id || null,
+        identityName: identity?.name || null,
+      });
+    }
+
+    const saved = await this.sessionRepository.save(session);
+
+    if (saved.customerId) {
+      await this.connectedAccountsService.connect(userId, this.platform, saved.id, saved.customerId, saved.customerName);
+    }
+
+    // Selecting the customer again or refreshing its token starts it from a clean cache
+    await this.cacheService.invalidateAccount(AdPlatform.GOOGLE, saved.customerId);
+    return saved;
+  }
+
   /**
    * Get current session for user
    */
   async getSession(userId: number): Promise<GoogleAdsSession | null> {
-    const session = await this.sessionRepository.findOne({ where: { userId } });
+    const session = await this.findLatestSession(userId);
+    return session && this.withFreshToken(session);
+  }
+
+  async getSessions(userId: number): Promise<GoogleAdsSession[]> {
+    return this.sessionRepository.find({ where: { userId }, order: { updatedAt: 'DESC' } });
+  }
+
+  async getSessionById(userId: number, sessionId: number): Promise<GoogleAdsSession | null> {
+    return this.sessionRepository.findOne({ where: { id: sessionId, userId } });
+  }
+
+  /**
+   * Delete a session (disconnect), or every session of the user when no session is given
+   */
+  async deleteSession(userId: number, sessionId?: number): Promise<void> {
+    await this.sessionRepository.delete(sessionId ? { id: sessionId, userId } : { userId });
+    await this.connectedAccountsService.disconnectSession(userId, this.platform, sessionId);
+  }
+
+  /**
+   * The Google login behind a token
+   */
+  async getIdentity(accessToken: string): Promise<SessionIdentity> {
+    const response = await fetch('https://www.googleapis.com/oauth2/v2/userinfo', {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    if (!response.ok) {
+      throw new UnauthorizedException('Could not read the Google account behind the token');
+    }
+
+    const userInfo = await response.json();
+    return { id: userInfo.id, name: userInfo.email };
+  }
 
-    if (session && session.tokenExpiresAt && session.tokenExpiresAt < new Date()) {
+  private async findLatestSession(userId: number): Promise<GoogleAdsSession | null> {
+    return this.sessionRepository.findOne({ where: { userId }, order: { updatedAt: 'DESC' } });
+  }
+
+  private async findIdentitySession(userId: number, identity?: SessionIdentity): Promise<GoogleAdsSession | null> {
+    if (!identity) {
+      return this.findLatestSession(userId);
+    }
+
+    // A session saved before identities were recorded is taken over by the first login connected
+    return await this.sessionRepository.findOne({ where: { userId, identityId: identity.id } })
+      || await this.sessionRepository.findOne({ where: { userId, identityId: IsNull() } });
+  }
+
+  private async withFreshToken(session: GoogleAdsSession): Promise<GoogleAdsSession | null> {
+    if (session.tokenExpiresAt && session.tokenExpiresAt < new Date()) {
       // Token expired, try to refresh
-      const refreshResult = await this.refreshToken(userId);
+      const refreshResult = await this.refreshToken(session.userId, session.id);
       if (!refreshResult.success) {
         return null;
       }
-      return this.sessionRepository.findOne({ where: { userId } });
+      return this.getSessionById(session.userId, session.id);
     }
 
     return session;
   }
 
-  /**
-   * Delete session (disconnect)
-   */
-  async deleteSession(userId: number): Promise<{ success: boolean }> {
-    await this.sessionRepository.delete({ userId });
-    return { success: true };
+  async getConnectedSessions(): Promise<GoogleAdsSession[]> {
+    return this.sessionRepository.find({ where: { customerId: Not(IsNull()) } });
+  }
+
+  async getSessionsExpiringBefore(date: Date): Promise<GoogleAdsSession[]> {
+    return this.sessionRepository.find({ where: { tokenExpiresAt: LessThan(date), needsReauth: false } });
+  }
+
+  async markNeedsReauth(userId: number, reason: string, sessionId?: number): Promise<void> {
+    await this.sessionRepository.update(sessionId ? { id: sessionId, userId } : { userId }, { needsReauth: true, reauthReason: reason });
   }
 
   // ==================== CUSTOMERS ====================
@@ -379,31 +503,62 @@ export class GoogleAdsService {
     session.customerId = customerId;
     session.customerName = customerName || `Account ${customerId}`;
     await this.sessionRepository.save(session);
+    await this.connectedAccountsService.connect(userId, this.platform, session.id, customerId, session.customerName);
 
     return { success: true };
   }
 
-  // ==================== CAMPAIGNS ====================
+  /**
+   * Currency a customer's metrics are reported in
+   */
+  async getAccountCurrency(accessToken: string, customerId: string): Promise<string> {
+    const { currencyCode } = await this.getCustomerSettings(accessToken, customerId);
+    if (!currencyCode) {
+      throw new Error(`Currency not available for Google Ads customer ${customerId}`);
+    }
+    return currencyCode;
+  }
 
   /**
-   * Get campaigns for the selected customer
+   * Timezone that segments.date and date ranges are evaluated in for a customer
    */
-  async getCampaigns(
-    userId: number,
-    startDate?: string,
-    endDate?: string,
-  ): Promise<PlatformCampaign[]> {
-    const session = await this.getSession(userId);
-    if (!session || !session.customerId) {
-      throw new UnauthorizedException('No valid session or customer selected');
+  async getAccountTimezone(accessToken: string, customerId: string): Promise<string> {
+    return (await this.getCustomerSettings(accessToken, customerId)).timeZone;
+  }
+
+  private async getCustomerSettings(accessToken: string, customerId: string): Promise<{ currencyCode: string; timeZone: string }> {
+    if (!this.customerSettings.has(customerId)) {
+      const response = await this.makeSearchRequest(
+        { accessToken },
+        customerId,
+        'SELECT customer.currency_code, customer.time_zone FROM customer LIMIT 1',
+      );
+      const customer = response.results?.[0]?.customer;
+      this.customerSettings.set(customerId, {
+        currencyCode: customer?.currencyCode,
+        timeZone: customer?.timeZone || 'UTC',
+      });
     }
 
-    const dateClause = startDate && endDate
-      ? `WHERE segments.date BETWEEN '${startDate}' AND '${endDate}'`
+    return this.customerSettings.get(customerId)!;
+  }
+
+  // ==================== CAMPAIGNS ====================
+
+  /**
+   * Get campaigns for a customer
+   */
+  async getCampaigns(
+    accessToken: string,
+    customerId: string,
+    dateRange?: PlatformDateRange,
+  ): Promise<PlatformApiResponse<PlatformCampaign[]>> {
+    const dateClause = dateRange
+      ? `WHERE segments.date BETWEEN '${dateRange.since}' AND '${dateRange.until}'`
       : '';
 
     const query = `
-      SELECT 
+      SELECT
         campaign.id,
         campaign.name,
         campaign.status,
@@ -423,105 +578,97 @@ export class GoogleAdsService {
       ORDER BY campaign.name
     `;
 
-    const response = await this.makeSearchRequest(session, session.customerId, query);
-
-    return (response.results || []).map((result: any) => ({
-      id: result.campaign.id,
-      name: result.campaign.name,
-      status: result.campaign.status,
-      objective: result.campaign.advertisingChannelType,
-      budget: result.campaignBudget?.amountMicros ? result.campaignBudget.amountMicros / 1000000 : 0,
-      budgetType: result.campaignBudget?.type === 'DAILY' ? 'daily' : 'lifetime',
-      startTime: result.campaign.startDate ? new Date(result.campaign.startDate) : undefined,
-      endTime: result.campaign.endDate ? new Date(result.campaign.endDate) : undefined,
-      metrics: {
-        impressions: parseInt(result.metrics?.impressions || '0', 10),
-        clicks: parseInt(result.metrics?.clicks || '0', 10),
-        spend: (result.metrics?.costMicros || 0) / 1000000,
-        conversions: parseFloat(result.metrics?.conversions || '0'),
-        ctr: this.calculateCtr(result.metrics?.clicks, result.metrics?.impressions),
-        cpc: this.calculateCpc(result.metrics?.costMicros, result.metrics?.clicks),
-        cpm: this.calculateCpm(result.metrics?.costMicros, result.metrics?.impressions),
-        roas: this.calculateRoas(result.metrics?.conversionsValue, result.metrics?.costMicros),
-      },
-    }));
+    try {
+      const response = await this.makeSearchRequest({ accessToken }, customerId, query);
+      const campaigns = (response.results || []).map((result: any) => this.mapCampaign(result));
+
+      return {
+        success: true,
+        data: campaigns,
+        pagination: {
+          hasMore: !!response.nextPageToken,
+          cursor: response.nextPageToken,
+          totalCount: campaigns.length,
+        },
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to get campaigns', error);
+      return { success: false, error: error.message };
+    }
   }
 
   /**
    * Get single campaign by ID
    */
-  async getCampaign(userId: number, campaignId: string): Promise<PlatformCampaign | null> {
-    const session = await this.getSession(userId);
-    if (!session || !session.customerId) {
-      throw new UnauthorizedException('No valid session or customer selected');
+  async getCampaign(
+    accessToken: string,
+    campaignId: string,
+    customerId?: string,
+  ): Promise<PlatformApiResponse<PlatformCampaign>> {
+    if (!customerId) {
+      return { success: false, error: 'A customer ID is required' };
     }
 
     const query = `
-      SELECT 
+      SELECT
         campaign.id,
         campaign.name,
         campaign.status,
         campaign.advertising_channel_type,
         campaign_budget.amount_micros,
+        campaign_budget.type,
+        campaign.start_date,
+        campaign.end_date,
         metrics.impressions,
         metrics.clicks,
         metrics.cost_micros,
-        metrics.conversions
+        metrics.conversions,
+        metrics.conversions_value
       FROM campaign
       WHERE campaign.id = ${campaignId}
     `;
 
-    const response = await this.makeSearchRequest(session, session.customerId, query);
-    const result = response.results?.[0];
+    try {
+      const response = await this.makeSearchRequest({ accessToken }, customerId, query);
+      const result = response.results?.[0];
 
-    if (!result) return null;
+      if (!result) {
+        return { success: false, error: 'Campaign not found' };
+      }
 
-    return {
-      id: result.campaign.id,
-      name: result.campaign.name,
-      status: result.campaign.status,
-      objective: result.campaign.advertisingChannelType,
-      budget: result.campaignBudget?.amountMicros ? result.campaignBudget.amountMicros / 1000000 : 0,
-      metrics: {
-        impressions: parseInt(result.metrics?.impressions || '0', 10),
-        clicks: parseInt(result.metrics?.clicks || '0', 10),
-        spend: (result.metrics?.costMicros || 0) / 1000000,
-        conversions: parseFloat(result.metrics?.conversions || '0'),
-        ctr: this.calculateCtr(result.metrics?.clicks, result.metrics?.impressions),
-        cpc: this.calculateCpc(result.metrics?.costMicros, result.metrics?.clicks),
-        cpm: this.calculateCpm(result.metrics?.costMicros, result.metrics?.impressions),
-      },
-    };
+      return { success: true, data: this.mapCampaign(result) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
   }
 
   // ==================== AD GROUPS ====================
 
   /**
-   * Get ad groups
+   * Get ad groups, optionally limited to one campaign
    */
   async getAdGroups(
-    userId: number,
-    campaignId?: string,
-    startDate?: string,
-    endDate?: string,
-  ): Promise<PlatformAdGroup[]> {
-    const session = await this.getSession(userId);
-    if (!session || !session.customerId) {
-      throw new UnauthorizedException('No valid session or customer selected');
+    accessToken: string,
+    campaignId: string,
+    dateRange?: PlatformDateRange,
+    customerId?: string,
+  ): Promise<PlatformApiResponse<PlatformAdGroup[]>> {
+    if (!customerId) {
+      return { success: false, error: 'A customer ID is required' };
     }
 
     const whereClauses: string[] = [];
     if (campaignId) {
       whereClauses.push(`campaign.id = ${campaignId}`);
     }
-    if (startDate && endDate) {
-      whereClauses.push(`segments.date BETWEEN '${startDate}' AND '${endDate}'`);
+    if (dateRange) {
+      whereClauses.push(`segments.date BETWEEN '${dateRange.since}' AND '${dateRange.until}'`);
     }
 
     const whereClause = whereClauses.length > 0 ? `WHERE ${whereClauses.join(' AND ')}` : '';
 
     const query = `
-      SELECT 
+      SELECT
         ad_group.id,
         ad_group.name,
         ad_group.status,
@@ -531,60 +678,101 @@ export class GoogleAdsService {
         metrics.impressions,
         metrics.clicks,
         metrics.cost_micros,
-        metrics.conversions
+        metrics.conversions,
+        metrics.conversions_value
       FROM ad_group
       ${whereClause}
       ORDER BY ad_group.name
     `;
 
-    const response = await this.makeSearchRequest(session, session.customerId, query);
+    try {
+      const response = await this.makeSearchRequest({ accessToken }, customerId, query);
+      const adGroups = (response.results || []).map((result: any) => this.mapAdGroup(result));
+
+      return {
+        success: true,
+        data: adGroups,
+        pagination: {
+          hasMore: !!response.nextPageToken,
+          cursor: response.nextPageToken,
+          totalCount: adGroups.length,
+        },
+      };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Get single ad group by ID
+   */
+  async getAdGroup(
+    accessToken: string,
+    adGroupId: string,
+    customerId?: string,
+  ): Promise<PlatformApiResponse<PlatformAdGroup>> {
+    if (!customerId) {
+      return { success: false, error: 'A customer ID is required' };
+    }
 
-    return (response.results || []).map((result: any) => ({
-      id: result.adGroup.id,
-      campaignId: result.campaign.id,
-      name: result.adGroup.name,
-      status: result.adGroup.status,
-      bidAmount: result.adGroup.cpcBidMicros ? result.adGroup.cpcBidMicros / 1000000 : 0,
-      metrics: {
-        impressions: parseInt(result.metrics?.impressions || '0', 10),
-        clicks: parseInt(result.metrics?.clicks || '0', 10),
-        spend: (result.metrics?.costMicros || 0) / 1000000,
-        conversions: parseFloat(result.metrics?.conversions || '0'),
-        ctr: this.calculateCtr(result.metrics?.clicks, result.metrics?.impressions),
-        cpc: this.calculateCpc(result.metrics?.costMicros, result.metrics?.clicks),
-        cpm: this.calculateCpm(result.metrics?.costMicros, result.metrics?.impressions),
-      },
-    }));
+    const query = `
+      SELECT
+        ad_group.id,
+        ad_group.name,
+        ad_group.status,
+        ad_group.type,
+        campaign.id,
+        ad_group.cpc_bid_micros,
+        metrics.impressions,
+        metrics.clicks,
+        metrics.cost_micros,
+        metrics.conversions,
+        metrics.conversions_value
+      FROM ad_group
+      WHERE ad_group.id = ${adGroupId}
+    `;
+
+    try {
+      const response = await this.makeSearchRequest({ accessToken }, customerId, query);
+      const result = response.results?.[0];
+
+      if (!result) {
+        return { success: false, error: 'Ad group not found' };
+      }
+
+      return { success: true, data: this.mapAdGroup(result) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
   }
 
   // ==================== ADS ====================
 
   /**
-   * Get ads
+   * Get ads, optionally limited to one ad group
    */
   async getAds(
-    userId: number,
-    adGroupId?: string,
-    startDate?: string,
-    endDate?: string,
-  ): Promise<PlatformAd[]> {
-    const session = await this.getSession(userId);
-    if (!session || !session.customerId) {
-      throw new UnauthorizedException('No valid session or customer selected');
+    accessToken: string,
+    adGroupId: string,
+    dateRange?: PlatformDateRange,
+    customerId?: string,
+  ): Promise<PlatformApiResponse<PlatformAd[]>> {
+    if (!customerId) {
+      return { success: false, error: 'A customer ID is required' };
     }
 
     const whereClauses: string[] = [];
     if (adGroupId) {
       whereClauses.push(`ad_group.id = ${adGroupId}`);
     }
-    if (startDate && endDate) {
-      whereClauses.push(`segments.date BETWEEN '${startDate}' AND '${endDate}'`);
+    if (dateRange) {
+      whereClauses.push(`segments.date BETWEEN '${dateRange.since}' AND '${dateRange.until}'`);
     }
 
     const whereClause = whereClauses.length > 0 ? `WHERE ${whereClauses.join(' AND ')}` : '';
 
     const query = `
-      SELECT 
+      SELECT
         ad_group_ad.ad.id,
         ad_group_ad.ad.name,
         ad_group_ad.ad.type,
@@ -595,134 +783,160 @@ export class GoogleAdsService {
         metrics.impressions,
         metrics.clicks,
         metrics.cost_micros,
-        metrics.conversions
+        metrics.conversions,
+        metrics.conversions_value
       FROM ad_group_ad
       ${whereClause}
       ORDER BY ad_group_ad.ad.name
     `;
 
-    const response = await this.makeSearchRequest(session, session.customerId, query);
-
-    return (response.results || []).map((result: any) => ({
-      id: result.adGroupAd.ad.id,
-      adGroupId: result.adGroup.id,
-      campaignId: result.campaign.id,
-      name: result.adGroupAd.ad.name || `Ad ${result.adGroupAd.ad.id}`,
-      status: result.adGroupAd.status,
-      metrics: {
-        impressions: parseInt(result.metrics?.impressions || '0', 10),
-        clicks: parseInt(result.metrics?.clicks || '0', 10),
-        spend: (result.metrics?.costMicros || 0) / 1000000,
-        conversions: parseFloat(result.metrics?.conversions || '0'),
-        ctr: this.calculateCtr(result.metrics?.clicks, result.metrics?.impressions),
-        cpc: this.calculateCpc(result.metrics?.costMicros, result.metrics?.clicks),
-        cpm: this.calculateCpm(result.metrics?.costMicros, result.metrics?.impressions),
-      },
-    }));
+    try {
+      const response = await this.makeSearchRequest({ accessToken }, customerId, query);
+      const ads = (response.results || []).map((result: any) => this.mapAd(result));
+
+      return {
+        success: true,
+        data: ads,
+        pagination: {
+          hasMore: !!response.nextPageToken,
+          cursor: response.nextPageToken,
+          totalCount: ads.length,
+        },
+      };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
   }
 
-  // ==================== METRICS ====================
-
   /**
-   * Get account-level metrics
+   * Get single ad by ID
    */
-  async getAccountMetrics(
-    userId: number,
-    startDate: string,
-    endDate: string,
-  ): Promise<PlatformMetrics> {
-    const session = await this.getSession(userId);
-    if (!session || !session.customerId) {
-      throw new UnauthorizedException('No valid session or customer selected');
+  async getAd(
+    accessToken: string,
+    adId: string,
+    customerId?: string,
+  ): Promise<PlatformApiResponse<PlatformAd>> {
+    if (!customerId) {
+      return { success: false, error: 'A customer ID is required' };
     }
 
-    // Check cache first
-    const cacheKey = `${startDate}_${endDate}`;
-    const cached = await this.metricsCacheRepository.findOne({
-      where: {
-        userId,
-        customerId: session.customerId,
-        dateRange: cacheKey,
-        expiresAt: MoreThan(new Date()),
-      },
-    });
+    const query = `
+      SELECT
+        ad_group_ad.ad.id,
+        ad_group_ad.ad.name,
+        ad_group_ad.ad.type,
+        ad_group_ad.status,
+        ad_group.id,
+        campaign.id,
+        ad_group_ad.ad.final_urls,
+        metrics.impressions,
+        metrics.clicks,
+        metrics.cost_micros,
+        metrics.conversions,
+        metrics.conversions_value
+      FROM ad_group_ad
+      WHERE ad_group_ad.ad.id = ${adId}
+    `;
+
+    try {
+      const response = await this.makeSearchRequest({ accessToken }, customerId, query);
+      const result = response.results?.[0];
+
+      if (!result) {
+        return { success: false, error: 'Ad not found' };
+      }
 
-    if (cached) {
-      return cached.metricsData;
+      return { success: true, data: this.mapAd(result) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
     }
+  }
 
+  // ==================== METRICS ====================
+
+  /**
+   * Get account-level metrics
+   */
+  async getAccountMetrics(
+    accessToken: string,
+    customerId: string,
+    dateRange: PlatformDateRange,
+  ): Promise<PlatformApiResponse<PlatformMetrics>> {
+    const key = cacheKey(AdPlatform.GOOGLE, customerId, 'metrics', 'account', `${dateRange.since}_${dateRange.until}`);
     const query = `
-      SELECT 
+      SELECT
         metrics.impressions,
         metrics.clicks,
         metrics.cost_micros,
         metrics.conversions,
         metrics.conversions_value
       FROM customer
-      WHERE segments.date BETWEEN '${startDate}' AND '${endDate}'
+      WHERE segments.date BETWEEN '${dateRange.since}' AND '${dateRange.until}'
     `;
 
-    const response = await this.makeSearchRequest(session, session.customerId, query);
-
-    // Aggregate metrics
-    let totalImpressions = 0;
-    let totalClicks = 0;
-    let totalCostMicros = 0;
-    let totalConversions = 0;
-    let totalConversionsValue = 0;
+    try {
+      const metrics = await this.cacheService.getOrLoad(key, 'metrics', async () => {
+        const response = await this.makeSearchRequest({ accessToken }, customerId, query);
+        return this.aggregateMetrics(response.results || []);
+      });
 
-    for (const result of response.results || []) {
-      totalImpressions += parseInt(result.metrics?.impressions || '0', 10);
-      totalClicks += parseInt(result.metrics?.clicks || '0', 10);
-      totalCostMicros += parseInt(result.metrics?.costMicros || '0', 10);
-      totalConversions += parseFloat(result.metrics?.conversions || '0');
-      totalConversionsValue += parseFloat(result.metrics?.conversionsValue || '0');
+      return { success: true, data: metrics };
+    } catch (error: any) {
+      if (this.isPlatformUnavailable(error)) {
+        // Serve the last cached figures, however old, while Google Ads is down
+        const stale = await this.cacheService.getLastKnown<PlatformMetrics>(key);
+        if (stale) {
+          return { success: true, data: stale.value, stale: true, cachedAt: stale.cachedAt };
+        }
+      }
+      return { success: false, error: error.message };
     }
+  }
 
-    const totalSpend = totalCostMicros / 1000000;
-
-    const metrics: PlatformMetrics = {
-      impressions: totalImpressions,
-      clicks: totalClicks,
-      spend: totalSpend,
-      conversions: totalConversions,
-      ctr: this.calculateCtr(totalClicks, totalImpressions),
-      cpc: this.calculateCpc(totalCostMicros, totalClicks),
-      cpm: this.calculateCpm(totalCostMicros, totalImpressions),
-      roas: totalSpend > 0 ? totalConversionsValue / totalSpend : 0,
-      costPerConversion: totalConversions > 0 ? totalSpend / totalConversions : 0,
-    };
-
-    // Cache the results
-    const cacheExpiry = new Date();
-    cacheExpiry.setHours(cacheExpiry.getHours() + this.cacheTtlHours);
+  /**
+   * Get campaign-level metrics
+   */
+  async getCampaignMetrics(
+    accessToken: string,
+    campaignId: string,
+    dateRange: PlatformDateRange,
+    customerId?: string,
+  ): Promise<PlatformApiResponse<PlatformMetrics>> {
+    if (!customerId) {
+      return { success: false, error: 'A customer ID is required' };
+    }
 
-    await this.metricsCacheRepository.save({
-      userId,
-      customerId: session.customerId,
-      dateRange: cacheKey,
-      metricsData: metrics as any,
-      expiresAt: cacheExpiry,
-    });
+    const query = `
+      SELECT
+        metrics.impressions,
+        metrics.clicks,
+        metrics.cost_micros,
+        metrics.conversions,
+        metrics.conversions_value
+      FROM campaign
+      WHERE campaign.id = ${campaignId}
+        AND segments.date BETWEEN '${dateRange.since}' AND '${dateRange.until}'
+    `;
 
-    return metrics;
+    try {
+      const response = await this.makeSearchRequest({ accessToken }, customerId, query);
+      return { success: true, data: this.aggregateMetrics(response.results || []) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
   }
 
   /**
    * Get metrics by date (for charts)
    */
   async getMetricsByDate(
-    userId: number,
+    accessToken: string,
+    customerId: string,
     startDate: string,
     endDate: string,
   ): Promise<{ date: string; metrics: PlatformMetrics }[]> {
-    const session = await this.getSession(userId);
-    if (!session || !session.customerId) {
-      throw new UnauthorizedException('No valid session or customer selected');
-    }
-
     const query = `
-      SELECT 
+      SELECT
         segments.date,
         metrics.impressions,
         metrics.clicks,
@@ -734,7 +948,7 @@ export class GoogleAdsService {
       ORDER BY segments.date
     `;
 
-    const response = await this.makeSearchRequest(session, session.customerId, query);
+    const response = await this.makeSearchRequest({ accessToken }, customerId, query);
 
     // Group by date
     const dateMetrics: Map<string, any> = new Map();
@@ -776,13 +990,79 @@ export class GoogleAdsService {
     }));
   }
 
+  /**
+   * Ad-level metrics segmented by date, following nextPageToken through the whole result set
+   */
+  async getDailyAdMetrics(
+    accessToken: string,
+    customerId: string,
+    dateRange: PlatformDateRange,
+  ): Promise<PlatformApiResponse<DailyAdMetrics[]>> {
+    const query = `
+      SELECT
+        segments.date,
+        campaign.id,
+        ad_group.id,
+        ad_group_ad.ad.id,
+        metrics.impressions,
+        metrics.clicks,
+        metrics.cost_micros,
+        metrics.conversions,
+        metrics.conversions_value
+      FROM ad_group_ad
+      WHERE segments.date BETWEEN '${dateRange.since}' AND '${dateRange.until}'
+    `;
+
+    try {
+      const rows: DailyAdMetrics[] = [];
+      let pageToken: string | undefined;
+
+      do {
+        const response = await this.makeSearchRequest({ accessToken }, customerId, query, pageToken);
+        for (const result of response.results || []) {
+          rows.push({
+            date: result.segments?.date,
+            campaignId: String(result.campaign?.id || ''),
+            adGroupId: String(result.adGroup?.id || ''),
+            adId: String(result.adGroupAd?.ad?.id || ''),
+            metrics: this.transformMetrics(result.metrics),
+          });
+        }
+        pageToken = response.nextPageToken;
+      } while (pageToken);
+
+      return { success: true, data: rows };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
   // ==================== HELPER METHODS ====================
 
+  /**
+   * Quota errors carry the wait in the body's quotaErrorDetails.retryDelay (e.g. "30s") rather than a Retry-After header
+   */
+  protected async getRetryDelay(response: Response, attempt: number): Promise<number | null> {
+    if (response.status === 429) {
+      const body = await response.clone().text().catch(() => '');
+      const retryDelay = parseRetryAfter(body.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/)?.[1]);
+      if (retryDelay !== null) {
+        return retryDelay;
+      }
+    }
+
+    return super.getRetryDelay(response, attempt);
+  }
+
+  protected getRateLimitKey(url: string): string {
+    return url.match(/\/customers\/(\d+)/)?.[1] || super.getRateLimitKey(url);
+  }
+
   /**
    * Make a Google Ads API request
    */
   private async makeApiRequest<T>(
-    session: GoogleAdsSession,
+    credentials: GoogleAdsCredentials,
     method: string,
     endpoint: string,
     body?: any,
@@ -790,20 +1070,21 @@ export class GoogleAdsService {
     const url = `${GOOGLE_ADS_API_BASE}${endpoint}`;
 
     const headers: Record<string, string> = {
-      'Authorization': `Bearer ${session.accessToken}`,
+      'Authorization': `Bearer ${credentials.accessToken}`,
       'developer-token': this.developerToken,
       'Content-Type': 'application/json',
     };
 
-    if (session.loginCustomerId) {
-      headers['login-customer-id'] = session.loginCustomerId.replace(/-/g, '');
+    const loginCustomerId = credentials.loginCustomerId || this.loginCustomerId;
+    if (loginCustomerId) {
+      headers['login-customer-id'] = loginCustomerId.replace(/-/g, '');
     }
 
-    const response = await fetch(url, {
+    const response = await this.fetchWithRetry(url, {
       method,
       headers,
       ...(body && { body: JSON.stringify(body) }),
-    });
+    }, this.getRateLimitKey(url));
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
@@ -818,7 +1099,7 @@ export class GoogleAdsService {
    * Make a Google Ads Search API request (GAQL query)
    */
   private async makeSearchRequest(
-    session: GoogleAdsSession,
+    credentials: GoogleAdsCredentials,
     customerId: string,
     query: string,
     pageToken?: string,
@@ -827,13 +1108,14 @@ export class GoogleAdsService {
     const url = `${GOOGLE_ADS_API_BASE}/v18/customers/${cleanCustomerId}/googleAds:search`;
 
     const headers: Record<string, string> = {
-      'Authorization': `Bearer ${session.accessToken}`,
+      'Authorization': `Bearer ${credentials.accessToken}`,
       'developer-token': this.developerToken,
       'Content-Type': 'application/json',
     };
 
-    if (session.loginCustomerId) {
-      headers['login-customer-id'] = session.loginCustomerId.replace(/-/g, '');
+    const loginCustomerId = credentials.loginCustomerId || this.loginCustomerId;
+    if (loginCustomerId) {
+      headers['login-customer-id'] = loginCustomerId.replace(/-/g, '');
     }
 
     const body: any = { query };
@@ -841,11 +1123,11 @@ export class GoogleAdsService {
       body.pageToken = pageToken;
     }
 
-    const response = await fetch(url, {
+    const response = await this.fetchWithRetry(url, {
       method: 'POST',
       headers,
       body: JSON.stringify(body),
-    });
+    }, this.getRateLimitKey(url));
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
@@ -858,6 +1140,88 @@ export class GoogleAdsService {
     return response.json();
   }
 
+  private mapCampaign(result: any): PlatformCampaign {
+    return {
+      id: result.campaign.id,
+      name: result.campaign.name,
+      status: result.campaign.status,
+      objective: result.campaign.advertisingChannelType,
+      budget: result.campaignBudget?.amountMicros ? result.campaignBudget.amountMicros / 1000000 : 0,
+      budgetType: result.campaignBudget?.type === 'DAILY' ? 'daily' : 'lifetime',
+      startTime: result.campaign.startDate ? new Date(result.campaign.startDate) : undefined,
+      endTime: result.campaign.endDate ? new Date(result.campaign.endDate) : undefined,
+      metrics: this.transformMetrics(result.metrics),
+    };
+  }
+
+  private mapAdGroup(result: any): PlatformAdGroup {
+    return {
+      id: result.adGroup.id,
+      campaignId: result.campaign.id,
+      name: result.adGroup.name,
+      status: result.adGroup.status,
+      bidAmount: result.adGroup.cpcBidMicros ? result.adGroup.cpcBidMicros / 1000000 : 0,
+      metrics: this.transformMetrics(result.metrics),
+    };
+  }
+
+  private mapAd(result: any): PlatformAd {
+    return {
+      id: result.adGroupAd.ad.id,
+      adGroupId: result.adGroup.id,
+      campaignId: result.campaign.id,
+      name: result.adGroupAd.ad.name || `Ad ${result.adGroupAd.ad.id}`,
+      status: result.adGroupAd.status,
+      metrics: this.transformMetrics(result.metrics),
+    };
+  }
+
+  private transformMetrics(metrics: any): PlatformMetrics {
+    return {
+      impressions: parseInt(metrics?.impressions || '0', 10),
+      clicks: parseInt(metrics?.clicks || '0', 10),
+      spend: (metrics?.costMicros || 0) / 1000000,
+      conversions: parseFloat(metrics?.conversions || '0'),
+      ctr: this.calculateCtr(metrics?.clicks, metrics?.impressions),
+      cpc: this.calculateCpc(metrics?.costMicros, metrics?.clicks),
+      cpm: this.calculateCpm(metrics?.costMicros, metrics?.impressions),
+      roas: this.calculateRoas(metrics?.conversionsValue, metrics?.costMicros),
+    };
+  }
+
+  /**
+   * Sum metrics across result rows (e.g. one row per day when segmented by date)
+   */
+  private aggregateMetrics(results: any[]): PlatformMetrics {
+    let totalImpressions = 0;
+    let totalClicks = 0;
+    let totalCostMicros = 0;
+    let totalConversions = 0;
+    let totalConversionsValue = 0;
+
+    for (const result of results) {
+      totalImpressions += parseInt(result.metrics?.impressions || '0', 10);
+      totalClicks += parseInt(result.metrics?.clicks || '0', 10);
+      totalCostMicros += parseInt(result.metrics?.costMicros || '0', 10);
+      totalConversions += parseFloat(result.metrics?.conversions || '0');
+      totalConversionsValue += parseFloat(result.metrics?.conversionsValue || '0');
+    }
+
+    const totalSpend = totalCostMicros / 1000000;
+
+    return {
+      impressions: totalImpressions,
+      clicks: totalClicks,
+      spend: totalSpend,
+      conversions: totalConversions,
+      ctr: this.calculateCtr(totalClicks, totalImpressions),
+      cpc: this.calculateCpc(totalCostMicros, totalClicks),
+      cpm: this.calculateCpm(totalCostMicros, totalImpressions),
+      roas: totalSpend > 0 ? totalConversionsValue / totalSpend : 0,
+      costPerConversion: totalConversions > 0 ? totalSpend / totalConversions : 0,
+    };
+  }
+
   // Calculation helpers
   private calculateCtr(clicks: any, impressions: any): number {
     const c = parseInt(clicks || '0', 10);
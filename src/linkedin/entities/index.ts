@@ -0,0 +1 @@
+export * from './linkedin-session.entity';
@@ -0,0 +1,321 @@
+import { Controller, Get, Post, Delete, Body, Query, Param, UseGuards, BadRequestException, Res } from '@nestjs/common';
+import type { Response } from 'express';
+import { LinkedInService } from './linkedin.service';
+import { LinkedInSession } from './entities/linkedin-session.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ConfigService } from '@nestjs/config';
+
+@Controller('linkedin')
+export class LinkedInController {
+  constructor(
+    private readonly linkedinService: LinkedInService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Get('health')
+  async healthCheck() {
+    return {
+      status: 'ok',
+      service: 'linkedin',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  // ==================== OAUTH ====================
+
+  @Get('auth/url')
+  @UseGuards(JwtAuthGuard)
+  async getAuthUrl(@CurrentUser() user: any) {
+    const state = Buffer.from(JSON.stringify({ userId: user.id })).toString('base64');
+    return { success: true, authUrl: this.linkedinService.getAuthUrl(state) };
+  }
+
+  @Get('auth/callback')
+  async handleAuthCallback(
+    @Query('code') code: string,
+    @Query('state') state: string,
+    @Query('error_description') errorDescription: string,
+    @Res() res: Response,
+  ) {
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000';
+
+    try {
+      if (errorDescription) {
+        throw new BadRequestException(errorDescription);
+      }
+
+      if (!code || !state) {
+        throw new BadRequestException('Missing code or state');
+      }
+
+      // Redirect to frontend callback page, which completes the exchange via POST
+      const callbackUrl = new URL('/linkedin/callback', frontendUrl);
+      callbackUrl.searchParams.set('code', code);
+      callbackUrl.searchParams.set('state', state);
+
+      return res.redirect(callbackUrl.toString());
+    } catch (error: any) {
+      return res.redirect(`${frontendUrl}/linkedin?linkedin_error=${encodeURIComponent(error.message)}`);
+    }
+  }
+
+  @Post('auth/callback')
+  @UseGuards(JwtAuthGuard)
+  async handleAuthCallbackPost(
+    @CurrentUser() user: any,
+    @Body() body: { code: string; state?: string },
+  ) {
+    try {
+      if (!body.code) {
+        throw new BadRequestException('Missing authorization code');
+      }
+
+      const tokenData = await this.linkedinService.exchangeCodeForToken(body.code);
+
+      const tokenExpiresAt = new Date(Date.now() + (tokenData.expires_in || 5184000) * 1000);
+      const refreshTokenExpiresAt = tokenData.refresh_token_expires_in
+        ? new Date(Date.now() + tokenData.refresh_token_expires_in * 1000)
+        : undefined;
+
+      await this.linkedinService.saveSession(
+        user.id,
+        tokenData.access_token,
+        tokenData.refresh_token,
+        undefined,
+        tokenExpiresAt,
+        undefined,
+        refreshTokenExpiresAt,
+      );
+
+      return {
+        success: true,
+        message: 'Successfully connected to LinkedIn Ads',
+      };
+    } catch (error: any) {
+      throw new BadRequestException(error.message || 'Failed to complete LinkedIn authorization');
+    }
+  }
+
+  // ==================== SESSION ====================
+
+  @Get('subscription/status')
+  @UseGuards(JwtAuthGuard)
+  async getSubscriptionStatus(@CurrentUser() user: any) {
+    const status = await this.linkedinService.getSubscriptionStatus(user.id);
+    return {
+      success: true,
+      ...status,
+    };
+  }
+
+  @Get('session')
+  @UseGuards(JwtAuthGuard)
+  async getSession(@CurrentUser() user: any) {
+    const session = await this.linkedinService.getSession(user.id);
+    if (!session) {
+      return { success: false, message: 'No LinkedIn session found' };
+    }
+    return {
+      success: true,
+      session: {
+        id: session.id,
+        userId: session.userId,
+        adAccountId: session.adAccountId,
+        adAccountName: session.adAccountName,
+        tokenExpiresAt: session.tokenExpiresAt,
+        hasToken: !!session.accessToken,
+      },
+    };
+  }
+
+  @Delete('session')
+  @UseGuards(JwtAuthGuard)
+  async deleteSession(@CurrentUser() user: any) {
+    await this.linkedinService.deleteSession(user.id);
+    return { success: true, message: 'LinkedIn session deleted' };
+  }
+
+  @Post('session/refresh')
+  @UseGuards(JwtAuthGuard)
+  async refreshToken(@CurrentUser() user: any) {
+    const session = await this.linkedinService.refreshAccessToken(user.id);
+    return { success: true, expiresAt: session.tokenExpiresAt };
+  }
+
+  // ==================== AD ACCOUNTS ====================
+
+  @Get('ad-accounts')
+  @UseGuards(JwtAuthGuard)
+  async getAdAccounts(@CurrentUser() user: any) {
+    const session = await this.linkedinService.getSession(user.id);
+    if (!session) {
+      throw new BadRequestException('No LinkedIn session found');
+    }
+
+    const result = await this.linkedinService.getAdAccounts(session.accessToken);
+    return { success: result.success, adAccounts: result.data || [], error: result.error };
+  }
+
+  @Post('ad-accounts/select')
+  @UseGuards(JwtAuthGuard)
+  async selectAdAccount(
+    @CurrentUser() user: any,
+    @Body() body: { adAccountId: string; adAccountName?: string },
+  ) {
+    if (!body.adAccountId) {
+      throw new BadRequestException('adAccountId is required');
+    }
+
+    const session = await this.linkedinService.getSession(user.id);
+    if (!session) {
+      throw new BadRequestException('No LinkedIn session found');
+    }
+
+    await this.linkedinService.validateAdAccountAccess(user.id, body.adAccountId);
+
+    await this.linkedinService.saveSession(
+      user.id,
+      session.accessToken,
+      session.refreshToken,
+      body.adAccountId,
+      session.tokenExpiresAt,
+      body.adAccountName,
+      session.refreshTokenExpiresAt,
+    );
+
+    return { success: true, adAccountId: body.adAccountId };
+  }
+
+  // ==================== CAMPAIGN GROUPS ====================
+
+  @Get('campaign-groups')
+  @UseGuards(JwtAuthGuard)
+  async getCampaignGroups(
+    @CurrentUser() user: any,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+  ) {
+    const session = await this.getValidatedSession(user.id);
+
+    const dateRange = since && until ? { since, until } : undefined;
+    return this.linkedinService.getCampaigns(session.accessToken, session.adAccountId, dateRange);
+  }
+
+  @Get('campaign-groups/:id')
+  @UseGuards(JwtAuthGuard)
+  async getCampaignGroup(@CurrentUser() user: any, @Param('id') campaignGroupId: string) {
+    const session = await this.getValidatedSession(user.id);
+    return this.linkedinService.getCampaign(session.accessToken, campaignGroupId, session.adAccountId);
+  }
+
+  // ==================== CAMPAIGNS ====================
+
+  @Get('campaigns')
+  @UseGuards(JwtAuthGuard)
+  async getCampaigns(
+    @CurrentUser() user: any,
+    @Query('campaignGroupId') campaignGroupId?: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+  ) {
+    const session = await this.getValidatedSession(user.id);
+
+    const dateRange = since && until ? { since, until } : undefined;
+    return this.linkedinService.getAdGroups(session.accessToken, campaignGroupId || '', dateRange, session.adAccountId);
+  }
+
+  @Get('campaigns/:id')
+  @UseGuards(JwtAuthGuard)
+  async getCampaign(@CurrentUser() user: any, @Param('id') campaignId: string) {
+    const session = await this.getValidatedSession(user.id);
+    return this.linkedinService.getAdGroup(session.accessToken, campaignId, session.adAccountId);
+  }
+
+  // ==================== CREATIVES ====================
+
+  @Get('creatives')
+  @UseGuards(JwtAuthGuard)
+  async getCreatives(
+    @CurrentUser() user: any,
+    @Query('campaignId') campaignId?: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+  ) {
+    const session = await this.getValidatedSession(user.id);
+
+    const dateRange = since && until ? { since, until } : undefined;
+    return this.linkedinService.getAds(session.accessToken, campaignId || '', dateRange, session.adAccountId);
+  }
+
+  @Get('creatives/:id')
+  @UseGuards(JwtAuthGuard)
+  async getCreative(@CurrentUser() user: any, @Param('id') creativeId: string) {
+    const session = await this.getValidatedSession(user.id);
+    return this.linkedinService.getAd(session.accessToken, creativeId, session.adAccountId);
+  }
+
+  // ==================== ANALYTICS ====================
+
+  @Get('metrics/account')
+  @UseGuards(JwtAuthGuard)
+  async getAccountMetrics(
+    @CurrentUser() user: any,
+    @Query('since') since: string,
+    @Query('until') until: string,
+  ) {
+    if (!since || !until) {
+      throw new BadRequestException('since and until date parameters are required');
+    }
+
+    const session = await this.getValidatedSession(user.id);
+    return this.linkedinService.getAccountMetrics(session.accessToken, session.adAccountId, { since, until });
+  }
+
+  @Get('metrics/campaign-groups/:id')
+  @UseGuards(JwtAuthGuard)
+  async getCampaignGroupMetrics(
+    @CurrentUser() user: any,
+    @Param('id') campaignGroupId: string,
+    @Query('since') since: string,
+    @Query('until') until: string,
+  ) {
+    if (!since || !until) {
+      throw new BadRequestException('since and until date parameters are required');
+    }
+
+    const session = await this.getValidatedSession(user.id);
+    return this.linkedinService.getCampaignMetrics(session.accessToken, campaignGroupId, { since, until });
+  }
+
+  @Get('metrics/daily')
+  @UseGuards(JwtAuthGuard)
+  async getDailyMetrics(
+    @CurrentUser() user: any,
+    @Query('since') since: string,
+    @Query('until') until: string,
+  ) {
+    if (!since || !until) {
+      throw new BadRequestException('since and until date parameters are required');
+    }
+
+    const session = await this.getValidatedSession(user.id);
+    return this.linkedinService.getDailyMetrics(session.accessToken, session.adAccountId, { since, until });
+  }
+
+  /**
+   * Load the user's session and check the selected ad account is covered by a paid seat
+   */
+  private async getValidatedSession(userId: number): Promise<LinkedInSession> {
+    const session = await this.linkedinService.getSession(userId);
+    if (!session || !session.adAccountId) {
+      throw new BadRequestException('No LinkedIn session or ad account selected');
+    }
+
+    // Subscription validation
+    await this.linkedinService.validateSubscription(userId);
+    await this.linkedinService.validateAdAccountAccess(userId, session.adAccountId);
+
+    return session;
+  }
+}
@@ -0,0 +1,21 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { LinkedInService } from './linkedin.service';
+import { LinkedInController } from './linkedin.controller';
+import { LinkedInSession } from './entities/linkedin-session.entity';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { AccountsModule } from '../accounts/accounts.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([LinkedInSession]),
+    ConfigModule,
+    forwardRef(() => SubscriptionsModule),
+    AccountsModule,
+  ],
+  controllers: [LinkedInController],
+  providers: [LinkedInService],
+  exports: [LinkedInService],
+})
+export class LinkedInModule {}
@@ -0,0 +1,952 @@
+import { Injectable, Logger, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, Not, IsNull, LessThan } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { LinkedInSession } from './entities/linkedin-session.entity';
+import { PlatformSubscriptionsService } from '../subscriptions/platform-subscriptions.service';
+import { ConnectedAccountsService } from '../accounts/connected-accounts.service';
+import { BaseAdPlatformService } from '../common/services/base-ad-platform.service';
+import { LINKEDIN_ENDPOINTS, LINKEDIN_URNS } from '../config/linkedin.config';
+import {
+  AdPlatform,
+  PlatformMetrics,
+  PlatformCampaign,
+  PlatformAdGroup,
+  PlatformAd,
+  PlatformCreative,
+  PlatformDateRange,
+  PlatformApiResponse,
+  DailyAdMetrics,
+} from '../common/interfaces/ad-platform.interface';
+
+interface LinkedInPagedResponse<T> {
+  elements: T[];
+  paging?: {
+    start: number;
+    count: number;
+    total?: number;
+  };
+  metadata?: {
+    nextPageToken?: string;
+  };
+}
+
+interface LinkedInMoney {
+  amount: string;
+  currencyCode: string;
+}
+
+interface LinkedInAdAccountApiData {
+  id: number;
+  name: string;
+  currency: string;
+  status: string;
+  type: string;
+  reference?: string;
+}
+
+interface LinkedInCampaignGroupApiData {
+  id: number;
+  name: string;
+  status: string;
+  account: string;
+  totalBudget?: LinkedInMoney;
+  runSchedule?: {
+    start?: number;
+    end?: number;
+  };
+}
+
+interface LinkedInCampaignApiData {
+  id: number;
+  name: string;
+  status: string;
+  account: string;
+  campaignGroup: string;
+  objectiveType?: string;
+  costType?: string;
+  dailyBudget?: LinkedInMoney;
+  totalBudget?: LinkedInMoney;
+  unitCost?: LinkedInMoney;
+  targetingCriteria?: Record<string, any>;
+}
+
+interface LinkedInCreativeApiData {
+  id: string;
+  name?: string;
+  campaign: string;
+  intendedStatus: string;
+  isServing?: boolean;
+  content?: {
+    reference?: string;
+    textAd?: {
+      headline?: string;
+      description?: string;
+      landingPage?: string;
+    };
+    carousel?: Record<string, any>;
+    media?: {
+      id?: string;
+      title?: string;
+    };
+  };
+}
+
+interface LinkedInAnalyticsApiData {
+  impressions?: number;
+  clicks?: number;
+  costInLocalCurrency?: string;
+  externalWebsiteConversions?: number;
+  conversionValueInLocalCurrency?: string;
+  approximateMemberReach?: number;
+  pivotValues?: string[];
+  dateRange?: {
+    start: { year: number; month: number; day: number };
+    end?: { year: number; month: number; day: number };
+  };
+}
+
+interface LinkedInTokenResponse {
+  access_token: string;
+  expires_in: number;
+  refresh_token?: string;
+  refresh_token_expires_in?: number;
+  error?: string;
+  error_description?: string;
+}
+
+type LinkedInAnalyticsPivot = 'ACCOUNT' | 'CAMPAIGN_GROUP' | 'CAMPAIGN' | 'CREATIVE';
+
+const ANALYTICS_FIELDS = [
+  'impressions',
+  'clicks',
+  'costInLocalCurrency',
+  'externalWebsiteConversions',
+  'conversionValueInLocalCurrency',
+  'approximateMemberReach',
+  'pivotValues',
+  'dateRange',
+].join(',');
+
+@Injectable()
+export class LinkedInService extends BaseAdPlatformService {
+  protected readonly logger = new Logger(LinkedInService.name);
+  protected readonly platform = AdPlatform.LINKEDIN;
+  protected readonly apiVersion: string;
+  protected readonly baseUrl: string;
+  private readonly maxPages = 10;
+  private readonly accountCurrencies = new Map<string, string>();
+
+  constructor(
+    @InjectRepository(LinkedInSession)
+    private sessionRepository: Repository<LinkedInSession>,
+    private configService: ConfigService,
+    private readonly platformSubscriptionsService: PlatformSubscriptionsService,
+    private readonly connectedAccountsService: ConnectedAccountsService,
+  ) {
+    super();
+    this.apiVersion = this.configService.get<string>('linkedin.apiVersion') || '202406';
+    this.baseUrl = this.configService.get<string>('linkedin.baseUrl') || 'https://api.linkedin.com/rest';
+  }
+
+  // ==================== SUBSCRIPTION VALIDATION ====================
+
+  /**
+   * Check if user has paid access to any LinkedIn Ads accounts
+   */
+  async validateSubscription(userId: number): Promise<void> {
+    const seats = await this.platformSubscriptionsService.getPlatformSeatsByUser(userId, this.platform);
+
+    if (seats.length === 0) {
+      throw new ForbiddenException(
+        'No active LinkedIn Ads subscriptions. Please subscribe to at least one LinkedIn Ads account.',
+      );
+    }
+  }
+
+  /**
+   * Check if user can access a specific LinkedIn ad account
+   */
+  async validateAdAccountAccess(userId: number, adAccountId: string): Promise<void> {
+    const seats = await this.platformSubscriptionsService.getPlatformSeatsByUser(userId, this.platform);
+    const hasAccess = seats.some(seat => seat.adAccountId === adAccountId);
+
+    if (!hasAccess) {
+      throw new ForbiddenException(
+        'This LinkedIn ad account is not included in your subscription. Please add it to your plan.',
+      );
+    }
+  }
+
+  /**
+   * Get subscription status for LinkedIn Ads
+   */
+  async getSubscriptionStatus(userId: number): Promise<{
+    hasSubscription: boolean;
+    adAccountIds: string[];
+    planType?: string;
+  }> {
+    const seats = await this.platformSubscriptionsService.getPlatformSeatsByUser(userId, this.platform);
+
+    if (seats.length === 0) {
+      return {
+        hasSubscription: false,
+        adAccountIds: [],
+      };
+    }
+
+    return {
+      hasSubscription: true,
+      adAccountIds: seats.map(seat => seat.adAccountId),
+      planType: seats[0]?.subscription?.planName,
+    };
+  }
+
+  // ==================== OAUTH ====================
+
+  /**
+   * Build the LinkedIn authorization URL for the 3-legged OAuth flow
+   */
+  getAuthUrl(state: string): string {
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.configService.get<string>('linkedin.clientId') || '',
+      redirect_uri: this.configService.get<string>('linkedin.redirectUri') || '',
+      state,
+      scope: (this.configService.get<string[]>('linkedin.scopes') || []).join(' '),
+    });
+
+    return `${LINKEDIN_ENDPOINTS.AUTH_URL}?${params.toString()}`;
+  }
+
+  /**
+   * Exchange an authorization code for access and refresh tokens
+   */
+  async exchangeCodeForToken(code: string): Promise<LinkedInTokenResponse> {
+    return this.requestToken({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.configService.get<string>('linkedin.redirectUri') || '',
+    });
+  }
+
+  private async requestToken(params: Record<string, string>): Promise<LinkedInTokenResponse> {
+    const response = await fetch(LINKEDIN_ENDPOINTS.ACCESS_TOKEN, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        ...params,
+        client_id: this.configService.get<string>('linkedin.clientId') || '',
+        client_secret: this.configService.get<string>('linkedin.clientSecret') || '',
+      }).toString(),
+    });
+
+    const data: LinkedInTokenResponse = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(`Token request failed: ${data.error_description || data.error || response.status}`);
+    }
+
+    return data;
+  }
+
+  // ==================== SESSION MANAGEMENT ====================
+
+  async saveSession(
+    userId: number,
+    accessToken: string,
+    refreshToken?: string,
+    adAccountId?: string,
+    tokenExpiresAt?: Date,
+    adAccountName?: string,
+    refreshTokenExpiresAt?: Date,
+  ): Promise<LinkedInSession> {
+    let session = await this.sessionRepository.findOneBy({ userId });
+
+    if (session) {
+      session.accessToken = accessToken;
+      session.refreshToken = refreshToken || session.refreshToken;
+      session.adAccountId = adAccountId || session.adAccountId;
+      session.adAccountName = adAccountName || session.adAccountName;
+      session.tokenExpiresAt = tokenExpiresAt || session.tokenExpiresAt;
+      session.refreshTokenExpiresAt = refreshTokenExpiresAt || session.refreshTokenExpiresAt;
+      session.needsReauth = false;
+      session.reauthReason = null;
+    } else {
+      session = this.sessionRepository.create({
+        userId,
+        accessToken,
+        refreshToken,
+        adAccountId,
+        adAccountName,
+        tokenExpiresAt,
+        refreshTokenExpiresAt,
+      });
+    }
+
+    const saved = await this.sessionRepository.save(session);
+
+    if (saved.adAccountId) {
+      await this.connectedAccountsService.connect(userId, this.platform, saved.id, saved.adAccountId, saved.adAccountName);
+    }
+    return saved;
+  }
+
+  async getSession(userId: number): Promise<LinkedInSession | null> {
+    return this.sessionRepository.findOneBy({ userId });
+  }
+
+  async deleteSession(userId: number): Promise<void> {
+    await this.sessionRepository.delete({ userId });
+    await this.connectedAccountsService.disconnectSession(userId, this.platform);
+  }
+
+  async getConnectedSessions(): Promise<LinkedInSession[]> {
+    return this.sessionRepository.find({ where: { adAccountId: Not(IsNull()) } });
+  }
+
+  async getSessionsExpiringBefore(date: Date): Promise<LinkedInSession[]> {
+    return this.sessionRepository.find({ where: { tokenExpiresAt: LessThan(date), needsReauth: false } });
+  }
+
+  async markNeedsReauth(userId: number, reason: string): Promise<void> {
+    await this.sessionRepository.update({ userId }, { needsReauth: true, reauthReason: reason });
+  }
+
+  async refreshAccessToken(userId: number): Promise<LinkedInSession> {
+    const session = await this.getSession(userId);
+    if (!session || !session.refreshToken) {
+      throw new UnauthorizedException('No session or refresh token found');
+    }
+
+    let data: LinkedInTokenResponse;
+    try {
+      data = await this.requestToken({
+        grant_type: 'refresh_token',
+        refresh_token: session.refreshToken,
+      });
+    } catch (error: any) {
+      this.logger.warn(`Token refresh failed for user ${userId}: ${error.message}`);
+      throw new UnauthorizedException(error.message);
+    }
+
+    const tokenExpiresAt = new Date(Date.now() + data.expires_in * 1000);
+    const refreshTokenExpiresAt = data.refresh_token_expires_in
+      ? new Date(Date.now() + data.refresh_token_expires_in * 1000)
+      : session.refreshTokenExpiresAt;
+
+    return this.saveSession(
+      userId,
+      data.access_token,
+      data.refresh_token,
+      session.adAccountId,
+      tokenExpiresAt,
+      session.adAccountName,
+      refreshTokenExpiresAt,
+    );
+  }
+
+  // ==================== AD ACCOUNT MANAGEMENT ====================
+
+  async getAdAccounts(accessToken: string): Promise<PlatformApiResponse<{
+    id: string;
+    name: string;
+    currency: string;
+    status: string;
+    type: string;
+  }[]>> {
+    try {
+      const accounts = await this.fetchAllPages<LinkedInAdAccountApiData>(
+        accessToken,
+        LINKEDIN_ENDPOINTS.AD_ACCOUNTS,
+        { q: 'search', search: '(status:(values:List(ACTIVE,DRAFT)))' },
+      );
+
+      return {
+        success: true,
+        data: accounts.map((a) => ({
+          id: String(a.id),
+          name: a.name,
+          currency: a.currency,
+          status: a.status,
+          type: a.type,
+        })),
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to get ad accounts', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getAccountCurrency(accessToken: string, adAccountId: string): Promise<string> {
+    if (!this.accountCurrencies.has(adAccountId)) {
+      const account = await this.makeApiCall<LinkedInAdAccountApiData>(
+        this.buildUrl(LINKEDIN_ENDPOINTS.AD_ACCOUNT(adAccountId)),
+        accessToken,
+      );
+      this.accountCurrencies.set(adAccountId, account.currency);
+    }
+
+    return this.accountCurrencies.get(adAccountId)!;
+  }
+
+  /**
+   * LinkedIn ad accounts have no timezone; adAnalytics date ranges are always evaluated in UTC
+   */
+  getAccountTimezone(): Promise<string> {
+    return Promise.resolve('UTC');
+  }
+
+  // ==================== CAMPAIGN OPERATIONS ====================
+  // LinkedIn campaign groups map to campaigns, campaigns to ad groups and creatives to ads
+
+  async getCampaigns(
+    accessToken: string,
+    adAccountId: string,
+    dateRange?: PlatformDateRange,
+  ): Promise<PlatformApiResponse<PlatformCampaign[]>> {
+    try {
+      const groups = await this.fetchAllPages<LinkedInCampaignGroupApiData>(
+        accessToken,
+        LINKEDIN_ENDPOINTS.CAMPAIGN_GROUPS(adAccountId),
+        { q: 'search' },
+      );
+
+      const campaigns = groups.map((g) => this.mapCampaignGroup(g));
+
+      // Fetch metrics if date range provided
+      if (dateRange && campaigns.length > 0) {
+        const metricsMap = await this.getAnalyticsByPivot(
+          accessToken,
+          'CAMPAIGN_GROUP',
+          'accounts',
+          [`${LINKEDIN_URNS.ACCOUNT}${adAccountId}`],
+          dateRange,
+        );
+        campaigns.forEach((campaign) => {
+          campaign.metrics = metricsMap[campaign.id];
+        });
+      }
+
+      return {
+        success: true,
+        data: campaigns,
+        pagination: {
+          hasMore: false,
+          totalCount: campaigns.length,
+        },
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to get campaign groups', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getCampaign(
+    accessToken: string,
+    campaignId: string,
+    adAccountId?: string,
+  ): Promise<PlatformApiResponse<PlatformCampaign>> {
+    if (!adAccountId) {
+      return { success: false, error: 'LinkedIn ad account ID is required' };
+    }
+
+    try {
+      const group = await this.makeApiCall<LinkedInCampaignGroupApiData>(
+        this.buildUrl(`${LINKEDIN_ENDPOINTS.CAMPAIGN_GROUPS(adAccountId)}/${campaignId}`),
+        accessToken,
+      );
+
+      return { success: true, data: this.mapCampaignGroup(group) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ==================== AD GROUP OPERATIONS ====================
+
+  async getAdGroups(
+    accessToken: string,
+    campaignId: string,
+    dateRange?: PlatformDateRange,
+    adAccountId?: string,
+  ): Promise<PlatformApiResponse<PlatformAdGroup[]>> {
+    if (!adAccountId) {
+      return { success: false, error: 'LinkedIn ad account ID is required' };
+    }
+
+    try {
+      const query: Record<string, string> = { q: 'search' };
+      if (campaignId) {
+        query.search = `(campaignGroup:(values:${this.restliList([`${LINKEDIN_URNS.CAMPAIGN_GROUP}${campaignId}`])}))`;
+      }
+
+      const campaigns = await this.fetchAllPages<LinkedInCampaignApiData>(
+        accessToken,
+        LINKEDIN_ENDPOINTS.CAMPAIGNS(adAccountId),
+        query,
+      );
+
+      const adGroups = campaigns.map((c) => this.mapCampaign(c));
+
+      if (dateRange && adGroups.length > 0) {
+        const metricsMap = await this.getAnalyticsByPivot(
+          accessToken,
+          'CAMPAIGN',
+          'campaigns',
+          adGroups.map(ag => `${LINKEDIN_URNS.CAMPAIGN}${ag.id}`),
+          dateRange,
+        );
+        adGroups.forEach((adGroup) => {
+          adGroup.metrics = metricsMap[adGroup.id];
+        });
+      }
+
+      return {
+        success: true,
+        data: adGroups,
+        pagination: {
+          hasMore: false,
+          totalCount: adGroups.length,
+        },
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to get campaigns', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getAdGroup(
+    accessToken: string,
+    adGroupId: string,
+    adAccountId?: string,
+  ): Promise<PlatformApiResponse<PlatformAdGroup>> {
+    if (!adAccountId) {
+      return { success: false, error: 'LinkedIn ad account ID is required' };
+    }
+
+    try {
+      const campaign = await this.makeApiCall<LinkedInCampaignApiData>(
+        this.buildUrl(`${LINKEDIN_ENDPOINTS.CAMPAIGNS(adAccountId)}/${adGroupId}`),
+        accessToken,
+      );
+
+      return { success: true, data: this.mapCampaign(campaign) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ==================== AD OPERATIONS ====================
+
+  async getAds(
+    accessToken: string,
+    adGroupId: string,
+    dateRange?: PlatformDateRange,
+    adAccountId?: string,
+  ): Promise<PlatformApiResponse<PlatformAd[]>> {
+    if (!adAccountId) {
+      return { success: false, error: 'LinkedIn ad account ID is required' };
+    }
+
+    try {
+      const query: Record<string, string> = { q: 'criteria' };
+      let campaignGroupId = '';
+
+      if (adGroupId) {
+        query.campaigns = this.restliList([`${LINKEDIN_URNS.CAMPAIGN}${adGroupId}`]);
+
+        // Creatives only reference their campaign, so resolve the parent campaign group once
+        const adGroup = await this.getAdGroup(accessToken, adGroupId, adAccountId);
+        campaignGroupId = adGroup.data?.campaignId || '';
+      }
+
+      const creatives = await this.fetchAllPages<LinkedInCreativeApiData>(
+        accessToken,
+        LINKEDIN_ENDPOINTS.CREATIVES(adAccountId),
+        query,
+      );
+
+      const ads = creatives.map((cr) => this.mapCreative(cr, campaignGroupId));
+
+      if (dateRange && ads.length > 0) {
+        const metricsMap = await this.getAnalyticsByPivot(
+          accessToken,
+          'CREATIVE',
+          'creatives',
+          ads.map(ad => `${LINKEDIN_URNS.CREATIVE}${ad.id}`),
+          dateRange,
+        );
+        ads.forEach((ad) => {
+          ad.metrics = metricsMap[ad.id];
+        });
+      }
+
+      return {
+        success: true,
+        data: ads,
+        pagination: {
+          hasMore: false,
+          totalCount: ads.length,
+        },
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to get creatives', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getAd(
+    accessToken: string,
+    adId: string,
+    adAccountId?: string,
+  ): Promise<PlatformApiResponse<PlatformAd>> {
+    if (!adAccountId) {
+      return { success: false, error: 'LinkedIn ad account ID is required' };
+    }
+
+    try {
+      const creativeUrn = encodeURIComponent(`${LINKEDIN_URNS.CREATIVE}${adId}`);
+      const creative = await this.makeApiCall<LinkedInCreativeApiData>(
+        this.buildUrl(`${LINKEDIN_ENDPOINTS.CREATIVES(adAccountId)}/${creativeUrn}`),
+        accessToken,
+      );
+
+      return { success: true, data: this.mapCreative(creative) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ==================== METRICS ====================
+
+  async getAccountMetrics(
+    accessToken: string,
+    adAccountId: string,
+    dateRange: PlatformDateRange,
+  ): Promise<PlatformApiResponse<PlatformMetrics>> {
+    try {
+      const rows = await this.getAnalytics(
+        accessToken,
+        'ACCOUNT',
+        'accounts',
+        [`${LINKEDIN_URNS.ACCOUNT}${adAccountId}`],
+        dateRange,
+      );
+
+      return { success: true, data: this.transformMetrics(rows[0]) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getCampaignMetrics(
+    accessToken: string,
+    campaignId: string,
+    dateRange: PlatformDateRange,
+  ): Promise<PlatformApiResponse<PlatformMetrics>> {
+    try {
+      const rows = await this.getAnalytics(
+        accessToken,
+        'CAMPAIGN_GROUP',
+        'campaignGroups',
+        [`${LINKEDIN_URNS.CAMPAIGN_GROUP}${campaignId}`],
+        dateRange,
+      );
+
+      return { success: true, data: this.transformMetrics(rows[0]) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Daily account-level analytics for time series charts
+   */
+  async getDailyMetrics(
+    accessToken: string,
+    adAccountId: string,
+    dateRange: PlatformDateRange,
+  ): Promise<PlatformApiResponse<any[]>> {
+    try {
+      const rows = await this.getAnalytics(
+        accessToken,
+        'ACCOUNT',
+        'accounts',
+        [`${LINKEDIN_URNS.ACCOUNT}${adAccountId}`],
+        dateRange,
+        'DAILY',
+      );
+
+      const dailyMetrics = rows.map((row) => ({
+        date: row.dateRange ? this.fromRestliDate(row.dateRange.start) : undefined,
+        ...this.transformMetrics(row),
+      })).sort((a, b) => a.date?.localeCompare(b.date || '') || 0);
+
+      return { success: true, data: dailyMetrics };
+    } catch (error: any) {
+      this.logger.error('Failed to get daily metrics', error);
+      return { success: false, error: error.message };
+    }
+  }
+  /**
+   * Daily analytics pivoted by creative; creatives only reference their campaign, and campaigns their
+   * campaign group, so both lists are loaded to place each row in the hierarchy
+   */
+  async getDailyAdMetrics(
+    accessToken: string,
+    adAccountId: string,
+    dateRange: PlatformDateRange,
+  ): Promise<PlatformApiResponse<DailyAdMetrics[]>> {
+    try {
+      const [campaigns, creatives, analytics] = await Promise.all([
+        this.fetchAllPages<LinkedInCampaignApiData>(accessToken, LINKEDIN_ENDPOINTS.CAMPAIGNS(adAccountId), { q: 'search' }),
+        this.fetchAllPages<LinkedInCreativeApiData>(accessToken, LINKEDIN_ENDPOINTS.CREATIVES(adAccountId), { q: 'criteria' }),
+        this.getAnalytics(accessToken, 'CREATIVE', 'accounts', [`${LINKEDIN_URNS.ACCOUNT}${adAccountId}`], dateRange, 'DAILY'),
+      ]);
+
+      const campaignGroups: Record<string, string> = {};
+      campaigns.forEach((c) => {
+        campaignGroups[String(c.id)] = this.idFromUrn(c.campaignGroup);
+      });
+      const creativeCampaigns: Record<string, string> = {};
+      creatives.forEach((cr) => {
+        creativeCampaigns[this.idFromUrn(cr.id)] = this.idFromUrn(cr.campaign);
+      });
+
+      const rows: DailyAdMetrics[] = [];
+      analytics.forEach((row) => {
+        const urn = row.pivotValues?.[0];
+        if (!urn || !row.dateRange) return;
+
+        const adId = this.idFromUrn(urn);
+        const adGroupId = creativeCampaigns[adId] || '';
+        rows.push({
+          date: this.fromRestliDate(row.dateRange.start),
+          campaignId: campaignGroups[adGroupId] || '',
+          adGroupId,
+          adId,
+          metrics: this.transformMetrics(row),
+        });
+      });
+
+      return { success: true, data: rows };
+    } catch (error: any) {
+      this.logger.error('Failed to get daily ad metrics', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+
+  private async getAnalyticsByPivot(
+    accessToken: string,
+    pivot: LinkedInAnalyticsPivot,
+    facet: string,
+    urns: string[],
+    dateRange: PlatformDateRange,
+  ): Promise<Record<string, PlatformMetrics>> {
+    const metricsMap: Record<string, PlatformMetrics> = {};
+
+    try {
+      const rows = await this.getAnalytics(accessToken, pivot, facet, urns, dateRange);
+      rows.forEach((row) => {
+        const urn = row.pivotValues?.[0];
+        if (urn) {
+          metricsMap[this.idFromUrn(urn)] = this.transformMetrics(row);
+        }
+      });
+    } catch (error: any) {
+      this.logger.warn(`Failed to get ${pivot} analytics: ${error.message}`);
+    }
+
+    return metricsMap;
+  }
+
+  private async getAnalytics(
+    accessToken: string,
+    pivot: LinkedInAnalyticsPivot,
+    facet: string,
+    urns: string[],
+    dateRange: PlatformDateRange,
+    timeGranularity: 'ALL' | 'DAILY' | 'MONTHLY' = 'ALL',
+  ): Promise<LinkedInAnalyticsApiData[]> {
+    const response = await this.makeApiCall<LinkedInPagedResponse<LinkedInAnalyticsApiData>>(
+      this.buildUrl(LINKEDIN_ENDPOINTS.AD_ANALYTICS, {
+        q: 'analytics',
+        pivot,
+        timeGranularity,
+        dateRange: this.restliDateRange(dateRange),
+        [facet]: this.restliList(urns),
+        fields: ANALYTICS_FIELDS,
+      }),
+      accessToken,
+    );
+
+    return response.elements || [];
+  }
+
+  // ==================== UTILITIES ====================
+
+  protected getRequestHeaders(accessToken: string): Record<string, string> {
+    return {
+      ...super.getRequestHeaders(accessToken),
+      'LinkedIn-Version': this.apiVersion,
+      'X-Restli-Protocol-Version': '2.0.0',
+    };
+  }
+
+  /**
+   * Accounts appear either in the path or, for analytics, as an encoded sponsoredAccount URN facet
+   */
+  protected getRateLimitKey(url: string): string {
+    return url.match(/(?:\/adAccounts\/|sponsoredAccount(?::|%3A))(\d+)/i)?.[1] || super.getRateLimitKey(url);
+  }
+
+  /**
+   * Rest.li 2.0 expects its (),: syntax unescaped in the query string, so values are
+   * passed through as-is and callers encode URNs themselves via restliList()
+   */
+  private buildUrl(path: string, query?: Record<string, string | undefined>): string {
+    const url = `${this.baseUrl}${path}`;
+    if (!query) {
+      return url;
+    }
+
+    const queryString = Object.entries(query)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => `${key}=${value}`)
+      .join('&');
+
+    return queryString ? `${url}?${queryString}` : url;
+  }
+
+  private async fetchAllPages<T>(
+    accessToken: string,
+    path: string,
+    query: Record<string, string>,
+  ): Promise<T[]> {
+    const results: T[] = [];
+    let pageToken: string | undefined;
+    let page = 0;
+
+    do {
+      const response = await this.makeApiCall<LinkedInPagedResponse<T>>(
+        this.buildUrl(path, {
+          ...query,
+          pageSize: '100',
+          pageToken: pageToken ? encodeURIComponent(pageToken) : undefined,
+        }),
+        accessToken,
+      );
+
+      results.push(...(response.elements || []));
+      pageToken = response.metadata?.nextPageToken;
+      page++;
+    } while (pageToken && page < this.maxPages);
+
+    if (pageToken) {
+      this.logger.warn(`Stopped paging ${path} after ${this.maxPages} pages`);
+    }
+
+    return results;
+  }
+
+  private restliList(values: string[]): string {
+    return `List(${values.map(v => encodeURIComponent(v)).join(',')})`;
+  }
+
+  private restliDateRange(dateRange: PlatformDateRange): string {
+    const toRestli = (date: string) => {
+      const [year, month, day] = date.split('-').map(Number);
+      return `(year:${year},month:${month},day:${day})`;
+    };
+
+    return `(start:${toRestli(dateRange.since)},end:${toRestli(dateRange.until)})`;
+  }
+
+  private fromRestliDate(date: { year: number; month: number; day: number }): string {
+    return `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+  }
+
+  private idFromUrn(urn: string | number): string {
+    const value = String(urn);
+    return value.substring(value.lastIndexOf(':') + 1);
+  }
+
+  private mapCampaignGroup(g: LinkedInCampaignGroupApiData): PlatformCampaign {
+    return {
+      id: String(g.id),
+      name: g.name,
+      status: g.status,
+      budget: g.totalBudget ? parseFloat(g.totalBudget.amount) : undefined,
+      budgetType: g.totalBudget ? 'lifetime' : undefined,
+      startTime: g.runSchedule?.start ? new Date(g.runSchedule.start) : undefined,
+      endTime: g.runSchedule?.end ? new Date(g.runSchedule.end) : undefined,
+    };
+  }
+
+  private mapCampaign(c: LinkedInCampaignApiData): PlatformAdGroup {
+    const budget = c.dailyBudget || c.totalBudget;
+
+    return {
+      id: String(c.id),
+      campaignId: this.idFromUrn(c.campaignGroup),
+      name: c.name,
+      status: c.status,
+      targeting: c.targetingCriteria,
+      budget: budget ? parseFloat(budget.amount) : undefined,
+      bidAmount: c.unitCost ? parseFloat(c.unitCost.amount) : undefined,
+    };
+  }
+
+  private mapCreative(cr: LinkedInCreativeApiData, campaignGroupId = ''): PlatformAd {
+    const id = this.idFromUrn(cr.id);
+    const content = cr.content || {};
+
+    let type: PlatformCreative['type'] = 'image';
+    if (content.textAd) {
+      type = 'text';
+    } else if (content.carousel) {
+      type = 'carousel';
+    } else if (content.media?.id?.includes(':video:')) {
+      type = 'video';
+    }
+
+    return {
+      id,
+      adGroupId: this.idFromUrn(cr.campaign),
+      campaignId: campaignGroupId,
+      name: cr.name || content.media?.title || content.textAd?.headline || `Creative ${id}`,
+      status: cr.intendedStatus,
+      creativeId: id,
+      creative: {
+        id,
+        type,
+        title: content.textAd?.headline || content.media?.title,
+        body: content.textAd?.description,
+        landingUrl: content.textAd?.landingPage,
+      },
+    };
+  }
+
+  private transformMetrics(raw?: LinkedInAnalyticsApiData): PlatformMetrics {
+    const impressions = raw?.impressions || 0;
+    const clicks = raw?.clicks || 0;
+    const spend = parseFloat(raw?.costInLocalCurrency || '0') || 0;
+    const conversions = raw?.externalWebsiteConversions || 0;
+    const revenue = parseFloat(raw?.conversionValueInLocalCurrency || '0') || 0;
+
+    return {
+      impressions,
+      clicks,
+      spend,
+      reach: raw?.approximateMemberReach,
+      cpc: this.calculateCPC(spend, clicks),
+      cpm: this.calculateCPM(spend, impressions),
+      ctr: this.calculateCTR(clicks, impressions),
+      conversions,
+      costPerConversion: conversions > 0 ? spend / conversions : 0,
+      roas: revenue > 0 ? this.calculateROAS(revenue, spend) : undefined,
+    };
+  }
+}
@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT } from './transports/mail-transport.interface';
+import { SmtpMailTransport, SmtpOptions } from './transports/smtp-mail.transport';
+import { FileMailTransport } from './transports/file-mail.transport';
+import { ConsoleMailTransport } from './transports/console-mail.transport';
+import { mailConfig } from '../config/mail.config';
+
+@Module({
+  imports: [ConfigModule.forFeature(mailConfig)],
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        const transport = configService.get<string>('mail.transport');
+        if (transport === 'smtp') {
+          return new SmtpMailTransport(configService.get<SmtpOptions>('mail.smtp')!);
+        }
+        if (transport === 'file') {
+          return new FileMailTransport(configService.get<string>('mail.fileDir') || 'tmp/mail');
+        }
+        if (transport && transport !== 'console') {
+          throw new Error(`Unsupported mail transport: ${transport}. Expected smtp, file or console`);
+        }
+        return new ConsoleMailTransport();
+      },
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,56 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { MailTransport } from './transports/mail-transport.interface';
+import { MAIL_TRANSPORT } from './transports/mail-transport.interface';
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+  ) {}
+
+  async send(to: string, subject: string, text: string, html?: string): Promise<void> {
+    const from = this.configService.get<string>('mail.from') || 'Intrend <no-reply@localhost>';
+
+    try {
+      await this.transport.send({ from, to, subject, text, html });
+      this.logger.log(`Sent "${subject}" to ${to}`);
+    } catch (error: any) {
+      this.logger.error(`Failed to send "${subject}" to ${to}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  // ==================== ACCOUNT EMAILS ====================
+
+  async sendPasswordReset(to: string, link: string, expiresInMinutes: number): Promise<void> {
+    await this.send(
+      to,
+      'Reset your password',
+      `We received a request to reset your password. Open this link to choose a new one:\n\n${link}\n\n`
+        + `The link works once and expires in ${expiresInMinutes} minutes. If you didn't ask for this, you can ignore this email.`,
+    );
+  }
+
+  async sendEmailVerification(to: string, link: string): Promise<void> {
+    await this.send(
+      to,
+      'Verify your email address',
+      `Confirm this is your email address by opening this link:\n\n${link}\n\nIf you didn't create an account, you can ignore this email.`,
+    );
+  }
+
+  // ==================== ORGANIZATION EMAILS ====================
+
+  async sendOrganizationInvitation(to: string, organizationName: string, inviterName: string, link: string, expiresInDays: number): Promise<void> {
+    await this.send(
+      to,
+      `Join ${organizationName} on Intrend`,
+      `${inviterName} invited you to join ${organizationName} on Intrend. Open this link to accept:\n\n${link}\n\n`
+        + `Sign in or create an account with this email address first. The invitation expires in ${expiresInDays} days.`,
+    );
+  }
+}
@@ -0,0 +1,11 @@
+import { Logger } from '@nestjs/common';
+import { MailMessage, MailTransport } from './mail-transport.interface';
+
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger('Mail');
+
+  send(message: MailMessage): Promise<void> {
+    this.logger.log(`To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+    return Promise.resolve();
+  }
+}
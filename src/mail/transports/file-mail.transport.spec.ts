@@ -0,0 +1,31 @@
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileMailTransport } from './file-mail.transport';
+
+const message = (subject: string) => ({ from: 'no-reply@localhost', to: 'user@example.com', subject, text: `Body of ${subject}` });
+
+describe('FileMailTransport', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'mail-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should write each message to its own file, creating the directory', async () => {
+    const transport = new FileMailTransport(join(dir, 'outbox'));
+    await transport.send(message('First'));
+    await transport.send(message('Second'));
+
+    const files = await readdir(join(dir, 'outbox'));
+    expect(files).toHaveLength(2);
+
+    const sent = await Promise.all(files.map(async file => JSON.parse(await readFile(join(dir, 'outbox', file), 'utf8'))));
+    expect(sent.map(mail => mail.subject).sort()).toEqual(['First', 'Second']);
+    expect(sent[0]).toMatchObject({ to: 'user@example.com', from: 'no-reply@localhost' });
+  });
+});
@@ -0,0 +1,20 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { randomBytes } from 'crypto';
+import { MailMessage, MailTransport } from './mail-transport.interface';
+
+/**
+ * Writes each message to its own JSON file instead of sending it, so development and tests can read
+ * the links it contains
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+
+    // Timestamp first so a directory listing is in send order
+    const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomBytes(4).toString('hex')}.json`;
+    await writeFile(join(this.dir, name), JSON.stringify({ ...message, sentAt: new Date() }, null, 2));
+  }
+}
@@ -0,0 +1,16 @@
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivery behind MailService
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
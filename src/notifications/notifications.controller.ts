@@ -0,0 +1,27 @@
+import { Controller, Get, Post, Param, Query, UseGuards, BadRequestException } from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@Controller('notifications')
+@UseGuards(JwtAuthGuard)
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  @Get()
+  async getNotifications(@CurrentUser() user: any, @Query('unread') unread?: string) {
+    const notifications = await this.notificationsService.getNotifications(user.id, unread === 'true');
+    return { success: true, data: notifications };
+  }
+
+  @Post(':id/read')
+  async markRead(@CurrentUser() user: any, @Param('id') id: string) {
+    const notificationId = parseInt(id, 10);
+    if (isNaN(notificationId)) {
+      throw new BadRequestException('Invalid notification id');
+    }
+
+    const notification = await this.notificationsService.markRead(user.id, notificationId);
+    return { success: true, data: notification };
+  }
+}
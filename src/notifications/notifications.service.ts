@@ -0,0 +1,42 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull } from 'typeorm';
+import { Notification, NotificationType } from './entities/notification.entity';
+
+@Injectable()
+export class NotificationsService {
+  private readonly logger = new Logger(NotificationsService.name);
+
+  constructor(
+    @InjectRepository(Notification)
+    private readonly notificationRepository: Repository<Notification>,
+  ) {}
+
+  async notify(userId: number, type: NotificationType, title: string, message: string, data?: Record<string, any>): Promise<Notification> {
+    const notification = this.notificationRepository.create({ userId, type, title, message, data: data || null });
+    const saved = await this.notificationRepository.save(notification);
+    this.logger.log(`Notified user ${userId}: ${type}`);
+    return saved;
+  }
+
+  async getNotifications(userId: number, unreadOnly = false): Promise<Notification[]> {
+    return this.notificationRepository.find({
+      where: unreadOnly ? { userId, readAt: IsNull() } : { userId },
+      order: { createdAt: 'DESC' },
+      take: 100,
+    });
+  }
+
+  async markRead(userId: number, id: number): Promise<Notification> {
+    const notification = await this.notificationRepository.findOne({ where: { id, userId } });
+    if (!notification) {
+      throw new NotFoundException('Notification not found');
+    }
+
+    if (!notification.readAt) {
+      notification.readAt = new Date();
+      await this.notificationRepository.save(notification);
+    }
+    return notification;
+  }
+}
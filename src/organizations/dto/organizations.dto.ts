@@ -0,0 +1,28 @@
+import { IsEmail, IsIn, IsString, MaxLength, MinLength } from 'class-validator';
+import { ORGANIZATION_ROLES } from '../organization-roles.util';
+import type { OrganizationRole } from '../organization-roles.util';
+
+export class OrganizationNameDto {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(255)
+  name: string;
+}
+
+export class UpdateMemberRoleDto {
+  @IsIn(ORGANIZATION_ROLES)
+  role: OrganizationRole;
+}
+
+export class InviteMemberDto {
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  email: string;
+
+  @IsIn(ORGANIZATION_ROLES)
+  role: OrganizationRole;
+}
+
+export class AcceptInvitationDto {
+  @IsString()
+  token: string;
+}
@@ -0,0 +1,47 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { Organization } from './organization.entity';
+import type { OrganizationRole } from '../organization-roles.util';
+
+/**
+ * An emailed invitation to join an organization. The link carries a single-use token that only the invited
+ * address can accept.
+ */
+@Entity('organization_invitations')
+@Index(['organizationId', 'acceptedAt', 'revokedAt'])
+export class OrganizationInvitation {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'organization_id' })
+  organizationId: number;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization: Organization;
+
+  @Column({ length: 255 })
+  email: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  role: OrganizationRole;
+
+  // SHA-256 of the token; the token itself only exists in the email
+  @Index({ unique: true })
+  @Column({ name: 'token_hash', length: 64 })
+  tokenHash: string;
+
+  @Column({ name: 'invited_by_id' })
+  invitedById: number;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ name: 'accepted_at', type: 'timestamp', nullable: true })
+  acceptedAt: Date | null;
+
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,32 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
+import { Organization } from './organization.entity';
+import { User } from '../../users/entities/user.entity';
+import type { OrganizationRole } from '../organization-roles.util';
+
+@Entity('organization_members')
+@Index(['organizationId', 'userId'], { unique: true })
+export class OrganizationMember {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'organization_id' })
+  organizationId: number;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organization_id' })
+  organization: Organization;
+
+  @Index()
+  @Column({ name: 'user_id' })
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 20 })
+  role: OrganizationRole;
+
+  @CreateDateColumn({ name: 'joined_at' })
+  joinedAt: Date;
+}
@@ -0,0 +1,33 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+
+/**
+ * A team workspace. Connected ad accounts, subscriptions and their seats, generated creatives and shareable links belong
+ * to an organization, so every member works on the same ones; platform logins stay with the member who made them.
+ */
+@Entity('organizations')
+// One personal workspace per user, even when two first requests race to create it
+@Index(['createdById'], { unique: true, where: '"personal" = true' })
+export class Organization {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ length: 255 })
+  name: string;
+
+  // Created automatically as the user's own workspace
+  @Column({ default: false })
+  personal: boolean;
+
+  @Column({ name: 'created_by_id' })
+  createdById: number;
+
+  // Members must have two-factor authentication on to sign in
+  @Column({ name: 'require_two_factor', default: false })
+  requireTwoFactor: boolean;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,49 @@
+import { OrganizationRole, canAssignRole, canManageMember, getPermissions, hasPermission, hasTeamCapacity } from './organization-roles.util';
+
+describe('organization roles', () => {
+  it('should give each role its permissions', () => {
+    expect(hasPermission('owner', 'billing.manage')).toBe(true);
+    expect(hasPermission('admin', 'members.manage')).toBe(true);
+    expect(hasPermission('admin', 'billing.manage')).toBe(false);
+    expect(hasPermission('analyst', 'creatives.edit')).toBe(true);
+    expect(hasPermission('analyst', 'seats.manage')).toBe(false);
+    expect(hasPermission('viewer', 'creatives.edit')).toBe(false);
+    expect(hasPermission('viewer', 'members.read')).toBe(true);
+    expect(hasPermission('billing', 'billing.manage')).toBe(true);
+    expect(hasPermission('billing', 'creatives.edit')).toBe(false);
+  });
+
+  it('should give an unknown role no permissions', () => {
+    const legacy = 'member' as string as OrganizationRole;
+
+    expect(hasPermission(legacy, 'members.read')).toBe(false);
+    expect(getPermissions(legacy)).toEqual([]);
+    expect(canAssignRole(legacy, 'viewer')).toBe(false);
+    expect(canManageMember(legacy, 'viewer')).toBe(false);
+    expect(canManageMember('admin', legacy)).toBe(false);
+  });
+
+  it('should only let owners and admins grant roles up to their own', () => {
+    expect(canAssignRole('owner', 'owner')).toBe(true);
+    expect(canAssignRole('admin', 'admin')).toBe(true);
+    expect(canAssignRole('admin', 'billing')).toBe(true);
+    expect(canAssignRole('admin', 'owner')).toBe(false);
+    expect(canAssignRole('analyst', 'viewer')).toBe(false);
+    expect(canAssignRole('billing', 'viewer')).toBe(false);
+  });
+
+  it('should let owners manage everyone and admins only the roles below them', () => {
+    expect(canManageMember('owner', 'owner')).toBe(true);
+    expect(canManageMember('admin', 'analyst')).toBe(true);
+    expect(canManageMember('admin', 'viewer')).toBe(true);
+    expect(canManageMember('admin', 'admin')).toBe(false);
+    expect(canManageMember('analyst', 'viewer')).toBe(false);
+  });
+
+  it('should count open invitations against the team size', () => {
+    expect(hasTeamCapacity(5, 3, 1)).toBe(true);
+    expect(hasTeamCapacity(5, 3, 2)).toBe(false);
+    expect(hasTeamCapacity(1, 1, 0)).toBe(false);
+    expect(hasTeamCapacity(-1, 100, 20)).toBe(true);
+  });
+});
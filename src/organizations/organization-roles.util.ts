@@ -0,0 +1,60 @@
+export const ORGANIZATION_ROLES = ['owner', 'admin', 'analyst', 'viewer', 'billing'] as const;
+
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+
+export const PERMISSIONS = [
+  'organization.manage', // rename the organization and set its security policy
+  'members.read',
+  'members.manage', // invite, change roles, remove, and edit teammates' profiles
+  'billing.read', // subscriptions, invoices and payment methods
+  'billing.manage', // checkout, plan changes, cancellation and payment methods
+  'seats.manage', // add and remove the ad accounts a subscription pays for
+  'creatives.edit', // save, change and delete generated creatives
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+const ROLE_PERMISSIONS: Record<OrganizationRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  admin: ['organization.manage', 'members.read', 'members.manage', 'billing.read', 'seats.manage', 'creatives.edit'],
+  analyst: ['members.read', 'creatives.edit'],
+  viewer: ['members.read'],
+  billing: ['members.read', 'billing.read', 'billing.manage', 'seats.manage'],
+};
+
+// Owners outrank admins, who outrank everyone else
+const ROLE_RANK: Record<OrganizationRole, number> = { owner: 3, admin: 2, analyst: 1, viewer: 1, billing: 1 };
+
+/**
+ * Whether a role grants a permission. A role this version doesn't know, such as one saved by an older one,
+ * grants nothing.
+ */
+export function hasPermission(role: OrganizationRole, permission: Permission): boolean {
+  return Object.hasOwn(ROLE_PERMISSIONS, role) && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function getPermissions(role: OrganizationRole): Permission[] {
+  return Object.hasOwn(ROLE_PERMISSIONS, role) ? [...ROLE_PERMISSIONS[role]] : [];
+}
+
+/**
+ * Whether a member can invite someone with, or give someone, a role: nobody can grant more than they have
+ */
+export function canAssignRole(actorRole: OrganizationRole, role: OrganizationRole): boolean {
+  return hasPermission(actorRole, 'members.manage') && ROLE_RANK[role] <= ROLE_RANK[actorRole];
+}
+
+/**
+ * Whether a member can change the role of, remove, or edit another member. Owners manage everyone (including
+ * other owners); admins only manage members below them.
+ */
+export function canManageMember(actorRole: OrganizationRole, targetRole: OrganizationRole): boolean {
+  return hasPermission(actorRole, 'members.manage') && (actorRole === 'owner' || ROLE_RANK[targetRole] < ROLE_RANK[actorRole]);
+}
+
+/**
+ * Members and open invitations count against the plan's team size; -1 is unlimited
+ */
+export function hasTeamCapacity(maxTeamMembers: number, members: number, pendingInvitations: number): boolean {
+  return maxTeamMembers < 0 || members + pendingInvitations < maxTeamMembers;
+}
@@ -0,0 +1,107 @@
+import { Controller, Get, Post, Patch, Delete, Param, Body, UseGuards, HttpCode, BadRequestException } from '@nestjs/common';
+import { OrganizationsService } from './organizations.service';
+import { OrganizationNameDto, UpdateMemberRoleDto, InviteMemberDto, AcceptInvitationDto } from './dto/organizations.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@Controller('organizations')
+@UseGuards(JwtAuthGuard)
+export class OrganizationsController {
+  constructor(private readonly organizationsService: OrganizationsService) {}
+
+  /**
+   * The organizations the user belongs to, with their role and which one is current
+   */
+  @Get()
+  async getOrganizations(@CurrentUser() user: any) {
+    return { success: true, organizations: await this.organizationsService.getOrganizations(user.id) };
+  }
+
+  @Post()
+  async createOrganization(@CurrentUser() user: any, @Body() body: OrganizationNameDto) {
+    return { success: true, organization: await this.organizationsService.createOrganization(user.id, body.name) };
+  }
+
+  /**
+   * Join an organization with the token from an invitation email
+   */
+  @Post('invitations/accept')
+  @HttpCode(200)
+  async acceptInvitation(@CurrentUser() user: any, @Body() body: AcceptInvitationDto) {
+    return { success: true, organization: await this.organizationsService.acceptInvitation(user.id, body.token) };
+  }
+
+  @Get(':id')
+  async getOrganization(@CurrentUser() user: any, @Param('id') id: string) {
+    const { organization, role } = await this.organizationsService.getMembership(user.id, this.parseId(id));
+    return { success: true, organization, role };
+  }
+
+  @Patch(':id')
+  async renameOrganization(@CurrentUser() user: any, @Param('id') id: string, @Body() body: OrganizationNameDto) {
+    return { success: true, organization: await this.organizationsService.renameOrganization(user.id, this.parseId(id), body.name) };
+  }
+
+  /**
+   * Make the organization current: accounts, seats, creatives and links are read from and saved to it
+   */
+  @Post(':id/switch')
+  @HttpCode(200)
+  async switchOrganization(@CurrentUser() user: any, @Param('id') id: string) {
+    await this.organizationsService.switchOrganization(user.id, this.parseId(id));
+    return { success: true };
+  }
+
+  // ==================== MEMBERS ====================
+
+  @Get(':id/members')
+  async getMembers(@CurrentUser() user: any, @Param('id') id: string) {
+    return { success: true, members: await this.organizationsService.getMembers(user.id, this.parseId(id)) };
+  }
+
+  @Patch(':id/members/:userId')
+  async updateMemberRole(
+    @CurrentUser() user: any,
+    @Param('id') id: string,
+    @Param('userId') memberUserId: string,
+    @Body() body: UpdateMemberRoleDto,
+  ) {
+    await this.organizationsService.updateMemberRole(user.id, this.parseId(id), this.parseId(memberUserId), body.role);
+    return { success: true };
+  }
+
+  /**
+   * Remove a member; members can remove themselves to leave
+   */
+  @Delete(':id/members/:userId')
+  async removeMember(@CurrentUser() user: any, @Param('id') id: string, @Param('userId') memberUserId: string) {
+    await this.organizationsService.removeMember(user.id, this.parseId(id), this.parseId(memberUserId));
+    return { success: true };
+  }
+
+  // ==================== INVITATIONS ====================
+
+  @Get(':id/invitations')
+  async getInvitations(@CurrentUser() user: any, @Param('id') id: string) {
+    return { success: true, invitations: await this.organizationsService.getInvitations(user.id, this.parseId(id)) };
+  }
+
+  @Post(':id/invitations')
+  async invite(@CurrentUser() user: any, @Param('id') id: string, @Body() body: InviteMemberDto) {
+    return { success: true, invitation: await this.organizationsService.invite(user.id, this.parseId(id), body.email, body.role) };
+  }
+
+  @Delete(':id/invitations/:invitationId')
+  async revokeInvitation(@CurrentUser() user: any, @Param('id') id: string, @Param('invitationId') invitationId: string) {
+    await this.organizationsService.revokeInvitation(user.id, this.parseId(id), this.parseId(invitationId));
+    return { success: true };
+  }
+
+  private parseId(value: string): number {
+    const id = parseInt(value, 10);
+    if (isNaN(id)) {
+      throw new BadRequestException('Invalid id');
+    }
+    return id;
+  }
+}
@@ -0,0 +1,23 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OrganizationsService } from './organizations.service';
+import { OrganizationsController } from './organizations.controller';
+import { Organization } from './entities/organization.entity';
+import { OrganizationMember } from './entities/organization-member.entity';
+import { OrganizationInvitation } from './entities/organization-invitation.entity';
+import { OrganizationSubscription } from '../subscriptions/entities/organization-subscription.entity';
+import { ConnectedAccount } from '../accounts/entities/connected-account.entity';
+import { UsersModule } from '../users/users.module';
+import { MailModule } from '../mail/mail.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Organization, OrganizationMember, OrganizationInvitation, OrganizationSubscription, ConnectedAccount]),
+    forwardRef(() => UsersModule),
+    MailModule,
+  ],
+  controllers: [OrganizationsController],
+  providers: [OrganizationsService],
+  exports: [OrganizationsService],
+})
+export class OrganizationsModule {}
@@ -0,0 +1,137 @@
+import { Test } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { IsNull, MoreThan } from 'typeorm';
+import { OrganizationsService } from './organizations.service';
+import { Organization } from './entities/organization.entity';
+import { OrganizationMember } from './entities/organization-member.entity';
+import { OrganizationInvitation } from './entities/organization-invitation.entity';
+import { OrganizationSubscription } from '../subscriptions/entities/organization-subscription.entity';
+import { ConnectedAccount } from '../accounts/entities/connected-account.entity';
+import { UsersService } from '../users/users.service';
+import { MailService } from '../mail/mail.service';
+
+const organization = { id: 3, name: 'Acme' } as Organization;
+
+const invitation = (overrides: Partial<OrganizationInvitation> = {}) => ({
+  id: 11,
+  organizationId: 3,
+  organization,
+  email: 'new@example.com',
+  role: 'analyst',
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  acceptedAt: null,
+  revokedAt: null,
+  ...overrides,
+}) as OrganizationInvitation;
+
+describe('OrganizationsService', () => {
+  let service: OrganizationsService;
+  let usersService: { findOne: jest.Mock; findByEmail: jest.Mock; markEmailVerified: jest.Mock; update: jest.Mock };
+  let mailService: { sendOrganizationInvitation: jest.Mock };
+  let memberRepository: { findOne: jest.Mock; exists: jest.Mock; countBy: jest.Mock; create: jest.Mock; save: jest.Mock };
+  let invitationRepository: { findOne: jest.Mock; countBy: jest.Mock; update: jest.Mock; create: jest.Mock; save: jest.Mock };
+  let subscriptionRepository: { findOne: jest.Mock };
+
+  beforeEach(async () => {
+    usersService = {
+      findOne: jest.fn().mockResolvedValue({ id: 5, email: 'New@Example.com', firstName: 'Ada' }),
+      findByEmail: jest.fn().mockResolvedValue(null),
+      markEmailVerified: jest.fn(),
+      update: jest.fn(),
+    };
+    mailService = { sendOrganizationInvitation: jest.fn() };
+    memberRepository = {
+      findOne: jest.fn().mockResolvedValue({ userId: 1, organizationId: 3, role: 'owner', organization }),
+      exists: jest.fn().mockResolvedValue(false),
+      countBy: jest.fn().mockResolvedValue(1),
+      create: jest.fn(values => values),
+      save: jest.fn(values => Promise.resolve(values)),
+    };
+    invitationRepository = {
+      findOne: jest.fn().mockResolvedValue(invitation()),
+      countBy: jest.fn().mockResolvedValue(0),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      create: jest.fn(values => values),
+      save: jest.fn(values => Promise.resolve({ ...values, id: 12 })),
+    };
+    subscriptionRepository = { findOne: jest.fn().mockResolvedValue(null) };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        OrganizationsService,
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: UsersService, useValue: usersService },
+        { provide: MailService, useValue: mailService },
+        { provide: getRepositoryToken(Organization), useValue: {} },
+        { provide: getRepositoryToken(OrganizationMember), useValue: memberRepository },
+        { provide: getRepositoryToken(OrganizationInvitation), useValue: invitationRepository },
+        { provide: getRepositoryToken(OrganizationSubscription), useValue: subscriptionRepository },
+        { provide: getRepositoryToken(ConnectedAccount), useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(OrganizationsService);
+  });
+
+  describe('acceptInvitation', () => {
+    it('should only look up invitations that are still open', async () => {
+      invitationRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.acceptInvitation(5, 'token')).rejects.toThrow(BadRequestException);
+
+      const { where } = invitationRepository.findOne.mock.calls[0][0];
+      expect(where).toMatchObject({ acceptedAt: IsNull(), revokedAt: IsNull() });
+      expect(where.expiresAt).toEqual(MoreThan(expect.any(Date)));
+      expect(memberRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an invitation that was accepted in the meantime', async () => {
+      invitationRepository.update.mockResolvedValue({ affected: 0 });
+
+      await expect(service.acceptInvitation(5, 'token')).rejects.toThrow('Invalid or expired invitation');
+
+      expect(invitationRepository.update).toHaveBeenCalledWith({ id: 11, acceptedAt: IsNull() }, { acceptedAt: expect.any(Date) });
+      expect(memberRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an invitation sent to a different address', async () => {
+      usersService.findOne.mockResolvedValue({ id: 5, email: 'someone@example.com' });
+
+      await expect(service.acceptInvitation(5, 'token')).rejects.toThrow(ForbiddenException);
+
+      expect(invitationRepository.update).not.toHaveBeenCalled();
+      expect(memberRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should add the member with the invited role and switch to the organization', async () => {
+      await expect(service.acceptInvitation(5, 'token')).resolves.toBe(organization);
+
+      expect(memberRepository.save).toHaveBeenCalledWith({ organizationId: 3, userId: 5, role: 'analyst' });
+      expect(usersService.update).toHaveBeenCalledWith(5, { currentOrganizationId: 3 });
+    });
+  });
+
+  describe('invite', () => {
+    it('should refuse an invitation beyond the team size of the plan', async () => {
+      // No subscription is the starter plan, which has room for its one member only
+      await expect(service.invite(1, 3, 'new@example.com', 'analyst')).rejects.toThrow('Your plan allows 1 team member');
+
+      expect(invitationRepository.save).not.toHaveBeenCalled();
+      expect(mailService.sendOrganizationInvitation).not.toHaveBeenCalled();
+    });
+
+    it('should count open invitations towards the team size', async () => {
+      subscriptionRepository.findOne.mockResolvedValue({ planId: 'professional' });
+      memberRepository.countBy.mockResolvedValue(3);
+      invitationRepository.countBy.mockResolvedValue(2);
+
+      await expect(service.invite(1, 3, 'new@example.com', 'analyst')).rejects.toThrow('Your plan allows 5 team members');
+
+      invitationRepository.countBy.mockResolvedValue(1);
+      await expect(service.invite(1, 3, 'New@Example.com', 'analyst')).resolves.toMatchObject({ id: 12, email: 'new@example.com', role: 'analyst' });
+      expect(mailService.sendOrganizationInvitation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,480 @@
+import { Injectable, Logger, BadRequestException, ConflictException, ForbiddenException, NotFoundException, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, IsNull, MoreThan, In, Not, EntityTarget, ObjectLiteral } from 'typeorm';
+import { randomBytes, createHash } from 'crypto';
+import { Organization } from './entities/organization.entity';
+import { OrganizationMember } from './entities/organization-member.entity';
+import { OrganizationInvitation } from './entities/organization-invitation.entity';
+import { OrganizationRole, Permission, hasPermission, getPermissions, canAssignRole, canManageMember, hasTeamCapacity } from './organization-roles.util';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/entities/user.entity';
+import { MailService } from '../mail/mail.service';
+import { OrganizationSubscription } from '../subscriptions/entities/organization-subscription.entity';
+import { PlatformSubscription } from '../subscriptions/entities/platform-subscription.entity';
+import { PlatformSeat } from '../subscriptions/entities/platform-seat.entity';
+import { Invoice } from '../subscriptions/entities/invoice.entity';
+import { PaymentMethod } from '../subscriptions/entities/payment-method.entity';
+import { ConnectedAccount } from '../accounts/entities/connected-account.entity';
+import { ShareableLink } from '../shareable-links/entities/shareable-link.entity';
+import { AiGeneratedCreative } from '../ai/entities/ai-generated-creative.entity';
+import { getPlanLimits } from '../config/stripe.config';
+
+export interface UserOrganization {
+  id: number;
+  name: string;
+  personal: boolean;
+  role: OrganizationRole;
+  permissions: Permission[];
+  requireTwoFactor: boolean;
+  current: boolean;
+}
+
+export interface OrganizationMemberView {
+  userId: number;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  role: OrganizationRole;
+  joinedAt: Date;
+}
+
+export interface OrganizationInvitationView {
+  id: number;
+  email: string;
+  role: OrganizationRole;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const INVITATION_TTL_DAYS = 7;
+
+const ACTIVE_SUBSCRIPTION_STATUSES = ['active', 'trialing', 'past_due'];
+
+// The role every non-admin had before roles carried permissions
+const LEGACY_MEMBER_ROLE = 'member';
+
+// Postgres error code for a row rejected by a unique index
+const UNIQUE_VIOLATION = '23505';
+
+// Tables whose rows were keyed only by user before organizations existed
+const ORGANIZATION_OWNED_ENTITIES: EntityTarget<ObjectLiteral>[] = [ConnectedAccount, OrganizationSubscription, PlatformSubscription, PlatformSeat, Invoice, PaymentMethod, ShareableLink, AiGeneratedCreative];
+
+/**
+ * Organizations, their members and invitations. Every user has at least one organization: a personal
+ * workspace is created the first time one is needed.
+ */
+@Injectable()
+export class OrganizationsService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(OrganizationsService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly usersService: UsersService,
+    private readonly mailService: MailService,
+    @InjectRepository(Organization)
+    private readonly organizationRepository: Repository<Organization>,
+    @InjectRepository(OrganizationMember)
+    private readonly memberRepository: Repository<OrganizationMember>,
+    @InjectRepository(OrganizationInvitation)
+    private readonly invitationRepository: Repository<OrganizationInvitation>,
+    @InjectRepository(OrganizationSubscription)
+    private readonly subscriptionRepository: Repository<OrganizationSubscription>,
+    @InjectRepository(ConnectedAccount)
+    private readonly connectedAccountRepository: Repository<ConnectedAccount>,
+  ) {}
+
+  /**
+   * Rows saved before organizations existed move into their user's personal workspace, and roles saved before
+   * the current set of roles are renamed
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    await this.renameLegacyRoles();
+
+    for (const entity of ORGANIZATION_OWNED_ENTITIES) {
+      const repository = this.organizationRepository.manager.getRepository(entity);
+      try {
+        const rows: { userId: number }[] = await repository.createQueryBuilder('row')
+          .select('DISTINCT row.user_id', 'userId')
+          .where('row.organization_id IS NULL')
+          .getRawMany();
+
+        for (const { userId } of rows) {
+          const organizationId = await this.getCurrentOrganizationId(userId);
+          await repository.update({ userId, organizationId: IsNull() }, { organizationId });
+        }
+        if (rows.length) {
+          this.logger.log(`Moved ${repository.metadata.tableName} rows of ${rows.length} users into their workspaces`);
+        }
+      } catch (error: any) {
+        this.logger.error(`Could not assign ${repository.metadata.tableName} rows to organizations: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * 'member' was split into analyst, viewer and billing; analyst keeps what members could do
+   */
+  private async renameLegacyRoles(): Promise<void> {
+    for (const entity of [OrganizationMember, OrganizationInvitation]) {
+      const repository = this.organizationRepository.manager.getRepository(entity);
+      try {
+        const result = await repository.createQueryBuilder().update().set({ role: 'analyst' }).where('role = :role', { role: LEGACY_MEMBER_ROLE }).execute();
+        if (result.affected) {
+          this.logger.log(`Renamed ${result.affected} ${repository.metadata.tableName} roles from ${LEGACY_MEMBER_ROLE} to analyst`);
+        }
+      } catch (error: any) {
+        this.logger.error(`Could not rename legacy roles in ${repository.metadata.tableName}: ${error.message}`);
+      }
+    }
+  }
+
+  // ==================== CURRENT ORGANIZATION ====================
+
+  /**
+   * The organization the user is working in, creating their personal workspace if they have none
+   */
+  async getCurrentOrganizationId(userId: number): Promise<number> {
+    const user = await this.findUser(userId);
+    if (user.currentOrganizationId && await this.memberRepository.exists({ where: { userId, organizationId: user.currentOrganizationId } })) {
+      return user.currentOrganizationId;
+    }
+
+    const membership = await this.memberRepository.findOne({ where: { userId }, order: { joinedAt: 'ASC' } });
+    const organizationId = membership ? membership.organizationId : (await this.createPersonalOrganization(user)).id;
+
+    await this.usersService.update(userId, { currentOrganizationId: organizationId });
+    return organizationId;
+  }
+
+  /**
+   * Every organization the user belongs to, the current one first
+   */
+  async getOrganizationIds(userId: number): Promise<number[]> {
+    const currentId = await this.getCurrentOrganizationId(userId);
+    const memberships = await this.memberRepository.find({ where: { userId }, order: { joinedAt: 'ASC' } });
+    return [currentId, ...memberships.map(membership => membership.organizationId).filter(id => id !== currentId)];
+  }
+
+  async switchOrganization(userId: number, organizationId: number): Promise<void> {
+    await this.getMembership(userId, organizationId);
+    await this.usersService.update(userId, { currentOrganizationId: organizationId });
+  }
+
+  // ==================== ORGANIZATIONS ====================
+
+  async getOrganizations(userId: number): Promise<UserOrganization[]> {
+    const currentId = await this.getCurrentOrganizationId(userId);
+    const memberships = await this.memberRepository.find({
+      where: { userId },
+      relations: ['organization'],
+      order: { joinedAt: 'ASC' },
+    });
+
+    return memberships.map(({ organization, role }) => ({
+      id: organization.id,
+      name: organization.name,
+      personal: organization.personal,
+      role,
+      permissions: getPermissions(role),
+      requireTwoFactor: organization.requireTwoFactor,
+      current: organization.id === currentId,
+    }));
+  }
+
+  /**
+   * Start a new organization owned by the user, and switch to it
+   */
+  async createOrganization(userId: number, name: string): Promise<Organization> {
+    const organization = await this.organizationRepository.manager.transaction(async (manager) => {
+      const created = await manager.save(manager.create(Organization, { name, createdById: userId }));
+      await manager.save(manager.create(OrganizationMember, { organizationId: created.id, userId, role: 'owner' }));
+      return created;
+    });
+
+    await this.usersService.update(userId, { currentOrganizationId: organization.id });
+    this.logger.log(`User ${userId} created organization ${organization.id}`);
+    return organization;
+  }
+
+  async renameOrganization(userId: number, organizationId: number, name: string): Promise<Organization> {
+    await this.assertPermission(userId, organizationId, 'organization.manage');
+    await this.organizationRepository.update(organizationId, { name });
+    return this.organizationRepository.findOneByOrFail({ id: organizationId });
+  }
+
+  /**
+   * The user's membership of an organization. Organizations they don't belong to are reported as missing.
+   */
+  async getMembership(userId: number, organizationId: number): Promise<OrganizationMember> {
+    const membership = await this.memberRepository.findOne({ where: { userId, organizationId }, relations: ['organization'] });
+    if (!membership) {
+      throw new NotFoundException('Organization not found');
+    }
+    return membership;
+  }
+
+  async assertPermission(userId: number, organizationId: number, permission: Permission): Promise<OrganizationMember> {
+    const membership = await this.getMembership(userId, organizationId);
+    if (!hasPermission(membership.role, permission)) {
+      throw new ForbiddenException(`Your role (${membership.role}) does not allow ${permission}`);
+    }
+    return membership;
+  }
+
+  /**
+   * The user's role in their current organization, which route permissions are checked against
+   */
+  async getCurrentRole(userId: number): Promise<OrganizationRole> {
+    const organizationId = await this.getCurrentOrganizationId(userId);
+    return (await this.getMembership(userId, organizationId)).role;
+  }
+
+  /**
+   * Check a user is a member of the actor's current organization and, to manage them, that the actor's role allows it
+   */
+  async assertTeammate(actorId: number, memberUserId: number, manage = false): Promise<void> {
+    const organizationId = await this.getCurrentOrganizationId(actorId);
+    const actor = await this.getMembership(actorId, organizationId);
+    const member = await this.findMember(organizationId, memberUserId);
+
+    if (manage && actorId !== memberUserId && !canManageMember(actor.role, member.role)) {
+      throw new ForbiddenException('You cannot manage this member');
+    }
+  }
+
+  /**
+   * Whether an organization the user belongs to requires two-factor authentication
+   */
+  async requiresTwoFactor(userId: number): Promise<boolean> {
+    return this.memberRepository.exists({ where: { userId, organization: { requireTwoFactor: true } } });
+  }
+
+  async setTwoFactorPolicy(userId: number, organizationId: number, required: boolean): Promise<void> {
+    await this.assertPermission(userId, organizationId, 'organization.manage');
+    await this.organizationRepository.update(organizationId, { requireTwoFactor: required });
+    this.logger.log(`Organization ${organizationId} ${required ? 'now requires' : 'no longer requires'} two-factor authentication`);
+  }
+
+  // ==================== MEMBERS ====================
+
+  async getMembers(userId: number, organizationId: number): Promise<OrganizationMemberView[]> {
+    await this.assertPermission(userId, organizationId, 'members.read');
+
+    const members = await this.memberRepository.find({ where: { organizationId }, relations: ['user'], order: { joinedAt: 'ASC' } });
+    return members.map(member => ({
+      userId: member.userId,
+      email: member.user.email,
+      firstName: member.user.firstName || null,
+      lastName: member.user.lastName || null,
+      role: member.role,
+      joinedAt: member.joinedAt,
+    }));
+  }
+
+  async updateMemberRole(actorId: number, organizationId: number, memberUserId: number, role: OrganizationRole): Promise<void> {
+    const actor = await this.getMembership(actorId, organizationId);
+    const member = await this.findMember(organizationId, memberUserId);
+
+    if (!canManageMember(actor.role, member.role) || !canAssignRole(actor.role, role)) {
+      throw new ForbiddenException('You cannot give this member that role');
+    }
+    if (member.role === 'owner' && role !== 'owner') {
+      await this.assertAnotherOwner(organizationId, memberUserId);
+    }
+
+    await this.memberRepository.update(member.id, { role });
+  }
+
+  /**
+   * Remove a member, or leave when removing yourself. The accounts they connected stop being used, since
+   * they were reached through their own platform logins.
+   */
+  async removeMember(actorId: number, organizationId: number, memberUserId: number): Promise<void> {
+    const actor = await this.getMembership(actorId, organizationId);
+    const member = actorId === memberUserId ? actor : await this.findMember(organizationId, memberUserId);
+
+    if (actorId !== memberUserId && !canManageMember(actor.role, member.role)) {
+      throw new ForbiddenException('You cannot remove this member');
+    }
+    if (member.role === 'owner') {
+      await this.assertAnotherOwner(organizationId, memberUserId);
+    }
+
+    await this.memberRepository.delete(member.id);
+    await this.connectedAccountRepository.delete({ organizationId, userId: memberUserId });
+
+    const user = await this.usersService.findOne(memberUserId);
+    if (user?.currentOrganizationId === organizationId) {
+      await this.usersService.update(memberUserId, { currentOrganizationId: null });
+    }
+    this.logger.log(`User ${memberUserId} left organization ${organizationId}`);
+  }
+
+  // ==================== INVITATIONS ====================
+
+  async getInvitations(userId: number, organizationId: number): Promise<OrganizationInvitationView[]> {
+    await this.assertPermission(userId, organizationId, 'members.manage');
+
+    const invitations = await this.invitationRepository.find({
+      where: { organizationId, acceptedAt: IsNull(), revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      order: { createdAt: 'DESC' },
+    });
+    return invitations.map(invitation => this.toInvitationView(invitation));
+  }
+
+  /**
+   * Email an invitation to join. Members and open invitations together can't exceed the team size of the
+   * organization's plan; inviting the same address again replaces its earlier invitation.
+   */
+  async invite(actorId: number, organizationId: number, email: string, role: OrganizationRole): Promise<OrganizationInvitationView> {
+    const actor = await this.getMembership(actorId, organizationId);
+    if (!canAssignRole(actor.role, role)) {
+      throw new ForbiddenException(`You cannot invite someone as ${role}`);
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const invitee = await this.usersService.findByEmail(normalizedEmail);
+    if (invitee && await this.memberRepository.exists({ where: { organizationId, userId: invitee.id } })) {
+      throw new ConflictException(`${normalizedEmail} is already a member`);
+    }
+
+    const pending = { organizationId, acceptedAt: IsNull(), revokedAt: IsNull(), expiresAt: MoreThan(new Date()) };
+    const [members, pendingInvitations, subscription] = await Promise.all([
+      this.memberRepository.countBy({ organizationId }),
+      this.invitationRepository.countBy({ ...pending, email: Not(normalizedEmail) }),
+      this.subscriptionRepository.findOne({ where: { organizationId, status: In(ACTIVE_SUBSCRIPTION_STATUSES) }, order: { createdAt: 'DESC' } }),
+    ]);
+
+    const { maxTeamMembers } = getPlanLimits(subscription?.planId);
+    if (!hasTeamCapacity(maxTeamMembers, members, pendingInvitations)) {
+      throw new BadRequestException(`Your plan allows ${maxTeamMembers} team member${maxTeamMembers === 1 ? '' : 's'}; upgrade to invite more`);
+    }
+
+    await this.invitationRepository.update({ ...pending, email: normalizedEmail }, { revokedAt: new Date() });
+
+    const token = randomBytes(32).toString('base64url');
+    const invitation = await this.invitationRepository.save(this.invitationRepository.create({
+      organizationId,
+      email: normalizedEmail,
+      role,
+      tokenHash: this.hash(token),
+      invitedById: actorId,
+      expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+    }));
+
+    const inviter = await this.findUser(actorId);
+    const inviterName = `${inviter.firstName || ''} ${inviter.lastName || ''}`.trim() || inviter.email;
+    try {
+      await this.mailService.sendOrganizationInvitation(normalizedEmail, actor.organization.name, inviterName, this.getInvitationLink(token), INVITATION_TTL_DAYS);
+    } catch (error: any) {
+      this.logger.error(`Could not send invitation ${invitation.id}: ${error.message}`);
+    }
+
+    return this.toInvitationView(invitation);
+  }
+
+  async revokeInvitation(userId: number, organizationId: number, invitationId: number): Promise<void> {
+    await this.assertPermission(userId, organizationId, 'members.manage');
+
+    const result = await this.invitationRepository.update(
+      { id: invitationId, organizationId, acceptedAt: IsNull(), revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    if (!result.affected) {
+      throw new NotFoundException('Invitation not found');
+    }
+  }
+
+  /**
+   * Join an organization with the token from an invitation email, as the user it was sent to. The new
+   * organization becomes the current one.
+   */
+  async acceptInvitation(userId: number, token: string): Promise<Organization> {
+    const invitation = await this.invitationRepository.findOne({
+      where: { tokenHash: this.hash(token), acceptedAt: IsNull(), revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      relations: ['organization'],
+    });
+    if (!invitation) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    const user = await this.findUser(userId);
+    if (user.email.toLowerCase() !== invitation.email) {
+      throw new ForbiddenException('This invitation was sent to a different email address');
+    }
+
+    // Claim the invitation atomically so it can't be accepted twice
+    const claimed = await this.invitationRepository.update({ id: invitation.id, acceptedAt: IsNull() }, { acceptedAt: new Date() });
+    if (!claimed.affected) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    if (!await this.memberRepository.exists({ where: { organizationId: invitation.organizationId, userId } })) {
+      await this.memberRepository.save(this.memberRepository.create({ organizationId: invitation.organizationId, userId, role: invitation.role }));
+    }
+
+    // The invitation reached the inbox, which is all verification proves
+    await this.usersService.markEmailVerified(userId);
+    await this.usersService.update(userId, { currentOrganizationId: invitation.organizationId });
+
+    this.logger.log(`User ${userId} joined organization ${invitation.organizationId} as ${invitation.role}`);
+    return invitation.organization;
+  }
+
+  private async createPersonalOrganization(user: User): Promise<Organization> {
+    const name = user.firstName ? `${user.firstName}'s workspace` : 'My workspace';
+
+    try {
+      return await this.organizationRepository.manager.transaction(async (manager) => {
+        const organization = await manager.save(manager.create(Organization, { name, personal: true, createdById: user.id }));
+        await manager.save(manager.create(OrganizationMember, { organizationId: organization.id, userId: user.id, role: 'owner' }));
+        return organization;
+      });
+    } catch (error: any) {
+      // A concurrent request created it first and the unique index refused this one, so use theirs
+      const existing = error.code === UNIQUE_VIOLATION ? await this.organizationRepository.findOneBy({ createdById: user.id, personal: true }) : null;
+      if (!existing) {
+        throw error;
+      }
+      return existing;
+    }
+  }
+
+  private async findUser(userId: number): Promise<User> {
+    const user = await this.usersService.findOne(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  private async findMember(organizationId: number, userId: number): Promise<OrganizationMember> {
+    const member = await this.memberRepository.findOneBy({ organizationId, userId });
+    if (!member) {
+      throw new NotFoundException('Member not found');
+    }
+    return member;
+  }
+
+  private async assertAnotherOwner(organizationId: number, userId: number): Promise<void> {
+    if (!await this.memberRepository.exists({ where: { organizationId, role: 'owner', userId: Not(userId) } })) {
+      throw new BadRequestException('An organization needs at least one owner; make someone else an owner first');
+    }
+  }
+
+  private toInvitationView(invitation: OrganizationInvitation): OrganizationInvitationView {
+    return { id: invitation.id, email: invitation.email, role: invitation.role, expiresAt: invitation.expiresAt, createdAt: invitation.createdAt };
+  }
+
+  private getInvitationLink(token: string): string {
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000';
+    const url = new URL('/invitations/accept', frontendUrl);
+    url.searchParams.set('token', token);
+    return url.toString();
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+}
@@ -0,0 +1,35 @@
+import { blendMetrics } from './blend-metrics.util';
+
+describe('blendMetrics', () => {
+  it('should recompute rates from summed totals', () => {
+    const blended = blendMetrics([
+      { impressions: 1000, clicks: 10, spend: 100, cpc: 10, cpm: 100, ctr: 1, conversions: 2, roas: 3 },
+      { impressions: 3000, clicks: 90, spend: 300, cpc: 3.33, cpm: 100, ctr: 3, conversions: 8, roas: 1 },
+    ]);
+
+    expect(blended.impressions).toBe(4000);
+    expect(blended.clicks).toBe(100);
+    expect(blended.spend).toBe(400);
+    expect(blended.ctr).toBeCloseTo(2.5);
+    expect(blended.cpc).toBeCloseTo(4);
+    expect(blended.cpm).toBeCloseTo(100);
+    expect(blended.costPerConversion).toBeCloseTo(40);
+    // (100 * 3 + 300 * 1) / 400
+    expect(blended.roas).toBeCloseTo(1.5);
+  });
+
+  it('should return zeroed rates when there is nothing to blend', () => {
+    expect(blendMetrics([])).toEqual({
+      impressions: 0,
+      clicks: 0,
+      spend: 0,
+      ctr: 0,
+      cpc: 0,
+      cpm: 0,
+      conversions: 0,
+      costPerConversion: 0,
+      roas: 0,
+      revenue: 0,
+    });
+  });
+});
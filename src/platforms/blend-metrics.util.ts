@@ -0,0 +1,36 @@
+import { PlatformMetrics } from '../common/interfaces/ad-platform.interface';
+
+/**
+ * Combine metrics from several ad accounts into one set.
+ * Rates are recomputed from the summed totals rather than averaged, and reach/frequency
+ * are left out because audiences overlap across accounts and platforms.
+ */
+export function blendMetrics(items: PlatformMetrics[]): PlatformMetrics {
+  let impressions = 0;
+  let clicks = 0;
+  let spend = 0;
+  let conversions = 0;
+  let revenue = 0;
+
+  for (const metrics of items) {
+    impressions += metrics.impressions || 0;
+    clicks += metrics.clicks || 0;
+    spend += metrics.spend || 0;
+    conversions += metrics.conversions || 0;
+    // Most platforms report ROAS rather than revenue, so recover revenue per account before summing
+    revenue += metrics.revenue ?? (metrics.roas || 0) * (metrics.spend || 0);
+  }
+
+  return {
+    impressions,
+    clicks,
+    spend,
+    ctr: impressions > 0 ? (clicks / impressions) * 100 : 0,
+    cpc: clicks > 0 ? spend / clicks : 0,
+    cpm: impressions > 0 ? (spend / impressions) * 1000 : 0,
+    conversions,
+    costPerConversion: conversions > 0 ? spend / conversions : 0,
+    roas: spend > 0 ? revenue / spend : 0,
+    revenue,
+  };
+}
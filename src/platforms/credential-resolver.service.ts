@@ -0,0 +1,62 @@
+import { Injectable, UnauthorizedException, BadRequestException } from '@nestjs/common';
+import { PlatformRegistryService } from './platform-registry.service';
+import { ConnectedAccountsService } from '../accounts/connected-accounts.service';
+import { AdPlatform, PlatformSession } from '../common/interfaces/ad-platform.interface';
+
+export interface PlatformCredentials {
+  session: PlatformSession;
+  accessToken: string;
+  adAccountId: string | null;
+}
+
+export interface AccountCredentials extends PlatformCredentials {
+  adAccountId: string;
+}
+
+/**
+ * The only way routes get a platform token: always a stored session, the authenticated user's own or the one an
+ * account in their organization was connected through, never a token from the request, so tokens don't pass
+ * through the browser
+ */
+@Injectable()
+export class CredentialResolverService {
+  constructor(
+    private readonly platformRegistry: PlatformRegistryService,
+    private readonly connectedAccountsService: ConnectedAccountsService,
+  ) {}
+
+  /**
+   * The user's token for a platform, refreshed if needed. A requested ad account is served by the session it
+   * was connected through and must pass the platform's access check (a paid seat, or for Facebook visibility
+   * to the user's token); otherwise the most recently selected one is used.
+   */
+  async resolve(platform: AdPlatform, userId: number, adAccountId?: string): Promise<PlatformCredentials> {
+    const provider = this.platformRegistry.get(platform);
+
+    const account = adAccountId ? await this.connectedAccountsService.getAccount(userId, platform, adAccountId) : null;
+    // Accounts a teammate connected are reached through the teammate's session
+    const session = await this.platformRegistry.getActiveSession(platform, account ? account.userId : userId, account?.sessionId);
+    if (!session) {
+      throw new UnauthorizedException(`No ${platform} session found; connect your ${platform} account`);
+    }
+
+    const accountId = adAccountId || session.adAccountId || null;
+    if (accountId && provider.validateAccess) {
+      await provider.validateAccess(userId, accountId);
+    }
+
+    return { session, accessToken: session.accessToken, adAccountId: accountId };
+  }
+
+  /**
+   * Like resolve, for routes that read an ad account's data and can't run without one
+   */
+  async resolveAccount(platform: AdPlatform, userId: number, adAccountId?: string): Promise<AccountCredentials> {
+    const credentials = await this.resolve(platform, userId, adAccountId);
+    if (!credentials.adAccountId) {
+      throw new BadRequestException(`No ${platform} ad account given or selected`);
+    }
+
+    return { ...credentials, adAccountId: credentials.adAccountId };
+  }
+}
@@ -0,0 +1,17 @@
+import { IsString, IsOptional, IsInt, MaxLength } from 'class-validator';
+
+export class ConnectAccountDto {
+  @IsString()
+  @MaxLength(100)
+  adAccountId: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  adAccountName?: string;
+
+  // The identity (GET /platforms/:platform/identities) to reach the account through; defaults to the most recently used
+  @IsOptional()
+  @IsInt()
+  sessionId?: number;
+}
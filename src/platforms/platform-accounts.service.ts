@@ -0,0 +1,109 @@
+import { Injectable, Logger, NotFoundException, OnApplicationBootstrap } from '@nestjs/common';
+import { PlatformRegistryService } from './platform-registry.service';
+import { ConnectedAccountsService } from '../accounts/connected-accounts.service';
+import { ConnectedAccount } from '../accounts/entities/connected-account.entity';
+import { BackfillService } from '../sync/backfill.service';
+import { AdPlatform } from '../common/interfaces/ad-platform.interface';
+
+export interface PlatformIdentity {
+  sessionId: number;
+  identityId: string | null;
+  identityName: string | null;
+  needsReauth: boolean;
+  accountIds: string[];
+}
+
+/**
+ * The ad accounts selected in a user's organization on each platform, and the platform logins (identities) they are reached through
+ */
+@Injectable()
+export class PlatformAccountsService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(PlatformAccountsService.name);
+
+  constructor(
+    private readonly platformRegistry: PlatformRegistryService,
+    private readonly connectedAccountsService: ConnectedAccountsService,
+    private readonly backfillService: BackfillService,
+  ) {}
+
+  /**
+   * Sessions saved before accounts were tracked separately only record their selected account on the session
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    for (const { platform, service } of this.platformRegistry.getAll()) {
+      try {
+        const connected = new Set(
+          (await this.connectedAccountsService.getAllAccounts(platform)).map(account => `${account.userId}:${account.adAccountId}`),
+        );
+
+        for (const session of await service.getConnectedSessions()) {
+          if (session.adAccountId && !connected.has(`${session.userId}:${session.adAccountId}`)
+            && !await this.connectedAccountsService.getAccount(session.userId, platform, session.adAccountId)) {
+            await this.connectedAccountsService.connect(session.userId, platform, session.id, session.adAccountId);
+          }
+        }
+      } catch (error: any) {
+        this.logger.error(`Could not record connected ${platform} accounts: ${error.message}`);
+      }
+    }
+  }
+
+  async getAccounts(userId: number, platform: AdPlatform): Promise<ConnectedAccount[]> {
+    return this.connectedAccountsService.getAccounts(userId, platform);
+  }
+
+  /**
+   * Select an ad account alongside the ones already selected. The account must be covered by the user's seats;
+   * it is reached through the given identity, or the most recently used one. Its history is imported in the
+   * background; progress is reported by GET /sync/jobs.
+   */
+  async connect(userId: number, platform: AdPlatform, adAccountId: string, adAccountName?: string, sessionId?: number): Promise<ConnectedAccount> {
+    const provider = this.platformRegistry.get(platform);
+
+    const session = await this.platformRegistry.getActiveSession(platform, userId, sessionId);
+    if (!session) {
+      throw new NotFoundException(`No ${platform} session found; connect your ${platform} account`);
+    }
+
+    if (provider.validateAccess) {
+      await provider.validateAccess(userId, adAccountId);
+    }
+
+    const account = await this.connectedAccountsService.connect(userId, platform, session.id, adAccountId, adAccountName);
+    await this.backfillService.enqueue(platform, userId, adAccountId);
+    return account;
+  }
+
+  async disconnect(userId: number, platform: AdPlatform, adAccountId: string): Promise<void> {
+    const removed = await this.connectedAccountsService.disconnect(userId, platform, adAccountId);
+    if (!removed) {
+      throw new NotFoundException(`Ad account ${adAccountId} is not connected`);
+    }
+  }
+
+  async disconnectIdentity(userId: number, platform: AdPlatform, sessionId: number): Promise<void> {
+    const { service } = this.platformRegistry.get(platform);
+    if (!await service.getSessionById(userId, sessionId)) {
+      throw new NotFoundException(`${platform} session ${sessionId} not found`);
+    }
+
+    // Also drops the accounts selected through it; platforms keeping one session per user clear all of them
+    await service.deleteSession(userId, sessionId);
+  }
+
+  async getIdentities(userId: number, platform: AdPlatform): Promise<PlatformIdentity[]> {
+    const { service } = this.platformRegistry.get(platform);
+    const [sessions, accounts] = await Promise.all([
+      service.getSessions(userId),
+      this.connectedAccountsService.getAccounts(userId, platform),
+    ]);
+
+    return sessions.map(session => ({
+      sessionId: session.id,
+      identityId: session.identityId || null,
+      identityName: session.identityName || null,
+      needsReauth: !!session.needsReauth,
+      accountIds: accounts.filter(account => account.userId === userId && account.sessionId === session.id).map(account => account.adAccountId),
+    }));
+  }
+}
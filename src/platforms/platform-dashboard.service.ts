@@ -0,0 +1,166 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PlatformRegistryService, PlatformProvider } from './platform-registry.service';
+import { CredentialResolverService } from './credential-resolver.service';
+import { ConnectedAccountsService } from '../accounts/connected-accounts.service';
+import { blendMetrics } from './blend-metrics.util';
+import { FxService } from '../fx/fx.service';
+import { ConvertedMetrics } from '../fx/fx.util';
+import { DatePreset } from '../common/utils/date-range.util';
+import { BaseAdPlatformService } from '../common/services/base-ad-platform.service';
+import { AdPlatform, PlatformMetrics, PlatformDateRange } from '../common/interfaces/ad-platform.interface';
+
+export interface AccountMetricsBreakdown {
+  platform: AdPlatform;
+  adAccountId: string;
+  dateRange: PlatformDateRange; // as resolved in the account's own timezone
+  metrics: ConvertedMetrics;
+  stale?: boolean; // served from cache while the platform is unavailable
+  cachedAt?: Date;
+}
+
+export interface PlatformMetricsBreakdown {
+  platform: AdPlatform;
+  status: 'ok' | 'error' | 'not_connected';
+  metrics?: PlatformMetrics;
+  accounts: AccountMetricsBreakdown[];
+  error?: string;
+}
+
+export interface BlendedDashboard {
+  dateRange: PlatformDateRange | DatePreset;
+  currency: string;
+  totals: PlatformMetrics;
+  platforms: PlatformMetricsBreakdown[];
+  accounts: AccountMetricsBreakdown[];
+}
+
+@Injectable()
+export class PlatformDashboardService {
+  private readonly logger = new Logger(PlatformDashboardService.name);
+
+  constructor(
+    private readonly platformRegistry: PlatformRegistryService,
+    private readonly fxService: FxService,
+    private readonly credentialResolver: CredentialResolverService,
+    private readonly connectedAccountsService: ConnectedAccountsService,
+  ) {}
+
+  /**
+   * Metrics for every selected ad account on every connected platform, converted to the user's reporting currency
+   * and blended into one set of totals. A platform that fails is reported with its error and left
+   * out of the totals.
+   */
+  async getBlendedMetrics(
+    userId: number,
+    dateRange: PlatformDateRange | DatePreset,
+    platforms?: AdPlatform[],
+  ): Promise<BlendedDashboard> {
+    const { currency } = await this.fxService.getReportingCurrency(userId);
+    const providers = this.platformRegistry.getAll()
+      .filter(provider => !platforms || platforms.includes(provider.platform));
+
+    const results = await Promise.allSettled(
+      providers.map(provider => this.getPlatformBreakdown(provider, userId, dateRange, currency)),
+    );
+
+    const breakdowns = results.map((result, index): PlatformMetricsBreakdown => {
+      if (result.status === 'fulfilled') {
+        return result.value;
+      }
+
+      const platform = providers[index].platform;
+      const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      this.logger.warn(`Dashboard metrics failed for ${platform} (user ${userId}): ${error}`);
+
+      return { platform, status: 'error', accounts: [], error };
+    });
+
+    const accounts = breakdowns.flatMap(breakdown => breakdown.accounts);
+
+    return {
+      dateRange,
+      currency,
+      totals: { ...blendMetrics(accounts.map(account => account.metrics)), currency },
+      platforms: breakdowns,
+      accounts,
+    };
+  }
+
+  /**
+   * Convert one account's metrics into the reporting currency, at the rate for the last day of the range
+   */
+  async toReportingCurrency(
+    service: BaseAdPlatformService,
+    accessToken: string,
+    adAccountId: string,
+    metrics: PlatformMetrics,
+    reportingCurrency: string,
+    dateRange: PlatformDateRange,
+  ): Promise<ConvertedMetrics> {
+    const accountCurrency = metrics.currency || await service.getAccountCurrency(accessToken, adAccountId);
+    return this.fxService.convertMetrics(metrics, accountCurrency, reportingCurrency, dateRange.until);
+  }
+
+  private async getPlatformBreakdown(
+    provider: PlatformProvider,
+    userId: number,
+    requestedRange: PlatformDateRange | DatePreset,
+    reportingCurrency: string,
+  ): Promise<PlatformMetricsBreakdown> {
+    const { platform } = provider;
+
+    let adAccountIds = (await this.connectedAccountsService.getAccounts(userId, platform)).map(account => account.adAccountId);
+    if (!adAccountIds.length) {
+      const session = await this.platformRegistry.getActiveSession(platform, userId);
+      adAccountIds = session?.adAccountId ? [session.adAccountId] : [];
+    }
+    if (!adAccountIds.length) {
+      return { platform, status: 'not_connected', accounts: [] };
+    }
+
+    const results = await Promise.allSettled(
+      adAccountIds.map(adAccountId => this.getAccountBreakdown(provider, userId, adAccountId, requestedRange, reportingCurrency)),
+    );
+
+    // One account losing its seat or token shouldn't hide the platform's other accounts
+    const accounts: AccountMetricsBreakdown[] = [];
+    for (const [index, result] of results.entries()) {
+      if (result.status === 'fulfilled') {
+        accounts.push(result.value);
+        continue;
+      }
+      if (results.every(other => other.status === 'rejected')) {
+        throw result.reason;
+      }
+
+      const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      this.logger.warn(`Dashboard metrics failed for ${platform} account ${adAccountIds[index]} (user ${userId}): ${error}`);
+    }
+
+    return {
+      platform,
+      status: 'ok',
+      metrics: { ...blendMetrics(accounts.map(account => account.metrics)), currency: reportingCurrency },
+      accounts,
+    };
+  }
+
+  private async getAccountBreakdown(
+    { platform, service }: PlatformProvider,
+    userId: number,
+    adAccountId: string,
+    requestedRange: PlatformDateRange | DatePreset,
+    reportingCurrency: string,
+  ): Promise<AccountMetricsBreakdown> {
+    const { accessToken } = await this.credentialResolver.resolveAccount(platform, userId, adAccountId);
+
+    const dateRange = await service.resolveAccountDateRange(accessToken, adAccountId, requestedRange);
+    const response = await service.getAccountMetrics(accessToken, adAccountId, dateRange);
+    if (!response.success || !response.data) {
+      throw new Error(response.error || 'Failed to fetch account metrics');
+    }
+
+    const metrics = await this.toReportingCurrency(service, accessToken, adAccountId, response.data, reportingCurrency, dateRange);
+    return { platform, adAccountId, dateRange, metrics, stale: response.stale, cachedAt: response.cachedAt };
+  }
+}
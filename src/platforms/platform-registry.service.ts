@@ -0,0 +1,114 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { BaseAdPlatformService } from '../common/services/base-ad-platform.service';
+import { AdPlatform, PlatformSession } from '../common/interfaces/ad-platform.interface';
+import { FacebookService } from '../facebook/facebook.service';
+import { TikTokService } from '../tiktok/tiktok.service';
+import { GoogleAdsService } from '../google-ads/google-ads.service';
+import { LinkedInService } from '../linkedin/linkedin.service';
+import { SnapchatService } from '../snapchat/snapchat.service';
+import { TwitterService } from '../twitter/twitter.service';
+
+export interface PlatformProvider {
+  platform: AdPlatform;
+  service: BaseAdPlatformService;
+  /**
+   * Throws when the user's seats don't cover the ad account; omitted for platforms without paid seats
+   */
+  validateAccess?: (userId: number, adAccountId: string) => Promise<void>;
+}
+
+// Refresh tokens that expire within this window before handing the session out
+const TOKEN_REFRESH_THRESHOLD_MS = 60 * 1000;
+
+/**
+ * Resolves the BaseAdPlatformService implementation for each AdPlatform
+ */
+@Injectable()
+export class PlatformRegistryService {
+  private readonly logger = new Logger(PlatformRegistryService.name);
+  private readonly providers = new Map<AdPlatform, PlatformProvider>();
+
+  constructor(
+    facebookService: FacebookService,
+    tiktokService: TikTokService,
+    googleAdsService: GoogleAdsService,
+    linkedinService: LinkedInService,
+    snapchatService: SnapchatService,
+    twitterService: TwitterService,
+  ) {
+    this.register({
+      platform: AdPlatform.FACEBOOK,
+      service: facebookService,
+      validateAccess: (userId, adAccountId) => facebookService.validateAdAccountAccess(userId, adAccountId),
+    });
+    this.register({
+      platform: AdPlatform.TIKTOK,
+      service: tiktokService,
+      validateAccess: (userId, adAccountId) => tiktokService.validateAdvertiserAccess(userId, adAccountId),
+    });
+    this.register({
+      platform: AdPlatform.GOOGLE,
+      service: googleAdsService,
+      validateAccess: (userId, adAccountId) => googleAdsService.validateCustomerAccess(userId, adAccountId),
+    });
+    this.register({
+      platform: AdPlatform.LINKEDIN,
+      service: linkedinService,
+      validateAccess: (userId, adAccountId) => linkedinService.validateAdAccountAccess(userId, adAccountId),
+    });
+    this.register({
+      platform: AdPlatform.SNAPCHAT,
+      service: snapchatService,
+      validateAccess: (userId, adAccountId) => snapchatService.validateAdAccountAccess(userId, adAccountId),
+    });
+    this.register({
+      platform: AdPlatform.TWITTER,
+      service: twitterService,
+      validateAccess: (userId, adAccountId) => twitterService.validateAdAccountAccess(userId, adAccountId),
+    });
+  }
+
+  register(provider: PlatformProvider): void {
+    this.providers.set(provider.platform, provider);
+  }
+
+  has(platform: string): platform is AdPlatform {
+    return this.providers.has(platform as AdPlatform);
+  }
+
+  get(platform: string): PlatformProvider {
+    if (!this.has(platform)) {
+      throw new NotFoundException(`Unsupported platform: ${platform}`);
+    }
+    return this.providers.get(platform)!;
+  }
+
+  getAll(): PlatformProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * The user's session on a platform (a specific one where the user has several), refreshed first if its
+   * token is about to expire
+   */
+  async getActiveSession(platform: AdPlatform, userId: number, sessionId?: number): Promise<PlatformSession | null> {
+    const { service } = this.get(platform);
+
+    const session = sessionId ? await service.getSessionById(userId, sessionId) : await service.getSession(userId);
+    if (!session || !session.accessToken || session.needsReauth) {
+      return null;
+    }
+
+    const expiresAt = session.tokenExpiresAt?.getTime();
+    if (expiresAt && expiresAt < Date.now() + TOKEN_REFRESH_THRESHOLD_MS) {
+      try {
+        return await service.refreshAccessToken(userId, session.id);
+      } catch (error: any) {
+        this.logger.warn(`Could not refresh ${platform} token for user ${userId}: ${error.message}`);
+        return null;
+      }
+    }
+
+    return session;
+  }
+}
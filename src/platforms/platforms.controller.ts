@@ -0,0 +1,350 @@
+import { Controller, Get, Post, Delete, Body, Query, Param, UseGuards, BadRequestException } from '@nestjs/common';
+import { PlatformRegistryService } from './platform-registry.service';
+import { PlatformDashboardService, BlendedDashboard } from './platform-dashboard.service';
+import { PlatformAccountsService, PlatformIdentity } from './platform-accounts.service';
+import { CredentialResolverService } from './credential-resolver.service';
+import { ConnectAccountDto } from './dto/platform-accounts.dto';
+import { ConnectedAccount } from '../accounts/entities/connected-account.entity';
+import { FxService } from '../fx/fx.service';
+import { ConvertedMetrics } from '../fx/fx.util';
+import { DatePreset, isDatePreset, DATE_PRESETS } from '../common/utils/date-range.util';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { BaseAdPlatformService } from '../common/services/base-ad-platform.service';
+import {
+  AdPlatform,
+  PlatformSession,
+  PlatformMetrics,
+  PlatformCampaign,
+  PlatformAdGroup,
+  PlatformAd,
+  PlatformDateRange,
+  PlatformApiResponse,
+} from '../common/interfaces/ad-platform.interface';
+
+interface PlatformContext {
+  service: BaseAdPlatformService;
+  session: PlatformSession;
+  adAccountId: string;
+}
+
+/**
+ * Platform-agnostic routes over every registered ad platform
+ */
+@Controller('platforms')
+export class PlatformsController {
+  constructor(
+    private readonly platformRegistry: PlatformRegistryService,
+    private readonly platformDashboardService: PlatformDashboardService,
+    private readonly fxService: FxService,
+    private readonly platformAccountsService: PlatformAccountsService,
+    private readonly credentialResolver: CredentialResolverService,
+  ) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  async getPlatforms(@CurrentUser() user: any): Promise<PlatformApiResponse<{
+    platform: AdPlatform;
+    connected: boolean;
+    needsReauth: boolean;
+    adAccountId?: string;
+    adAccountIds: string[];
+  }[]>> {
+    const platforms = await Promise.all(
+      this.platformRegistry.getAll().map(async ({ platform, service }) => {
+        const [session, accounts] = await Promise.all([
+          service.getSession(user.id),
+          this.platformAccountsService.getAccounts(user.id, platform),
+        ]);
+        return {
+          platform,
+          connected: !!session?.accessToken,
+          needsReauth: !!session?.needsReauth,
+          adAccountId: session?.adAccountId || undefined,
+          adAccountIds: accounts.map(account => account.adAccountId),
+        };
+      }),
+    );
+
+    return { success: true, data: platforms };
+  }
+
+  // ==================== DASHBOARD ====================
+
+  /**
+   * Blended totals across every connected platform, optionally limited with ?platforms=facebook,tiktok.
+   * A ?dateRange=last_7d style preset is resolved separately in each ad account's timezone.
+   */
+  @Get('dashboard')
+  @UseGuards(JwtAuthGuard)
+  async getDashboard(
+    @CurrentUser() user: any,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+    @Query('dateRange') preset?: string,
+    @Query('platforms') platforms?: string,
+  ): Promise<PlatformApiResponse<BlendedDashboard>> {
+    const dateRange = this.parseDateRange(since, until, preset);
+
+    let selected: AdPlatform[] | undefined;
+    if (platforms) {
+      selected = platforms.split(',').map(platform => platform.trim()).filter(Boolean).map((platform) => {
+        if (!this.platformRegistry.has(platform)) {
+          throw new BadRequestException(`Unsupported platform: ${platform}`);
+        }
+        return platform;
+      });
+    }
+
+    const dashboard = await this.platformDashboardService.getBlendedMetrics(user.id, dateRange, selected);
+    return { success: true, data: dashboard };
+  }
+
+  // ==================== ACCOUNTS ====================
+
+  /**
+   * The ad accounts selected on a platform; data routes take one of these as ?adAccountId=
+   */
+  @Get(':platform/accounts')
+  @UseGuards(JwtAuthGuard)
+  async getAccounts(@CurrentUser() user: any, @Param('platform') platform: string): Promise<PlatformApiResponse<ConnectedAccount[]>> {
+    const accounts = await this.platformAccountsService.getAccounts(user.id, this.platformRegistry.get(platform).platform);
+    return { success: true, data: accounts };
+  }
+
+  @Post(':platform/accounts')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('seats.manage')
+  async connectAccount(
+    @CurrentUser() user: any,
+    @Param('platform') platform: string,
+    @Body() body: ConnectAccountDto,
+  ): Promise<PlatformApiResponse<ConnectedAccount>> {
+    const account = await this.platformAccountsService.connect(
+      user.id,
+      this.platformRegistry.get(platform).platform,
+      body.adAccountId,
+      body.adAccountName,
+      body.sessionId,
+    );
+    return { success: true, data: account };
+  }
+
+  @Delete(':platform/accounts/:adAccountId')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('seats.manage')
+  async disconnectAccount(
+    @CurrentUser() user: any,
+    @Param('platform') platform: string,
+    @Param('adAccountId') adAccountId: string,
+  ): Promise<PlatformApiResponse<void>> {
+    await this.platformAccountsService.disconnect(user.id, this.platformRegistry.get(platform).platform, adAccountId);
+    return { success: true };
+  }
+
+  /**
+   * The platform logins connected, each with the accounts reached through it
+   */
+  @Get(':platform/identities')
+  @UseGuards(JwtAuthGuard)
+  async getIdentities(@CurrentUser() user: any, @Param('platform') platform: string): Promise<PlatformApiResponse<PlatformIdentity[]>> {
+    const identities = await this.platformAccountsService.getIdentities(user.id, this.platformRegistry.get(platform).platform);
+    return { success: true, data: identities };
+  }
+
+  /**
+   * Disconnect one platform login, along with the accounts selected through it
+   */
+  @Delete(':platform/identities/:sessionId')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('seats.manage')
+  async disconnectIdentity(
+    @CurrentUser() user: any,
+    @Param('platform') platform: string,
+    @Param('sessionId') sessionId: string,
+  ): Promise<PlatformApiResponse<void>> {
+    const id = parseInt(sessionId, 10);
+    if (isNaN(id)) {
+      throw new BadRequestException('Invalid session id');
+    }
+
+    await this.platformAccountsService.disconnectIdentity(user.id, this.platformRegistry.get(platform).platform, id);
+    return { success: true };
+  }
+
+  // ==================== CAMPAIGNS ====================
+
+  @Get(':platform/campaigns')
+  @UseGuards(JwtAuthGuard)
+  async getCampaigns(
+    @CurrentUser() user: any,
+    @Param('platform') platform: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+    @Query('adAccountId') requestedAccountId?: string,
+  ): Promise<PlatformApiResponse<PlatformCampaign[]>> {
+    const { service, session, adAccountId } = await this.resolve(platform, user.id, requestedAccountId);
+    return service.getCampaigns(session.accessToken, adAccountId, this.toDateRange(since, until));
+  }
+
+  @Get(':platform/campaigns/:id')
+  @UseGuards(JwtAuthGuard)
+  async getCampaign(
+    @CurrentUser() user: any,
+    @Param('platform') platform: string,
+    @Param('id') campaignId: string,
+    @Query('adAccountId') requestedAccountId?: string,
+  ): Promise<PlatformApiResponse<PlatformCampaign>> {
+    const { service, session, adAccountId } = await this.resolve(platform, user.id, requestedAccountId);
+    return service.getCampaign(session.accessToken, campaignId, adAccountId);
+  }
+
+  // ==================== AD GROUPS ====================
+
+  @Get(':platform/adgroups')
+  @UseGuards(JwtAuthGuard)
+  async getAdGroups(
+    @CurrentUser() user: any,
+    @Param('platform') platform: string,
+    @Query('campaignId') campaignId?: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+    @Query('adAccountId') requestedAccountId?: string,
+  ): Promise<PlatformApiResponse<PlatformAdGroup[]>> {
+    const { service, session, adAccountId } = await this.resolve(platform, user.id, requestedAccountId);
+    return service.getAdGroups(session.accessToken, campaignId || '', this.toDateRange(since, until), adAccountId);
+  }
+
+  @Get(':platform/adgroups/:id')
+  @UseGuards(JwtAuthGuard)
+  async getAdGroup(
+    @CurrentUser() user: any,
+    @Param('platform') platform: string,
+    @Param('id') adGroupId: string,
+    @Query('adAccountId') requestedAccountId?: string,
+  ): Promise<PlatformApiResponse<PlatformAdGroup>> {
+    const { service, session, adAccountId } = await this.resolve(platform, user.id, requestedAccountId);
+    return service.getAdGroup(session.accessToken, adGroupId, adAccountId);
+  }
+
+  // ==================== ADS ====================
+
+  @Get(':platform/ads')
+  @UseGuards(JwtAuthGuard)
+  async getAds(
+    @CurrentUser() user: any,
+    @Param('platform') platform: string,
+    @Query('adGroupId') adGroupId?: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+    @Query('adAccountId') requestedAccountId?: string,
+  ): Promise<PlatformApiResponse<PlatformAd[]>> {
+    const { service, session, adAccountId } = await this.resolve(platform, user.id, requestedAccountId);
+    return service.getAds(session.accessToken, adGroupId || '', this.toDateRange(since, until), adAccountId);
+  }
+
+  @Get(':platform/ads/:id')
+  @UseGuards(JwtAuthGuard)
+  async getAd(
+    @CurrentUser() user: any,
+    @Param('platform') platform: string,
+    @Param('id') adId: string,
+    @Query('adAccountId') requestedAccountId?: string,
+  ): Promise<PlatformApiResponse<PlatformAd>> {
+    const { service, session, adAccountId } = await this.resolve(platform, user.id, requestedAccountId);
+    return service.getAd(session.accessToken, adId, adAccountId);
+  }
+
+  // ==================== METRICS ====================
+
+  @Get(':platform/metrics/account')
+  @UseGuards(JwtAuthGuard)
+  async getAccountMetrics(
+    @CurrentUser() user: any,
+    @Param('platform') platform: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+    @Query('dateRange') preset?: string,
+    @Query('adAccountId') requestedAccountId?: string,
+  ): Promise<PlatformApiResponse<ConvertedMetrics>> {
+    const context = await this.resolve(platform, user.id, requestedAccountId);
+    const dateRange = await context.service.resolveAccountDateRange(
+      context.session.accessToken,
+      context.adAccountId,
+      this.parseDateRange(since, until, preset),
+    );
+    const response = await context.service.getAccountMetrics(context.session.accessToken, context.adAccountId, dateRange);
+    return this.inReportingCurrency(user.id, context, response, dateRange);
+  }
+
+  @Get(':platform/metrics/campaigns/:id')
+  @UseGuards(JwtAuthGuard)
+  async getCampaignMetrics(
+    @CurrentUser() user: any,
+    @Param('platform') platform: string,
+    @Param('id') campaignId: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+    @Query('dateRange') preset?: string,
+    @Query('adAccountId') requestedAccountId?: string,
+  ): Promise<PlatformApiResponse<ConvertedMetrics>> {
+    const context = await this.resolve(platform, user.id, requestedAccountId);
+    const dateRange = await context.service.resolveAccountDateRange(
+      context.session.accessToken,
+      context.adAccountId,
+      this.parseDateRange(since, until, preset),
+    );
+    const response = await context.service.getCampaignMetrics(context.session.accessToken, campaignId, dateRange, context.adAccountId);
+    return this.inReportingCurrency(user.id, context, response, dateRange);
+  }
+
+  /**
+   * Look up the platform's service and the session for the requested ad account (or the most recently selected
+   * one), and check the account is covered by a seat
+   */
+  private async resolve(platform: string, userId: number, adAccountId?: string): Promise<PlatformContext> {
+    const provider = this.platformRegistry.get(platform);
+    const { session, adAccountId: accountId } = await this.credentialResolver.resolveAccount(provider.platform, userId, adAccountId);
+
+    return { service: provider.service, session, adAccountId: accountId };
+  }
+
+  private async inReportingCurrency(
+    userId: number,
+    { service, session, adAccountId }: PlatformContext,
+    response: PlatformApiResponse<PlatformMetrics>,
+    dateRange: PlatformDateRange,
+  ): Promise<PlatformApiResponse<ConvertedMetrics>> {
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error };
+    }
+
+    const { currency } = await this.fxService.getReportingCurrency(userId);
+    const data = await this.platformDashboardService.toReportingCurrency(service, session.accessToken, adAccountId, response.data, currency, dateRange);
+    return { ...response, data };
+  }
+
+  private toDateRange(since?: string, until?: string): PlatformDateRange | undefined {
+    return since && until ? { since, until } : undefined;
+  }
+
+  /**
+   * An explicit since/until range, otherwise a named preset for the service to resolve in the account's timezone
+   */
+  private parseDateRange(since?: string, until?: string, preset?: string): PlatformDateRange | DatePreset {
+    const dateRange = this.toDateRange(since, until);
+    if (dateRange) {
+      return dateRange;
+    }
+
+    if (!preset) {
+      throw new BadRequestException('since and until, or a dateRange preset, are required');
+    }
+    if (!isDatePreset(preset)) {
+      throw new BadRequestException(`Unsupported dateRange preset: ${preset}. Expected one of ${DATE_PRESETS.join(', ')}`);
+    }
+    return preset;
+  }
+}
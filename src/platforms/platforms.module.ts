@@ -0,0 +1,42 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PlatformRegistryService } from './platform-registry.service';
+import { PlatformDashboardService } from './platform-dashboard.service';
+import { TokenRefreshService } from './token-refresh.service';
+import { CredentialResolverService } from './credential-resolver.service';
+import { PlatformAccountsService } from './platform-accounts.service';
+import { PlatformsController } from './platforms.controller';
+import { FacebookModule } from '../facebook/facebook.module';
+import { TikTokModule } from '../tiktok/tiktok.module';
+import { GoogleAdsModule } from '../google-ads/google-ads.module';
+import { LinkedInModule } from '../linkedin/linkedin.module';
+import { SnapchatModule } from '../snapchat/snapchat.module';
+import { TwitterModule } from '../twitter/twitter.module';
+import { FxModule } from '../fx/fx.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { AccountsModule } from '../accounts/accounts.module';
+import { SyncModule } from '../sync/sync.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
+import { tokenRefreshConfig } from '../config/token-refresh.config';
+
+@Module({
+  imports: [
+    ConfigModule.forFeature(tokenRefreshConfig),
+    // These controllers resolve credentials through this module
+    forwardRef(() => FacebookModule),
+    forwardRef(() => TikTokModule),
+    forwardRef(() => GoogleAdsModule),
+    LinkedInModule,
+    SnapchatModule,
+    TwitterModule,
+    FxModule,
+    NotificationsModule,
+    AccountsModule,
+    forwardRef(() => SyncModule),
+    OrganizationsModule,
+  ],
+  controllers: [PlatformsController],
+  providers: [PlatformRegistryService, PlatformDashboardService, TokenRefreshService, CredentialResolverService, PlatformAccountsService],
+  exports: [PlatformRegistryService, PlatformDashboardService, CredentialResolverService],
+})
+export class PlatformsModule {}
@@ -0,0 +1,112 @@
+import { Injectable, Logger, OnModuleInit, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { PlatformRegistryService, PlatformProvider } from './platform-registry.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PlatformSession } from '../common/interfaces/ad-platform.interface';
+
+export interface TokenRefreshSummary {
+  refreshed: number;
+  needsReauth: number;
+  failed: number; // left for the next run
+}
+
+const TOKEN_REFRESH_JOB_NAME = 'platform-token-refresh';
+
+/**
+ * Refreshes platform tokens shortly before they expire, so sync jobs and dashboards never hit an
+ * expired token. A session whose token cannot be refreshed is flagged for re-auth and its user notified.
+ */
+@Injectable()
+export class TokenRefreshService implements OnModuleInit {
+  private readonly logger = new Logger(TokenRefreshService.name);
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly platformRegistry: PlatformRegistryService,
+    private readonly notificationsService: NotificationsService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {}
+
+  onModuleInit() {
+    if (!this.configService.get<boolean>('tokenRefresh.enabled')) {
+      return;
+    }
+
+    const cron = this.configService.get<string>('tokenRefresh.cron') || '*/10 * * * *';
+    const job = CronJob.from({
+      cronTime: cron,
+      onTick: () => {
+        this.refreshExpiringTokens().catch((error: any) => this.logger.error(`Token refresh run failed: ${error.message}`));
+      },
+    });
+
+    this.schedulerRegistry.addCronJob(TOKEN_REFRESH_JOB_NAME, job);
+    job.start();
+  }
+
+  async refreshExpiringTokens(): Promise<TokenRefreshSummary> {
+    const summary: TokenRefreshSummary = { refreshed: 0, needsReauth: 0, failed: 0 };
+    if (this.running) {
+      return summary;
+    }
+
+    this.running = true;
+    try {
+      const windowMinutes = this.configService.get<number>('tokenRefresh.windowMinutes') || 30;
+      const expiringBefore = new Date(Date.now() + windowMinutes * 60 * 1000);
+
+      for (const provider of this.platformRegistry.getAll()) {
+        let sessions: PlatformSession[];
+        try {
+          sessions = await provider.service.getSessionsExpiringBefore(expiringBefore);
+        } catch (error: any) {
+          this.logger.error(`Could not load expiring ${provider.platform} sessions: ${error.message}`);
+          continue;
+        }
+
+        // One at a time, so a large batch doesn't trip the platform's rate limits
+        for (const session of sessions) {
+          summary[await this.refreshSession(provider, session)]++;
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    if (summary.refreshed || summary.needsReauth || summary.failed) {
+      this.logger.log(`Token refresh: ${summary.refreshed} refreshed, ${summary.needsReauth} need re-auth, ${summary.failed} failed`);
+    }
+    return summary;
+  }
+
+  private async refreshSession(provider: PlatformProvider, session: PlatformSession): Promise<keyof TokenRefreshSummary> {
+    const { platform, service } = provider;
+
+    try {
+      await service.refreshAccessToken(session.userId, session.id);
+      return 'refreshed';
+    } catch (error: any) {
+      const expired = !!session.tokenExpiresAt && session.tokenExpiresAt.getTime() <= Date.now();
+
+      // A rejected refresh won't succeed on retry; anything else is retried next run while the token is still valid
+      if (!(error instanceof UnauthorizedException) && !expired) {
+        this.logger.warn(`Could not refresh ${platform} token for user ${session.userId}, will retry: ${error.message}`);
+        return 'failed';
+      }
+
+      this.logger.warn(`${platform} token for user ${session.userId} needs re-auth: ${error.message}`);
+      await service.markNeedsReauth(session.userId, error.message, session.id);
+      await this.notificationsService.notify(
+        session.userId,
+        'platform_reauth_required',
+        `Reconnect your ${platform} account`,
+        `We couldn't renew access to your ${platform} ad account, so its data is no longer syncing. Please connect it again.`,
+        { platform, adAccountId: session.adAccountId || null, reason: error.message },
+      ).catch((notifyError: any) => this.logger.error(`Could not notify user ${session.userId}: ${notifyError.message}`));
+      return 'needsReauth';
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { Entity, Column, PrimaryGeneratedColumn, Index } from 'typeorm';
+
+/**
+ * One purge of one table
+ */
+@Entity('retention_runs')
+@Index(['tableName', 'startedAt'])
+export class RetentionRun {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'table_name' })
+  tableName: string;
+
+  @Column({ type: 'timestamp' })
+  cutoff: Date;
+
+  @Column({ name: 'deleted_rows', default: 0 })
+  deletedRows: number;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @Column({ name: 'started_at', type: 'timestamp' })
+  startedAt: Date;
+
+  @Column({ name: 'finished_at', type: 'timestamp', nullable: true })
+  finishedAt: Date | null;
+}
@@ -0,0 +1,38 @@
+import { Controller, Get, Post, UseGuards, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RetentionService } from './retention.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+/**
+ * Table sizes and purge history; restricted to super users since the tables are shared by everyone
+ */
+@Controller('admin/retention')
+@UseGuards(JwtAuthGuard)
+export class RetentionController {
+  constructor(
+    private readonly retentionService: RetentionService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Get()
+  async getReport(@CurrentUser() user: any) {
+    this.assertSuperUser(user);
+    const tables = await this.retentionService.getReport();
+    return { success: true, data: tables };
+  }
+
+  @Post('run')
+  async run(@CurrentUser() user: any) {
+    this.assertSuperUser(user);
+    const runs = await this.retentionService.purgeAll();
+    return { success: true, data: runs };
+  }
+
+  private assertSuperUser(user: any): void {
+    const superUserEmails = this.configService.get<string[]>('auth.superUserEmails') || [];
+    if (!superUserEmails.includes(user.email)) {
+      throw new ForbiddenException('Only administrators can manage data retention');
+    }
+  }
+}
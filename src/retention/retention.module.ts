@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { RetentionService } from './retention.service';
+import { RetentionController } from './retention.controller';
+import { RetentionRun } from './entities/retention-run.entity';
+import { retentionConfig } from '../config/retention.config';
+
+@Module({
+  imports: [
+    ConfigModule.forFeature(retentionConfig),
+    TypeOrmModule.forFeature([RetentionRun]),
+  ],
+  controllers: [RetentionController],
+  providers: [RetentionService],
+})
+export class RetentionModule {}
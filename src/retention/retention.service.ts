@@ -0,0 +1,218 @@
+import { Injectable, Logger, OnModuleInit, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectRepository, InjectDataSource } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { DataSource, EntityTarget, ObjectLiteral, Repository } from 'typeorm';
+import { RetentionRun } from './entities/retention-run.entity';
+import { CacheEntryRecord } from '../cache/entities/cache-entry.entity';
+import { InsightsReport } from '../facebook/entities/insights-report.entity';
+import { CampaignData } from '../facebook/entities/campaign-data.entity';
+import { TikTokCampaignData } from '../tiktok/entities/tiktok-campaign-data.entity';
+import { GoogleAdsCampaignData } from '../google-ads/entities/google-ads-campaign-data.entity';
+import { SyncJob } from '../sync/entities/sync-job.entity';
+import { DailyAdMetric } from '../sync/entities/daily-ad-metric.entity';
+import { AuthSession } from '../auth/entities/auth-session.entity';
+import { UserToken } from '../auth/entities/user-token.entity';
+import { OrganizationInvitation } from '../organizations/entities/organization-invitation.entity';
+
+interface RetentionPolicy {
+  entity: EntityTarget<ObjectLiteral>;
+  column: string; // entity property the age is measured from
+  days: number; // 0 keeps rows forever
+  condition?: string; // extra SQL limiting which rows may be purged
+}
+
+export interface RetentionTableReport {
+  table: string;
+  retentionDays: number;
+  totalBytes: number;
+  estimatedRows: number;
+  lastPurge: Pick<RetentionRun, 'cutoff' | 'deletedRows' | 'error' | 'startedAt' | 'finishedAt'> | null;
+}
+
+const RETENTION_JOB_NAME = 'data-retention';
+
+// Rows deleted per statement, so a large purge never holds long locks
+const DELETE_BATCH_SIZE = 5000;
+
+// Per-platform cache tables that cache_entries replaced. Schema sync leaves a table without an entity in place,
+// so their rows would never expire; anything in them can be fetched from the platform again.
+const LEGACY_CACHE_TABLES = ['creatives_cache', 'metrics_cache', 'google_ads_metrics_cache', 'snapchat_metrics_cache', 'tiktok_creatives_cache', 'tiktok_metrics_cache'];
+
+/**
+ * Deletes rows that have outlived their table's retention period and records each purge in retention_runs
+ */
+@Injectable()
+export class RetentionService implements OnModuleInit, OnApplicationBootstrap {
+  private readonly logger = new Logger(RetentionService.name);
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectDataSource()
+    private readonly dataSource: DataSource,
+    @InjectRepository(RetentionRun)
+    private readonly retentionRunRepository: Repository<RetentionRun>,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {}
+
+  onModuleInit() {
+    if (!this.configService.get<boolean>('retention.enabled')) {
+      return;
+    }
+
+    const cron = this.configService.get<string>('retention.cron') || '0 3 * * *';
+    const job = CronJob.from({
+      cronTime: cron,
+      onTick: () => {
+        this.purgeAll().catch((error: any) => this.logger.error(`Retention run failed: ${error.message}`));
+      },
+    });
+
+    this.schedulerRegistry.addCronJob(RETENTION_JOB_NAME, job);
+    job.start();
+  }
+
+  async onApplicationBootstrap() {
+    await this.dropLegacyCacheTables();
+  }
+
+  // ==================== PURGE ====================
+
+  /**
+   * Purge every table with a retention period. A table that fails is recorded and the rest still run.
+   */
+  async purgeAll(): Promise<RetentionRun[]> {
+    if (this.running) {
+      return [];
+    }
+
+    this.running = true;
+    try {
+      const runs: RetentionRun[] = [];
+      for (const policy of this.getPolicies().filter(policy => policy.days > 0)) {
+        try {
+          runs.push(await this.purge(policy));
+        } catch (error: any) {
+          // Failures purge() can't record itself (unknown column, saving the run) must not stop the other tables
+          this.logger.error(`Retention purge of ${(policy.entity as { name: string }).name} failed: ${error.message}`);
+        }
+      }
+      return runs;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async purge(policy: RetentionPolicy): Promise<RetentionRun> {
+    const metadata = this.dataSource.getMetadata(policy.entity);
+    const column = metadata.findColumnWithPropertyName(policy.column);
+    if (!column) {
+      throw new Error(`${metadata.tableName} has no ${policy.column} column`);
+    }
+
+    const run = this.retentionRunRepository.create({
+      tableName: metadata.tableName,
+      cutoff: new Date(Date.now() - policy.days * 24 * 60 * 60 * 1000),
+      startedAt: new Date(),
+    });
+
+    const table = `"${metadata.tableName}"`;
+    const where = `"${column.databaseName}" < $1${policy.condition ? ` AND ${policy.condition}` : ''}`;
+    const sql = `DELETE FROM ${table} WHERE ctid = ANY(ARRAY(SELECT ctid FROM ${table} WHERE ${where} LIMIT ${DELETE_BATCH_SIZE}))`;
+
+    const queryRunner = this.dataSource.createQueryRunner();
+    try {
+      let affected: number;
+      do {
+        const result = await queryRunner.query(sql, [run.cutoff], true);
+        affected = result.affected || 0;
+        run.deletedRows += affected;
+      } while (affected >= DELETE_BATCH_SIZE);
+
+      if (run.deletedRows > 0) {
+        this.logger.log(`Purged ${run.deletedRows} rows from ${metadata.tableName} older than ${run.cutoff.toISOString()}`);
+      }
+    } catch (error: any) {
+      run.error = error.message;
+      this.logger.warn(`Retention purge of ${metadata.tableName} failed after ${run.deletedRows} rows: ${error.message}`);
+    } finally {
+      await queryRunner.release();
+    }
+
+    run.finishedAt = new Date();
+    return this.retentionRunRepository.save(run);
+  }
+
+  /**
+   * Drop the legacy cache tables still left from before the unified cache. Once they are gone this does nothing.
+   */
+  private async dropLegacyCacheTables(): Promise<void> {
+    for (const table of LEGACY_CACHE_TABLES) {
+      try {
+        const [{ present }] = await this.dataSource.query(`SELECT to_regclass($1) IS NOT NULL AS present`, [table]);
+        if (present) {
+          await this.dataSource.query(`DROP TABLE "${table}"`);
+          this.logger.log(`Dropped legacy cache table ${table}`);
+        }
+      } catch (error: any) {
+        this.logger.error(`Could not drop legacy cache table ${table}: ${error.message}`);
+      }
+    }
+  }
+
+  // ==================== REPORTING ====================
+
+  /**
+   * Size on disk, estimated row count and last purge of every table under a retention policy
+   */
+  async getReport(): Promise<RetentionTableReport[]> {
+    const reports: RetentionTableReport[] = [];
+
+    for (const policy of this.getPolicies()) {
+      const { tableName } = this.dataSource.getMetadata(policy.entity);
+      const [size] = await this.dataSource.query(
+        `SELECT COALESCE(pg_total_relation_size(to_regclass($1)), 0)::bigint AS total_bytes,
+                COALESCE((SELECT reltuples FROM pg_class WHERE oid = to_regclass($1)), 0)::bigint AS estimated_rows`,
+        [tableName],
+      );
+      const lastPurge = await this.retentionRunRepository.findOne({
+        where: { tableName },
+        order: { startedAt: 'DESC' },
+      });
+
+      reports.push({
+        table: tableName,
+        retentionDays: policy.days,
+        totalBytes: Number(size?.total_bytes || 0),
+        // reltuples is -1 until the table has been analyzed
+        estimatedRows: Math.max(Number(size?.estimated_rows || 0), 0),
+        lastPurge: lastPurge
+          ? { cutoff: lastPurge.cutoff, deletedRows: lastPurge.deletedRows, error: lastPurge.error, startedAt: lastPurge.startedAt, finishedAt: lastPurge.finishedAt }
+          : null,
+      });
+    }
+
+    return reports;
+  }
+
+  private getPolicies(): RetentionPolicy[] {
+    const days = (key: string) => this.configService.get<number>(`retention.${key}`) ?? 0;
+    const campaignDataDays = days('campaignDataDays');
+
+    return [
+      { entity: CacheEntryRecord, column: 'expiresAt', days: days('cacheEntriesDays') },
+      // Rows go with their report through the ON DELETE CASCADE foreign key
+      { entity: InsightsReport, column: 'createdAt', days: days('insightsReportsDays'), condition: `status IN ('completed', 'failed')` },
+      { entity: SyncJob, column: 'updatedAt', days: days('syncJobsDays'), condition: `status IN ('completed', 'failed', 'cancelled')` },
+      { entity: CampaignData, column: 'createdAt', days: campaignDataDays },
+      { entity: TikTokCampaignData, column: 'updatedAt', days: campaignDataDays },
+      { entity: GoogleAdsCampaignData, column: 'updatedAt', days: campaignDataDays },
+      { entity: DailyAdMetric, column: 'date', days: days('dailyMetricsDays') },
+      { entity: AuthSession, column: 'expiresAt', days: days('authSessionsDays') },
+      { entity: UserToken, column: 'expiresAt', days: days('userTokensDays') },
+      { entity: OrganizationInvitation, column: 'expiresAt', days: days('organizationInvitationsDays') },
+    ];
+  }
+}
@@ -14,7 +14,7 @@ export class ShareableLinksController {
     @Body() body: { adAccountId?: string; expiresInDays?: number; maxUses?: number },
   ) {
     const link = await this.shareableLinksService.createShareableLink(
-      user.userId,
+      user.id,
       body.adAccountId,
       body.expiresInDays,
       body.maxUses,
@@ -25,7 +25,7 @@ export class ShareableLinksController {
   @UseGuards(JwtAuthGuard)
   @Get()
   async findAll(@CurrentUser() user: any) {
-    const links = await this.shareableLinksService.getShareableLinksByUserId(user.userId);
+    const links = await this.shareableLinksService.getShareableLinksByUserId(user.id);
     return { success: true, links };
   }
 
@@ -50,7 +50,7 @@ export class ShareableLinksController {
   @UseGuards(JwtAuthGuard)
   @Post(':id/revoke')
   async revoke(@Param('id') id: string, @CurrentUser() user: any) {
-    const link = await this.shareableLinksService.revokeShareableLink(+id, user.userId);
+    const link = await this.shareableLinksService.revokeShareableLink(+id, user.id);
     if (!link) {
       return { success: false, error: 'Link not found or not owned by user' };
     }
@@ -60,7 +60,7 @@ export class ShareableLinksController {
   @UseGuards(JwtAuthGuard)
   @Delete(':id')
   async remove(@Param('id') id: string, @CurrentUser() user: any) {
-    await this.shareableLinksService.deleteShareableLink(+id, user.userId);
+    await this.shareableLinksService.deleteShareableLink(+id, user.id);
     return { success: true };
   }
 }
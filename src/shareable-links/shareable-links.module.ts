@@ -3,9 +3,10 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { ShareableLinksService } from './shareable-links.service';
 import { ShareableLinksController } from './shareable-links.controller';
 import { ShareableLink } from './entities/shareable-link.entity';
+import { OrganizationsModule } from '../organizations/organizations.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([ShareableLink])],
+  imports: [TypeOrmModule.forFeature([ShareableLink]), OrganizationsModule],
   controllers: [ShareableLinksController],
   providers: [ShareableLinksService],
   exports: [ShareableLinksService],
@@ -3,10 +3,12 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { ShareableLink } from './entities/shareable-link.entity';
 import { randomBytes } from 'crypto';
+import { OrganizationsService } from '../organizations/organizations.service';
 
 @Injectable()
 export class ShareableLinksService {
   constructor(
+    private readonly organizationsService: OrganizationsService,
     @InjectRepository(ShareableLink)
     private shareableLinkRepository: Repository<ShareableLink>,
   ) {}
@@ -26,6 +28,7 @@ export class ShareableLinksService {
 
     const link = this.shareableLinkRepository.create({
       userId,
+      organizationId: await this.organizationsService.getCurrentOrganizationId(userId),
       token,
       adAccountId,
       expiresAt,
@@ -70,15 +73,20 @@ export class ShareableLinksService {
     return 0;
   }
 
+  /**
+   * The links of the user's current organization
+   */
   async getShareableLinksByUserId(userId: number): Promise<ShareableLink[]> {
+    const organizationId = await this.organizationsService.getCurrentOrganizationId(userId);
     return this.shareableLinkRepository.find({
-      where: { userId },
+      where: { organizationId },
       order: { createdAt: 'DESC' },
     });
   }
 
   async revokeShareableLink(id: number, userId: number): Promise<ShareableLink | null> {
-    const link = await this.shareableLinkRepository.findOneBy({ id, userId });
+    const organizationId = await this.organizationsService.getCurrentOrganizationId(userId);
+    const link = await this.shareableLinkRepository.findOneBy({ id, organizationId });
     if (link) {
       link.isActive = false;
       return this.shareableLinkRepository.save(link);
@@ -87,6 +95,7 @@ export class ShareableLinksService {
   }
 
   async deleteShareableLink(id: number, userId: number): Promise<void> {
-    await this.shareableLinkRepository.delete({ id, userId });
+    const organizationId = await this.organizationsService.getCurrentOrganizationId(userId);
+    await this.shareableLinkRepository.delete({ id, organizationId });
   }
 }
@@ -0,0 +1 @@
+export * from './snapchat-session.entity';
@@ -0,0 +1,52 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { AdPlatform } from '../../common/interfaces/ad-platform.interface';
+import { encryptedColumn } from '../../encryption/encrypted-column.transformer';
+
+@Entity('snapchat_sessions')
+export class SnapchatSession {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'user_id' })
+  userId: number;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'access_token', type: 'text', transformer: encryptedColumn })
+  accessToken: string;
+
+  @Column({ name: 'refresh_token', type: 'text', nullable: true, transformer: encryptedColumn })
+  refreshToken: string;
+
+  @Column({ name: 'ad_account_id', nullable: true })
+  adAccountId: string;
+
+  @Column({ name: 'ad_account_name', nullable: true })
+  adAccountName: string;
+
+  @Column({ name: 'ad_account_timezone', nullable: true })
+  adAccountTimezone: string;
+
+  @Column({ name: 'token_expires_at', nullable: true })
+  tokenExpiresAt: Date;
+
+  // Set when the token could not be refreshed; the user has to connect the platform again
+  @Column({ name: 'needs_reauth', default: false })
+  needsReauth: boolean;
+
+  @Column({ name: 'reauth_reason', type: 'text', nullable: true })
+  reauthReason: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  get platform(): AdPlatform {
+    return AdPlatform.SNAPCHAT;
+  }
+}
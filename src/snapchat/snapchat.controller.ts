@@ -0,0 +1,345 @@
+import { Controller, Get, Post, Delete, Body, Query, Param, UseGuards, BadRequestException, Res } from '@nestjs/common';
+import type { Response } from 'express';
+import { SnapchatService } from './snapchat.service';
+import { SnapchatSession } from './entities/snapchat-session.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ConfigService } from '@nestjs/config';
+
+@Controller('snapchat')
+export class SnapchatController {
+  constructor(
+    private readonly snapchatService: SnapchatService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Get('health')
+  async healthCheck() {
+    return {
+      status: 'ok',
+      service: 'snapchat',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  // ==================== OAUTH ====================
+
+  @Get('auth/url')
+  @UseGuards(JwtAuthGuard)
+  async getAuthUrl(@CurrentUser() user: any) {
+    const state = Buffer.from(JSON.stringify({ userId: user.id })).toString('base64');
+    return { success: true, authUrl: this.snapchatService.getAuthUrl(state) };
+  }
+
+  @Get('auth/callback')
+  async handleAuthCallback(
+    @Query('code') code: string,
+    @Query('state') state: string,
+    @Res() res: Response,
+  ) {
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000';
+
+    try {
+      if (!code || !state) {
+        throw new BadRequestException('Missing code or state');
+      }
+
+      // Redirect to frontend callback page with the parameters
+      const callbackUrl = new URL('/snapchat/callback', frontendUrl);
+      callbackUrl.searchParams.set('code', code);
+      callbackUrl.searchParams.set('state', state);
+
+      return res.redirect(callbackUrl.toString());
+    } catch (error: any) {
+      return res.redirect(`${frontendUrl}/snapchat?snapchat_error=${encodeURIComponent(error.message)}`);
+    }
+  }
+
+  @Post('auth/callback')
+  @UseGuards(JwtAuthGuard)
+  async handleAuthCallbackPost(
+    @CurrentUser() user: any,
+    @Body() body: { code: string; state?: string },
+  ) {
+    try {
+      if (!body.code) {
+        throw new BadRequestException('Missing authorization code');
+      }
+
+      const tokenData = await this.snapchatService.exchangeCodeForToken(body.code);
+      const tokenExpiresAt = new Date(Date.now() + (tokenData.expires_in || 1800) * 1000);
+
+      // Preselect the first ad account, like TikTok does with its first advertiser
+      let adAccount: { id: string; name: string; timezone: string } | undefined;
+      try {
+        const adAccounts = await this.snapchatService.getAdAccounts(tokenData.access_token);
+        adAccount = adAccounts[0];
+      } catch {
+        // Continue without ad account
+      }
+
+      await this.snapchatService.saveSession(
+        user.id,
+        tokenData.access_token,
+        tokenData.refresh_token,
+        adAccount?.id,
+        tokenExpiresAt,
+        adAccount?.name,
+        adAccount?.timezone,
+      );
+
+      return {
+        success: true,
+        message: 'Successfully connected to Snapchat Ads',
+        session: {
+          adAccountId: adAccount?.id,
+          adAccountName: adAccount?.name,
+        },
+      };
+    } catch (error: any) {
+      throw new BadRequestException(error.message || 'Failed to complete Snapchat authorization');
+    }
+  }
+
+  // ==================== SESSION ====================
+
+  @Get('subscription/status')
+  @UseGuards(JwtAuthGuard)
+  async getSubscriptionStatus(@CurrentUser() user: any) {
+    const status = await this.snapchatService.getSubscriptionStatus(user.id);
+    return {
+      success: true,
+      ...status,
+    };
+  }
+
+  @Get('session')
+  @UseGuards(JwtAuthGuard)
+  async getSession(@CurrentUser() user: any) {
+    const session = await this.snapchatService.getSession(user.id);
+    if (!session) {
+      return { success: false, message: 'No Snapchat session found' };
+    }
+    return {
+      success: true,
+      session: {
+        id: session.id,
+        userId: session.userId,
+        adAccountId: session.adAccountId,
+        adAccountName: session.adAccountName,
+        tokenExpiresAt: session.tokenExpiresAt,
+        hasToken: !!session.accessToken,
+      },
+    };
+  }
+
+  @Delete('session')
+  @UseGuards(JwtAuthGuard)
+  async deleteSession(@CurrentUser() user: any) {
+    await this.snapchatService.deleteSession(user.id);
+    return { success: true, message: 'Snapchat session deleted' };
+  }
+
+  @Post('session/refresh')
+  @UseGuards(JwtAuthGuard)
+  async refreshToken(@CurrentUser() user: any) {
+    const session = await this.snapchatService.refreshAccessToken(user.id);
+    return { success: true, expiresAt: session.tokenExpiresAt };
+  }
+
+  // ==================== AD ACCOUNTS ====================
+
+  @Get('ad-accounts')
+  @UseGuards(JwtAuthGuard)
+  async getAdAccounts(@CurrentUser() user: any) {
+    const session = await this.snapchatService.getValidSession(user.id);
+    if (!session) {
+      throw new BadRequestException('No Snapchat session found');
+    }
+
+    const adAccounts = await this.snapchatService.getAdAccounts(session.accessToken);
+    return { success: true, adAccounts };
+  }
+
+  @Post('ad-accounts/select')
+  @UseGuards(JwtAuthGuard)
+  async selectAdAccount(
+    @CurrentUser() user: any,
+    @Body() body: { adAccountId: string; adAccountName?: string },
+  ) {
+    if (!body.adAccountId) {
+      throw new BadRequestException('adAccountId is required');
+    }
+
+    const session = await this.snapchatService.getValidSession(user.id);
+    if (!session) {
+      throw new BadRequestException('No Snapchat session found');
+    }
+
+    await this.snapchatService.validateAdAccountAccess(user.id, body.adAccountId);
+
+    const adAccount = await this.snapchatService.getAdAccount(session.accessToken, body.adAccountId);
+
+    await this.snapchatService.saveSession(
+      user.id,
+      session.accessToken,
+      session.refreshToken,
+      body.adAccountId,
+      session.tokenExpiresAt,
+      body.adAccountName || adAccount?.name,
+      adAccount?.timezone,
+    );
+
+    return { success: true, adAccountId: body.adAccountId };
+  }
+
+  // ==================== CAMPAIGNS ====================
+
+  @Get('campaigns')
+  @UseGuards(JwtAuthGuard)
+  async getCampaigns(
+    @CurrentUser() user: any,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+  ) {
+    const session = await this.getValidatedSession(user.id);
+
+    const dateRange = since && until ? { since, until } : undefined;
+    return this.snapchatService.getCampaigns(session.accessToken, session.adAccountId, dateRange);
+  }
+
+  @Get('campaigns/:id')
+  @UseGuards(JwtAuthGuard)
+  async getCampaign(@CurrentUser() user: any, @Param('id') campaignId: string) {
+    const session = await this.getValidatedSession(user.id);
+    return this.snapchatService.getCampaign(session.accessToken, campaignId);
+  }
+
+  // ==================== AD SQUADS ====================
+
+  @Get('adsquads')
+  @UseGuards(JwtAuthGuard)
+  async getAdSquads(
+    @CurrentUser() user: any,
+    @Query('campaignId') campaignId?: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+  ) {
+    const session = await this.getValidatedSession(user.id);
+
+    const dateRange = since && until ? { since, until } : undefined;
+    return this.snapchatService.getAdGroups(session.accessToken, campaignId || '', dateRange, session.adAccountId);
+  }
+
+  @Get('adsquads/:id')
+  @UseGuards(JwtAuthGuard)
+  async getAdSquad(@CurrentUser() user: any, @Param('id') adSquadId: string) {
+    const session = await this.getValidatedSession(user.id);
+    return this.snapchatService.getAdGroup(session.accessToken, adSquadId);
+  }
+
+  // ==================== ADS ====================
+
+  @Get('ads')
+  @UseGuards(JwtAuthGuard)
+  async getAds(
+    @CurrentUser() user: any,
+    @Query('adSquadId') adSquadId?: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+  ) {
+    const session = await this.getValidatedSession(user.id);
+
+    const dateRange = since && until ? { since, until } : undefined;
+    return this.snapchatService.getAds(session.accessToken, adSquadId || '', dateRange, session.adAccountId);
+  }
+
+  @Get('ads/:id')
+  @UseGuards(JwtAuthGuard)
+  async getAd(@CurrentUser() user: any, @Param('id') adId: string) {
+    const session = await this.getValidatedSession(user.id);
+    return this.snapchatService.getAd(session.accessToken, adId);
+  }
+
+  // ==================== CREATIVES ====================
+
+  @Get('creatives')
+  @UseGuards(JwtAuthGuard)
+  async getCreatives(@CurrentUser() user: any) {
+    const session = await this.getValidatedSession(user.id);
+    return this.snapchatService.getCreatives(session.accessToken, session.adAccountId);
+  }
+
+  @Get('creatives/:id')
+  @UseGuards(JwtAuthGuard)
+  async getCreative(@CurrentUser() user: any, @Param('id') creativeId: string) {
+    const session = await this.getValidatedSession(user.id);
+    return this.snapchatService.getCreative(session.accessToken, creativeId);
+  }
+
+  // ==================== METRICS ====================
+
+  @Get('metrics/account')
+  @UseGuards(JwtAuthGuard)
+  async getAccountMetrics(
+    @CurrentUser() user: any,
+    @Query('since') since: string,
+    @Query('until') until: string,
+  ) {
+    if (!since || !until) {
+      throw new BadRequestException('since and until date parameters are required');
+    }
+
+    const session = await this.getValidatedSession(user.id);
+    return this.snapchatService.getAccountMetrics(session.accessToken, session.adAccountId, { since, until });
+  }
+
+  @Get('metrics/campaigns/:id')
+  @UseGuards(JwtAuthGuard)
+  async getCampaignMetrics(
+    @CurrentUser() user: any,
+    @Param('id') campaignId: string,
+    @Query('since') since: string,
+    @Query('until') until: string,
+  ) {
+    if (!since || !until) {
+      throw new BadRequestException('since and until date parameters are required');
+    }
+
+    const session = await this.getValidatedSession(user.id);
+    return this.snapchatService.getCampaignMetrics(session.accessToken, campaignId, { since, until }, session.adAccountId);
+  }
+
+  // ==================== TIME SERIES METRICS ====================
+
+  @Get('metrics/daily')
+  @UseGuards(JwtAuthGuard)
+  async getDailyMetrics(
+    @CurrentUser() user: any,
+    @Query('since') since: string,
+    @Query('until') until: string,
+  ) {
+    if (!since || !until) {
+      throw new BadRequestException('since and until date parameters are required');
+    }
+
+    const session = await this.getValidatedSession(user.id);
+    return this.snapchatService.getDailyMetrics(session.accessToken, session.adAccountId, { since, until });
+  }
+
+  /**
+   * Load the user's (refreshed) session and check the selected ad account is covered by a paid seat
+   */
+  private async getValidatedSession(userId: number): Promise<SnapchatSession> {
+    const session = await this.snapchatService.getValidSession(userId);
+    if (!session || !session.adAccountId) {
+      throw new BadRequestException('No Snapchat session or ad account selected');
+    }
+
+    // Subscription validation
+    await this.snapchatService.validateSubscription(userId);
+    await this.snapchatService.validateAdAccountAccess(userId, session.adAccountId);
+
+    return session;
+  }
+}
@@ -0,0 +1,23 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { SnapchatService } from './snapchat.service';
+import { SnapchatController } from './snapchat.controller';
+import { SnapchatSession } from './entities/snapchat-session.entity';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { AccountsModule } from '../accounts/accounts.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      SnapchatSession,
+    ]),
+    ConfigModule,
+    forwardRef(() => SubscriptionsModule),
+    AccountsModule,
+  ],
+  controllers: [SnapchatController],
+  providers: [SnapchatService],
+  exports: [SnapchatService],
+})
+export class SnapchatModule {}
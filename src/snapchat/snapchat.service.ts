@@ -0,0 +1,893 @@
+import { Injectable, Logger, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, IsNull, Not, LessThan } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { SnapchatSession } from './entities/snapchat-session.entity';
+import { PlatformSubscriptionsService } from '../subscriptions/platform-subscriptions.service';
+import { BaseAdPlatformService } from '../common/services/base-ad-platform.service';
+import { toAccountMidnight } from '../common/utils/date-range.util';
+import { CacheService } from '../cache/cache.service';
+import { ConnectedAccountsService } from '../accounts/connected-accounts.service';
+import { cacheKey } from '../cache/cache.util';
+import { SNAPCHAT_ENDPOINTS, SNAPCHAT_MICRO } from '../config/snapchat.config';
+import {
+  AdPlatform,
+  PlatformMetrics,
+  PlatformCampaign,
+  PlatformAdGroup,
+  PlatformAd,
+  PlatformCreative,
+  PlatformDateRange,
+  PlatformApiResponse,
+  DailyAdMetrics,
+} from '../common/interfaces/ad-platform.interface';
+
+interface SnapchatApiResponse {
+  request_status: string;
+  request_id?: string;
+  debug_message?: string;
+  paging?: {
+    next_link?: string;
+  };
+}
+
+export interface SnapchatAdAccountApiData {
+  id: string;
+  name: string;
+  currency: string;
+  timezone: string;
+  status: string;
+  organization_id?: string;
+}
+
+interface SnapchatCampaignApiData {
+  id: string;
+  name: string;
+  ad_account_id: string;
+  status: string;
+  objective?: string;
+  start_time?: string;
+  end_time?: string;
+  daily_budget_micro?: number;
+  lifetime_spend_cap_micro?: number;
+}
+
+interface SnapchatAdSquadApiData {
+  id: string;
+  name: string;
+  campaign_id: string;
+  status: string;
+  type?: string;
+  targeting?: Record<string, any>;
+  daily_budget_micro?: number;
+  lifetime_budget_micro?: number;
+  bid_micro?: number;
+}
+
+interface SnapchatAdApiData {
+  id: string;
+  name: string;
+  ad_squad_id: string;
+  creative_id: string;
+  status: string;
+  type?: string;
+  review_status?: string;
+}
+
+interface SnapchatCreativeApiData {
+  id: string;
+  name: string;
+  type: string;
+  headline?: string;
+  brand_name?: string;
+  call_to_action?: string;
+  top_snap_media_id?: string;
+  web_view_properties?: {
+    url?: string;
+  };
+}
+
+interface SnapchatStatsFields {
+  impressions?: number;
+  swipes?: number;
+  spend?: number;
+  conversion_purchases?: number;
+  conversion_purchases_value?: number;
+}
+
+interface SnapchatTotalStatApiData {
+  id: string;
+  type: string;
+  stats?: SnapchatStatsFields;
+  breakdown_stats?: Record<string, { id: string; type: string; stats: SnapchatStatsFields }[]>;
+}
+
+interface SnapchatTimeseriesApiData {
+  start_time: string;
+  end_time: string;
+  stats: SnapchatStatsFields;
+}
+
+interface SnapchatTimeseriesStatApiData {
+  id: string;
+  type: string;
+  timeseries: SnapchatTimeseriesApiData[];
+  breakdown_stats?: Record<string, { id: string; type: string; timeseries: SnapchatTimeseriesApiData[] }[]>;
+}
+
+interface SnapchatStatsApiResponse extends SnapchatApiResponse {
+  total_stats?: { sub_request_status: string; total_stat: SnapchatTotalStatApiData }[];
+  timeseries_stats?: { sub_request_status: string; timeseries_stat: SnapchatTimeseriesStatApiData }[];
+}
+
+interface SnapchatTokenResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+  error?: string;
+  error_description?: string;
+}
+
+const STATS_FIELDS = 'impressions,swipes,spend,conversion_purchases,conversion_purchases_value';
+
+@Injectable()
+export class SnapchatService extends BaseAdPlatformService {
+  protected readonly logger = new Logger(SnapchatService.name);
+  protected readonly platform = AdPlatform.SNAPCHAT;
+  protected readonly apiVersion = 'v1';
+  protected readonly baseUrl = 'https://adsapi.snapchat.com';
+  private readonly accountTimezones = new Map<string, string>();
+  private readonly accountCurrencies = new Map<string, string>();
+
+  constructor(
+    @InjectRepository(SnapchatSession)
+    private sessionRepository: Repository<SnapchatSession>,
+    private configService: ConfigService,
+    private readonly platformSubscriptionsService: PlatformSubscriptionsService,
+    private readonly cacheService: CacheService,
+    private readonly connectedAccountsService: ConnectedAccountsService,
+  ) {
+    super();
+  }
+
+  // ==================== SUBSCRIPTION VALIDATION ====================
+
+  /**
+   * Check if user has paid access to any Snapchat Ads accounts
+   */
+  async validateSubscription(userId: number): Promise<void> {
+    const seats = await this.platformSubscriptionsService.getPlatformSeatsByUser(userId, this.platform);
+
+    if (seats.length === 0) {
+      throw new ForbiddenException(
+        'No active Snapchat Ads subscriptions. Please subscribe to at least one Snapchat Ads account.',
+      );
+    }
+  }
+
+  /**
+   * Check if user can access a specific Snapchat ad account
+   */
+  async validateAdAccountAccess(userId: number, adAccountId: string): Promise<void> {
+    const seats = await this.platformSubscriptionsService.getPlatformSeatsByUser(userId, this.platform);
+    const hasAccess = seats.some(seat => seat.adAccountId === adAccountId);
+
+    if (!hasAccess) {
+      throw new ForbiddenException(
+        'This Snapchat ad account is not included in your subscription. Please add it to your plan.',
+      );
+    }
+  }
+
+  /**
+   * Get subscription status for Snapchat Ads
+   */
+  async getSubscriptionStatus(userId: number): Promise<{
+    hasSubscription: boolean;
+    adAccountIds: string[];
+    planType?: string;
+  }> {
+    const seats = await this.platformSubscriptionsService.getPlatformSeatsByUser(userId, this.platform);
+
+    if (seats.length === 0) {
+      return {
+        hasSubscription: false,
+        adAccountIds: [],
+      };
+    }
+
+    return {
+      hasSubscription: true,
+      adAccountIds: seats.map(seat => seat.adAccountId),
+      planType: seats[0]?.subscription?.planName,
+    };
+  }
+
+  // ==================== OAUTH ====================
+
+  getAuthUrl(state: string): string {
+    const params = new URLSearchParams({
+      client_id: this.configService.get<string>('snapchat.clientId') || '',
+      redirect_uri: this.configService.get<string>('snapchat.redirectUri') || '',
+      response_type: 'code',
+      scope: SNAPCHAT_ENDPOINTS.SCOPE,
+      state,
+    });
+
+    return `${SNAPCHAT_ENDPOINTS.AUTH_URL}?${params.toString()}`;
+  }
+
+  async exchangeCodeForToken(code: string): Promise<SnapchatTokenResponse> {
+    return this.requestToken({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.configService.get<string>('snapchat.redirectUri') || '',
+    });
+  }
+
+  private async requestToken(params: Record<string, string>): Promise<SnapchatTokenResponse> {
+    const response = await fetch(SNAPCHAT_ENDPOINTS.ACCESS_TOKEN, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        ...params,
+        client_id: this.configService.get<string>('snapchat.clientId') || '',
+        client_secret: this.configService.get<string>('snapchat.clientSecret') || '',
+      }).toString(),
+    });
+
+    const data: SnapchatTokenResponse = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(`Token request failed: ${data.error_description || data.error || response.status}`);
+    }
+
+    return data;
+  }
+
+  // ==================== SESSION MANAGEMENT ====================
+
+  async saveSession(
+    userId: number,
+    accessToken: string,
+    refreshToken?: string,
+    adAccountId?: string,
+    tokenExpiresAt?: Date,
+    adAccountName?: string,
+    adAccountTimezone?: string,
+  ): Promise<SnapchatSession> {
+    let session = await this.sessionRepository.findOneBy({ userId });
+
+    if (session) {
+      session.accessToken = accessToken;
+      session.refreshToken = refreshToken || session.refreshToken;
+      session.adAccountId = adAccountId || session.adAccountId;
+      session.adAccountName = adAccountName || session.adAccountName;
+      session.adAccountTimezone = adAccountTimezone || session.adAccountTimezone;
+      session.tokenExpiresAt = tokenExpiresAt || session.tokenExpiresAt;
+      session.needsReauth = false;
+      session.reauthReason = null;
+    } else {
+      session = this.sessionRepository.create({
+        userId,
+        accessToken,
+        refreshToken,
+        adAccountId,
+        adAccountName,
+        adAccountTimezone,
+        tokenExpiresAt,
+      });
+    }
+
+    const saved = await this.sessionRepository.save(session);
+
+    if (saved.adAccountId) {
+      await this.connectedAccountsService.connect(userId, this.platform, saved.id, saved.adAccountId, saved.adAccountName);
+    }
+
+    // Selecting the ad account again or refreshing its token starts it from a clean cache
+    await this.cacheService.invalidateAccount(AdPlatform.SNAPCHAT, saved.adAccountId);
+    return saved;
+  }
+
+  async getSession(userId: number): Promise<SnapchatSession | null> {
+    return this.sessionRepository.findOneBy({ userId });
+  }
+
+  /**
+   * Snapchat access tokens only live for 30 minutes, so refresh shortly before expiry
+   */
+  async getValidSession(userId: number): Promise<SnapchatSession | null> {
+    const session = await this.getSession(userId);
+    if (!session) {
+      return null;
+    }
+
+    const refreshThreshold = Date.now() + 60 * 1000;
+    if (session.tokenExpiresAt && session.tokenExpiresAt.getTime() < refreshThreshold && session.refreshToken) {
+      return this.refreshAccessToken(userId);
+    }
+
+    return session;
+  }
+
+  async deleteSession(userId: number): Promise<void> {
+    await this.sessionRepository.delete({ userId });
+    await this.connectedAccountsService.disconnectSession(userId, this.platform);
+  }
+
+  async getConnectedSessions(): Promise<SnapchatSession[]> {
+    return this.sessionRepository.find({ where: { adAccountId: Not(IsNull()) } });
+  }
+
+  async getSessionsExpiringBefore(date: Date): Promise<SnapchatSession[]> {
+    return this.sessionRepository.find({ where: { tokenExpiresAt: LessThan(date), needsReauth: false } });
+  }
+
+  async markNeedsReauth(userId: number, reason: string): Promise<void> {
+    await this.sessionRepository.update({ userId }, { needsReauth: true, reauthReason: reason });
+  }
+
+  async refreshAccessToken(userId: number): Promise<SnapchatSession> {
+    const session = await this.getSession(userId);
+    if (!session || !session.refreshToken) {
+      throw new UnauthorizedException('No session or refresh token found');
+    }
+
+    let data: SnapchatTokenResponse;
+    try {
+      data = await this.requestToken({
+        grant_type: 'refresh_token',
+        refresh_token: session.refreshToken,
+      });
+    } catch (error: any) {
+      this.logger.warn(`Token refresh failed for user ${userId}: ${error.message}`);
+      throw new UnauthorizedException(error.message);
+    }
+
+    const tokenExpiresAt = new Date(Date.now() + data.expires_in * 1000);
+
+    return this.saveSession(
+      userId,
+      data.access_token,
+      data.refresh_token,
+      session.adAccountId,
+      tokenExpiresAt,
+      session.adAccountName,
+      session.adAccountTimezone,
+    );
+  }
+
+  // ==================== AD ACCOUNT MANAGEMENT ====================
+
+  async getAdAccounts(accessToken: string): Promise<SnapchatAdAccountApiData[]> {
+    const response = await this.makeApiCall<SnapchatApiResponse & {
+      organizations: { organization: { id: string; name: string; ad_accounts?: SnapchatAdAccountApiData[] } }[];
+    }>(this.buildUrl(SNAPCHAT_ENDPOINTS.ME_ORGANIZATIONS), accessToken, { with_ad_accounts: true });
+
+    return (response.organizations || []).flatMap(({ organization }) =>
+      (organization.ad_accounts || []).map((account) => ({
+        id: account.id,
+        name: account.name,
+        currency: account.currency,
+        timezone: account.timezone,
+        status: account.status,
+        organization_id: organization.id,
+      })),
+    );
+  }
+
+  async getAdAccount(accessToken: string, adAccountId: string): Promise<SnapchatAdAccountApiData | null> {
+    const response = await this.makeApiCall<SnapchatApiResponse & {
+      adaccounts: { adaccount: SnapchatAdAccountApiData }[];
+    }>(this.buildUrl(SNAPCHAT_ENDPOINTS.AD_ACCOUNT(adAccountId)), accessToken);
+
+    const account = response.adaccounts?.[0]?.adaccount || null;
+    if (account?.timezone) {
+      this.accountTimezones.set(account.id, account.timezone);
+    }
+    if (account?.currency) {
+      this.accountCurrencies.set(account.id, account.currency);
+    }
+
+    return account;
+  }
+
+  async getAccountCurrency(accessToken: string, adAccountId: string): Promise<string> {
+    if (!this.accountCurrencies.has(adAccountId)) {
+      const account = await this.getAdAccount(accessToken, adAccountId);
+      if (!account?.currency) {
+        throw new Error(`Currency not available for Snapchat ad account ${adAccountId}`);
+      }
+    }
+
+    return this.accountCurrencies.get(adAccountId)!;
+  }
+
+  // ==================== CAMPAIGN OPERATIONS ====================
+
+  async getCampaigns(
+    accessToken: string,
+    adAccountId: string,
+    dateRange?: PlatformDateRange,
+  ): Promise<PlatformApiResponse<PlatformCampaign[]>> {
+    try {
+      const items = await this.fetchAllPages<{ campaign: SnapchatCampaignApiData }>(
+        accessToken,
+        SNAPCHAT_ENDPOINTS.ACCOUNT_CAMPAIGNS(adAccountId),
+        'campaigns',
+      );
+
+      const campaigns = items.map(({ campaign }) => this.mapCampaign(campaign));
+
+      // Fetch metrics if date range provided
+      if (dateRange && campaigns.length > 0) {
+        const metricsMap = await this.getBreakdownMetrics(accessToken, adAccountId, 'campaign', dateRange);
+        campaigns.forEach((campaign) => {
+          campaign.metrics = metricsMap[campaign.id];
+        });
+      }
+
+      return {
+        success: true,
+        data: campaigns,
+        pagination: {
+          hasMore: false,
+          totalCount: campaigns.length,
+        },
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to get campaigns', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getCampaign(accessToken: string, campaignId: string): Promise<PlatformApiResponse<PlatformCampaign>> {
+    try {
+      const response = await this.makeApiCall<SnapchatApiResponse & { campaigns: { campaign: SnapchatCampaignApiData }[] }>(
+        this.buildUrl(SNAPCHAT_ENDPOINTS.CAMPAIGN(campaignId)),
+        accessToken,
+      );
+
+      const campaign = response.campaigns?.[0]?.campaign;
+      if (!campaign) {
+        return { success: false, error: 'Campaign not found' };
+      }
+
+      return { success: true, data: this.mapCampaign(campaign) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ==================== AD SQUAD OPERATIONS ====================
+
+  async getAdGroups(
+    accessToken: string,
+    campaignId: string,
+    dateRange?: PlatformDateRange,
+    adAccountId?: string,
+  ): Promise<PlatformApiResponse<PlatformAdGroup[]>> {
+    if (!campaignId && !adAccountId) {
+      return { success: false, error: 'Either a campaign ID or an ad account ID is required' };
+    }
+
+    try {
+      const path = campaignId
+        ? SNAPCHAT_ENDPOINTS.CAMPAIGN_ADSQUADS(campaignId)
+        : SNAPCHAT_ENDPOINTS.ACCOUNT_ADSQUADS(adAccountId!);
+      const items = await this.fetchAllPages<{ adsquad: SnapchatAdSquadApiData }>(accessToken, path, 'adsquads');
+
+      const adGroups = items.map(({ adsquad }) => this.mapAdSquad(adsquad));
+
+      if (dateRange && adAccountId && adGroups.length > 0) {
+        const metricsMap = await this.getBreakdownMetrics(accessToken, adAccountId, 'adsquad', dateRange);
+        adGroups.forEach((adGroup) => {
+          adGroup.metrics = metricsMap[adGroup.id];
+        });
+      }
+
+      return {
+        success: true,
+        data: adGroups,
+        pagination: {
+          hasMore: false,
+          totalCount: adGroups.length,
+        },
+      };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getAdGroup(accessToken: string, adGroupId: string): Promise<PlatformApiResponse<PlatformAdGroup>> {
+    try {
+      const response = await this.makeApiCall<SnapchatApiResponse & { adsquads: { adsquad: SnapchatAdSquadApiData }[] }>(
+        this.buildUrl(SNAPCHAT_ENDPOINTS.ADSQUAD(adGroupId)),
+        accessToken,
+      );
+
+      const adSquad = response.adsquads?.[0]?.adsquad;
+      if (!adSquad) {
+        return { success: false, error: 'Ad squad not found' };
+      }
+
+      return { success: true, data: this.mapAdSquad(adSquad) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ==================== AD OPERATIONS ====================
+
+  async getAds(
+    accessToken: string,
+    adGroupId: string,
+    dateRange?: PlatformDateRange,
+    adAccountId?: string,
+  ): Promise<PlatformApiResponse<PlatformAd[]>> {
+    if (!adGroupId && !adAccountId) {
+      return { success: false, error: 'Either an ad squad ID or an ad account ID is required' };
+    }
+
+    try {
+      const path = adGroupId
+        ? SNAPCHAT_ENDPOINTS.ADSQUAD_ADS(adGroupId)
+        : SNAPCHAT_ENDPOINTS.ACCOUNT_ADS(adAccountId!);
+      const items = await this.fetchAllPages<{ ad: SnapchatAdApiData }>(accessToken, path, 'ads');
+
+      // Ads only reference their ad squad, so resolve the owning campaigns in one pass
+      const adSquadCampaigns: Record<string, string> = {};
+      if (adAccountId) {
+        const adSquads = await this.fetchAllPages<{ adsquad: SnapchatAdSquadApiData }>(
+          accessToken,
+          SNAPCHAT_ENDPOINTS.ACCOUNT_ADSQUADS(adAccountId),
+          'adsquads',
+        );
+        adSquads.forEach(({ adsquad }) => {
+          adSquadCampaigns[adsquad.id] = adsquad.campaign_id;
+        });
+      }
+
+      const ads = items.map(({ ad }) => this.mapAd(ad, adSquadCampaigns[ad.ad_squad_id]));
+
+      if (dateRange && adAccountId && ads.length > 0) {
+        const metricsMap = await this.getBreakdownMetrics(accessToken, adAccountId, 'ad', dateRange);
+        ads.forEach((ad) => {
+          ad.metrics = metricsMap[ad.id];
+        });
+      }
+
+      return {
+        success: true,
+        data: ads,
+        pagination: {
+          hasMore: false,
+          totalCount: ads.length,
+        },
+      };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getAd(accessToken: string, adId: string): Promise<PlatformApiResponse<PlatformAd>> {
+    try {
+      const response = await this.makeApiCall<SnapchatApiResponse & { ads: { ad: SnapchatAdApiData }[] }>(
+        this.buildUrl(SNAPCHAT_ENDPOINTS.AD(adId)),
+        accessToken,
+      );
+
+      const ad = response.ads?.[0]?.ad;
+      if (!ad) {
+        return { success: false, error: 'Ad not found' };
+      }
+
+      const adSquad = await this.getAdGroup(accessToken, ad.ad_squad_id);
+      return { success: true, data: this.mapAd(ad, adSquad.data?.campaignId) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ==================== METRICS ====================
+
+  async getAccountMetrics(
+    accessToken: string,
+    adAccountId: string,
+    dateRange: PlatformDateRange,
+  ): Promise<PlatformApiResponse<PlatformMetrics>> {
+    const key = cacheKey(AdPlatform.SNAPCHAT, adAccountId, 'metrics', 'account', `${dateRange.since}_${dateRange.until}`);
+
+    try {
+      const metrics = await this.cacheService.getOrLoad(key, 'metrics', async () => {
+        const response = await this.getStats(accessToken, adAccountId, SNAPCHAT_ENDPOINTS.ACCOUNT_STATS(adAccountId), dateRange, 'TOTAL');
+        return this.transformMetrics(response.total_stats?.[0]?.total_stat?.stats);
+      });
+
+      return { success: true, data: metrics };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getCampaignMetrics(
+    accessToken: string,
+    campaignId: string,
+    dateRange: PlatformDateRange,
+    adAccountId?: string,
+  ): Promise<PlatformApiResponse<PlatformMetrics>> {
+    const key = cacheKey(AdPlatform.SNAPCHAT, adAccountId || 'unknown', 'metrics', 'campaign', campaignId, `${dateRange.since}_${dateRange.until}`);
+
+    try {
+      const metrics = await this.cacheService.getOrLoad(key, 'metrics', async () => {
+        const response = await this.getStats(accessToken, adAccountId, SNAPCHAT_ENDPOINTS.CAMPAIGN_STATS(campaignId), dateRange, 'TOTAL');
+        return this.transformMetrics(response.total_stats?.[0]?.total_stat?.stats);
+      });
+
+      return { success: true, data: metrics };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  private async getBreakdownMetrics(
+    accessToken: string,
+    adAccountId: string,
+    breakdown: 'campaign' | 'adsquad' | 'ad',
+    dateRange: PlatformDateRange,
+  ): Promise<Record<string, PlatformMetrics>> {
+    const metricsMap: Record<string, PlatformMetrics> = {};
+
+    try {
+      const response = await this.getStats(
+        accessToken,
+        adAccountId,
+        SNAPCHAT_ENDPOINTS.ACCOUNT_STATS(adAccountId),
+        dateRange,
+        'TOTAL',
+        breakdown,
+      );
+
+      const rows = response.total_stats?.[0]?.total_stat?.breakdown_stats?.[breakdown] || [];
+      rows.forEach((row) => {
+        metricsMap[row.id] = this.transformMetrics(row.stats);
+      });
+    } catch (error: any) {
+      this.logger.warn(`Failed to get ${breakdown} breakdown stats: ${error.message}`);
+    }
+
+    return metricsMap;
+  }
+
+  // ==================== CREATIVES ====================
+
+  async getCreatives(accessToken: string, adAccountId: string): Promise<PlatformApiResponse<PlatformCreative[]>> {
+    try {
+      const items = await this.fetchAllPages<{ creative: SnapchatCreativeApiData }>(
+        accessToken,
+        SNAPCHAT_ENDPOINTS.ACCOUNT_CREATIVES(adAccountId),
+        'creatives',
+      );
+
+      return { success: true, data: items.map(({ creative }) => this.mapCreative(creative)) };
+    } catch (error: any) {
+      this.logger.error('Failed to get creatives', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getCreative(accessToken: string, creativeId: string): Promise<PlatformApiResponse<PlatformCreative>> {
+    try {
+      const response = await this.makeApiCall<SnapchatApiResponse & { creatives: { creative: SnapchatCreativeApiData }[] }>(
+        this.buildUrl(SNAPCHAT_ENDPOINTS.CREATIVE(creativeId)),
+        accessToken,
+      );
+
+      const creative = response.creatives?.[0]?.creative;
+      if (!creative) {
+        return { success: false, error: 'Creative not found' };
+      }
+
+      return { success: true, data: this.mapCreative(creative) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ==================== DAILY METRICS ====================
+
+  async getDailyMetrics(
+    accessToken: string,
+    adAccountId: string,
+    dateRange: PlatformDateRange,
+  ): Promise<PlatformApiResponse<any[]>> {
+    const key = cacheKey(AdPlatform.SNAPCHAT, adAccountId, 'metrics', 'daily', `${dateRange.since}_${dateRange.until}`);
+
+    try {
+      const dailyMetrics = await this.cacheService.getOrLoad(key, 'metrics', async () => {
+        const response = await this.getStats(accessToken, adAccountId, SNAPCHAT_ENDPOINTS.ACCOUNT_STATS(adAccountId), dateRange, 'DAY');
+
+        return (response.timeseries_stats?.[0]?.timeseries_stat?.timeseries || []).map(item => ({
+          date: item.start_time.substring(0, 10),
+          ...this.transformMetrics(item.stats),
+        })).sort((a, b) => a.date.localeCompare(b.date));
+      });
+
+      return { success: true, data: dailyMetrics };
+    } catch (error: any) {
+      this.logger.error('Failed to get daily metrics', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Daily account stats broken down by ad; ad squad and campaign IDs are resolved from the ad list
+   */
+  async getDailyAdMetrics(
+    accessToken: string,
+    adAccountId: string,
+    dateRange: PlatformDateRange,
+  ): Promise<PlatformApiResponse<DailyAdMetrics[]>> {
+    try {
+      const adsResponse = await this.getAds(accessToken, '', undefined, adAccountId);
+      if (!adsResponse.success) {
+        return { success: false, error: adsResponse.error };
+      }
+      const adsById = new Map((adsResponse.data || []).map(ad => [ad.id, ad]));
+
+      const response = await this.getStats(accessToken, adAccountId, SNAPCHAT_ENDPOINTS.ACCOUNT_STATS(adAccountId), dateRange, 'DAY', 'ad');
+      const breakdown = response.timeseries_stats?.[0]?.timeseries_stat?.breakdown_stats?.ad || [];
+
+      const rows: DailyAdMetrics[] = breakdown.flatMap(({ id, timeseries }) => timeseries.map(item => ({
+        date: item.start_time.substring(0, 10),
+        campaignId: adsById.get(id)?.campaignId || '',
+        adGroupId: adsById.get(id)?.adGroupId || '',
+        adId: id,
+        metrics: this.transformMetrics(item.stats),
+      })));
+
+      return { success: true, data: rows };
+    } catch (error: any) {
+      this.logger.error('Failed to get daily ad metrics', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ==================== UTILITIES ====================
+
+  protected getRateLimitKey(url: string): string {
+    return url.match(/\/adaccounts\/([^/?]+)/)?.[1] || super.getRateLimitKey(url);
+  }
+
+  private buildUrl(path: string): string {
+    return `${this.baseUrl}/${this.apiVersion}${path}`;
+  }
+
+  private async fetchAllPages<T>(accessToken: string, path: string, key: string): Promise<T[]> {
+    const results: T[] = [];
+    let url: string | undefined = this.buildUrl(path);
+
+    while (url) {
+      const response = await this.makeApiCall<SnapchatApiResponse & Record<string, any>>(url, accessToken);
+      results.push(...((response[key] as T[]) || []));
+      url = response.paging?.next_link;
+    }
+
+    return results;
+  }
+
+  private async getStats(
+    accessToken: string,
+    adAccountId: string | undefined,
+    path: string,
+    dateRange: PlatformDateRange,
+    granularity: 'TOTAL' | 'DAY',
+    breakdown?: string,
+  ): Promise<SnapchatStatsApiResponse> {
+    const timezone = adAccountId ? await this.getAccountTimezone(accessToken, adAccountId) : 'UTC';
+
+    // Stats boundaries must fall on midnight in the account's timezone, and end_time is exclusive
+    const until = new Date(`${dateRange.until}T00:00:00Z`);
+    until.setUTCDate(until.getUTCDate() + 1);
+
+    return this.makeApiCall<SnapchatStatsApiResponse>(this.buildUrl(path), accessToken, {
+      granularity,
+      fields: STATS_FIELDS,
+      start_time: toAccountMidnight(dateRange.since, timezone),
+      end_time: toAccountMidnight(until.toISOString().substring(0, 10), timezone),
+      breakdown,
+    });
+  }
+
+  async getAccountTimezone(accessToken: string, adAccountId: string): Promise<string> {
+    if (!this.accountTimezones.has(adAccountId)) {
+      const account = await this.getAdAccount(accessToken, adAccountId);
+      this.accountTimezones.set(adAccountId, account?.timezone || 'UTC');
+    }
+
+    return this.accountTimezones.get(adAccountId)!;
+  }
+
+  private mapCampaign(c: SnapchatCampaignApiData): PlatformCampaign {
+    return {
+      id: c.id,
+      name: c.name,
+      status: c.status,
+      objective: c.objective,
+      budget: c.daily_budget_micro
+        ? c.daily_budget_micro / SNAPCHAT_MICRO
+        : c.lifetime_spend_cap_micro ? c.lifetime_spend_cap_micro / SNAPCHAT_MICRO : undefined,
+      budgetType: c.daily_budget_micro ? 'daily' : c.lifetime_spend_cap_micro ? 'lifetime' : undefined,
+      startTime: c.start_time ? new Date(c.start_time) : undefined,
+      endTime: c.end_time ? new Date(c.end_time) : undefined,
+    };
+  }
+
+  private mapAdSquad(as: SnapchatAdSquadApiData): PlatformAdGroup {
+    const budgetMicro = as.daily_budget_micro || as.lifetime_budget_micro;
+
+    return {
+      id: as.id,
+      campaignId: as.campaign_id,
+      name: as.name,
+      status: as.status,
+      targeting: as.targeting,
+      budget: budgetMicro ? budgetMicro / SNAPCHAT_MICRO : undefined,
+      bidAmount: as.bid_micro ? as.bid_micro / SNAPCHAT_MICRO : undefined,
+    };
+  }
+
+  private mapAd(ad: SnapchatAdApiData, campaignId?: string): PlatformAd {
+    return {
+      id: ad.id,
+      adGroupId: ad.ad_squad_id,
+      campaignId: campaignId || '',
+      name: ad.name,
+      status: ad.status,
+      creativeId: ad.creative_id,
+    };
+  }
+
+  private mapCreative(creative: SnapchatCreativeApiData): PlatformCreative {
+    const typeMap: Record<string, PlatformCreative['type']> = {
+      SNAP_AD: 'image',
+      WEB_VIEW: 'image',
+      APP_INSTALL: 'image',
+      LONGFORM_VIDEO: 'video',
+      COLLECTION: 'carousel',
+      COMPOSITE: 'carousel',
+      DYNAMIC: 'dynamic',
+    };
+
+    return {
+      id: creative.id,
+      type: typeMap[creative.type] || 'image',
+      title: creative.headline || creative.name,
+      body: creative.brand_name,
+      callToAction: creative.call_to_action,
+      landingUrl: creative.web_view_properties?.url,
+    };
+  }
+
+  private transformMetrics(raw?: SnapchatStatsFields): PlatformMetrics {
+    const impressions = raw?.impressions || 0;
+    // Swipe-ups are Snapchat's click equivalent
+    const clicks = raw?.swipes || 0;
+    const spend = (raw?.spend || 0) / SNAPCHAT_MICRO;
+    const conversions = raw?.conversion_purchases || 0;
+    const revenue = (raw?.conversion_purchases_value || 0) / SNAPCHAT_MICRO;
+
+    return {
+      impressions,
+      clicks,
+      spend,
+      cpc: this.calculateCPC(spend, clicks),
+      cpm: this.calculateCPM(spend, impressions),
+      ctr: this.calculateCTR(clicks, impressions),
+      conversions,
+      costPerConversion: conversions > 0 ? spend / conversions : 0,
+      roas: revenue > 0 ? this.calculateROAS(revenue, spend) : undefined,
+    };
+  }
+}
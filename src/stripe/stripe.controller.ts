@@ -3,7 +3,10 @@ import { StripeService } from './stripe.service';
 import { ConfigService } from '@nestjs/config';
 import { SubscriptionsService } from '../subscriptions/subscriptions.service';
 import { PlatformSubscriptionsService } from '../subscriptions/platform-subscriptions.service';
+import { OrganizationsService } from '../organizations/organizations.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { User } from '../users/entities/user.entity';
 import { AdPlatform } from '../common/interfaces/ad-platform.interface';
@@ -16,10 +19,12 @@ export class StripeController {
     private readonly configService: ConfigService,
     private readonly subscriptionsService: SubscriptionsService,
     private readonly platformSubscriptionsService: PlatformSubscriptionsService,
+    private readonly organizationsService: OrganizationsService,
   ) {}
 
   @Post('create-checkout-session')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('billing.manage')
   async createCheckoutSession(
     @CurrentUser() user: User,
     @Body() body: { 
@@ -57,7 +62,8 @@ export class StripeController {
   }
 
   @Post('create-organization-checkout-session')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('billing.manage')
   async createOrganizationCheckoutSession(
     @CurrentUser() user: User,
     @Body() body: { 
@@ -88,6 +94,7 @@ export class StripeController {
       metadata: { 
         ...body.metadata, 
         userId: user.id.toString(),
+        organizationId: (await this.organizationsService.getCurrentOrganizationId(user.id)).toString(),
         type: 'organization',
       },
     });
@@ -96,7 +103,8 @@ export class StripeController {
   }
 
   @Post('customer-portal')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('billing.manage')
   async createCustomerPortal(
     @CurrentUser() user: User,
     @Body() body: { returnUrl: string },
@@ -167,7 +175,8 @@ export class StripeController {
   }
 
   @Post('create-bulk-upgrade-checkout-session')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('billing.manage')
   async createBulkUpgradeCheckoutSession(
     @CurrentUser() user: User,
     @Body() body: {
@@ -254,7 +263,8 @@ export class StripeController {
    * Create a platform-specific checkout session (Google Ads, TikTok, etc.)
    */
   @Post('create-platform-checkout-session')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('billing.manage')
   async createPlatformCheckoutSession(
     @CurrentUser() user: User,
     @Body() body: {
@@ -295,6 +305,7 @@ export class StripeController {
 
     const session = await this.stripeService.createPlatformCheckoutSession({
       userId: user.id,
+      organizationId: await this.organizationsService.getCurrentOrganizationId(user.id),
       email: user.email,
       platform,
       planId: body.planId,
@@ -319,7 +330,8 @@ export class StripeController {
    * Get platform subscription status
    */
   @Get('platform-subscription/:platform')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('billing.read')
   async getPlatformSubscription(
     @CurrentUser() user: User,
     @Param('platform') platformParam: string,
@@ -365,7 +377,8 @@ export class StripeController {
    * Cancel a platform subscription
    */
   @Post('cancel-platform-subscription')
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('billing.manage')
   async cancelPlatformSubscription(
     @CurrentUser() user: User,
     @Body() body: { platform: string; cancelImmediately?: boolean },
@@ -440,16 +453,58 @@ export class StripeController {
         pro: { name: 'Facebook Pro', description: '', features: [], monthlyPrice: 79, annualPrice: 790, maxAccounts: 10 },
       },
       [AdPlatform.LINKEDIN]: {
-        starter: { name: 'LinkedIn Starter', description: '', features: [], monthlyPrice: 29, annualPrice: 290, maxAccounts: 3 },
-        pro: { name: 'LinkedIn Pro', description: '', features: [], monthlyPrice: 79, annualPrice: 790, maxAccounts: 10 },
+        starter: {
+          name: 'LinkedIn Starter',
+          description: 'Perfect for small businesses',
+          features: ['Up to 3 ad accounts', 'Basic metrics dashboard', 'Campaign group performance tracking', 'Email support'],
+          monthlyPrice: 29,
+          annualPrice: 290,
+          maxAccounts: 3,
+        },
+        pro: {
+          name: 'LinkedIn Pro',
+          description: 'For growing agencies',
+          features: ['Up to 10 ad accounts', 'Advanced analytics', 'Creative-level reporting', 'Priority support'],
+          monthlyPrice: 79,
+          annualPrice: 790,
+          maxAccounts: 10,
+        },
       },
       [AdPlatform.TWITTER]: {
-        starter: { name: 'Twitter Starter', description: '', features: [], monthlyPrice: 29, annualPrice: 290, maxAccounts: 3 },
-        pro: { name: 'Twitter Pro', description: '', features: [], monthlyPrice: 79, annualPrice: 790, maxAccounts: 10 },
+        starter: {
+          name: 'X/Twitter Starter',
+          description: 'Perfect for small businesses',
+          features: ['Up to 3 ad accounts', 'Basic metrics dashboard', 'Campaign performance tracking', 'Email support'],
+          monthlyPrice: 29,
+          annualPrice: 290,
+          maxAccounts: 3,
+        },
+        pro: {
+          name: 'X/Twitter Pro',
+          description: 'For growing agencies',
+          features: ['Up to 10 ad accounts', 'Advanced analytics', 'Promoted post reporting', 'Priority support'],
+          monthlyPrice: 79,
+          annualPrice: 790,
+          maxAccounts: 10,
+        },
       },
       [AdPlatform.SNAPCHAT]: {
-        starter: { name: 'Snapchat Starter', description: '', features: [], monthlyPrice: 29, annualPrice: 290, maxAccounts: 3 },
-        pro: { name: 'Snapchat Pro', description: '', features: [], monthlyPrice: 79, annualPrice: 790, maxAccounts: 10 },
+        starter: {
+          name: 'Snapchat Starter',
+          description: 'Perfect for small businesses',
+          features: ['Up to 3 ad accounts', 'Basic metrics dashboard', 'Campaign performance tracking', 'Email support'],
+          monthlyPrice: 29,
+          annualPrice: 290,
+          maxAccounts: 3,
+        },
+        pro: {
+          name: 'Snapchat Pro',
+          description: 'For growing agencies',
+          features: ['Up to 10 ad accounts', 'Advanced analytics', 'Ad squad and creative reporting', 'Priority support'],
+          monthlyPrice: 79,
+          annualPrice: 790,
+          maxAccounts: 10,
+        },
       },
     };
 
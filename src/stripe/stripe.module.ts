@@ -4,9 +4,10 @@ import { StripeService } from './stripe.service';
 import { StripeController } from './stripe.controller';
 import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
 import { UsersModule } from '../users/users.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
 
 @Module({
-  imports: [ConfigModule, forwardRef(() => SubscriptionsModule), UsersModule],
+  imports: [ConfigModule, forwardRef(() => SubscriptionsModule), UsersModule, OrganizationsModule],
   controllers: [StripeController],
   providers: [StripeService],
   exports: [StripeService],
@@ -4,6 +4,7 @@ import Stripe from 'stripe';
 import { UsersService } from '../users/users.service';
 import { SubscriptionsService } from '../subscriptions/subscriptions.service';
 import { PlatformSubscriptionsService } from '../subscriptions/platform-subscriptions.service';
+import { OrganizationsService } from '../organizations/organizations.service';
 import { AdPlatform } from '../common/interfaces/ad-platform.interface';
 
 @Injectable()
@@ -16,6 +17,7 @@ export class StripeService implements OnModuleInit {
     private usersService: UsersService,
     private subscriptionsService: SubscriptionsService,
     private platformSubscriptionsService: PlatformSubscriptionsService,
+    private organizationsService: OrganizationsService,
   ) {
     this.stripe = new Stripe(this.configService.get<string>('stripe.secretKey') || '', {
       apiVersion: '2024-12-18.acacia' as any,
@@ -170,8 +172,12 @@ export class StripeService implements OnModuleInit {
       const quantity = parseInt(metadata.quantity || '0') || adAccountIds.length;
       const planName = metadata.planName || `${planId} Plan`;
 
+      // Checkouts started before organizations existed don't carry one
+      const organizationId = parseInt(metadata.organizationId) || await this.organizationsService.getCurrentOrganizationId(userId);
+
       const orgSub = await this.subscriptionsService.createOrganizationSubscription({
         userId,
+        organizationId,
         stripeSubscriptionId: subscription.id,
         stripeCustomerId: session.customer as string,
         planId,
@@ -208,8 +214,12 @@ export class StripeService implements OnModuleInit {
         return;
       }
 
+      // Checkouts started before organizations existed don't carry one
+      const organizationId = parseInt(metadata.organizationId) || await this.organizationsService.getCurrentOrganizationId(userId);
+
       const platformSub = await this.platformSubscriptionsService.createPlatformSubscription({
         userId,
+        organizationId,
         platform,
         stripeSubscriptionId: subscription.id,
         stripeCustomerId: session.customer as string,
@@ -227,6 +237,7 @@ export class StripeService implements OnModuleInit {
         try {
           await this.platformSubscriptionsService.addPlatformSeat({
             subscriptionId: platformSub.id,
+            organizationId,
             userId,
             platform,
             adAccountId: adAccountIds[i],
@@ -296,6 +307,7 @@ export class StripeService implements OnModuleInit {
    */
   async createPlatformCheckoutSession(params: {
     userId: number;
+    organizationId: number;
     email: string;
     platform: AdPlatform;
     planId: string;
@@ -329,6 +341,7 @@ export class StripeService implements OnModuleInit {
       metadata: {
         type: 'platform',
         userId: params.userId.toString(),
+        organizationId: params.organizationId.toString(),
         platform: params.platform,
         planId: params.planId,
         planName: params.planName,
@@ -378,6 +391,33 @@ export class StripeService implements OnModuleInit {
             ? config?.tiktokProMonthlyPriceId 
             : config?.tiktokProAnnualPriceId,
         };
+      case AdPlatform.LINKEDIN:
+        return {
+          starter: billingCycle === 'monthly' 
+            ? config?.linkedinStarterMonthlyPriceId 
+            : config?.linkedinStarterAnnualPriceId,
+          pro: billingCycle === 'monthly' 
+            ? config?.linkedinProMonthlyPriceId 
+            : config?.linkedinProAnnualPriceId,
+        };
+      case AdPlatform.SNAPCHAT:
+        return {
+          starter: billingCycle === 'monthly' 
+            ? config?.snapchatStarterMonthlyPriceId 
+            : config?.snapchatStarterAnnualPriceId,
+          pro: billingCycle === 'monthly' 
+            ? config?.snapchatProMonthlyPriceId 
+            : config?.snapchatProAnnualPriceId,
+        };
+      case AdPlatform.TWITTER:
+        return {
+          starter: billingCycle === 'monthly' 
+            ? config?.twitterStarterMonthlyPriceId 
+            : config?.twitterStarterAnnualPriceId,
+          pro: billingCycle === 'monthly' 
+            ? config?.twitterProMonthlyPriceId 
+            : config?.twitterProAnnualPriceId,
+        };
       default:
         return { starter: undefined, pro: undefined };
     }
@@ -7,6 +7,10 @@ export class Invoice {
   @PrimaryGeneratedColumn()
   id: number;
 
+  // Null only for rows saved before organizations, until they are assigned at startup
+  @Column({ name: 'organization_id', type: 'integer', nullable: true })
+  organizationId: number | null;
+
   @Column({ name: 'user_id' })
   userId: number;
 
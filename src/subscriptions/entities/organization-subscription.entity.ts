@@ -6,6 +6,11 @@ export class OrganizationSubscription {
   @PrimaryGeneratedColumn()
   id: number;
 
+  // Null only for rows saved before organizations, until they are assigned at startup
+  @Column({ name: 'organization_id', type: 'integer', nullable: true })
+  organizationId: number | null;
+
+  // The member who started the subscription
   @Column({ name: 'user_id' })
   userId: number;
 
@@ -46,6 +51,10 @@ export class OrganizationSubscription {
   @Column({ name: 'trial_end', nullable: true })
   trialEnd: Date;
 
+  // ISO 4217 code that blended reports are converted into for this organization
+  @Column({ name: 'reporting_currency', length: 3, nullable: true })
+  reportingCurrency: string;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
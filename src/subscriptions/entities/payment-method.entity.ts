@@ -6,6 +6,10 @@ export class PaymentMethod {
   @PrimaryGeneratedColumn()
   id: number;
 
+  // Null only for rows saved before organizations, until they are assigned at startup
+  @Column({ name: 'organization_id', type: 'integer', nullable: true })
+  organizationId: number | null;
+
   @Column({ name: 'user_id' })
   userId: number;
 
@@ -9,11 +9,15 @@ import { AdPlatform } from '../../common/interfaces/ad-platform.interface';
  */
 @Entity('platform_seats')
 @Index(['subscriptionId', 'adAccountId'], { unique: true })
-@Index(['userId', 'platform'])
+@Index(['organizationId', 'platform'])
 export class PlatformSeat {
   @PrimaryGeneratedColumn()
   id: number;
 
+  // The organization of the subscription; null only for rows saved before organizations, until they are assigned at startup
+  @Column({ name: 'organization_id', type: 'integer', nullable: true })
+  organizationId: number | null;
+
   @Column({ name: 'subscription_id' })
   subscriptionId: number;
 
@@ -21,6 +25,7 @@ export class PlatformSeat {
   @JoinColumn({ name: 'subscription_id' })
   subscription: PlatformSubscription;
 
+  // The member who added the seat
   @Column({ name: 'user_id' })
   userId: number;
 
@@ -4,15 +4,20 @@ import { AdPlatform } from '../../common/interfaces/ad-platform.interface';
 
 /**
  * Platform-specific subscription entity
- * Each platform (Facebook, TikTok, Google Ads) has separate subscriptions
+ * Each platform (Facebook, TikTok, Google Ads) has separate subscriptions, paid for by an organization
  */
 @Entity('platform_subscriptions')
-@Index(['userId', 'platform'])
+@Index(['organizationId', 'platform'])
 @Index(['stripeSubscriptionId'], { unique: true })
 export class PlatformSubscription {
   @PrimaryGeneratedColumn()
   id: number;
 
+  // Null only for rows saved before organizations, until they are assigned at startup
+  @Column({ name: 'organization_id', type: 'integer', nullable: true })
+  organizationId: number | null;
+
+  // The member who started the subscription
   @Column({ name: 'user_id' })
   userId: number;
 
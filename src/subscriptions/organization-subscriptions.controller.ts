@@ -1,7 +1,10 @@
-import { Controller, Get, Post, Put, Delete, Body, Query, UseGuards, BadRequestException } from '@nestjs/common';
+import { Controller, Get, Post, Put, Delete, Body, Query, UseGuards, BadRequestException, NotFoundException } from '@nestjs/common';
 import { SubscriptionsService } from '../subscriptions/subscriptions.service';
 import { StripeService } from '../stripe/stripe.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { OrganizationsService } from '../organizations/organizations.service';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 
 @Controller('organization-subscriptions')
@@ -9,19 +12,21 @@ export class OrganizationSubscriptionsController {
   constructor(
     private readonly subscriptionsService: SubscriptionsService,
     private readonly stripeService: StripeService,
+    private readonly organizationsService: OrganizationsService,
   ) {}
 
   // GET - Retrieve organization subscription and seats
   @Get()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('billing.read')
   async getOrganizationSubscription(
     @CurrentUser() user: any,
     @Query('includeHistory') includeHistory?: string,
   ) {
-    const subscription = await this.subscriptionsService.getOrganizationSubscription(user.userId);
-    const seats = await this.subscriptionsService.getOrganizationSeats(user.userId);
+    const subscription = await this.subscriptionsService.getOrganizationSubscription(user.id);
+    const seats = await this.subscriptionsService.getOrganizationSeats(user.id);
     const billingHistory = includeHistory === 'true'
-      ? await this.subscriptionsService.getOrganizationBillingHistory(user.userId)
+      ? await this.subscriptionsService.getOrganizationBillingHistory(user.id)
       : [];
 
     return {
@@ -34,7 +39,8 @@ export class OrganizationSubscriptionsController {
 
   // POST - Create or add seats to organization subscription
   @Post()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('seats.manage')
   async createOrUpdateSubscription(
     @CurrentUser() user: any,
     @Body() body: {
@@ -51,7 +57,7 @@ export class OrganizationSubscriptionsController {
     // Default platform is 'facebook' for backwards compatibility
     const defaultPlatform = body.platform || 'facebook';
 
-    const existingSubscription = await this.subscriptionsService.getOrganizationSubscription(user.userId);
+    const existingSubscription = await this.subscriptionsService.getOrganizationSubscription(user.id);
 
     if (existingSubscription) {
       // Add seats to existing subscription
@@ -62,7 +68,7 @@ export class OrganizationSubscriptionsController {
         const accountPlatform = account.platform || defaultPlatform;
         const seat = await this.subscriptionsService.addOrganizationSeat(
           existingSubscription.id,
-          user.userId,
+          user.id,
           account.adAccountId,
           account.adAccountName,
           accountPlatform,
@@ -71,7 +77,8 @@ export class OrganizationSubscriptionsController {
       }
 
       // Update quantity
-      const allSeats = await this.subscriptionsService.getOrganizationSeats(user.userId);
+      const allSeats = (await this.subscriptionsService.getOrganizationSeatsBySubscription(existingSubscription.id))
+        .filter(seat => seat.status === 'active');
       await this.subscriptionsService.updateOrganizationSubscriptionQuantity(
         existingSubscription.id,
         allSeats.length,
@@ -108,7 +115,8 @@ export class OrganizationSubscriptionsController {
 
   // PUT - Update subscription (change plan/billing cycle)
   @Put()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('billing.manage')
   async updateSubscription(
     @CurrentUser() user: any,
     @Body() body: {
@@ -117,7 +125,7 @@ export class OrganizationSubscriptionsController {
       quantity?: number;
     },
   ) {
-    const subscription = await this.subscriptionsService.getOrganizationSubscription(user.userId);
+    const subscription = await this.subscriptionsService.getOrganizationSubscription(user.id);
 
     if (!subscription) {
       throw new BadRequestException('No active organization subscription found');
@@ -137,23 +145,28 @@ export class OrganizationSubscriptionsController {
 
   // DELETE - Cancel subscription or remove seat
   @Delete()
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @RequirePermission('seats.manage')
   async deleteSubscriptionOrSeat(
     @CurrentUser() user: any,
     @Query('seatId') seatId?: string,
   ) {
-    const subscription = await this.subscriptionsService.getOrganizationSubscription(user.userId);
+    const subscription = await this.subscriptionsService.getOrganizationSubscription(user.id);
 
     if (!subscription) {
       throw new BadRequestException('No active organization subscription found');
     }
 
     if (seatId) {
-      // Remove specific seat
+      // Remove specific seat, which must belong to the organization's subscription
+      const seats = await this.subscriptionsService.getOrganizationSeatsBySubscription(subscription.id);
+      if (!seats.some(seat => seat.id === parseInt(seatId))) {
+        throw new NotFoundException('Seat not found');
+      }
       await this.subscriptionsService.deactivateOrganizationSeat(parseInt(seatId));
 
       // Update quantities
-      const remainingSeats = await this.subscriptionsService.getOrganizationSeats(user.userId);
+      const remainingSeats = seats.filter(seat => seat.status === 'active' && seat.id !== parseInt(seatId));
       await this.subscriptionsService.updateOrganizationSubscriptionQuantity(
         subscription.id,
         remainingSeats.length,
@@ -178,7 +191,10 @@ export class OrganizationSubscriptionsController {
       };
     }
 
-    // Cancel entire subscription
+    // Cancel entire subscription, which takes more than managing seats
+    const organizationId = await this.organizationsService.getCurrentOrganizationId(user.id);
+    await this.organizationsService.assertPermission(user.id, organizationId, 'billing.manage');
+
     if (subscription.stripeSubscriptionId && !subscription.stripeSubscriptionId.startsWith('trial_')) {
       try {
         await this.stripeService.cancelSubscription(subscription.stripeSubscriptionId);
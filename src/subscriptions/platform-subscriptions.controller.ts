@@ -1,41 +1,47 @@
 import { Controller, Get, Post, Delete, Body, Param, Query, UseGuards, BadRequestException } from '@nestjs/common';
 import { PlatformSubscriptionsService } from './platform-subscriptions.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { AdPlatform } from '../common/interfaces/ad-platform.interface';
 
 @Controller('subscriptions/platform')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 export class PlatformSubscriptionsController {
   constructor(
     private readonly platformSubscriptionsService: PlatformSubscriptionsService,
   ) {}
 
   @Get()
+  @RequirePermission('billing.read')
   async getAllPlatformSubscriptions(@CurrentUser() user: any) {
-    const subscriptions = await this.platformSubscriptionsService.getAllPlatformSubscriptions(user.userId);
+    const subscriptions = await this.platformSubscriptionsService.getAllPlatformSubscriptions(user.id);
     return { success: true, subscriptions };
   }
 
   @Get('active')
+  @RequirePermission('billing.read')
   async getActivePlatformSubscriptions(@CurrentUser() user: any) {
-    const subscriptions = await this.platformSubscriptionsService.getActivePlatformSubscriptions(user.userId);
+    const subscriptions = await this.platformSubscriptionsService.getActivePlatformSubscriptions(user.id);
     return { success: true, subscriptions };
   }
 
   @Get('summary')
+  @RequirePermission('billing.read')
   async getPlatformUsageSummary(@CurrentUser() user: any) {
-    const summary = await this.platformSubscriptionsService.getPlatformUsageSummary(user.userId);
+    const summary = await this.platformSubscriptionsService.getPlatformUsageSummary(user.id);
     return { success: true, summary };
   }
 
   @Get(':platform')
+  @RequirePermission('billing.read')
   async getPlatformSubscription(
     @CurrentUser() user: any,
     @Param('platform') platform: string,
   ) {
     const adPlatform = this.validatePlatform(platform);
-    const subscription = await this.platformSubscriptionsService.getPlatformSubscription(user.userId, adPlatform);
+    const subscription = await this.platformSubscriptionsService.getPlatformSubscription(user.id, adPlatform);
     
     if (!subscription) {
       return { success: false, message: `No active subscription for ${platform}` };
@@ -46,16 +52,18 @@ export class PlatformSubscriptionsController {
   }
 
   @Get(':platform/seats')
+  @RequirePermission('billing.read')
   async getPlatformSeats(
     @CurrentUser() user: any,
     @Param('platform') platform: string,
   ) {
     const adPlatform = this.validatePlatform(platform);
-    const seats = await this.platformSubscriptionsService.getPlatformSeatsByUser(user.userId, adPlatform);
+    const seats = await this.platformSubscriptionsService.getPlatformSeatsByUser(user.id, adPlatform);
     return { success: true, seats };
   }
 
   @Post(':platform/seats')
+  @RequirePermission('seats.manage')
   async addPlatformSeat(
     @CurrentUser() user: any,
     @Param('platform') platform: string,
@@ -66,7 +74,7 @@ export class PlatformSubscriptionsController {
     }
 
     const adPlatform = this.validatePlatform(platform);
-    const subscription = await this.platformSubscriptionsService.getPlatformSubscription(user.userId, adPlatform);
+    const subscription = await this.platformSubscriptionsService.getPlatformSubscription(user.id, adPlatform);
     
     if (!subscription) {
       throw new BadRequestException(`No active subscription for ${platform}`);
@@ -84,7 +92,8 @@ export class PlatformSubscriptionsController {
 
     const seat = await this.platformSubscriptionsService.addPlatformSeat({
       subscriptionId: subscription.id,
-      userId: user.userId,
+      organizationId: subscription.organizationId,
+      userId: user.id,
       platform: adPlatform,
       adAccountId: body.adAccountId,
       adAccountName: body.adAccountName,
@@ -94,13 +103,14 @@ export class PlatformSubscriptionsController {
   }
 
   @Delete(':platform/seats/:adAccountId')
+  @RequirePermission('seats.manage')
   async removePlatformSeat(
     @CurrentUser() user: any,
     @Param('platform') platform: string,
     @Param('adAccountId') adAccountId: string,
   ) {
     const adPlatform = this.validatePlatform(platform);
-    const subscription = await this.platformSubscriptionsService.getPlatformSubscription(user.userId, adPlatform);
+    const subscription = await this.platformSubscriptionsService.getPlatformSubscription(user.id, adPlatform);
     
     if (!subscription) {
       throw new BadRequestException(`No active subscription for ${platform}`);
@@ -117,7 +127,7 @@ export class PlatformSubscriptionsController {
     @Param('adAccountId') adAccountId: string,
   ) {
     const adPlatform = this.validatePlatform(platform);
-    const subscription = await this.platformSubscriptionsService.getPlatformSubscription(user.userId, adPlatform);
+    const subscription = await this.platformSubscriptionsService.getPlatformSubscription(user.id, adPlatform);
     
     if (!subscription) {
       return { success: true, hasAccess: false, reason: 'No active subscription' };
@@ -0,0 +1,50 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { PlatformSubscriptionsService } from './platform-subscriptions.service';
+import { PlatformSubscription } from './entities/platform-subscription.entity';
+import { PlatformSeat } from './entities/platform-seat.entity';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { AdPlatform } from '../common/interfaces/ad-platform.interface';
+
+const seat = (id: number, organizationId: number, adAccountId: string) => ({
+  id,
+  organizationId,
+  platform: AdPlatform.LINKEDIN,
+  adAccountId,
+  status: 'active',
+}) as PlatformSeat;
+
+describe('PlatformSubscriptionsService', () => {
+  let service: PlatformSubscriptionsService;
+
+  beforeEach(async () => {
+    // The user is a member of organizations 3 (current) and 4
+    const organizationsService = {
+      getCurrentOrganizationId: jest.fn().mockResolvedValue(3),
+      getOrganizationIds: jest.fn().mockResolvedValue([3, 4]),
+    };
+    const seats = [seat(1, 3, 'act-1'), seat(2, 4, 'act-2')];
+    const seatRepository = {
+      find: jest.fn(({ where }: { where: { organizationId: number } }) =>
+        Promise.resolve(seats.filter(({ organizationId }) => organizationId === where.organizationId)),
+      ),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        PlatformSubscriptionsService,
+        { provide: OrganizationsService, useValue: organizationsService },
+        { provide: getRepositoryToken(PlatformSubscription), useValue: {} },
+        { provide: getRepositoryToken(PlatformSeat), useValue: seatRepository },
+      ],
+    }).compile();
+
+    service = module.get(PlatformSubscriptionsService);
+  });
+
+  it('should only return the seats of the current organization', async () => {
+    const seats = await service.getPlatformSeatsByUser(7, AdPlatform.LINKEDIN);
+
+    expect(seats.map(({ adAccountId }) => adAccountId)).toEqual(['act-1']);
+  });
+});
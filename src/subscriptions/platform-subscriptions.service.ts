@@ -3,8 +3,13 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { PlatformSubscription } from './entities/platform-subscription.entity';
 import { PlatformSeat } from './entities/platform-seat.entity';
+import { OrganizationsService } from '../organizations/organizations.service';
 import { AdPlatform } from '../common/interfaces/ad-platform.interface';
 
+/**
+ * Per-platform subscriptions and their seats. Both belong to the organization they were bought for; lookups by
+ * user go through the user's current organization.
+ */
 @Injectable()
 export class PlatformSubscriptionsService {
   constructor(
@@ -12,6 +17,7 @@ export class PlatformSubscriptionsService {
     private platformSubscriptionRepository: Repository<PlatformSubscription>,
     @InjectRepository(PlatformSeat)
     private platformSeatRepository: Repository<PlatformSeat>,
+    private readonly organizationsService: OrganizationsService,
   ) {}
 
   // ==================== PLATFORM SUBSCRIPTIONS ====================
@@ -22,11 +28,12 @@ export class PlatformSubscriptionsService {
   }
 
   async getPlatformSubscription(userId: number, platform: AdPlatform): Promise<PlatformSubscription | null> {
+    const organizationId = await this.organizationsService.getCurrentOrganizationId(userId);
     return this.platformSubscriptionRepository.findOne({
       where: [
-        { userId, platform, status: 'active' },
-        { userId, platform, status: 'trialing' },
-        { userId, platform, status: 'past_due' },
+        { organizationId, platform, status: 'active' },
+        { organizationId, platform, status: 'trialing' },
+        { organizationId, platform, status: 'past_due' },
       ],
       order: { createdAt: 'DESC' },
     });
@@ -37,16 +44,18 @@ export class PlatformSubscriptionsService {
   }
 
   async getAllPlatformSubscriptions(userId: number): Promise<PlatformSubscription[]> {
+    const organizationId = await this.organizationsService.getCurrentOrganizationId(userId);
     return this.platformSubscriptionRepository.find({
-      where: { userId },
+      where: { organizationId },
       order: { platform: 'ASC', createdAt: 'DESC' },
     });
   }
 
   async getActivePlatformSubscriptions(userId: number): Promise<PlatformSubscription[]> {
+    const organizationId = await this.organizationsService.getCurrentOrganizationId(userId);
     return this.platformSubscriptionRepository
       .createQueryBuilder('ps')
-      .where('ps.userId = :userId', { userId })
+      .where('ps.organizationId = :organizationId', { organizationId })
       .andWhere('ps.status IN (:...statuses)', { statuses: ['active', 'trialing', 'past_due'] })
       .orderBy('ps.platform', 'ASC')
       .getMany();
@@ -81,6 +90,7 @@ export class PlatformSubscriptionsService {
 
   async addPlatformSeat(data: {
     subscriptionId: number;
+    organizationId: number | null;
     userId: number;
     platform: AdPlatform;
     adAccountId: string;
@@ -101,8 +111,12 @@ export class PlatformSubscriptionsService {
     });
   }
 
+  /**
+   * Active seats of the user's current organization
+   */
   async getPlatformSeatsByUser(userId: number, platform?: AdPlatform): Promise<PlatformSeat[]> {
-    const where: any = { userId, status: 'active' };
+    const organizationId = await this.organizationsService.getCurrentOrganizationId(userId);
+    const where: any = { organizationId, status: 'active' };
     if (platform) {
       where.platform = platform;
     }
@@ -1,11 +1,13 @@
 import { Controller, Get, Post, Delete, Body, Param, Query, UseGuards, BadRequestException } from '@nestjs/common';
 import { SubscriptionsService } from './subscriptions.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { StripeService } from '../stripe/stripe.service';
 
 @Controller('subscriptions')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
 export class SubscriptionsController {
   constructor(
     private readonly subscriptionsService: SubscriptionsService,
@@ -13,36 +15,41 @@ export class SubscriptionsController {
   ) {}
 
   @Get()
+  @RequirePermission('billing.read')
   async getSubscription(@CurrentUser() user: any) {
-    const subscription = await this.subscriptionsService.getSubscriptionByUserId(user.userId);
+    const subscription = await this.subscriptionsService.getSubscriptionByUserId(user.id);
     return { success: true, subscription };
   }
 
   @Get('organization')
+  @RequirePermission('billing.read')
   async getOrganizationSubscription(@CurrentUser() user: any) {
-    const subscription = await this.subscriptionsService.getOrganizationSubscription(user.userId);
-    const seats = await this.subscriptionsService.getOrganizationSeats(user.userId);
+    const subscription = await this.subscriptionsService.getOrganizationSubscription(user.id);
+    const seats = await this.subscriptionsService.getOrganizationSeats(user.id);
     return { success: true, subscription, seats };
   }
 
   @Get('invoices')
+  @RequirePermission('billing.read')
   async getInvoices(@CurrentUser() user: any) {
-    const invoices = await this.subscriptionsService.getInvoicesByUserId(user.userId);
+    const invoices = await this.subscriptionsService.getOrganizationInvoices(user.id);
     return { success: true, invoices };
   }
 
   @Get('payment-methods')
+  @RequirePermission('billing.read')
   async getPaymentMethods(@CurrentUser() user: any) {
-    const paymentMethods = await this.subscriptionsService.getPaymentMethodsByUserId(user.userId);
+    const paymentMethods = await this.subscriptionsService.getOrganizationPaymentMethods(user.id);
     return { success: true, paymentMethods };
   }
 
   @Delete('payment-methods/:id')
+  @RequirePermission('billing.manage')
   async deletePaymentMethod(
     @Param('id') id: string,
     @CurrentUser() user: any,
   ) {
-    const paymentMethods = await this.subscriptionsService.getPaymentMethodsByUserId(user.userId);
+    const paymentMethods = await this.subscriptionsService.getOrganizationPaymentMethods(user.id);
     const pm = paymentMethods.find(p => p.id === parseInt(id));
     
     if (!pm) {
@@ -65,8 +72,8 @@ export class SubscriptionsController {
     @CurrentUser() user: any,
     @Query('sessionId') sessionId?: string,
   ) {
-    const subscription = await this.subscriptionsService.getSubscriptionByUserId(user.userId);
-    const organizationSub = await this.subscriptionsService.getOrganizationSubscription(user.userId);
+    const subscription = await this.subscriptionsService.getSubscriptionByUserId(user.id);
+    const organizationSub = await this.subscriptionsService.getOrganizationSubscription(user.id);
     
     return {
       success: true,
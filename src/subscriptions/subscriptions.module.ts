@@ -16,6 +16,7 @@ import { OrganizationBillingHistory } from './entities/organization-billing-hist
 import { PlatformSubscription } from './entities/platform-subscription.entity';
 import { PlatformSeat } from './entities/platform-seat.entity';
 import { StripeModule } from '../stripe/stripe.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
 
 @Module({
   imports: [
@@ -31,6 +32,7 @@ import { StripeModule } from '../stripe/stripe.module';
       PlatformSeat,
     ]),
     forwardRef(() => StripeModule),
+    OrganizationsModule,
   ],
   controllers: [SubscriptionsController, OrganizationSubscriptionsController, PaidAccountsController, PlatformSubscriptionsController],
   providers: [SubscriptionsService, PlatformSubscriptionsService],
@@ -0,0 +1,73 @@
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { SubscriptionsService } from './subscriptions.service';
+import { Subscription } from './entities/subscription.entity';
+import { StripeCustomer } from './entities/stripe-customer.entity';
+import { Invoice } from './entities/invoice.entity';
+import { PaymentMethod } from './entities/payment-method.entity';
+import { OrganizationSubscription } from './entities/organization-subscription.entity';
+import { OrganizationSeat } from './entities/organization-seat.entity';
+import { OrganizationBillingHistory } from './entities/organization-billing-history.entity';
+import { OrganizationsService } from '../organizations/organizations.service';
+
+const seat = (id: number, organizationId: number, platform: string) => ({
+  id,
+  platform,
+  status: 'active',
+  organizationSubscription: { organizationId },
+}) as unknown as OrganizationSeat;
+
+describe('SubscriptionsService', () => {
+  let service: SubscriptionsService;
+  let organizationsService: { getCurrentOrganizationId: jest.Mock; getOrganizationIds: jest.Mock };
+
+  beforeEach(async () => {
+    // The user is a member of organizations 3 (current) and 4
+    organizationsService = {
+      getCurrentOrganizationId: jest.fn().mockResolvedValue(3),
+      getOrganizationIds: jest.fn().mockResolvedValue([3, 4]),
+    };
+    const seats = [seat(1, 3, 'facebook'), seat(2, 4, 'facebook'), seat(3, 3, 'google')];
+    const seatRepository = {
+      find: jest.fn(({ where }: { where: { organizationSubscription: { organizationId: number }; platform?: string } }) =>
+        Promise.resolve(
+          seats.filter(
+            ({ organizationSubscription, platform }) =>
+              organizationSubscription.organizationId === where.organizationSubscription.organizationId && (!where.platform || platform === where.platform),
+          ),
+        ),
+      ),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        SubscriptionsService,
+        { provide: OrganizationsService, useValue: organizationsService },
+        { provide: getRepositoryToken(Subscription), useValue: {} },
+        { provide: getRepositoryToken(StripeCustomer), useValue: {} },
+        { provide: getRepositoryToken(Invoice), useValue: {} },
+        { provide: getRepositoryToken(PaymentMethod), useValue: {} },
+        { provide: getRepositoryToken(OrganizationSubscription), useValue: {} },
+        { provide: getRepositoryToken(OrganizationSeat), useValue: seatRepository },
+        { provide: getRepositoryToken(OrganizationBillingHistory), useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(SubscriptionsService);
+  });
+
+  describe('getOrganizationSeats', () => {
+    it('should only return the seats of the current organization', async () => {
+      const seats = await service.getOrganizationSeats(7);
+
+      expect(seats.map(({ id }) => id)).toEqual([1, 3]);
+      expect(organizationsService.getCurrentOrganizationId).toHaveBeenCalledWith(7);
+    });
+
+    it('should narrow the current organization seats to a platform', async () => {
+      const seats = await service.getOrganizationSeats(7, 'facebook');
+
+      expect(seats.map(({ id }) => id)).toEqual([1]);
+    });
+  });
+});
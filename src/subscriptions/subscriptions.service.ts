@@ -1,6 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Repository, In } from 'typeorm';
 import { Subscription } from './entities/subscription.entity';
 import { StripeCustomer } from './entities/stripe-customer.entity';
 import { Invoice } from './entities/invoice.entity';
@@ -8,10 +8,12 @@ import { PaymentMethod } from './entities/payment-method.entity';
 import { OrganizationSubscription } from './entities/organization-subscription.entity';
 import { OrganizationSeat } from './entities/organization-seat.entity';
 import { OrganizationBillingHistory } from './entities/organization-billing-history.entity';
+import { OrganizationsService } from '../organizations/organizations.service';
 
 @Injectable()
 export class SubscriptionsService {
   constructor(
+    private readonly organizationsService: OrganizationsService,
     @InjectRepository(Subscription)
     private subscriptionRepository: Repository<Subscription>,
     @InjectRepository(StripeCustomer)
@@ -83,17 +85,21 @@ export class SubscriptionsService {
     return this.invoiceRepository.findOneBy({ stripeInvoiceId });
   }
 
-  async getInvoicesByUserId(userId: number): Promise<Invoice[]> {
+  /**
+   * The invoices of the user's current organization
+   */
+  async getOrganizationInvoices(userId: number): Promise<Invoice[]> {
+    const organizationId = await this.organizationsService.getCurrentOrganizationId(userId);
     return this.invoiceRepository.find({
-      where: { userId },
+      where: { organizationId },
       order: { createdAt: 'DESC' },
     });
   }
 
   // Payment Method Management
-  async createPaymentMethod(paymentMethodData: Partial<PaymentMethod>): Promise<PaymentMethod> {
+  async createPaymentMethod(paymentMethodData: Partial<PaymentMethod> & { organizationId: number }): Promise<PaymentMethod> {
     if (paymentMethodData.isDefault !== false) {
-      const count = await this.paymentMethodRepository.count({ where: { userId: paymentMethodData.userId } });
+      const count = await this.paymentMethodRepository.count({ where: { organizationId: paymentMethodData.organizationId } });
       if (count === 0) {
         paymentMethodData.isDefault = true;
       }
@@ -102,9 +108,13 @@ export class SubscriptionsService {
     return this.paymentMethodRepository.save(paymentMethod);
   }
 
-  async getPaymentMethodsByUserId(userId: number): Promise<PaymentMethod[]> {
+  /**
+   * The payment methods of the user's current organization
+   */
+  async getOrganizationPaymentMethods(userId: number): Promise<PaymentMethod[]> {
+    const organizationId = await this.organizationsService.getCurrentOrganizationId(userId);
     return this.paymentMethodRepository.find({
-      where: { userId },
+      where: { organizationId },
       order: { isDefault: 'DESC', createdAt: 'DESC' },
     });
   }
@@ -119,13 +129,13 @@ export class SubscriptionsService {
     return this.organizationSubscriptionRepository.save(sub);
   }
 
+  /**
+   * The subscription of the user's current organization
+   */
   async getOrganizationSubscription(userId: number): Promise<OrganizationSubscription | null> {
+    const organizationId = await this.organizationsService.getCurrentOrganizationId(userId);
     return this.organizationSubscriptionRepository.findOne({
-      where: [
-        { userId, status: 'active' },
-        { userId, status: 'trialing' },
-        { userId, status: 'past_due' },
-      ],
+      where: { organizationId, status: In(['active', 'trialing', 'past_due']) },
       order: { createdAt: 'DESC' },
     });
   }
@@ -148,6 +158,11 @@ export class SubscriptionsService {
     return this.organizationSubscriptionRepository.findOneBy({ id });
   }
 
+  async updateOrganizationReportingCurrency(id: number, reportingCurrency: string): Promise<OrganizationSubscription | null> {
+    await this.organizationSubscriptionRepository.update(id, { reportingCurrency });
+    return this.organizationSubscriptionRepository.findOneBy({ id });
+  }
+
   async addOrganizationSeat(
     organizationSubscriptionId: number, 
     userId: number, 
@@ -172,8 +187,12 @@ export class SubscriptionsService {
     return this.organizationBillingHistoryRepository.save(history);
   }
 
+  /**
+   * The active seats of the user's current organization
+   */
   async getOrganizationSeats(userId: number, platform?: string): Promise<OrganizationSeat[]> {
-    const where: any = { userId, status: 'active' };
+    const organizationId = await this.organizationsService.getCurrentOrganizationId(userId);
+    const where: any = { organizationSubscription: { organizationId }, status: 'active' };
     if (platform) {
       where.platform = platform;
     }
@@ -0,0 +1,205 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { Repository, In } from 'typeorm';
+import { SyncJob } from './entities/sync-job.entity';
+import { SyncService } from './sync.service';
+import { PlatformRegistryService } from '../platforms/platform-registry.service';
+import { ConnectedAccountsService } from '../accounts/connected-accounts.service';
+import { addDays, addMonths, countDays } from '../common/utils/date-range.util';
+import { AdPlatform, PlatformDateRange } from '../common/interfaces/ad-platform.interface';
+
+export interface SyncJobProgress extends SyncJob {
+  progress: number; // 0-100
+}
+
+const BACKFILL_JOB_NAME = 'daily-ad-metrics-backfill';
+
+// A window that keeps failing marks the whole job as failed; selecting the account again resumes it
+const MAX_WINDOW_ATTEMPTS = 5;
+
+/**
+ * Imports an ad account's history into daily_ad_metrics when it is first selected
+ */
+@Injectable()
+export class BackfillService implements OnModuleInit {
+  private readonly logger = new Logger(BackfillService.name);
+  private readonly backfillMonths: number;
+  private readonly maxWindowDays: number;
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(SyncJob)
+    private readonly syncJobRepository: Repository<SyncJob>,
+    private readonly syncService: SyncService,
+    private readonly platformRegistry: PlatformRegistryService,
+    private readonly connectedAccountsService: ConnectedAccountsService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {
+    this.backfillMonths = this.configService.get<number>('sync.backfillMonths') ?? 24;
+    this.maxWindowDays = this.configService.get<number>('sync.maxWindowDays') ?? 30;
+  }
+
+  onModuleInit() {
+    if (!this.configService.get<boolean>('sync.enabled')) {
+      return;
+    }
+
+    // Jobs left running by a restart are still pending/running in the table, so the next tick resumes them
+    const cron = this.configService.get<string>('sync.backfillCron') || '* * * * *';
+    const job = CronJob.from({
+      cronTime: cron,
+      onTick: () => {
+        this.processJobs().catch((error: any) => this.logger.error(`Backfill run failed: ${error.message}`));
+      },
+    });
+
+    this.schedulerRegistry.addCronJob(BACKFILL_JOB_NAME, job);
+    job.start();
+  }
+
+  // ==================== JOBS ====================
+
+  /**
+   * Queue a history import for a newly selected ad account. An account that already has history
+   * (or an import in progress) keeps its existing job; a failed or cancelled one is resumed where it stopped.
+   */
+  async enqueue(platform: AdPlatform, userId: number, adAccountId: string): Promise<SyncJob> {
+    const existing = await this.syncJobRepository.findOne({
+      where: { platform, adAccountId },
+      order: { createdAt: 'DESC' },
+    });
+
+    if (existing && ['pending', 'running', 'completed'].includes(existing.status)) {
+      return existing;
+    }
+
+    if (existing) {
+      existing.userId = userId;
+      existing.status = 'pending';
+      existing.attempts = 0;
+      existing.lastError = null;
+      return this.syncJobRepository.save(existing);
+    }
+
+    // Ends yesterday in UTC; the regular sync re-pulls recent days in the account's own timezone
+    const until = addDays(new Date().toISOString().substring(0, 10), -1);
+    const since = addDays(addMonths(until, -this.backfillMonths), 1);
+
+    const job = await this.syncJobRepository.save(this.syncJobRepository.create({
+      platform,
+      userId,
+      adAccountId,
+      since,
+      until,
+      nextUntil: until,
+      totalDays: countDays({ since, until }),
+    }));
+
+    this.logger.log(`Queued ${platform} backfill for account ${adAccountId} (${since} to ${until})`);
+    return job;
+  }
+
+  /**
+   * Backfill jobs started by the user or covering an ad account they currently have selected
+   */
+  async getJobs(userId: number): Promise<SyncJobProgress[]> {
+    const where: Record<string, any>[] = [{ userId }];
+    for (const { platform, adAccountId } of await this.connectedAccountsService.getAccounts(userId)) {
+      where.push({ platform, adAccountId });
+    }
+
+    const jobs = await this.syncJobRepository.find({ where, order: { createdAt: 'DESC' } });
+    return jobs.map(job => ({
+      ...job,
+      progress: job.totalDays > 0 ? Math.min(Math.floor((job.completedDays / job.totalDays) * 100), 100) : 100,
+    }));
+  }
+
+  // ==================== WORKER ====================
+
+  async processJobs(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      const jobs = await this.syncJobRepository.find({
+        where: { status: In(['pending', 'running']) },
+        order: { createdAt: 'ASC' },
+      });
+
+      for (const job of jobs) {
+        await this.runJob(job);
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Import the job's remaining windows, newest first, saving progress after each one.
+   * A failed window is left for the next run to retry.
+   */
+  private async runJob(job: SyncJob): Promise<void> {
+    const provider = this.platformRegistry.get(job.platform);
+
+    if (job.status === 'pending') {
+      job.status = 'running';
+      job.startedAt = job.startedAt || new Date();
+      await this.syncJobRepository.save(job);
+    }
+
+    while (job.nextUntil) {
+      const account = await this.connectedAccountsService.getAccount(job.userId, job.platform, job.adAccountId);
+      const session = account && await this.platformRegistry.getActiveSession(job.platform, account.userId, account.sessionId);
+      if (!session) {
+        job.status = 'cancelled';
+        job.lastError = 'Ad account is no longer selected';
+        await this.syncJobRepository.save(job);
+        return;
+      }
+
+      const windowSince = addDays(job.nextUntil, -(this.maxWindowDays - 1));
+      const window: PlatformDateRange = {
+        since: windowSince > job.since ? windowSince : job.since,
+        until: job.nextUntil,
+      };
+
+      try {
+        if (provider.validateAccess) {
+          await provider.validateAccess(job.userId, job.adAccountId);
+        }
+
+        const rows = await this.syncService.syncAccount(provider.service, job.platform, session.accessToken, job.adAccountId, window);
+
+        job.rowsImported += rows;
+        job.completedDays += countDays(window);
+        job.attempts = 0;
+        job.lastError = null;
+        job.nextUntil = window.since > job.since ? addDays(window.since, -1) : null;
+      } catch (error: any) {
+        job.attempts += 1;
+        job.lastError = error.message;
+        if (job.attempts >= MAX_WINDOW_ATTEMPTS) {
+          job.status = 'failed';
+        }
+
+        this.logger.warn(`Backfill window ${window.since} to ${window.until} failed for ${job.platform} account ${job.adAccountId} (attempt ${job.attempts}): ${error.message}`);
+        await this.syncJobRepository.save(job);
+        return;
+      }
+
+      await this.syncJobRepository.save(job);
+    }
+
+    job.status = 'completed';
+    job.completedAt = new Date();
+    await this.syncJobRepository.save(job);
+    this.logger.log(`Backfill completed for ${job.platform} account ${job.adAccountId}: ${job.rowsImported} rows`);
+  }
+}
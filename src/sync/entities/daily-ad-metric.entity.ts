@@ -0,0 +1,55 @@
+import { Entity, Column, PrimaryGeneratedColumn, UpdateDateColumn, Index } from 'typeorm';
+import { AdPlatform } from '../../common/interfaces/ad-platform.interface';
+
+/**
+ * One row per ad per day, normalized across platforms. Money columns are in the ad account's currency.
+ */
+@Entity('daily_ad_metrics')
+@Index(['platform', 'adAccountId', 'adId', 'date'], { unique: true })
+@Index(['platform', 'adAccountId', 'date'])
+export class DailyAdMetric {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({
+    type: 'enum',
+    enum: AdPlatform,
+  })
+  platform: AdPlatform;
+
+  @Column({ name: 'ad_account_id' })
+  adAccountId: string;
+
+  @Column({ name: 'campaign_id' })
+  campaignId: string;
+
+  @Column({ name: 'ad_group_id' })
+  adGroupId: string;
+
+  @Column({ name: 'ad_id' })
+  adId: string;
+
+  @Column({ type: 'date' })
+  date: string; // YYYY-MM-DD in the ad account's timezone
+
+  @Column({ default: 0 })
+  impressions: number;
+
+  @Column({ default: 0 })
+  clicks: number;
+
+  @Column({ type: 'double precision', default: 0 })
+  spend: number;
+
+  @Column({ type: 'double precision', default: 0 })
+  conversions: number;
+
+  @Column({ type: 'double precision', default: 0 })
+  revenue: number;
+
+  @Column({ length: 3, nullable: true })
+  currency: string;
+
+  @UpdateDateColumn({ name: 'synced_at' })
+  syncedAt: Date;
+}
@@ -0,0 +1,70 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import { AdPlatform } from '../../common/interfaces/ad-platform.interface';
+
+export type SyncJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * A history backfill for one ad account. Windows are imported newest first, and `nextUntil`
+ * records where the next one ends so the job resumes there after a restart.
+ */
+@Entity('sync_jobs')
+@Index(['platform', 'adAccountId'])
+@Index(['status'])
+export class SyncJob {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ length: 20, default: 'backfill' })
+  type: string;
+
+  @Column({
+    type: 'enum',
+    enum: AdPlatform,
+  })
+  platform: AdPlatform;
+
+  @Column({ name: 'user_id' })
+  userId: number;
+
+  @Column({ name: 'ad_account_id' })
+  adAccountId: string;
+
+  @Column({ length: 20, default: 'pending' })
+  status: SyncJobStatus;
+
+  @Column({ type: 'date' })
+  since: string;
+
+  @Column({ type: 'date' })
+  until: string;
+
+  @Column({ name: 'next_until', type: 'date', nullable: true })
+  nextUntil: string | null; // null once every window has been imported
+
+  @Column({ name: 'total_days', default: 0 })
+  totalDays: number;
+
+  @Column({ name: 'completed_days', default: 0 })
+  completedDays: number;
+
+  @Column({ name: 'rows_imported', default: 0 })
+  rowsImported: number;
+
+  @Column({ default: 0 })
+  attempts: number; // consecutive failures of the current window
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column({ name: 'started_at', type: 'timestamp', nullable: true })
+  startedAt: Date | null;
+
+  @Column({ name: 'completed_at', type: 'timestamp', nullable: true })
+  completedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,69 @@
+import { Controller, Get, Post, Query, UseGuards, BadRequestException } from '@nestjs/common';
+import { SyncService, AccountSyncResult, DailyMetricsRow } from './sync.service';
+import { BackfillService, SyncJobProgress } from './backfill.service';
+import { PlatformRegistryService } from '../platforms/platform-registry.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AdPlatform, PlatformApiResponse } from '../common/interfaces/ad-platform.interface';
+
+@Controller('sync')
+@UseGuards(JwtAuthGuard)
+export class SyncController {
+  constructor(
+    private readonly syncService: SyncService,
+    private readonly backfillService: BackfillService,
+    private readonly platformRegistry: PlatformRegistryService,
+  ) {}
+
+  /**
+   * Pull the last few days for the user's connected accounts now, optionally limited with ?platforms=facebook,tiktok
+   */
+  @Post('run')
+  async run(
+    @CurrentUser() user: any,
+    @Query('platforms') platforms?: string,
+  ): Promise<PlatformApiResponse<AccountSyncResult[]>> {
+    const results = await this.syncService.syncUser(user.id, this.parsePlatforms(platforms));
+    return { success: true, data: results };
+  }
+
+  /**
+   * Daily account totals served from the warehouse, in each account's own currency
+   */
+  @Get('metrics')
+  async getDailyMetrics(
+    @CurrentUser() user: any,
+    @Query('since') since: string,
+    @Query('until') until: string,
+    @Query('platforms') platforms?: string,
+  ): Promise<PlatformApiResponse<DailyMetricsRow[]>> {
+    if (!since || !until) {
+      throw new BadRequestException('since and until parameters are required');
+    }
+
+    const rows = await this.syncService.getDailyMetrics(user.id, { since, until }, this.parsePlatforms(platforms));
+    return { success: true, data: rows };
+  }
+
+  /**
+   * History imports for the user's accounts, with a 0-100 progress for each
+   */
+  @Get('jobs')
+  async getJobs(@CurrentUser() user: any): Promise<PlatformApiResponse<SyncJobProgress[]>> {
+    const jobs = await this.backfillService.getJobs(user.id);
+    return { success: true, data: jobs };
+  }
+
+  private parsePlatforms(platforms?: string): AdPlatform[] | undefined {
+    if (!platforms) {
+      return undefined;
+    }
+
+    return platforms.split(',').map(platform => platform.trim()).filter(Boolean).map((platform) => {
+      if (!this.platformRegistry.has(platform)) {
+        throw new BadRequestException(`Unsupported platform: ${platform}`);
+      }
+      return platform;
+    });
+  }
+}
@@ -0,0 +1,24 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { SyncService } from './sync.service';
+import { BackfillService } from './backfill.service';
+import { SyncController } from './sync.controller';
+import { DailyAdMetric } from './entities/daily-ad-metric.entity';
+import { SyncJob } from './entities/sync-job.entity';
+import { PlatformsModule } from '../platforms/platforms.module';
+import { AccountsModule } from '../accounts/accounts.module';
+import { syncConfig } from '../config/sync.config';
+
+@Module({
+  imports: [
+    ConfigModule.forFeature(syncConfig),
+    TypeOrmModule.forFeature([DailyAdMetric, SyncJob]),
+    forwardRef(() => PlatformsModule),
+    AccountsModule,
+  ],
+  controllers: [SyncController],
+  providers: [SyncService, BackfillService],
+  exports: [SyncService, BackfillService],
+})
+export class SyncModule {}
@@ -0,0 +1,304 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { Repository, Between } from 'typeorm';
+import { DailyAdMetric } from './entities/daily-ad-metric.entity';
+import { PlatformRegistryService, PlatformProvider } from '../platforms/platform-registry.service';
+import { CredentialResolverService } from '../platforms/credential-resolver.service';
+import { ConnectedAccountsService } from '../accounts/connected-accounts.service';
+import { BaseAdPlatformService } from '../common/services/base-ad-platform.service';
+import { addDays, splitDateRange } from '../common/utils/date-range.util';
+import { AdPlatform, DailyAdMetrics, PlatformDateRange } from '../common/interfaces/ad-platform.interface';
+
+export interface AccountSyncResult {
+  platform: AdPlatform;
+  userId: number;
+  adAccountId?: string;
+  status: 'ok' | 'skipped' | 'error';
+  dateRange?: PlatformDateRange;
+  rows?: number;
+  error?: string;
+}
+
+export interface DailyMetricsRow {
+  platform: AdPlatform;
+  adAccountId: string;
+  date: string;
+  currency: string | null;
+  impressions: number;
+  clicks: number;
+  spend: number;
+  conversions: number;
+  revenue: number;
+}
+
+const SYNC_JOB_NAME = 'daily-ad-metrics-sync';
+const INSERT_CHUNK_SIZE = 500;
+
+/**
+ * Copies per-ad daily metrics from every connected ad account into the daily_ad_metrics table
+ */
+@Injectable()
+export class SyncService implements OnModuleInit {
+  private readonly logger = new Logger(SyncService.name);
+  private readonly lookbackDays: number;
+  private readonly maxWindowDays: number;
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @InjectRepository(DailyAdMetric)
+    private readonly dailyAdMetricRepository: Repository<DailyAdMetric>,
+    private readonly platformRegistry: PlatformRegistryService,
+    private readonly credentialResolver: CredentialResolverService,
+    private readonly connectedAccountsService: ConnectedAccountsService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {
+    this.lookbackDays = this.configService.get<number>('sync.lookbackDays') ?? 3;
+    this.maxWindowDays = this.configService.get<number>('sync.maxWindowDays') ?? 30;
+  }
+
+  /**
+   * Registered here rather than with @Cron so the schedule can come from config
+   */
+  onModuleInit() {
+    if (!this.configService.get<boolean>('sync.enabled')) {
+      this.logger.log('Daily metrics sync is disabled');
+      return;
+    }
+
+    const cron = this.configService.get<string>('sync.cron') || '0 */6 * * *';
+    const job = CronJob.from({
+      cronTime: cron,
+      onTick: () => {
+        this.syncAll().catch((error: any) => this.logger.error(`Daily metrics sync failed: ${error.message}`));
+      },
+    });
+
+    this.schedulerRegistry.addCronJob(SYNC_JOB_NAME, job);
+    job.start();
+    this.logger.log(`Daily metrics sync scheduled (${cron})`);
+  }
+
+  // ==================== SYNC ====================
+
+  /**
+   * Sync every ad account a user has selected. An account shared by several users is
+   * synced once, through the first user whose session and seat allow it.
+   */
+  async syncAll(): Promise<AccountSyncResult[]> {
+    if (this.running) {
+      this.logger.warn('Previous daily metrics sync is still running, skipping this run');
+      return [];
+    }
+
+    this.running = true;
+    try {
+      const results: AccountSyncResult[] = [];
+
+      for (const provider of this.platformRegistry.getAll()) {
+        const accounts = await this.connectedAccountsService.getAllAccounts(provider.platform);
+        const synced = new Set<string>();
+
+        for (const account of accounts) {
+          if (synced.has(account.adAccountId)) {
+            continue;
+          }
+
+          const result = await this.syncUserAccount(provider, account.userId, account.adAccountId);
+          if (result.status === 'ok' && result.adAccountId) {
+            synced.add(result.adAccountId);
+          }
+          results.push(result);
+        }
+      }
+
+      const failed = results.filter(result => result.status === 'error').length;
+      this.logger.log(`Daily metrics sync finished: ${results.length - failed} accounts processed, ${failed} failed`);
+      return results;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Sync the user's own connected accounts now instead of waiting for the schedule
+   */
+  async syncUser(userId: number, platforms?: AdPlatform[]): Promise<AccountSyncResult[]> {
+    const providers = this.platformRegistry.getAll()
+      .filter(provider => !platforms || platforms.includes(provider.platform));
+
+    const results: AccountSyncResult[] = [];
+    for (const provider of providers) {
+      const accounts = await this.connectedAccountsService.getAccounts(userId, provider.platform);
+      if (!accounts.length) {
+        results.push({ platform: provider.platform, userId, status: 'skipped', error: 'No ad account selected' });
+      }
+
+      for (const account of accounts) {
+        results.push(await this.syncUserAccount(provider, userId, account.adAccountId));
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Replace the stored rows for one ad account over the date range with fresh data from the platform.
+   * Long ranges are fetched in windows of at most `sync.maxWindowDays` days.
+   */
+  async syncAccount(
+    service: BaseAdPlatformService,
+    platform: AdPlatform,
+    accessToken: string,
+    adAccountId: string,
+    dateRange: PlatformDateRange,
+  ): Promise<number> {
+    let currency: string | null = null;
+    try {
+      currency = await service.getAccountCurrency(accessToken, adAccountId);
+    } catch (error: any) {
+      this.logger.warn(`Could not fetch currency for ${platform} account ${adAccountId}: ${error.message}`);
+    }
+
+    let rows = 0;
+    for (const window of splitDateRange(dateRange, this.maxWindowDays)) {
+      const response = await service.getDailyAdMetrics(accessToken, adAccountId, window);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || 'Failed to fetch daily ad metrics');
+      }
+
+      rows += await this.replaceRows(platform, adAccountId, window, response.data, currency);
+    }
+
+    return rows;
+  }
+
+  private async syncUserAccount(provider: PlatformProvider, userId: number, adAccountId: string): Promise<AccountSyncResult> {
+    const { platform, service } = provider;
+
+    let accessToken: string;
+    try {
+      ({ accessToken } = await this.credentialResolver.resolveAccount(platform, userId, adAccountId));
+    } catch (error: any) {
+      // No usable session, or the user's seats no longer cover the account
+      return { platform, userId, adAccountId, status: 'skipped', error: error.message };
+    }
+
+    let dateRange: PlatformDateRange | undefined;
+    try {
+      // Re-pull the last few days in the account's timezone; platforms restate recent conversions
+      const today = await service.resolveAccountDateRange(accessToken, adAccountId, 'today');
+      dateRange = { since: addDays(today.until, -this.lookbackDays), until: today.until };
+
+      const rows = await this.syncAccount(service, platform, accessToken, adAccountId, dateRange);
+      return { platform, userId, adAccountId, status: 'ok', dateRange, rows };
+    } catch (error: any) {
+      this.logger.error(`Daily metrics sync failed for ${platform} account ${adAccountId}: ${error.message}`);
+      return { platform, userId, adAccountId, status: 'error', dateRange, error: error.message };
+    }
+  }
+
+  private async replaceRows(
+    platform: AdPlatform,
+    adAccountId: string,
+    dateRange: PlatformDateRange,
+    items: DailyAdMetrics[],
+    currency: string | null,
+  ): Promise<number> {
+    const rows = items.map(item => this.dailyAdMetricRepository.create({
+      platform,
+      adAccountId,
+      campaignId: item.campaignId,
+      adGroupId: item.adGroupId,
+      adId: item.adId,
+      date: item.date,
+      impressions: Math.round(item.metrics.impressions || 0),
+      clicks: Math.round(item.metrics.clicks || 0),
+      spend: item.metrics.spend || 0,
+      conversions: item.metrics.conversions || 0,
+      // Most platforms report ROAS rather than revenue
+      revenue: item.metrics.revenue ?? (item.metrics.roas || 0) * (item.metrics.spend || 0),
+      currency: item.metrics.currency || currency || undefined,
+    }));
+
+    // Ads that stopped delivering must disappear from the window too, so replace rather than upsert
+    await this.dailyAdMetricRepository.manager.transaction(async (manager) => {
+      await manager.delete(DailyAdMetric, { platform, adAccountId, date: Between(dateRange.since, dateRange.until) });
+      for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+        await manager.insert(DailyAdMetric, rows.slice(i, i + INSERT_CHUNK_SIZE));
+      }
+    });
+
+    return rows.length;
+  }
+
+  // ==================== REPORTING ====================
+
+  /**
+   * Account-level daily totals from the warehouse for the ad accounts the user currently has selected
+   */
+  async getDailyMetrics(userId: number, dateRange: PlatformDateRange, platforms?: AdPlatform[]): Promise<DailyMetricsRow[]> {
+    const accounts: { platform: AdPlatform; adAccountId: string }[] = [];
+
+    for (const provider of this.platformRegistry.getAll()) {
+      if (platforms && !platforms.includes(provider.platform)) {
+        continue;
+      }
+
+      for (const { adAccountId } of await this.connectedAccountsService.getAccounts(userId, provider.platform)) {
+        try {
+          if (provider.validateAccess) {
+            await provider.validateAccess(userId, adAccountId);
+          }
+          accounts.push({ platform: provider.platform, adAccountId });
+        } catch (error: any) {
+          this.logger.warn(`Skipping ${provider.platform} account ${adAccountId} for user ${userId}: ${error.message}`);
+        }
+      }
+    }
+
+    if (accounts.length === 0) {
+      return [];
+    }
+
+    const query = this.dailyAdMetricRepository
+      .createQueryBuilder('metric')
+      .select('metric.platform', 'platform')
+      .addSelect('metric.ad_account_id', 'adAccountId')
+      .addSelect("TO_CHAR(metric.date, 'YYYY-MM-DD')", 'date')
+      .addSelect('metric.currency', 'currency')
+      .addSelect('SUM(metric.impressions)', 'impressions')
+      .addSelect('SUM(metric.clicks)', 'clicks')
+      .addSelect('SUM(metric.spend)', 'spend')
+      .addSelect('SUM(metric.conversions)', 'conversions')
+      .addSelect('SUM(metric.revenue)', 'revenue')
+      .where('metric.date BETWEEN :since AND :until', dateRange)
+      .andWhere('metric.platform IN (:...platforms)', { platforms: [...new Set(accounts.map(account => account.platform))] })
+      .andWhere('metric.ad_account_id IN (:...adAccountIds)', { adAccountIds: accounts.map(account => account.adAccountId) })
+      .groupBy('metric.platform')
+      .addGroupBy('metric.ad_account_id')
+      .addGroupBy('metric.date')
+      .addGroupBy('metric.currency')
+      .orderBy('metric.date', 'ASC');
+
+    const rows = await query.getRawMany<Record<string, string>>();
+
+    // The IN filters above can cross-match another platform's account id, so narrow to exact pairs
+    const selected = new Set(accounts.map(account => `${account.platform}:${account.adAccountId}`));
+    return rows
+      .filter(row => selected.has(`${row.platform}:${row.adAccountId}`))
+      .map(row => ({
+        platform: row.platform as AdPlatform,
+        adAccountId: row.adAccountId,
+        date: row.date,
+        currency: row.currency,
+        impressions: Number(row.impressions),
+        clicks: Number(row.clicks),
+        spend: Number(row.spend),
+        conversions: Number(row.conversions),
+        revenue: Number(row.revenue),
+      }));
+  }
+}
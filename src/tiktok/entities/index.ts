@@ -1,4 +1,2 @@
 export * from './tiktok-session.entity';
-export * from './tiktok-metrics-cache.entity';
-export * from './tiktok-creatives-cache.entity';
 export * from './tiktok-campaign-data.entity';
@@ -1,6 +1,8 @@
 import { Controller, Post, Get, Body, Query, Param, UseGuards, BadRequestException } from '@nestjs/common';
 import { TikTokService } from './tiktok.service';
 import { AiService } from '../ai/ai.service';
+import { CredentialResolverService } from '../platforms/credential-resolver.service';
+import { AdPlatform } from '../common/interfaces/ad-platform.interface';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { ConfigService } from '@nestjs/config';
@@ -28,6 +30,7 @@ export class TikTokAiController {
     private readonly tiktokService: TikTokService,
     private readonly aiService: AiService,
     private readonly configService: ConfigService,
+    private readonly credentialResolver: CredentialResolverService,
   ) {}
 
   // ==================== CREATIVE SCORING ====================
@@ -35,16 +38,13 @@ export class TikTokAiController {
   @Post('analyze')
   async analyzeCreative(
     @CurrentUser() user: any,
-    @Body() body: CreativeAnalysisRequest,
+    @Body() body: CreativeAnalysisRequest & { advertiserId?: string },
   ) {
     if (!body.creativeId) {
       throw new BadRequestException('creativeId is required');
     }
 
-    const session = await this.tiktokService.getSession(user.userId);
-    if (!session || !session.advertiserId) {
-      throw new BadRequestException('No TikTok session or advertiser selected');
-    }
+    const { adAccountId: advertiserId } = await this.credentialResolver.resolveAccount(AdPlatform.TIKTOK, user.id, body.advertiserId);
 
     // Generate AI analysis using Gemini
     const analysisResult = await this.generateCreativeAnalysis(body);
@@ -52,7 +52,7 @@ export class TikTokAiController {
     // Save the score
     await this.aiService.saveAICreativeScore(
       body.creativeId,
-      session.advertiserId,
+      advertiserId,
       analysisResult.score,
       {
         ...analysisResult,
@@ -74,13 +74,11 @@ export class TikTokAiController {
   async getCreativeScore(
     @CurrentUser() user: any,
     @Param('creativeId') creativeId: string,
+    @Query('advertiserId') advertiserId?: string,
   ) {
-    const session = await this.tiktokService.getSession(user.userId);
-    if (!session || !session.advertiserId) {
-      throw new BadRequestException('No TikTok session or advertiser selected');
-    }
+    const credentials = await this.credentialResolver.resolveAccount(AdPlatform.TIKTOK, user.id, advertiserId);
 
-    const score = await this.aiService.getAICreativeScore(creativeId, session.advertiserId);
+    const score = await this.aiService.getAICreativeScore(creativeId, credentials.adAccountId);
     
     if (!score) {
       return { success: false, message: 'No score found for this creative' };
@@ -92,23 +90,20 @@ export class TikTokAiController {
   @Post('batch-analyze')
   async batchAnalyzeCreatives(
     @CurrentUser() user: any,
-    @Body() body: { creatives: CreativeAnalysisRequest[] },
+    @Body() body: { creatives: CreativeAnalysisRequest[]; advertiserId?: string },
   ) {
     if (!body.creatives || !Array.isArray(body.creatives)) {
       throw new BadRequestException('creatives array is required');
     }
 
-    const session = await this.tiktokService.getSession(user.userId);
-    if (!session || !session.advertiserId) {
-      throw new BadRequestException('No TikTok session or advertiser selected');
-    }
+    const { adAccountId: advertiserId } = await this.credentialResolver.resolveAccount(AdPlatform.TIKTOK, user.id, body.advertiserId);
 
     const results = await Promise.allSettled(
       body.creatives.map(async (creative) => {
         const analysis = await this.generateCreativeAnalysis(creative);
         await this.aiService.saveAICreativeScore(
           creative.creativeId,
-          session.advertiserId!,
+          advertiserId,
           analysis.score,
           {
             ...analysis,
@@ -182,16 +177,15 @@ export class TikTokAiController {
     @Param('creativeId') creativeId: string,
     @Query('since') since?: string,
     @Query('until') until?: string,
+    @Query('advertiserId') advertiserId?: string,
   ) {
-    const session = await this.tiktokService.getSession(user.userId);
-    if (!session || !session.advertiserId) {
-      throw new BadRequestException('No TikTok session or advertiser selected');
-    }
+    const credentials = await this.credentialResolver.resolveAccount(AdPlatform.TIKTOK, user.id, advertiserId);
 
-    // Get historical metrics for fatigue analysis
+    // Get historical metrics for fatigue analysis, defaulting to the advertiser's last 30 days
+    const defaultRange = await this.tiktokService.resolveAccountDateRange(credentials.accessToken, credentials.adAccountId, 'last_30d');
     const dateRange = {
-      since: since || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-      until: until || new Date().toISOString().split('T')[0],
+      since: since || defaultRange.since,
+      until: until || defaultRange.until,
     };
 
     const fatigueAnalysis = await this.analyzeFatigue(creativeId, dateRange);
@@ -1,15 +1,20 @@
 import { Controller, Get, Post, Delete, Body, Query, Param, UseGuards, BadRequestException, Res } from '@nestjs/common';
 import type { Response } from 'express';
 import { TikTokService } from './tiktok.service';
+import { BackfillService } from '../sync/backfill.service';
+import { CredentialResolverService, AccountCredentials } from '../platforms/credential-resolver.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { ConfigService } from '@nestjs/config';
+import { AdPlatform } from '../common/interfaces/ad-platform.interface';
 
 @Controller('tiktok')
 export class TikTokController {
   constructor(
     private readonly tiktokService: TikTokService,
     private readonly configService: ConfigService,
+    private readonly backfillService: BackfillService,
+    private readonly credentialResolver: CredentialResolverService,
   ) {}
 
   @Get('health')
@@ -142,14 +147,18 @@ export class TikTokController {
         }
       }
 
+      // Each TikTok login is kept as its own session so several can be connected at once
+      const identity = await this.tiktokService.getIdentity(access_token);
+
       await this.tiktokService.saveSession(
         userId,
         access_token,
         refresh_token,
         advertiser_ids?.[0],
-        advertiserName,
         tokenExpiresAt,
+        advertiserName,
         refreshTokenExpiresAt,
+        identity,
       );
 
       return {
@@ -242,12 +251,16 @@ export class TikTokController {
       session.accessToken,
       session.refreshToken,
       body.advertiserId,
-      body.advertiserName,
       session.tokenExpiresAt,
+      body.advertiserName,
       session.refreshTokenExpiresAt,
+      session.identityId ? { id: session.identityId, name: session.identityName || undefined } : undefined,
     );
 
-    return { success: true, advertiserId: body.advertiserId };
+    // Import the advertiser's history in the background; progress is reported by GET /sync/jobs
+    const backfillJob = await this.backfillService.enqueue(AdPlatform.TIKTOK, user.id, body.advertiserId);
+
+    return { success: true, advertiserId: body.advertiserId, backfillJobId: backfillJob.id };
   }
 
   // ==================== CAMPAIGNS ====================
@@ -258,30 +271,21 @@ export class TikTokController {
     @CurrentUser() user: any,
     @Query('since') since?: string,
     @Query('until') until?: string,
+    @Query('advertiserId') advertiserId?: string,
   ) {
-    const session = await this.tiktokService.getSession(user.id);
-    if (!session || !session.advertiserId) {
-      throw new BadRequestException('No TikTok session or advertiser selected');
-    }
-
-    // Subscription validation
-    await this.tiktokService.validateSubscription(user.id);
-    await this.tiktokService.validateAdvertiserAccess(user.id, session.advertiserId);
+    const credentials = await this.getAdvertiserCredentials(user.id, advertiserId);
 
     const dateRange = since && until ? { since, until } : undefined;
-    const result = await this.tiktokService.getCampaigns(session.accessToken, session.advertiserId, dateRange);
+    const result = await this.tiktokService.getCampaigns(credentials.accessToken, credentials.adAccountId, dateRange);
     return result;
   }
 
   @Get('campaigns/:id')
   @UseGuards(JwtAuthGuard)
-  async getCampaign(@CurrentUser() user: any, @Param('id') campaignId: string) {
-    const session = await this.tiktokService.getSession(user.id);
-    if (!session) {
-      throw new BadRequestException('No TikTok session found');
-    }
+  async getCampaign(@CurrentUser() user: any, @Param('id') campaignId: string, @Query('advertiserId') advertiserId?: string) {
+    const { accessToken } = await this.credentialResolver.resolve(AdPlatform.TIKTOK, user.id, advertiserId);
 
-    const result = await this.tiktokService.getCampaign(session.accessToken, campaignId);
+    const result = await this.tiktokService.getCampaign(accessToken, campaignId);
     return result;
   }
 
@@ -294,30 +298,21 @@ export class TikTokController {
     @Query('campaignId') campaignId?: string,
     @Query('since') since?: string,
     @Query('until') until?: string,
+    @Query('advertiserId') advertiserId?: string,
   ) {
-    const session = await this.tiktokService.getSession(user.id);
-    if (!session || !session.advertiserId) {
-      throw new BadRequestException('No TikTok session or advertiser selected');
-    }
-
-    // Subscription validation
-    await this.tiktokService.validateSubscription(user.id);
-    await this.tiktokService.validateAdvertiserAccess(user.id, session.advertiserId);
+    const credentials = await this.getAdvertiserCredentials(user.id, advertiserId);
 
     const dateRange = since && until ? { since, until } : undefined;
-    const result = await this.tiktokService.getAdGroups(session.accessToken, session.advertiserId, campaignId, dateRange);
+    const result = await this.tiktokService.getAdGroups(credentials.accessToken, campaignId || '', dateRange, credentials.adAccountId);
     return result;
   }
 
   @Get('adgroups/:id')
   @UseGuards(JwtAuthGuard)
-  async getAdGroup(@CurrentUser() user: any, @Param('id') adGroupId: string) {
-    const session = await this.tiktokService.getSession(user.id);
-    if (!session) {
-      throw new BadRequestException('No TikTok session found');
-    }
+  async getAdGroup(@CurrentUser() user: any, @Param('id') adGroupId: string, @Query('advertiserId') advertiserId?: string) {
+    const { accessToken } = await this.credentialResolver.resolve(AdPlatform.TIKTOK, user.id, advertiserId);
 
-    const result = await this.tiktokService.getAdGroup(session.accessToken, adGroupId);
+    const result = await this.tiktokService.getAdGroup(accessToken, adGroupId);
     return result;
   }
 
@@ -330,30 +325,21 @@ export class TikTokController {
     @Query('adgroupId') adGroupId?: string,
     @Query('since') since?: string,
     @Query('until') until?: string,
+    @Query('advertiserId') advertiserId?: string,
   ) {
-    const session = await this.tiktokService.getSession(user.id);
-    if (!session || !session.advertiserId) {
-      throw new BadRequestException('No TikTok session or advertiser selected');
-    }
-
-    // Subscription validation
-    await this.tiktokService.validateSubscription(user.id);
-    await this.tiktokService.validateAdvertiserAccess(user.id, session.advertiserId);
+    const credentials = await this.getAdvertiserCredentials(user.id, advertiserId);
 
     const dateRange = since && until ? { since, until } : undefined;
-    const result = await this.tiktokService.getAds(session.accessToken, session.advertiserId, adGroupId, dateRange);
+    const result = await this.tiktokService.getAds(credentials.accessToken, adGroupId || '', dateRange, credentials.adAccountId);
     return result;
   }
 
   @Get('ads/:id')
   @UseGuards(JwtAuthGuard)
-  async getAd(@CurrentUser() user: any, @Param('id') adId: string) {
-    const session = await this.tiktokService.getSession(user.id);
-    if (!session) {
-      throw new BadRequestException('No TikTok session found');
-    }
+  async getAd(@CurrentUser() user: any, @Param('id') adId: string, @Query('advertiserId') advertiserId?: string) {
+    const { accessToken } = await this.credentialResolver.resolve(AdPlatform.TIKTOK, user.id, advertiserId);
 
-    const result = await this.tiktokService.getAd(session.accessToken, adId);
+    const result = await this.tiktokService.getAd(accessToken, adId);
     return result;
   }
 
@@ -365,21 +351,15 @@ export class TikTokController {
     @CurrentUser() user: any,
     @Query('since') since: string,
     @Query('until') until: string,
+    @Query('advertiserId') advertiserId?: string,
   ) {
     if (!since || !until) {
       throw new BadRequestException('since and until date parameters are required');
     }
 
-    const session = await this.tiktokService.getSession(user.id);
-    if (!session || !session.advertiserId) {
-      throw new BadRequestException('No TikTok session or advertiser selected');
-    }
+    const credentials = await this.getAdvertiserCredentials(user.id, advertiserId);
 
-    // Subscription validation
-    await this.tiktokService.validateSubscription(user.id);
-    await this.tiktokService.validateAdvertiserAccess(user.id, session.advertiserId);
-
-    const result = await this.tiktokService.getAccountMetrics(session.accessToken, session.advertiserId, { since, until });
+    const result = await this.tiktokService.getAccountMetrics(credentials.accessToken, credentials.adAccountId, { since, until });
     return result;
   }
 
@@ -391,54 +371,39 @@ export class TikTokController {
     @CurrentUser() user: any,
     @Query('since') since?: string,
     @Query('until') until?: string,
+    @Query('advertiserId') advertiserId?: string,
   ) {
-    const session = await this.tiktokService.getSession(user.id);
-    if (!session || !session.advertiserId) {
-      throw new BadRequestException('No TikTok session or advertiser selected');
-    }
-
-    // Subscription validation
-    await this.tiktokService.validateSubscription(user.id);
-    await this.tiktokService.validateAdvertiserAccess(user.id, session.advertiserId);
+    const credentials = await this.getAdvertiserCredentials(user.id, advertiserId);
 
     const dateRange = since && until ? { since, until } : undefined;
-    const result = await this.tiktokService.getCreatives(session.accessToken, session.advertiserId, dateRange);
+    const result = await this.tiktokService.getCreatives(credentials.accessToken, credentials.adAccountId, dateRange);
     return result;
   }
 
   @Get('creatives/:id')
   @UseGuards(JwtAuthGuard)
-  async getCreative(@CurrentUser() user: any, @Param('id') creativeId: string) {
-    const session = await this.tiktokService.getSession(user.id);
-    if (!session || !session.advertiserId) {
-      throw new BadRequestException('No TikTok session or advertiser selected');
-    }
+  async getCreative(@CurrentUser() user: any, @Param('id') creativeId: string, @Query('advertiserId') advertiserId?: string) {
+    const credentials = await this.credentialResolver.resolveAccount(AdPlatform.TIKTOK, user.id, advertiserId);
 
-    const creative = await this.tiktokService.getCreativeInfo(session.accessToken, session.advertiserId, creativeId);
+    const creative = await this.tiktokService.getCreativeInfo(credentials.accessToken, credentials.adAccountId, creativeId);
     return { success: true, creative };
   }
 
   @Get('videos/:id')
   @UseGuards(JwtAuthGuard)
-  async getVideoInfo(@CurrentUser() user: any, @Param('id') videoId: string) {
-    const session = await this.tiktokService.getSession(user.id);
-    if (!session || !session.advertiserId) {
-      throw new BadRequestException('No TikTok session or advertiser selected');
-    }
+  async getVideoInfo(@CurrentUser() user: any, @Param('id') videoId: string, @Query('advertiserId') advertiserId?: string) {
+    const credentials = await this.credentialResolver.resolveAccount(AdPlatform.TIKTOK, user.id, advertiserId);
 
-    const video = await this.tiktokService.getVideoInfo(session.accessToken, session.advertiserId, videoId);
+    const video = await this.tiktokService.getVideoInfo(credentials.accessToken, credentials.adAccountId, videoId);
     return { success: true, video };
   }
 
   @Get('images/:id')
   @UseGuards(JwtAuthGuard)
-  async getImageInfo(@CurrentUser() user: any, @Param('id') imageId: string) {
-    const session = await this.tiktokService.getSession(user.id);
-    if (!session || !session.advertiserId) {
-      throw new BadRequestException('No TikTok session or advertiser selected');
-    }
+  async getImageInfo(@CurrentUser() user: any, @Param('id') imageId: string, @Query('advertiserId') advertiserId?: string) {
+    const credentials = await this.credentialResolver.resolveAccount(AdPlatform.TIKTOK, user.id, advertiserId);
 
-    const image = await this.tiktokService.getImageInfo(session.accessToken, session.advertiserId, imageId);
+    const image = await this.tiktokService.getImageInfo(credentials.accessToken, credentials.adAccountId, imageId);
     return { success: true, image };
   }
 
@@ -450,21 +415,15 @@ export class TikTokController {
     @CurrentUser() user: any,
     @Query('since') since: string,
     @Query('until') until: string,
+    @Query('advertiserId') advertiserId?: string,
   ) {
     if (!since || !until) {
       throw new BadRequestException('since and until date parameters are required');
     }
 
-    const session = await this.tiktokService.getSession(user.id);
-    if (!session || !session.advertiserId) {
-      throw new BadRequestException('No TikTok session or advertiser selected');
-    }
-
-    // Subscription validation
-    await this.tiktokService.validateSubscription(user.id);
-    await this.tiktokService.validateAdvertiserAccess(user.id, session.advertiserId);
+    const credentials = await this.getAdvertiserCredentials(user.id, advertiserId);
 
-    const result = await this.tiktokService.getDemographics(session.accessToken, session.advertiserId, { since, until });
+    const result = await this.tiktokService.getDemographics(credentials.accessToken, credentials.adAccountId, { since, until });
     return result;
   }
 
@@ -476,21 +435,15 @@ export class TikTokController {
     @CurrentUser() user: any,
     @Query('since') since: string,
     @Query('until') until: string,
+    @Query('advertiserId') advertiserId?: string,
   ) {
     if (!since || !until) {
       throw new BadRequestException('since and until date parameters are required');
     }
 
-    const session = await this.tiktokService.getSession(user.id);
-    if (!session || !session.advertiserId) {
-      throw new BadRequestException('No TikTok session or advertiser selected');
-    }
-
-    // Subscription validation
-    await this.tiktokService.validateSubscription(user.id);
-    await this.tiktokService.validateAdvertiserAccess(user.id, session.advertiserId);
+    const credentials = await this.getAdvertiserCredentials(user.id, advertiserId);
 
-    const result = await this.tiktokService.getDailyMetrics(session.accessToken, session.advertiserId, { since, until });
+    const result = await this.tiktokService.getDailyMetrics(credentials.accessToken, credentials.adAccountId, { since, until });
     return result;
   }
 
@@ -502,18 +455,20 @@ export class TikTokController {
     @CurrentUser() user: any,
     @Query('since') since?: string,
     @Query('until') until?: string,
+    @Query('advertiserId') advertiserId?: string,
   ) {
-    const session = await this.tiktokService.getSession(user.id);
-    if (!session || !session.advertiserId) {
-      throw new BadRequestException('No TikTok session or advertiser selected');
-    }
-
-    // Subscription validation
-    await this.tiktokService.validateSubscription(user.id);
-    await this.tiktokService.validateAdvertiserAccess(user.id, session.advertiserId);
+    const credentials = await this.getAdvertiserCredentials(user.id, advertiserId);
 
     const dateRange = since && until ? { since, until } : undefined;
-    const result = await this.tiktokService.getCreativesWithMetrics(session.accessToken, session.advertiserId, dateRange);
+    const result = await this.tiktokService.getCreativesWithMetrics(credentials.accessToken, credentials.adAccountId, dateRange);
     return result;
   }
+
+  /**
+   * The token for the requested advertiser (or the most recently selected one), after the subscription and seat checks
+   */
+  private async getAdvertiserCredentials(userId: number, advertiserId?: string): Promise<AccountCredentials> {
+    await this.tiktokService.validateSubscription(userId);
+    return this.credentialResolver.resolveAccount(AdPlatform.TIKTOK, userId, advertiserId);
+  }
 }
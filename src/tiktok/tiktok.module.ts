@@ -5,23 +5,26 @@ import { TikTokService } from './tiktok.service';
 import { TikTokController } from './tiktok.controller';
 import { TikTokAiController } from './tiktok-ai.controller';
 import { TikTokSession } from './entities/tiktok-session.entity';
-import { TikTokMetricsCache } from './entities/tiktok-metrics-cache.entity';
-import { TikTokCreativesCache } from './entities/tiktok-creatives-cache.entity';
 import { TikTokCampaignData } from './entities/tiktok-campaign-data.entity';
 import { AiModule } from '../ai/ai.module';
 import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { SyncModule } from '../sync/sync.module';
+import { AccountsModule } from '../accounts/accounts.module';
+import { PlatformsModule } from '../platforms/platforms.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([
       TikTokSession,
-      TikTokMetricsCache,
-      TikTokCreativesCache,
       TikTokCampaignData,
     ]),
     ConfigModule,
     AiModule,
     forwardRef(() => SubscriptionsModule),
+    forwardRef(() => SyncModule),
+    AccountsModule,
+    // Controllers resolve credentials through this module
+    forwardRef(() => PlatformsModule),
   ],
   controllers: [TikTokController, TikTokAiController],
   providers: [TikTokService],
@@ -1,23 +1,30 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, LessThan } from 'typeorm';
+import { Repository, Not, IsNull, LessThan } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
 import { Inject, forwardRef, ForbiddenException, UnauthorizedException } from '@nestjs/common';
 import { TikTokSession } from './entities/tiktok-session.entity';
-import { TikTokMetricsCache } from './entities/tiktok-metrics-cache.entity';
-import { TikTokCreativesCache } from './entities/tiktok-creatives-cache.entity';
 import { TikTokCampaignData } from './entities/tiktok-campaign-data.entity';
 import { SubscriptionsService } from '../subscriptions/subscriptions.service';
+import { BaseAdPlatformService } from '../common/services/base-ad-platform.service';
+import { CacheService } from '../cache/cache.service';
+import { ConnectedAccountsService } from '../accounts/connected-accounts.service';
+import { cacheKey } from '../cache/cache.util';
 import { 
   AdPlatform, 
-  PlatformSession, 
   PlatformMetrics, 
   PlatformCampaign, 
   PlatformAdGroup, 
   PlatformAd,
   PlatformDateRange,
   PlatformApiResponse,
+  SessionIdentity,
+  DailyAdMetrics,
 } from '../common/interfaces/ad-platform.interface';
+import { RateLimit, DEFAULT_RATE_LIMIT, backoffDelay } from '../common/utils/rate-limit.util';
+
+// Business API answers HTTP 200 with these codes when throttling (40100) or briefly unavailable (50000)
+const TIKTOK_RETRYABLE_CODES = [40100, 50000];
 
 interface TikTokApiResponse<T = any> {
   code: number;
@@ -72,6 +79,8 @@ interface TikTokMetricsApiData {
     conversion?: string;
     cost_per_conversion?: string;
     total_purchase_value?: string;
+    campaign_id?: string;
+    adgroup_id?: string;
   };
   dimensions: {
     stat_time_day?: string;
@@ -82,26 +91,26 @@ interface TikTokMetricsApiData {
 }
 
 @Injectable()
-export class TikTokService {
-  private readonly logger = new Logger(TikTokService.name);
-  private readonly platform = AdPlatform.TIKTOK;
-  private readonly apiVersion = 'v1.3';
-  private readonly baseUrl = 'https://business-api.tiktok.com/open_api';
-  private readonly cacheTTL = 5 * 60 * 1000; // 5 minutes
+export class TikTokService extends BaseAdPlatformService {
+  protected readonly logger = new Logger(TikTokService.name);
+  protected readonly platform = AdPlatform.TIKTOK;
+  protected readonly apiVersion = 'v1.3';
+  protected readonly baseUrl = 'https://business-api.tiktok.com/open_api';
+  private readonly advertiserSettings = new Map<string, { currency: string; timezone: string }>();
 
   constructor(
     @InjectRepository(TikTokSession)
     private sessionRepository: Repository<TikTokSession>,
-    @InjectRepository(TikTokMetricsCache)
-    private metricsCacheRepository: Repository<TikTokMetricsCache>,
-    @InjectRepository(TikTokCreativesCache)
-    private creativesCacheRepository: Repository<TikTokCreativesCache>,
     @InjectRepository(TikTokCampaignData)
     private campaignDataRepository: Repository<TikTokCampaignData>,
     private configService: ConfigService,
     @Inject(forwardRef(() => SubscriptionsService))
     private readonly subscriptionsService: SubscriptionsService,
-  ) {}
+    private readonly cacheService: CacheService,
+    private readonly connectedAccountsService: ConnectedAccountsService,
+  ) {
+    super();
+  }
 
   // ==================== SUBSCRIPTION VALIDATION ====================
 
@@ -166,16 +175,20 @@ export class TikTokService {
 
   // ==================== SESSION MANAGEMENT ====================
 
+  /**
+   * Each TikTok login gets its own session; without an identity the most recently used session is updated
+   */
   async saveSession(
     userId: number,
     accessToken: string,
     refreshToken?: string,
     advertiserId?: string,
-    advertiserName?: string,
     tokenExpiresAt?: Date,
+    advertiserName?: string,
     refreshTokenExpiresAt?: Date,
+    identity?: SessionIdentity,
   ): Promise<TikTokSession> {
-    let session = await this.sessionRepository.findOneBy({ userId });
+    let session = await this.findIdentitySession(userId, identity);
     
     if (session) {
       session.accessToken = accessToken;
@@ -184,6 +197,10 @@ export class TikTokService {
       session.advertiserName = advertiserName || session.advertiserName;
       session.tokenExpiresAt = tokenExpiresAt || session.tokenExpiresAt;
       session.refreshTokenExpiresAt = refreshTokenExpiresAt || session.refreshTokenExpiresAt;
+      session.identityId = identity?.id || session.identityId;
+      session.identityName = identity?.name || session.identityName;
+      session.needsReauth = false;
+      session.reauthReason = null;
     } else {
       session = this.sessionRepository.create({
         userId,
@@ -193,26 +210,82 @@ export class TikTokService {
         advertiserName,
         tokenExpiresAt,
         refreshTokenExpiresAt,
+        identityId: identity?.id || null,
+        identityName: identity?.name || null,
       });
     }
     
-    return this.sessionRepository.save(session);
+    const saved = await this.sessionRepository.save(session);
+
+    if (saved.advertiserId) {
+      await this.connectedAccountsService.connect(userId, this.platform, saved.id, saved.advertiserId, saved.advertiserName);
+    }
+
+    // Selecting the advertiser again or refreshing its token starts it from a clean cache
+    await this.cacheService.invalidateAccount(AdPlatform.TIKTOK, saved.advertiserId);
+    return saved;
   }
 
   async getSession(userId: number): Promise<TikTokSession | null> {
-    return this.sessionRepository.findOneBy({ userId });
+    return this.sessionRepository.findOne({ where: { userId }, order: { updatedAt: 'DESC' } });
   }
 
-  async deleteSession(userId: number): Promise<void> {
-    await this.sessionRepository.delete({ userId });
+  async getSessions(userId: number): Promise<TikTokSession[]> {
+    return this.sessionRepository.find({ where: { userId }, order: { updatedAt: 'DESC' } });
   }
 
-  async refreshAccessToken(userId: number): Promise<TikTokSession> {
-    const session = await this.getSession(userId);
+  async getSessionById(userId: number, sessionId: number): Promise<TikTokSession | null> {
+    return this.sessionRepository.findOne({ where: { id: sessionId, userId } });
+  }
+
+  async deleteSession(userId: number, sessionId?: number): Promise<void> {
+    await this.sessionRepository.delete(sessionId ? { id: sessionId, userId } : { userId });
+    await this.connectedAccountsService.disconnectSession(userId, this.platform, sessionId);
+  }
+
+  /**
+   * The TikTok login behind a token
+   */
+  async getIdentity(accessToken: string): Promise<SessionIdentity> {
+    const response = await this.makeApiCall<TikTokApiResponse<{ core_user_id: string; display_name?: string }>>(
+      `${this.baseUrl}/${this.apiVersion}/user/info/`,
+      accessToken,
+    );
+    if (response.code !== 0) {
+      throw new Error(`Failed to get user info: ${response.message}`);
+    }
+
+    return { id: response.data.core_user_id, name: response.data.display_name };
+  }
+
+  private async findIdentitySession(userId: number, identity?: SessionIdentity): Promise<TikTokSession | null> {
+    if (!identity) {
+      return this.getSession(userId);
+    }
+
+    // A session saved before identities were recorded is taken over by the first login connected
+    return await this.sessionRepository.findOne({ where: { userId, identityId: identity.id } })
+      || await this.sessionRepository.findOne({ where: { userId, identityId: IsNull() } });
+  }
+
+  async getConnectedSessions(): Promise<TikTokSession[]> {
+    return this.sessionRepository.find({ where: { advertiserId: Not(IsNull()) } });
+  }
+
+  async getSessionsExpiringBefore(date: Date): Promise<TikTokSession[]> {
+    return this.sessionRepository.find({ where: { tokenExpiresAt: LessThan(date), needsReauth: false } });
+  }
+
+  async markNeedsReauth(userId: number, reason: string, sessionId?: number): Promise<void> {
+    await this.sessionRepository.update(sessionId ? { id: sessionId, userId } : { userId }, { needsReauth: true, reauthReason: reason });
+  }
+
+  async refreshAccessToken(userId: number, sessionId?: number): Promise<TikTokSession> {
+    const session = sessionId ? await this.getSessionById(userId, sessionId) : await this.getSession(userId);
     if (!session || !session.refreshToken) {
       if (session) {
-        this.logger.warn(`Invalid session found for user ${userId}, cleaning up`);
-        await this.deleteSession(userId);
+        this.logger.warn(`Invalid session found for user ${userId}, flagging for re-auth`);
+        await this.markNeedsReauth(userId, 'No refresh token stored', session.id);
       }
       throw new UnauthorizedException('No session or refresh token found');
     }
@@ -233,8 +306,8 @@ export class TikTokService {
     const data: TikTokApiResponse = await response.json();
     
     if (data.code !== 0) {
-      this.logger.warn(`Token refresh failed for user ${userId}: ${data.message} (Code: ${data.code}), cleaning up session`);
-      await this.deleteSession(userId);
+      this.logger.warn(`Token refresh failed for user ${userId}: ${data.message} (Code: ${data.code}), flagging for re-auth`);
+      await this.markNeedsReauth(userId, data.message, session.id);
       throw new UnauthorizedException(`Token refresh failed: ${data.message}`);
     }
 
@@ -246,9 +319,10 @@ export class TikTokService {
       data.data.access_token,
       data.data.refresh_token,
       session.advertiserId,
-      session.advertiserName,
       tokenExpiresAt,
+      session.advertiserName,
       refreshTokenExpiresAt,
+      session.identityId ? { id: session.identityId, name: session.identityName || undefined } : undefined,
     );
   }
 
@@ -267,6 +341,30 @@ export class TikTokService {
     return response.data.list?.[0] || null;
   }
 
+  async getAccountCurrency(accessToken: string, advertiserId: string): Promise<string> {
+    const { currency } = await this.getAdvertiserSettings(accessToken, advertiserId);
+    if (!currency) {
+      throw new Error(`Currency not available for TikTok advertiser ${advertiserId}`);
+    }
+    return currency;
+  }
+
+  async getAccountTimezone(accessToken: string, advertiserId: string): Promise<string> {
+    return (await this.getAdvertiserSettings(accessToken, advertiserId)).timezone;
+  }
+
+  private async getAdvertiserSettings(accessToken: string, advertiserId: string): Promise<{ currency: string; timezone: string }> {
+    if (!this.advertiserSettings.has(advertiserId)) {
+      const advertiser = await this.getAdvertiserInfo(accessToken, advertiserId);
+      this.advertiserSettings.set(advertiserId, {
+        currency: advertiser?.currency,
+        timezone: advertiser?.timezone || 'UTC',
+      });
+    }
+
+    return this.advertiserSettings.get(advertiserId)!;
+  }
+
   async getAuthorizedAdvertisers(accessToken: string, appId: string): Promise<any[]> {
     const url = `${this.baseUrl}/${this.apiVersion}/oauth2/advertiser/get/`;
     const response = await this.makeApiCall<TikTokApiResponse>(url, accessToken, {
@@ -372,10 +470,14 @@ export class TikTokService {
 
   async getAdGroups(
     accessToken: string,
-    advertiserId: string,
-    campaignId?: string,
+    campaignId: string,
     dateRange?: PlatformDateRange,
+    advertiserId?: string,
   ): Promise<PlatformApiResponse<PlatformAdGroup[]>> {
+    if (!advertiserId) {
+      return { success: false, error: 'An advertiser ID is required' };
+    }
+
     try {
       const url = `${this.baseUrl}/${this.apiVersion}/adgroup/get/`;
       const params: Record<string, any> = {
@@ -455,10 +557,14 @@ export class TikTokService {
 
   async getAds(
     accessToken: string,
-    advertiserId: string,
-    adGroupId?: string,
+    adGroupId: string,
     dateRange?: PlatformDateRange,
+    advertiserId?: string,
   ): Promise<PlatformApiResponse<PlatformAd[]>> {
+    if (!advertiserId) {
+      return { success: false, error: 'An advertiser ID is required' };
+    }
+
     try {
       const url = `${this.baseUrl}/${this.apiVersion}/ad/get/`;
       const params: Record<string, any> = {
@@ -541,45 +647,66 @@ export class TikTokService {
     advertiserId: string,
     dateRange: PlatformDateRange,
   ): Promise<PlatformApiResponse<PlatformMetrics>> {
-    const cacheKey = `account_${advertiserId}_${dateRange.since}_${dateRange.until}`;
-    const cached = await this.getCachedMetrics(advertiserId, 'account', null, `${dateRange.since}_${dateRange.until}`);
-    
-    if (cached) {
-      return { success: true, data: cached };
-    }
+    const key = cacheKey(AdPlatform.TIKTOK, advertiserId, 'metrics', 'account', `${dateRange.since}_${dateRange.until}`);
 
     try {
-      const url = `${this.baseUrl}/${this.apiVersion}/report/integrated/get/`;
-      const response = await this.makeApiCall<TikTokApiResponse<{ list: TikTokMetricsApiData[] }>>(
-        url,
-        accessToken,
-        {
-          advertiser_id: advertiserId,
-          report_type: 'BASIC',
-          dimensions: JSON.stringify(['advertiser_id']),
-          data_level: 'AUCTION_ADVERTISER',
-          start_date: dateRange.since,
-          end_date: dateRange.until,
-          metrics: JSON.stringify([
-            'spend', 'impressions', 'clicks', 'reach', 'frequency',
-            'cpc', 'cpm', 'ctr', 'conversion', 'cost_per_conversion',
-          ]),
-        },
-      );
-
-      if (response.code !== 0) {
-        return { success: false, error: response.message };
-      }
-
-      const metrics = this.transformMetrics(response.data.list?.[0]?.metrics);
-      await this.cacheMetrics(advertiserId, 'account', null, `${dateRange.since}_${dateRange.until}`, metrics);
-
+      const metrics = await this.cacheService.getOrLoad(key, 'metrics', () => this.fetchAccountMetrics(accessToken, advertiserId, dateRange));
       return { success: true, data: metrics };
     } catch (error: any) {
+      if (this.isPlatformUnavailable(error)) {
+        const stale = await this.cacheService.getLastKnown<PlatformMetrics>(key);
+        if (stale) {
+          return { success: true, data: stale.value, stale: true, cachedAt: stale.cachedAt };
+        }
+      }
       return { success: false, error: error.message };
     }
   }
 
+  private async fetchAccountMetrics(accessToken: string, advertiserId: string, dateRange: PlatformDateRange): Promise<PlatformMetrics> {
+    const url = `${this.baseUrl}/${this.apiVersion}/report/integrated/get/`;
+    const response = await this.makeApiCall<TikTokApiResponse<{ list: TikTokMetricsApiData[] }>>(
+      url,
+      accessToken,
+      {
+        advertiser_id: advertiserId,
+        report_type: 'BASIC',
+        dimensions: JSON.stringify(['advertiser_id']),
+        data_level: 'AUCTION_ADVERTISER',
+        start_date: dateRange.since,
+        end_date: dateRange.until,
+        metrics: JSON.stringify([
+          'spend', 'impressions', 'clicks', 'reach', 'frequency',
+          'cpc', 'cpm', 'ctr', 'conversion', 'cost_per_conversion',
+        ]),
+      },
+    );
+
+    if (response.code !== 0) {
+      throw new Error(response.message);
+    }
+
+    return this.transformMetrics(response.data.list?.[0]?.metrics);
+  }
+
+  async getCampaignMetrics(
+    accessToken: string,
+    campaignId: string,
+    dateRange: PlatformDateRange,
+    advertiserId?: string,
+  ): Promise<PlatformApiResponse<PlatformMetrics>> {
+    if (!advertiserId) {
+      return { success: false, error: 'An advertiser ID is required' };
+    }
+
+    const response = await this.getCampaignMetricsBulk(accessToken, advertiserId, [campaignId], dateRange);
+    if (!response.success) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data?.[campaignId] || this.transformMetrics(null) };
+  }
+
   async getCampaignMetricsBulk(
     accessToken: string,
     advertiserId: string,
@@ -633,7 +760,7 @@ export class TikTokService {
   ): Promise<PlatformApiResponse<any[]>> {
     try {
       // First, get all ads to extract creative IDs
-      const adsResult = await this.getAds(accessToken, advertiserId, undefined, dateRange);
+      const adsResult = await this.getAds(accessToken, '', dateRange, advertiserId);
       
       if (!adsResult.success || !adsResult.data) {
         return { success: false, error: adsResult.error || 'Failed to fetch ads' };
@@ -846,6 +973,68 @@ export class TikTokService {
     }
   }
 
+  /**
+   * Ad-level report split by stat_time_day; campaign and ad group IDs come back as attribute metrics
+   */
+  async getDailyAdMetrics(
+    accessToken: string,
+    advertiserId: string,
+    dateRange: PlatformDateRange,
+  ): Promise<PlatformApiResponse<DailyAdMetrics[]>> {
+    try {
+      const url = `${this.baseUrl}/${this.apiVersion}/report/integrated/get/`;
+      const rows: DailyAdMetrics[] = [];
+      let page = 1;
+      let totalPages = 1;
+
+      do {
+        const response = await this.makeApiCall<TikTokApiResponse<{ list: TikTokMetricsApiData[]; page_info?: any }>>(
+          url,
+          accessToken,
+          {
+            advertiser_id: advertiserId,
+            report_type: 'BASIC',
+            dimensions: JSON.stringify(['ad_id', 'stat_time_day']),
+            data_level: 'AUCTION_AD',
+            start_date: dateRange.since,
+            end_date: dateRange.until,
+            page,
+            page_size: 1000,
+            metrics: JSON.stringify([
+              'campaign_id', 'adgroup_id',
+              'spend', 'impressions', 'clicks', 'reach', 'frequency',
+              'cpc', 'cpm', 'ctr', 'conversion', 'cost_per_conversion', 'total_purchase_value',
+            ]),
+          },
+        );
+
+        if (response.code !== 0) {
+          return { success: false, error: response.message };
+        }
+
+        response.data.list?.forEach((item) => {
+          if (item.dimensions?.ad_id && item.dimensions.stat_time_day) {
+            rows.push({
+              date: item.dimensions.stat_time_day.substring(0, 10),
+              campaignId: item.metrics?.campaign_id || '',
+              adGroupId: item.metrics?.adgroup_id || '',
+              adId: item.dimensions.ad_id,
+              metrics: this.transformMetrics(item.metrics),
+            });
+          }
+        });
+
+        totalPages = response.data.page_info?.total_page || 1;
+        page++;
+      } while (page <= totalPages);
+
+      return { success: true, data: rows };
+    } catch (error: any) {
+      this.logger.error('Failed to get daily ad metrics', error);
+      return { success: false, error: error.message };
+    }
+  }
+
   // ==================== CREATIVES WITH METRICS ====================
 
   async getCreativesWithMetrics(
@@ -855,17 +1044,14 @@ export class TikTokService {
   ): Promise<PlatformApiResponse<any[]>> {
     try {
       // First, get all ads with creative info
-      const adsResult = await this.getAds(accessToken, advertiserId, undefined, dateRange);
+      const adsResult = await this.getAds(accessToken, '', dateRange, advertiserId);
       
       if (!adsResult.success || !adsResult.data) {
         return { success: false, error: adsResult.error || 'Failed to fetch ads' };
       }
 
       // Get ad-level metrics
-      const effectiveDateRange = dateRange || {
-        since: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-        until: new Date().toISOString().split('T')[0],
-      };
+      const effectiveDateRange = await this.resolveAccountDateRange(accessToken, advertiserId, dateRange || 'last_30d');
 
       const metricsUrl = `${this.baseUrl}/${this.apiVersion}/report/integrated/get/`;
       const adIds = adsResult.data.map(ad => ad.id);
@@ -964,68 +1150,16 @@ export class TikTokService {
     }
   }
 
-  // ==================== CACHING ====================
-
-  private async getCachedMetrics(
-    advertiserId: string,
-    metricType: string,
-    entityId: string | null,
-    dateRange: string,
-  ): Promise<PlatformMetrics | null> {
-    const cached = await this.metricsCacheRepository.findOne({
-      where: {
-        advertiserId,
-        metricType,
-        entityId: entityId || undefined,
-        dateRange,
-        expiresAt: LessThan(new Date()),
-      },
-    });
-
-    if (cached && new Date() < cached.expiresAt) {
-      return cached.metricData as unknown as PlatformMetrics;
-    }
-
-    return null;
-  }
-
-  private async cacheMetrics(
-    advertiserId: string,
-    metricType: string,
-    entityId: string | null,
-    dateRange: string,
-    metrics: PlatformMetrics,
-  ): Promise<void> {
-    const expiresAt = new Date(Date.now() + this.cacheTTL);
-    
-    let cache = await this.metricsCacheRepository.findOne({
-      where: { advertiserId, metricType, entityId: entityId || undefined, dateRange },
-    });
-
-    if (cache) {
-      cache.metricData = metrics as any;
-      cache.expiresAt = expiresAt;
-    } else {
-      cache = this.metricsCacheRepository.create({
-        advertiserId,
-        metricType,
-        entityId: entityId || undefined,
-        dateRange,
-        metricData: metrics as any,
-        expiresAt,
-      });
-    }
-
-    await this.metricsCacheRepository.save(cache);
-  }
-
   // ==================== UTILITIES ====================
 
-  private async makeApiCall<T>(
+  /**
+   * TikTok authenticates with an Access-Token header and reports errors in the response body's code
+   */
+  protected async makeApiCall<T>(
     url: string,
     accessToken: string,
     params?: Record<string, any>,
-    method: 'GET' | 'POST' = 'GET',
+    method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
   ): Promise<T> {
     const headers: Record<string, string> = {
       'Access-Token': accessToken,
@@ -1050,10 +1184,30 @@ export class TikTokService {
       options.body = JSON.stringify(params);
     }
 
-    const response = await fetch(finalUrl, options);
+    const rateLimitKey = params?.advertiser_id ? String(params.advertiser_id) : this.getRateLimitKey(finalUrl);
+    const response = await this.fetchWithRetry(finalUrl, options, rateLimitKey);
     return response.json();
   }
 
+  /**
+   * Enforces the tiktok.rateLimitRequests / tiktok.rateLimitWindow settings per advertiser
+   */
+  protected getRateLimit(): RateLimit {
+    return {
+      requests: this.configService.get<number>('tiktok.rateLimitRequests') || DEFAULT_RATE_LIMIT.requests,
+      windowMs: this.configService.get<number>('tiktok.rateLimitWindow') || DEFAULT_RATE_LIMIT.windowMs,
+    };
+  }
+
+  protected async getRetryDelay(response: Response, attempt: number): Promise<number | null> {
+    if (response.ok) {
+      const body = await response.clone().json().catch(() => null);
+      return TIKTOK_RETRYABLE_CODES.includes(body?.code) ? backoffDelay(attempt, this.getRetryPolicy()) : null;
+    }
+
+    return super.getRetryDelay(response, attempt);
+  }
+
   private transformMetrics(raw: any): PlatformMetrics {
     if (!raw) {
       return {
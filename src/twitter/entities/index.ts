@@ -0,0 +1 @@
+export * from './twitter-session.entity';
@@ -0,0 +1,72 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { AdPlatform } from '../../common/interfaces/ad-platform.interface';
+import { encryptedColumn } from '../../encryption/encrypted-column.transformer';
+
+@Entity('twitter_sessions')
+export class TwitterSession {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'user_id' })
+  userId: number;
+
+  @ManyToOne(() => User)
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'oauth_token', type: 'text', nullable: true, transformer: encryptedColumn })
+  oauthToken: string;
+
+  @Column({ name: 'oauth_token_secret', type: 'text', nullable: true, transformer: encryptedColumn })
+  oauthTokenSecret: string;
+
+  // Temporary credentials held between the request_token and access_token legs
+  @Column({ name: 'request_token', type: 'text', nullable: true })
+  requestToken: string | null;
+
+  @Column({ name: 'request_token_secret', type: 'text', nullable: true, transformer: encryptedColumn })
+  requestTokenSecret: string | null;
+
+  @Column({ name: 'twitter_user_id', nullable: true })
+  twitterUserId: string;
+
+  @Column({ name: 'screen_name', nullable: true })
+  screenName: string;
+
+  @Column({ name: 'ad_account_id', nullable: true })
+  adAccountId: string;
+
+  @Column({ name: 'ad_account_name', nullable: true })
+  adAccountName: string;
+
+  @Column({ name: 'ad_account_timezone', nullable: true })
+  adAccountTimezone: string;
+
+  @Column({ name: 'token_expires_at', nullable: true })
+  tokenExpiresAt: Date;
+
+  // Set when the token could not be refreshed; the user has to connect the platform again
+  @Column({ name: 'needs_reauth', default: false })
+  needsReauth: boolean;
+
+  @Column({ name: 'reauth_reason', type: 'text', nullable: true })
+  reauthReason: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  get platform(): AdPlatform {
+    return AdPlatform.TWITTER;
+  }
+
+  /**
+   * OAuth 1.0a needs both token and secret; BaseAdPlatformService methods receive them as one credential string
+   */
+  get accessToken(): string {
+    return this.oauthToken ? `${this.oauthToken}:${this.oauthTokenSecret}` : '';
+  }
+}
@@ -0,0 +1,45 @@
+import { buildOAuth1Header, percentEncode } from './twitter-oauth.util';
+
+describe('twitter-oauth.util', () => {
+  describe('percentEncode', () => {
+    it('should encode reserved characters left alone by encodeURIComponent', () => {
+      expect(percentEncode("Ladies + Gentlemen!*'()")).toBe('Ladies%20%2B%20Gentlemen%21%2A%27%28%29');
+    });
+  });
+
+  describe('buildOAuth1Header', () => {
+    // Reference request from the X "Creating a signature" documentation
+    it('should produce the documented HMAC-SHA1 signature', () => {
+      const header = buildOAuth1Header(
+        'POST',
+        'https://api.twitter.com/1.1/statuses/update.json?include_entities=true',
+        {
+          consumerKey: 'xvz1evFS4wEEPTGEFPHBog',
+          consumerSecret: 'kAcSOqF21Fu85e7zjz7ZN2U4ZRhfV3WpwPAoE3Z7kBw',
+          token: '370773112-GmHxMAgYyLbNEtIKZeRNFsMKPR9EyMZeS9weJAEb',
+          tokenSecret: 'LswwdoUaIvS8ltyTt5jkRh4J50vUPVVHtR2YPi5kE',
+        },
+        { status: 'Hello Ladies + Gentlemen, a signed OAuth request!' },
+        {},
+        'kYjzVBB8Y0ZFabxSWbWovY3uYSQ2pTgmZeNu2VS4cg',
+        '1318622958',
+      );
+
+      expect(header).toContain(`oauth_signature="${percentEncode('hCtSmYh+iHYCEqBWrE7C7hYmtUk=')}"`);
+      expect(header.startsWith('OAuth ')).toBe(true);
+    });
+
+    it('should include extra oauth parameters such as oauth_callback', () => {
+      const header = buildOAuth1Header(
+        'POST',
+        'https://api.x.com/oauth/request_token',
+        { consumerKey: 'key', consumerSecret: 'secret' },
+        {},
+        { oauth_callback: 'http://localhost:3001/twitter/auth/callback' },
+      );
+
+      expect(header).toContain('oauth_callback="http%3A%2F%2Flocalhost%3A3001%2Ftwitter%2Fauth%2Fcallback"');
+      expect(header).not.toContain('oauth_token=');
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { createHmac, randomBytes } from 'crypto';
+
+export interface OAuth1Credentials {
+  consumerKey: string;
+  consumerSecret: string;
+  token?: string;
+  tokenSecret?: string;
+}
+
+/**
+ * RFC 3986 percent-encoding, as required by OAuth 1.0a (encodeURIComponent leaves !'()* alone)
+ */
+export function percentEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Build the HMAC-SHA1 signed `Authorization: OAuth ...` header for a request.
+ * Query string parameters on the URL and any form body parameters are included in the signature.
+ */
+export function buildOAuth1Header(
+  method: string,
+  url: string,
+  credentials: OAuth1Credentials,
+  bodyParams: Record<string, string> = {},
+  extraOAuthParams: Record<string, string> = {},
+  nonce: string = randomBytes(16).toString('hex'),
+  timestamp: string = Math.floor(Date.now() / 1000).toString(),
+): string {
+  const oauthParams: Record<string, string> = {
+    oauth_consumer_key: credentials.consumerKey,
+    oauth_nonce: nonce,
+    oauth_signature_method: 'HMAC-SHA1',
+    oauth_timestamp: timestamp,
+    oauth_version: '1.0',
+    ...extraOAuthParams,
+  };
+  if (credentials.token) {
+    oauthParams.oauth_token = credentials.token;
+  }
+
+  const parsedUrl = new URL(url);
+  const signatureParams: [string, string][] = [
+    ...Array.from(parsedUrl.searchParams.entries()),
+    ...Object.entries(bodyParams),
+    ...Object.entries(oauthParams),
+  ].map(([key, value]) => [percentEncode(key), percentEncode(value)]);
+
+  signatureParams.sort(([aKey, aValue], [bKey, bValue]) =>
+    aKey === bKey ? (aValue < bValue ? -1 : aValue > bValue ? 1 : 0) : aKey < bKey ? -1 : 1,
+  );
+
+  const baseString = [
+    method.toUpperCase(),
+    percentEncode(`${parsedUrl.origin}${parsedUrl.pathname}`),
+    percentEncode(signatureParams.map(([key, value]) => `${key}=${value}`).join('&')),
+  ].join('&');
+
+  const signingKey = `${percentEncode(credentials.consumerSecret)}&${percentEncode(credentials.tokenSecret || '')}`;
+  const signature = createHmac('sha1', signingKey).update(baseString).digest('base64');
+
+  return 'OAuth ' + Object.entries({ ...oauthParams, oauth_signature: signature })
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${percentEncode(key)}="${percentEncode(value)}"`)
+    .join(', ');
+}
@@ -0,0 +1,322 @@
+import { Controller, Get, Post, Delete, Body, Query, Param, UseGuards, BadRequestException, Res } from '@nestjs/common';
+import type { Response } from 'express';
+import { TwitterService } from './twitter.service';
+import { TwitterSession } from './entities/twitter-session.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ConfigService } from '@nestjs/config';
+
+@Controller('twitter')
+export class TwitterController {
+  constructor(
+    private readonly twitterService: TwitterService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Get('health')
+  async healthCheck() {
+    return {
+      status: 'ok',
+      service: 'twitter',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  // ==================== OAUTH ====================
+
+  @Get('auth/url')
+  @UseGuards(JwtAuthGuard)
+  async getAuthUrl(@CurrentUser() user: any) {
+    const authUrl = await this.twitterService.startAuthorization(user.id);
+    return { success: true, authUrl };
+  }
+
+  @Get('auth/callback')
+  async handleAuthCallback(
+    @Query('oauth_token') oauthToken: string,
+    @Query('oauth_verifier') oauthVerifier: string,
+    @Query('denied') denied: string,
+    @Res() res: Response,
+  ) {
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL') || 'http://localhost:3000';
+
+    try {
+      if (denied) {
+        throw new BadRequestException('Authorization was denied');
+      }
+
+      if (!oauthToken || !oauthVerifier) {
+        throw new BadRequestException('Missing oauth_token or oauth_verifier');
+      }
+
+      // Redirect to frontend callback page, which completes the exchange via POST
+      const callbackUrl = new URL('/twitter/callback', frontendUrl);
+      callbackUrl.searchParams.set('oauth_token', oauthToken);
+      callbackUrl.searchParams.set('oauth_verifier', oauthVerifier);
+
+      return res.redirect(callbackUrl.toString());
+    } catch (error: any) {
+      return res.redirect(`${frontendUrl}/twitter?twitter_error=${encodeURIComponent(error.message)}`);
+    }
+  }
+
+  @Post('auth/callback')
+  @UseGuards(JwtAuthGuard)
+  async handleAuthCallbackPost(
+    @CurrentUser() user: any,
+    @Body() body: { oauthToken: string; oauthVerifier: string },
+  ) {
+    if (!body.oauthToken || !body.oauthVerifier) {
+      throw new BadRequestException('oauthToken and oauthVerifier are required');
+    }
+
+    try {
+      const session = await this.twitterService.completeAuthorization(user.id, body.oauthToken, body.oauthVerifier);
+
+      return {
+        success: true,
+        message: 'Successfully connected to X Ads',
+        session: {
+          screenName: session.screenName,
+        },
+      };
+    } catch (error: any) {
+      throw new BadRequestException(error.message || 'Failed to complete X authorization');
+    }
+  }
+
+  // ==================== SESSION ====================
+
+  @Get('subscription/status')
+  @UseGuards(JwtAuthGuard)
+  async getSubscriptionStatus(@CurrentUser() user: any) {
+    const status = await this.twitterService.getSubscriptionStatus(user.id);
+    return {
+      success: true,
+      ...status,
+    };
+  }
+
+  @Get('session')
+  @UseGuards(JwtAuthGuard)
+  async getSession(@CurrentUser() user: any) {
+    const session = await this.twitterService.getSession(user.id);
+    if (!session || !session.oauthToken) {
+      return { success: false, message: 'No X session found' };
+    }
+    return {
+      success: true,
+      session: {
+        id: session.id,
+        userId: session.userId,
+        screenName: session.screenName,
+        adAccountId: session.adAccountId,
+        adAccountName: session.adAccountName,
+        hasToken: !!session.oauthToken,
+      },
+    };
+  }
+
+  @Delete('session')
+  @UseGuards(JwtAuthGuard)
+  async deleteSession(@CurrentUser() user: any) {
+    await this.twitterService.deleteSession(user.id);
+    return { success: true, message: 'X session deleted' };
+  }
+
+  @Post('session/refresh')
+  @UseGuards(JwtAuthGuard)
+  async refreshToken(@CurrentUser() user: any) {
+    await this.twitterService.refreshAccessToken(user.id);
+    return { success: true, valid: true };
+  }
+
+  // ==================== AD ACCOUNTS ====================
+
+  @Get('ad-accounts')
+  @UseGuards(JwtAuthGuard)
+  async getAdAccounts(@CurrentUser() user: any) {
+    const session = await this.twitterService.getSession(user.id);
+    if (!session || !session.oauthToken) {
+      throw new BadRequestException('No X session found');
+    }
+
+    const adAccounts = await this.twitterService.getAdAccounts(session.accessToken);
+    return { success: true, adAccounts };
+  }
+
+  @Post('ad-accounts/select')
+  @UseGuards(JwtAuthGuard)
+  async selectAdAccount(
+    @CurrentUser() user: any,
+    @Body() body: { adAccountId: string; adAccountName?: string },
+  ) {
+    if (!body.adAccountId) {
+      throw new BadRequestException('adAccountId is required');
+    }
+
+    const session = await this.twitterService.getSession(user.id);
+    if (!session || !session.oauthToken) {
+      throw new BadRequestException('No X session found');
+    }
+
+    await this.twitterService.validateAdAccountAccess(user.id, body.adAccountId);
+
+    const adAccounts = await this.twitterService.getAdAccounts(session.accessToken);
+    const adAccount = adAccounts.find(account => account.id === body.adAccountId);
+    if (!adAccount) {
+      throw new BadRequestException('Ad account is not accessible with this X login');
+    }
+
+    await this.twitterService.saveSession(
+      user.id,
+      session.accessToken,
+      undefined,
+      body.adAccountId,
+      undefined,
+      body.adAccountName || adAccount.name,
+      adAccount.timezone,
+    );
+
+    return { success: true, adAccountId: body.adAccountId };
+  }
+
+  @Get('funding-instruments')
+  @UseGuards(JwtAuthGuard)
+  async getFundingInstruments(@CurrentUser() user: any) {
+    const session = await this.getValidatedSession(user.id);
+    return this.twitterService.getFundingInstruments(session.accessToken, session.adAccountId);
+  }
+
+  // ==================== CAMPAIGNS ====================
+
+  @Get('campaigns')
+  @UseGuards(JwtAuthGuard)
+  async getCampaigns(
+    @CurrentUser() user: any,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+  ) {
+    const session = await this.getValidatedSession(user.id);
+
+    const dateRange = since && until ? { since, until } : undefined;
+    return this.twitterService.getCampaigns(session.accessToken, session.adAccountId, dateRange);
+  }
+
+  @Get('campaigns/:id')
+  @UseGuards(JwtAuthGuard)
+  async getCampaign(@CurrentUser() user: any, @Param('id') campaignId: string) {
+    const session = await this.getValidatedSession(user.id);
+    return this.twitterService.getCampaign(session.accessToken, campaignId, session.adAccountId);
+  }
+
+  // ==================== LINE ITEMS ====================
+
+  @Get('line-items')
+  @UseGuards(JwtAuthGuard)
+  async getLineItems(
+    @CurrentUser() user: any,
+    @Query('campaignId') campaignId?: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+  ) {
+    const session = await this.getValidatedSession(user.id);
+
+    const dateRange = since && until ? { since, until } : undefined;
+    return this.twitterService.getAdGroups(session.accessToken, campaignId || '', dateRange, session.adAccountId);
+  }
+
+  @Get('line-items/:id')
+  @UseGuards(JwtAuthGuard)
+  async getLineItem(@CurrentUser() user: any, @Param('id') lineItemId: string) {
+    const session = await this.getValidatedSession(user.id);
+    return this.twitterService.getAdGroup(session.accessToken, lineItemId, session.adAccountId);
+  }
+
+  // ==================== PROMOTED TWEETS ====================
+
+  @Get('promoted-tweets')
+  @UseGuards(JwtAuthGuard)
+  async getPromotedTweets(
+    @CurrentUser() user: any,
+    @Query('lineItemId') lineItemId?: string,
+    @Query('since') since?: string,
+    @Query('until') until?: string,
+  ) {
+    const session = await this.getValidatedSession(user.id);
+
+    const dateRange = since && until ? { since, until } : undefined;
+    return this.twitterService.getAds(session.accessToken, lineItemId || '', dateRange, session.adAccountId);
+  }
+
+  @Get('promoted-tweets/:id')
+  @UseGuards(JwtAuthGuard)
+  async getPromotedTweet(@CurrentUser() user: any, @Param('id') promotedTweetId: string) {
+    const session = await this.getValidatedSession(user.id);
+    return this.twitterService.getAd(session.accessToken, promotedTweetId, session.adAccountId);
+  }
+
+  // ==================== METRICS ====================
+
+  @Get('metrics/account')
+  @UseGuards(JwtAuthGuard)
+  async getAccountMetrics(
+    @CurrentUser() user: any,
+    @Query('since') since: string,
+    @Query('until') until: string,
+  ) {
+    if (!since || !until) {
+      throw new BadRequestException('since and until date parameters are required');
+    }
+
+    const session = await this.getValidatedSession(user.id);
+    return this.twitterService.getAccountMetrics(session.accessToken, session.adAccountId, { since, until });
+  }
+
+  @Get('metrics/campaigns/:id')
+  @UseGuards(JwtAuthGuard)
+  async getCampaignMetrics(
+    @CurrentUser() user: any,
+    @Param('id') campaignId: string,
+    @Query('since') since: string,
+    @Query('until') until: string,
+  ) {
+    if (!since || !until) {
+      throw new BadRequestException('since and until date parameters are required');
+    }
+
+    const session = await this.getValidatedSession(user.id);
+    return this.twitterService.getCampaignMetrics(session.accessToken, campaignId, { since, until }, session.adAccountId);
+  }
+
+  @Get('metrics/daily')
+  @UseGuards(JwtAuthGuard)
+  async getDailyMetrics(
+    @CurrentUser() user: any,
+    @Query('since') since: string,
+    @Query('until') until: string,
+  ) {
+    if (!since || !until) {
+      throw new BadRequestException('since and until date parameters are required');
+    }
+
+    const session = await this.getValidatedSession(user.id);
+    return this.twitterService.getDailyMetrics(session.accessToken, session.adAccountId, { since, until });
+  }
+
+  /**
+   * Load the user's session and check the selected ad account is covered by a paid seat
+   */
+  private async getValidatedSession(userId: number): Promise<TwitterSession> {
+    const session = await this.twitterService.getSession(userId);
+    if (!session || !session.oauthToken || !session.adAccountId) {
+      throw new BadRequestException('No X session or ad account selected');
+    }
+
+    // Subscription validation
+    await this.twitterService.validateSubscription(userId);
+    await this.twitterService.validateAdAccountAccess(userId, session.adAccountId);
+
+    return session;
+  }
+}
@@ -0,0 +1,21 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { TwitterService } from './twitter.service';
+import { TwitterController } from './twitter.controller';
+import { TwitterSession } from './entities/twitter-session.entity';
+import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { AccountsModule } from '../accounts/accounts.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([TwitterSession]),
+    ConfigModule,
+    forwardRef(() => SubscriptionsModule),
+    AccountsModule,
+  ],
+  controllers: [TwitterController],
+  providers: [TwitterService],
+  exports: [TwitterService],
+})
+export class TwitterModule {}
@@ -0,0 +1,980 @@
+import { Injectable, Logger, ForbiddenException, UnauthorizedException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, Not, IsNull, LessThan } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { gunzipSync } from 'zlib';
+import { TwitterSession } from './entities/twitter-session.entity';
+import { PlatformSubscriptionsService } from '../subscriptions/platform-subscriptions.service';
+import { ConnectedAccountsService } from '../accounts/connected-accounts.service';
+import { BaseAdPlatformService } from '../common/services/base-ad-platform.service';
+import { toAccountMidnight } from '../common/utils/date-range.util';
+import { TWITTER_ENDPOINTS, TWITTER_MICRO } from '../config/twitter.config';
+import { buildOAuth1Header, percentEncode, OAuth1Credentials } from './twitter-oauth.util';
+import {
+  AdPlatform,
+  PlatformMetrics,
+  PlatformCampaign,
+  PlatformAdGroup,
+  PlatformAd,
+  PlatformCreative,
+  PlatformDateRange,
+  PlatformApiResponse,
+  DailyAdMetrics,
+} from '../common/interfaces/ad-platform.interface';
+
+interface TwitterApiResponse<T> {
+  data: T;
+  next_cursor?: string | null;
+  request?: Record<string, any>;
+}
+
+export interface TwitterAccountApiData {
+  id: string;
+  name: string;
+  timezone: string;
+  approval_status: string;
+  deleted: boolean;
+}
+
+export interface TwitterFundingInstrumentApiData {
+  id: string;
+  name?: string;
+  description: string;
+  type: string;
+  currency: string;
+  entity_status: string;
+  funded_amount_local_micro?: number;
+  total_budget_amount_local_micro?: number;
+  start_time?: string;
+  end_time?: string;
+}
+
+interface TwitterCampaignApiData {
+  id: string;
+  name: string;
+  entity_status: string;
+  funding_instrument_id: string;
+  currency?: string;
+  daily_budget_amount_local_micro?: number;
+  total_budget_amount_local_micro?: number;
+  start_time?: string;
+  end_time?: string;
+}
+
+interface TwitterLineItemApiData {
+  id: string;
+  campaign_id: string;
+  name: string;
+  entity_status: string;
+  objective?: string;
+  product_type?: string;
+  placements?: string[];
+  bid_amount_local_micro?: number;
+  total_budget_amount_local_micro?: number;
+}
+
+interface TwitterPromotedTweetApiData {
+  id: string;
+  line_item_id: string;
+  tweet_id: string;
+  entity_status: string;
+  approval_status?: string;
+}
+
+interface TwitterTweetApiData {
+  id_str: string;
+  full_text?: string;
+  entities?: {
+    media?: { type: string; media_url_https: string }[];
+    urls?: { expanded_url: string }[];
+  };
+}
+
+interface TwitterStatsJobApiData {
+  id: string;
+  id_str?: string;
+  status: 'QUEUED' | 'PROCESSING' | 'SUCCESS' | 'FAILED';
+  url: string | null;
+}
+
+interface TwitterStatsMetrics {
+  impressions?: number[] | null;
+  clicks?: number[] | null;
+  billed_charge_local_micro?: number[] | null;
+  conversion_purchases?: {
+    metric?: number[] | null;
+    sale_amount?: number[] | null;
+  } | null;
+}
+
+interface TwitterStatsRow {
+  id: string;
+  id_data: { segment: any; metrics: TwitterStatsMetrics }[];
+}
+
+type TwitterStatsEntity = 'ACCOUNT' | 'CAMPAIGN' | 'LINE_ITEM' | 'PROMOTED_TWEET';
+
+// The async stats endpoint accepts at most 20 entity IDs per job
+const STATS_JOB_ENTITY_LIMIT = 20;
+
+@Injectable()
+export class TwitterService extends BaseAdPlatformService {
+  protected readonly logger = new Logger(TwitterService.name);
+  protected readonly platform = AdPlatform.TWITTER;
+  protected readonly apiVersion: string;
+  protected readonly baseUrl = 'https://ads-api.x.com';
+  private readonly accountTimezones = new Map<string, string>();
+  private readonly accountCurrencies = new Map<string, string>();
+
+  constructor(
+    @InjectRepository(TwitterSession)
+    private sessionRepository: Repository<TwitterSession>,
+    private configService: ConfigService,
+    private readonly platformSubscriptionsService: PlatformSubscriptionsService,
+    private readonly connectedAccountsService: ConnectedAccountsService,
+  ) {
+    super();
+    this.apiVersion = this.configService.get<string>('twitter.apiVersion') || '12';
+  }
+
+  // ==================== SUBSCRIPTION VALIDATION ====================
+
+  /**
+   * Check if user has paid access to any X Ads accounts
+   */
+  async validateSubscription(userId: number): Promise<void> {
+    const seats = await this.platformSubscriptionsService.getPlatformSeatsByUser(userId, this.platform);
+
+    if (seats.length === 0) {
+      throw new ForbiddenException(
+        'No active X Ads subscriptions. Please subscribe to at least one X Ads account.',
+      );
+    }
+  }
+
+  /**
+   * Check if user can access a specific X Ads account
+   */
+  async validateAdAccountAccess(userId: number, adAccountId: string): Promise<void> {
+    const seats = await this.platformSubscriptionsService.getPlatformSeatsByUser(userId, this.platform);
+    const hasAccess = seats.some(seat => seat.adAccountId === adAccountId);
+
+    if (!hasAccess) {
+      throw new ForbiddenException(
+        'This X Ads account is not included in your subscription. Please add it to your plan.',
+      );
+    }
+  }
+
+  /**
+   * Get subscription status for X Ads
+   */
+  async getSubscriptionStatus(userId: number): Promise<{
+    hasSubscription: boolean;
+    adAccountIds: string[];
+    planType?: string;
+  }> {
+    const seats = await this.platformSubscriptionsService.getPlatformSeatsByUser(userId, this.platform);
+
+    if (seats.length === 0) {
+      return {
+        hasSubscription: false,
+        adAccountIds: [],
+      };
+    }
+
+    return {
+      hasSubscription: true,
+      adAccountIds: seats.map(seat => seat.adAccountId),
+      planType: seats[0]?.subscription?.planName,
+    };
+  }
+
+  // ==================== OAUTH 1.0a ====================
+
+  /**
+   * First leg: obtain a request token, keep its secret on the session and return the authorize URL
+   */
+  async startAuthorization(userId: number): Promise<string> {
+    const authorization = buildOAuth1Header('POST', TWITTER_ENDPOINTS.REQUEST_TOKEN, this.getConsumerCredentials(), {}, {
+      oauth_callback: this.configService.get<string>('twitter.callbackUrl') || '',
+    });
+
+    const response = await fetch(TWITTER_ENDPOINTS.REQUEST_TOKEN, {
+      method: 'POST',
+      headers: { Authorization: authorization },
+    });
+    const body = new URLSearchParams(await response.text());
+
+    if (!response.ok || body.get('oauth_callback_confirmed') !== 'true') {
+      throw new BadRequestException('Failed to obtain X request token');
+    }
+
+    let session = await this.getSession(userId);
+    if (!session) {
+      session = this.sessionRepository.create({ userId });
+    }
+    session.requestToken = body.get('oauth_token');
+    session.requestTokenSecret = body.get('oauth_token_secret');
+    await this.sessionRepository.save(session);
+
+    return `${TWITTER_ENDPOINTS.AUTHORIZE}?oauth_token=${percentEncode(session.requestToken!)}`;
+  }
+
+  /**
+   * Final leg: exchange the authorized request token and verifier for a permanent access token
+   */
+  async completeAuthorization(userId: number, oauthToken: string, oauthVerifier: string): Promise<TwitterSession> {
+    const session = await this.getSession(userId);
+    if (!session?.requestToken || session.requestToken !== oauthToken) {
+      throw new BadRequestException('Unknown or expired X request token');
+    }
+
+    const authorization = buildOAuth1Header(
+      'POST',
+      TWITTER_ENDPOINTS.ACCESS_TOKEN,
+      { ...this.getConsumerCredentials(), token: session.requestToken, tokenSecret: session.requestTokenSecret || '' },
+      {},
+      { oauth_verifier: oauthVerifier },
+    );
+
+    const response = await fetch(TWITTER_ENDPOINTS.ACCESS_TOKEN, {
+      method: 'POST',
+      headers: { Authorization: authorization },
+    });
+    const body = new URLSearchParams(await response.text());
+
+    if (!response.ok || !body.get('oauth_token')) {
+      throw new BadRequestException('Failed to obtain X access token');
+    }
+
+    session.oauthToken = body.get('oauth_token')!;
+    session.oauthTokenSecret = body.get('oauth_token_secret')!;
+    session.twitterUserId = body.get('user_id') || session.twitterUserId;
+    session.screenName = body.get('screen_name') || session.screenName;
+    session.requestToken = null;
+    session.requestTokenSecret = null;
+
+    return this.sessionRepository.save(session);
+  }
+
+  // ==================== SESSION MANAGEMENT ====================
+
+  /**
+   * accessToken is the "token:secret" credential exposed by TwitterSession.accessToken;
+   * OAuth 1.0a has no refresh token, so that argument is ignored
+   */
+  async saveSession(
+    userId: number,
+    accessToken: string,
+    refreshToken?: string,
+    adAccountId?: string,
+    tokenExpiresAt?: Date,
+    adAccountName?: string,
+    adAccountTimezone?: string,
+  ): Promise<TwitterSession> {
+    const [oauthToken, oauthTokenSecret] = this.splitCredential(accessToken);
+    let session = await this.sessionRepository.findOneBy({ userId });
+
+    if (session) {
+      session.oauthToken = oauthToken;
+      session.oauthTokenSecret = oauthTokenSecret;
+      session.adAccountId = adAccountId || session.adAccountId;
+      session.adAccountName = adAccountName || session.adAccountName;
+      session.adAccountTimezone = adAccountTimezone || session.adAccountTimezone;
+      session.tokenExpiresAt = tokenExpiresAt || session.tokenExpiresAt;
+      session.needsReauth = false;
+      session.reauthReason = null;
+    } else {
+      session = this.sessionRepository.create({
+        userId,
+        oauthToken,
+        oauthTokenSecret,
+        adAccountId,
+        adAccountName,
+        adAccountTimezone,
+        tokenExpiresAt,
+      });
+    }
+
+    const saved = await this.sessionRepository.save(session);
+
+    if (saved.adAccountId) {
+      await this.connectedAccountsService.connect(userId, this.platform, saved.id, saved.adAccountId, saved.adAccountName);
+    }
+    return saved;
+  }
+
+  async getSession(userId: number): Promise<TwitterSession | null> {
+    return this.sessionRepository.findOneBy({ userId });
+  }
+
+  async deleteSession(userId: number): Promise<void> {
+    await this.sessionRepository.delete({ userId });
+    await this.connectedAccountsService.disconnectSession(userId, this.platform);
+  }
+
+  async getConnectedSessions(): Promise<TwitterSession[]> {
+    return this.sessionRepository.find({ where: { adAccountId: Not(IsNull()) } });
+  }
+
+  async getSessionsExpiringBefore(date: Date): Promise<TwitterSession[]> {
+    return this.sessionRepository.find({ where: { tokenExpiresAt: LessThan(date), needsReauth: false } });
+  }
+
+  async markNeedsReauth(userId: number, reason: string): Promise<void> {
+    await this.sessionRepository.update({ userId }, { needsReauth: true, reauthReason: reason });
+  }
+
+  /**
+   * OAuth 1.0a tokens do not expire; verify the stored token is still authorized instead
+   */
+  async refreshAccessToken(userId: number): Promise<TwitterSession> {
+    const session = await this.getSession(userId);
+    if (!session || !session.oauthToken) {
+      throw new UnauthorizedException('No session found');
+    }
+
+    try {
+      await this.makeApiCall(this.buildUrl(TWITTER_ENDPOINTS.ACCOUNTS), session.accessToken, { count: 1 });
+    } catch (error: any) {
+      this.logger.warn(`X token validation failed for user ${userId}: ${error.message}`);
+      throw new UnauthorizedException('X authorization has been revoked. Please reconnect.');
+    }
+
+    return session;
+  }
+
+  // ==================== AD ACCOUNT MANAGEMENT ====================
+
+  async getAdAccounts(accessToken: string): Promise<TwitterAccountApiData[]> {
+    const accounts = await this.fetchAllPages<TwitterAccountApiData>(accessToken, TWITTER_ENDPOINTS.ACCOUNTS);
+    accounts.forEach(account => this.accountTimezones.set(account.id, account.timezone));
+    return accounts.filter(account => !account.deleted);
+  }
+
+  async getFundingInstruments(accessToken: string, adAccountId: string): Promise<PlatformApiResponse<TwitterFundingInstrumentApiData[]>> {
+    try {
+      const instruments = await this.fetchAllPages<TwitterFundingInstrumentApiData>(
+        accessToken,
+        TWITTER_ENDPOINTS.FUNDING_INSTRUMENTS(adAccountId),
+      );
+
+      return { success: true, data: instruments };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * X accounts carry no currency of their own; every funding instrument on an account bills in the same one
+   */
+  async getAccountCurrency(accessToken: string, adAccountId: string): Promise<string> {
+    if (!this.accountCurrencies.has(adAccountId)) {
+      const instruments = await this.fetchAllPages<TwitterFundingInstrumentApiData>(
+        accessToken,
+        TWITTER_ENDPOINTS.FUNDING_INSTRUMENTS(adAccountId),
+      );
+      const currency = instruments.find(instrument => instrument.currency)?.currency;
+      if (!currency) {
+        throw new Error(`Currency not available for X ad account ${adAccountId}`);
+      }
+      this.accountCurrencies.set(adAccountId, currency);
+    }
+
+    return this.accountCurrencies.get(adAccountId)!;
+  }
+
+  // ==================== CAMPAIGN OPERATIONS ====================
+
+  async getCampaigns(
+    accessToken: string,
+    adAccountId: string,
+    dateRange?: PlatformDateRange,
+  ): Promise<PlatformApiResponse<PlatformCampaign[]>> {
+    try {
+      const items = await this.fetchAllPages<TwitterCampaignApiData>(accessToken, TWITTER_ENDPOINTS.CAMPAIGNS(adAccountId));
+      const campaigns = items.map(c => this.mapCampaign(c));
+
+      // Fetch metrics if date range provided
+      if (dateRange && campaigns.length > 0) {
+        const metricsMap = await this.getEntityMetrics(accessToken, adAccountId, 'CAMPAIGN', campaigns.map(c => c.id), dateRange);
+        campaigns.forEach((campaign) => {
+          campaign.metrics = metricsMap[campaign.id];
+        });
+      }
+
+      return {
+        success: true,
+        data: campaigns,
+        pagination: {
+          hasMore: false,
+          totalCount: campaigns.length,
+        },
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to get campaigns', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getCampaign(accessToken: string, campaignId: string, adAccountId?: string): Promise<PlatformApiResponse<PlatformCampaign>> {
+    if (!adAccountId) {
+      return { success: false, error: 'X Ads account ID is required' };
+    }
+
+    try {
+      const response = await this.makeApiCall<TwitterApiResponse<TwitterCampaignApiData>>(
+        this.buildUrl(`${TWITTER_ENDPOINTS.CAMPAIGNS(adAccountId)}/${campaignId}`),
+        accessToken,
+      );
+
+      return { success: true, data: this.mapCampaign(response.data) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ==================== LINE ITEM (AD GROUP) OPERATIONS ====================
+
+  async getAdGroups(
+    accessToken: string,
+    campaignId: string,
+    dateRange?: PlatformDateRange,
+    adAccountId?: string,
+  ): Promise<PlatformApiResponse<PlatformAdGroup[]>> {
+    if (!adAccountId) {
+      return { success: false, error: 'X Ads account ID is required' };
+    }
+
+    try {
+      const items = await this.fetchAllPages<TwitterLineItemApiData>(
+        accessToken,
+        TWITTER_ENDPOINTS.LINE_ITEMS(adAccountId),
+        campaignId ? { campaign_ids: campaignId } : {},
+      );
+      const adGroups = items.map(li => this.mapLineItem(li));
+
+      if (dateRange && adGroups.length > 0) {
+        const metricsMap = await this.getEntityMetrics(accessToken, adAccountId, 'LINE_ITEM', adGroups.map(ag => ag.id), dateRange);
+        adGroups.forEach((adGroup) => {
+          adGroup.metrics = metricsMap[adGroup.id];
+        });
+      }
+
+      return {
+        success: true,
+        data: adGroups,
+        pagination: {
+          hasMore: false,
+          totalCount: adGroups.length,
+        },
+      };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getAdGroup(accessToken: string, adGroupId: string, adAccountId?: string): Promise<PlatformApiResponse<PlatformAdGroup>> {
+    if (!adAccountId) {
+      return { success: false, error: 'X Ads account ID is required' };
+    }
+
+    try {
+      const response = await this.makeApiCall<TwitterApiResponse<TwitterLineItemApiData>>(
+        this.buildUrl(`${TWITTER_ENDPOINTS.LINE_ITEMS(adAccountId)}/${adGroupId}`),
+        accessToken,
+      );
+
+      return { success: true, data: this.mapLineItem(response.data) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  // ==================== PROMOTED TWEET (AD) OPERATIONS ====================
+
+  async getAds(
+    accessToken: string,
+    adGroupId: string,
+    dateRange?: PlatformDateRange,
+    adAccountId?: string,
+  ): Promise<PlatformApiResponse<PlatformAd[]>> {
+    if (!adAccountId) {
+      return { success: false, error: 'X Ads account ID is required' };
+    }
+
+    try {
+      const items = await this.fetchAllPages<TwitterPromotedTweetApiData>(
+        accessToken,
+        TWITTER_ENDPOINTS.PROMOTED_TWEETS(adAccountId),
+        adGroupId ? { line_item_ids: adGroupId } : {},
+      );
+
+      // Promoted tweets only reference their line item, so resolve the owning campaigns in one pass
+      const lineItems = await this.fetchAllPages<TwitterLineItemApiData>(accessToken, TWITTER_ENDPOINTS.LINE_ITEMS(adAccountId));
+      const lineItemCampaigns: Record<string, string> = {};
+      lineItems.forEach((li) => {
+        lineItemCampaigns[li.id] = li.campaign_id;
+      });
+
+      const creatives = await this.getTweetCreatives(accessToken, adAccountId, items.map(pt => pt.tweet_id));
+      const ads = items.map(pt => this.mapPromotedTweet(pt, lineItemCampaigns[pt.line_item_id], creatives[pt.tweet_id]));
+
+      if (dateRange && ads.length > 0) {
+        const metricsMap = await this.getEntityMetrics(accessToken, adAccountId, 'PROMOTED_TWEET', ads.map(ad => ad.id), dateRange);
+        ads.forEach((ad) => {
+          ad.metrics = metricsMap[ad.id];
+        });
+      }
+
+      return {
+        success: true,
+        data: ads,
+        pagination: {
+          hasMore: false,
+          totalCount: ads.length,
+        },
+      };
+    } catch (error: any) {
+      this.logger.error('Failed to get promoted tweets', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getAd(accessToken: string, adId: string, adAccountId?: string): Promise<PlatformApiResponse<PlatformAd>> {
+    if (!adAccountId) {
+      return { success: false, error: 'X Ads account ID is required' };
+    }
+
+    try {
+      const response = await this.makeApiCall<TwitterApiResponse<TwitterPromotedTweetApiData>>(
+        this.buildUrl(`${TWITTER_ENDPOINTS.PROMOTED_TWEETS(adAccountId)}/${adId}`),
+        accessToken,
+      );
+
+      const promotedTweet = response.data;
+      const lineItem = await this.getAdGroup(accessToken, promotedTweet.line_item_id, adAccountId);
+      const creatives = await this.getTweetCreatives(accessToken, adAccountId, [promotedTweet.tweet_id]);
+
+      return {
+        success: true,
+        data: this.mapPromotedTweet(promotedTweet, lineItem.data?.campaignId, creatives[promotedTweet.tweet_id]),
+      };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  private async getTweetCreatives(
+    accessToken: string,
+    adAccountId: string,
+    tweetIds: string[],
+  ): Promise<Record<string, PlatformCreative>> {
+    const creatives: Record<string, PlatformCreative> = {};
+
+    try {
+      for (let i = 0; i < tweetIds.length; i += 200) {
+        const response = await this.makeApiCall<TwitterApiResponse<TwitterTweetApiData[]>>(
+          this.buildUrl(`${TWITTER_ENDPOINTS.ACCOUNT(adAccountId)}/tweets`),
+          accessToken,
+          { tweet_type: 'PUBLISHED', tweet_ids: tweetIds.slice(i, i + 200).join(','), trim_user: true },
+        );
+
+        (response.data || []).forEach((tweet) => {
+          const media = tweet.entities?.media?.[0];
+          creatives[tweet.id_str] = {
+            id: tweet.id_str,
+            type: media ? (media.type === 'video' || media.type === 'animated_gif' ? 'video' : 'image') : 'text',
+            body: tweet.full_text,
+            imageUrl: media?.media_url_https,
+            thumbnailUrl: media?.media_url_https,
+            landingUrl: tweet.entities?.urls?.[0]?.expanded_url,
+          };
+        });
+      }
+    } catch (error: any) {
+      this.logger.warn(`Failed to load tweet creatives: ${error.message}`);
+    }
+
+    return creatives;
+  }
+
+  // ==================== METRICS (ASYNC STATS JOBS) ====================
+
+  async getAccountMetrics(
+    accessToken: string,
+    adAccountId: string,
+    dateRange: PlatformDateRange,
+  ): Promise<PlatformApiResponse<PlatformMetrics>> {
+    try {
+      const rows = await this.runStatsJobs(accessToken, adAccountId, 'ACCOUNT', [adAccountId], dateRange, 'TOTAL');
+      return { success: true, data: this.transformMetrics(rows[0]?.id_data?.[0]?.metrics) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getCampaignMetrics(
+    accessToken: string,
+    campaignId: string,
+    dateRange: PlatformDateRange,
+    adAccountId?: string,
+  ): Promise<PlatformApiResponse<PlatformMetrics>> {
+    if (!adAccountId) {
+      return { success: false, error: 'X Ads account ID is required' };
+    }
+
+    try {
+      const rows = await this.runStatsJobs(accessToken, adAccountId, 'CAMPAIGN', [campaignId], dateRange, 'TOTAL');
+      return { success: true, data: this.transformMetrics(rows[0]?.id_data?.[0]?.metrics) };
+    } catch (error: any) {
+      return { success: false, error: error.message };
+    }
+  }
+
+  async getDailyMetrics(
+    accessToken: string,
+    adAccountId: string,
+    dateRange: PlatformDateRange,
+  ): Promise<PlatformApiResponse<any[]>> {
+    try {
+      const rows = await this.runStatsJobs(accessToken, adAccountId, 'ACCOUNT', [adAccountId], dateRange, 'DAY');
+      const metrics = rows[0]?.id_data?.[0]?.metrics;
+      const days = metrics?.impressions?.length || 0;
+
+      const dailyMetrics = Array.from({ length: days }, (_, index) => {
+        const date = new Date(`${dateRange.since}T00:00:00Z`);
+        date.setUTCDate(date.getUTCDate() + index);
+        return {
+          date: date.toISOString().substring(0, 10),
+          ...this.transformMetrics(metrics, index),
+        };
+      });
+
+      return { success: true, data: dailyMetrics };
+    } catch (error: any) {
+      this.logger.error('Failed to get daily metrics', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Daily stats for every promoted tweet on the account; DAY metrics arrive as one array slot per day from `since`
+   */
+  async getDailyAdMetrics(
+    accessToken: string,
+    adAccountId: string,
+    dateRange: PlatformDateRange,
+  ): Promise<PlatformApiResponse<DailyAdMetrics[]>> {
+    try {
+      const promotedTweets = await this.fetchAllPages<TwitterPromotedTweetApiData>(accessToken, TWITTER_ENDPOINTS.PROMOTED_TWEETS(adAccountId));
+      if (promotedTweets.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const lineItems = await this.fetchAllPages<TwitterLineItemApiData>(accessToken, TWITTER_ENDPOINTS.LINE_ITEMS(adAccountId));
+      const lineItemCampaigns: Record<string, string> = {};
+      lineItems.forEach((li) => {
+        lineItemCampaigns[li.id] = li.campaign_id;
+      });
+      const promotedTweetLineItems: Record<string, string> = {};
+      promotedTweets.forEach((pt) => {
+        promotedTweetLineItems[pt.id] = pt.line_item_id;
+      });
+
+      const statsRows = await this.runStatsJobs(accessToken, adAccountId, 'PROMOTED_TWEET', Object.keys(promotedTweetLineItems), dateRange, 'DAY');
+      const rows: DailyAdMetrics[] = [];
+
+      statsRows.forEach((row) => {
+        const metrics = row.id_data?.[0]?.metrics;
+        const days = metrics?.impressions?.length || 0;
+        const lineItemId = promotedTweetLineItems[row.id] || '';
+
+        for (let index = 0; index < days; index++) {
+          const date = new Date(`${dateRange.since}T00:00:00Z`);
+          date.setUTCDate(date.getUTCDate() + index);
+          rows.push({
+            date: date.toISOString().substring(0, 10),
+            campaignId: lineItemCampaigns[lineItemId] || '',
+            adGroupId: lineItemId,
+            adId: row.id,
+            metrics: this.transformMetrics(metrics, index),
+          });
+        }
+      });
+
+      return { success: true, data: rows };
+    } catch (error: any) {
+      this.logger.error('Failed to get daily ad metrics', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  private async getEntityMetrics(
+    accessToken: string,
+    adAccountId: string,
+    entity: TwitterStatsEntity,
+    entityIds: string[],
+    dateRange: PlatformDateRange,
+  ): Promise<Record<string, PlatformMetrics>> {
+    const metricsMap: Record<string, PlatformMetrics> = {};
+
+    try {
+      const rows = await this.runStatsJobs(accessToken, adAccountId, entity, entityIds, dateRange, 'TOTAL');
+      rows.forEach((row) => {
+        metricsMap[row.id] = this.transformMetrics(row.id_data?.[0]?.metrics);
+      });
+    } catch (error: any) {
+      this.logger.warn(`Failed to get ${entity} stats: ${error.message}`);
+    }
+
+    return metricsMap;
+  }
+
+  /**
+   * Submit one async stats job per batch of entity IDs, poll until done and download the gzipped results
+   */
+  private async runStatsJobs(
+    accessToken: string,
+    adAccountId: string,
+    entity: TwitterStatsEntity,
+    entityIds: string[],
+    dateRange: PlatformDateRange,
+    granularity: 'TOTAL' | 'DAY',
+  ): Promise<TwitterStatsRow[]> {
+    const timezone = await this.getAccountTimezone(accessToken, adAccountId);
+
+    // end_time is exclusive and both bounds must fall on whole hours in the account's timezone
+    const until = new Date(`${dateRange.until}T00:00:00Z`);
+    until.setUTCDate(until.getUTCDate() + 1);
+
+    const jobIds: string[] = [];
+    for (let i = 0; i < entityIds.length; i += STATS_JOB_ENTITY_LIMIT) {
+      const response = await this.makeApiCall<TwitterApiResponse<TwitterStatsJobApiData>>(
+        this.buildUrl(TWITTER_ENDPOINTS.STATS_JOBS(adAccountId)),
+        accessToken,
+        {
+          entity,
+          entity_ids: entityIds.slice(i, i + STATS_JOB_ENTITY_LIMIT).join(','),
+          start_time: toAccountMidnight(dateRange.since, timezone),
+          end_time: toAccountMidnight(until.toISOString().substring(0, 10), timezone),
+          granularity,
+          placement: 'ALL_ON_TWITTER',
+          metric_groups: 'ENGAGEMENT,BILLING,WEB_CONVERSION',
+        },
+        'POST',
+      );
+      jobIds.push(response.data.id_str || response.data.id);
+    }
+
+    const pollInterval = this.configService.get<number>('twitter.statsJobPollInterval') || 2000;
+    const maxAttempts = this.configService.get<number>('twitter.statsJobMaxAttempts') || 30;
+    const rows: TwitterStatsRow[] = [];
+    let pending = [...jobIds];
+
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      if (attempt >= maxAttempts) {
+        throw new Error(`X stats jobs did not finish after ${maxAttempts} attempts`);
+      }
+      await new Promise(resolve => setTimeout(resolve, pollInterval));
+
+      const response = await this.makeApiCall<TwitterApiResponse<TwitterStatsJobApiData[]>>(
+        this.buildUrl(TWITTER_ENDPOINTS.STATS_JOBS(adAccountId)),
+        accessToken,
+        { job_ids: pending.join(',') },
+      );
+
+      for (const job of response.data || []) {
+        if (job.status === 'FAILED') {
+          throw new Error(`X stats job ${job.id} failed`);
+        }
+        if (job.status === 'SUCCESS' && job.url) {
+          rows.push(...(await this.downloadStatsJob(job.url)));
+          pending = pending.filter(id => id !== (job.id_str || job.id));
+        }
+      }
+    }
+
+    return rows;
+  }
+
+  private async downloadStatsJob(url: string): Promise<TwitterStatsRow[]> {
+    const response = await this.fetchWithRetry(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download X stats job results: ${response.status}`);
+    }
+
+    const payload = JSON.parse(gunzipSync(Buffer.from(await response.arrayBuffer())).toString('utf8'));
+    return payload.data || [];
+  }
+
+  async getAccountTimezone(accessToken: string, adAccountId: string): Promise<string> {
+    if (!this.accountTimezones.has(adAccountId)) {
+      const response = await this.makeApiCall<TwitterApiResponse<TwitterAccountApiData>>(
+        this.buildUrl(TWITTER_ENDPOINTS.ACCOUNT(adAccountId)),
+        accessToken,
+      );
+      this.accountTimezones.set(adAccountId, response.data?.timezone || 'UTC');
+    }
+
+    return this.accountTimezones.get(adAccountId)!;
+  }
+
+  // ==================== UTILITIES ====================
+
+  /**
+   * Every X Ads API request is OAuth 1.0a signed; parameters always travel in the query string
+   */
+  protected async makeApiCall<T>(
+    url: string,
+    accessToken: string,
+    params?: Record<string, any>,
+    method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
+  ): Promise<T> {
+    const [token, tokenSecret] = this.splitCredential(accessToken);
+
+    const query = Object.entries(params || {})
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => `${percentEncode(key)}=${percentEncode(String(value))}`)
+      .join('&');
+    const finalUrl = query ? `${url}${url.includes('?') ? '&' : '?'}${query}` : url;
+
+    const credentials = { ...this.getConsumerCredentials(), token, tokenSecret };
+
+    try {
+      const response = await this.fetchWithRetry(
+        finalUrl,
+        () => ({ method, headers: { Authorization: buildOAuth1Header(method, finalUrl, credentials) } }),
+        this.getRateLimitKey(finalUrl),
+      );
+      if (!response.ok) {
+        const errorText = await response.text();
+        this.logger.error(`API call failed: ${response.status} - ${errorText}`);
+        throw new Error(`API call failed: ${response.status}`);
+      }
+      return response.json();
+    } catch (error) {
+      this.logger.error(`API call error: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * X reports when the current rate limit window resets (epoch seconds) in x-rate-limit-reset
+   */
+  protected getRetryDelay(response: Response, attempt: number): Promise<number | null> {
+    const reset = parseInt(response.headers.get('x-rate-limit-reset') || '', 10);
+    if (response.status === 429 && reset) {
+      return Promise.resolve(Math.max(reset * 1000 - Date.now(), 0));
+    }
+
+    return super.getRetryDelay(response, attempt);
+  }
+
+  protected getRateLimitKey(url: string): string {
+    return url.match(/\/accounts\/([^/?]+)/)?.[1] || super.getRateLimitKey(url);
+  }
+
+  private getConsumerCredentials(): OAuth1Credentials {
+    return {
+      consumerKey: this.configService.get<string>('twitter.consumerKey') || '',
+      consumerSecret: this.configService.get<string>('twitter.consumerSecret') || '',
+    };
+  }
+
+  private splitCredential(accessToken: string): [string, string] {
+    const separator = accessToken.indexOf(':');
+    if (separator === -1) {
+      throw new UnauthorizedException('Invalid X credentials');
+    }
+    return [accessToken.substring(0, separator), accessToken.substring(separator + 1)];
+  }
+
+  private buildUrl(path: string): string {
+    return `${this.baseUrl}/${this.apiVersion}${path}`;
+  }
+
+  private async fetchAllPages<T>(accessToken: string, path: string, params: Record<string, any> = {}): Promise<T[]> {
+    const results: T[] = [];
+    let cursor: string | null | undefined;
+
+    do {
+      const response = await this.makeApiCall<TwitterApiResponse<T[]>>(this.buildUrl(path), accessToken, {
+        ...params,
+        count: 1000,
+        cursor: cursor || undefined,
+      });
+      results.push(...(response.data || []));
+      cursor = response.next_cursor;
+    } while (cursor);
+
+    return results;
+  }
+
+  private mapCampaign(c: TwitterCampaignApiData): PlatformCampaign {
+    return {
+      id: c.id,
+      name: c.name,
+      status: c.entity_status,
+      budget: c.daily_budget_amount_local_micro
+        ? c.daily_budget_amount_local_micro / TWITTER_MICRO
+        : c.total_budget_amount_local_micro ? c.total_budget_amount_local_micro / TWITTER_MICRO : undefined,
+      budgetType: c.daily_budget_amount_local_micro ? 'daily' : c.total_budget_amount_local_micro ? 'lifetime' : undefined,
+      startTime: c.start_time ? new Date(c.start_time) : undefined,
+      endTime: c.end_time ? new Date(c.end_time) : undefined,
+    };
+  }
+
+  private mapLineItem(li: TwitterLineItemApiData): PlatformAdGroup {
+    return {
+      id: li.id,
+      campaignId: li.campaign_id,
+      name: li.name,
+      status: li.entity_status,
+      targeting: li.placements ? { placements: li.placements, productType: li.product_type } : undefined,
+      budget: li.total_budget_amount_local_micro ? li.total_budget_amount_local_micro / TWITTER_MICRO : undefined,
+      bidAmount: li.bid_amount_local_micro ? li.bid_amount_local_micro / TWITTER_MICRO : undefined,
+    };
+  }
+
+  private mapPromotedTweet(pt: TwitterPromotedTweetApiData, campaignId?: string, creative?: PlatformCreative): PlatformAd {
+    return {
+      id: pt.id,
+      adGroupId: pt.line_item_id,
+      campaignId: campaignId || '',
+      name: `Promoted Tweet ${pt.tweet_id}`,
+      status: pt.entity_status,
+      creativeId: pt.tweet_id,
+      creative,
+    };
+  }
+
+  /**
+   * Stats job metrics are arrays per time bucket; TOTAL granularity has a single bucket
+   */
+  private transformMetrics(raw?: TwitterStatsMetrics, index?: number): PlatformMetrics {
+    const pick = (values?: number[] | null) =>
+      index === undefined
+        ? (values || []).reduce((sum, value) => sum + (value || 0), 0)
+        : values?.[index] || 0;
+
+    const impressions = pick(raw?.impressions);
+    const clicks = pick(raw?.clicks);
+    const spend = pick(raw?.billed_charge_local_micro) / TWITTER_MICRO;
+    const conversions = pick(raw?.conversion_purchases?.metric);
+    const revenue = pick(raw?.conversion_purchases?.sale_amount) / TWITTER_MICRO;
+
+    return {
+      impressions,
+      clicks,
+      spend,
+      cpc: this.calculateCPC(spend, clicks),
+      cpm: this.calculateCPM(spend, impressions),
+      ctr: this.calculateCTR(clicks, impressions),
+      conversions,
+      costPerConversion: conversions > 0 ? spend / conversions : 0,
+      roas: revenue > 0 ? this.calculateROAS(revenue, spend) : undefined,
+    };
+  }
+}
@@ -20,6 +20,10 @@ export class User {
   @Column({ length: 255, nullable: true })
   password: string;
 
+  // Set once the user opens the link in their verification email (or signs in with Google)
+  @Column({ name: 'email_verified_at', type: 'timestamp', nullable: true })
+  emailVerifiedAt: Date | null;
+
   @Column({ name: 'current_plan_id', length: 100, default: 'free' })
   currentPlanId: string;
 
@@ -41,9 +45,21 @@ export class User {
   @Column({ name: 'trial_end', type: 'timestamp', nullable: true })
   trialEnd: Date;
 
+  /**
+   * @deprecated Roles are held per organization, on OrganizationMember. Kept so the column and its data
+   * aren't dropped by schema sync; nothing reads it.
+   */
   @Column({ length: 50, default: 'user' })
   role: string;
 
+  // The organization (workspace) the user is working in; the first one they belong to when unset
+  @Column({ name: 'current_organization_id', type: 'integer', nullable: true })
+  currentOrganizationId: number | null;
+
+  // Overrides the organization's reporting currency when set
+  @Column({ name: 'reporting_currency', length: 3, nullable: true })
+  reportingCurrency: string;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -2,17 +2,23 @@ import { Controller, Get, Post, Body, Patch, Param, Delete, UseGuards, Forbidden
 import { UsersService } from './users.service';
 import { User } from './entities/user.entity';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { ChangePasswordDto } from './dto/user.dto';
+import { OrganizationsService } from '../organizations/organizations.service';
 
 @Controller('users')
-@UseGuards(JwtAuthGuard) // Protect all endpoints
+@UseGuards(JwtAuthGuard, PermissionsGuard) // Protect all endpoints
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly organizationsService: OrganizationsService,
+  ) {}
 
   @Get('profile')
   async getProfile(@CurrentUser() user: any) {
-    const fullUser = await this.usersService.findOne(user.userId);
+    const fullUser = await this.usersService.findOne(user.id);
     if (!fullUser) {
       throw new NotFoundException('User not found');
     }
@@ -22,9 +28,9 @@ export class UsersController {
 
   @Patch('profile')
   async updateProfile(@CurrentUser() user: any, @Body() updateData: Partial<User>) {
-    // Only allow updating own profile, exclude sensitive fields
-    const { password, role, id, ...safeUpdates } = updateData as any;
-    return this.usersService.update(user.userId, safeUpdates);
+    // Only allow updating own profile; password, plan and organization fields have their own endpoints
+    const { email, firstName, lastName, company } = updateData;
+    return this.usersService.update(user.id, { email, firstName, lastName, company });
   }
 
   @Post('change-password')
@@ -33,7 +39,7 @@ export class UsersController {
     @Body() changePasswordDto: ChangePasswordDto,
   ) {
     await this.usersService.changePassword(
-      user.userId,
+      user.id,
       changePasswordDto.currentPassword,
       changePasswordDto.newPassword,
     );
@@ -42,13 +48,13 @@ export class UsersController {
 
   @Get('trial-status')
   async getTrialStatus(@CurrentUser() user: any) {
-    const trialStatus = await this.usersService.getTrialStatus(user.userId);
+    const trialStatus = await this.usersService.getTrialStatus(user.id);
     return { success: true, trial: trialStatus };
   }
 
   @Get('subscription')
   async getSubscription(@CurrentUser() user: any) {
-    const fullUser = await this.usersService.findOne(user.userId);
+    const fullUser = await this.usersService.findOne(user.id);
     if (!fullUser) {
       throw new NotFoundException('User not found');
     }
@@ -63,12 +69,13 @@ export class UsersController {
     };
   }
 
+  /**
+   * A teammate in the user's current organization
+   */
   @Get(':id')
+  @RequirePermission('members.read')
   async findOne(@Param('id') id: string, @CurrentUser() user: any) {
-    // Users can only view their own data (or admins could view all)
-    if (user.userId !== +id) {
-      throw new ForbiddenException('You can only view your own profile');
-    }
+    await this.organizationsService.assertTeammate(user.id, +id);
     const foundUser = await this.usersService.findOne(+id);
     if (!foundUser) {
       throw new NotFoundException('User not found');
@@ -77,21 +84,22 @@ export class UsersController {
     return result;
   }
 
+  /**
+   * Edit a teammate's profile; admins can only edit the members their role outranks
+   */
   @Patch(':id')
+  @RequirePermission('members.manage')
   async update(@Param('id') id: string, @Body() updateData: Partial<User>, @CurrentUser() user: any) {
-    // Users can only update their own data
-    if (user.userId !== +id) {
-      throw new ForbiddenException('You can only update your own profile');
-    }
-    // Prevent updating sensitive fields via this endpoint
-    const { password, role, id: userId, ...safeUpdates } = updateData as any;
-    return this.usersService.update(+id, safeUpdates);
+    await this.organizationsService.assertTeammate(user.id, +id, true);
+    // Only profile details; sign-in, billing and plan fields stay with the account holder
+    const { firstName, lastName, company } = updateData;
+    return this.usersService.update(+id, { firstName, lastName, company });
   }
 
   @Delete(':id')
   async remove(@Param('id') id: string, @CurrentUser() user: any) {
     // Users can only delete their own account
-    if (user.userId !== +id) {
+    if (user.id !== +id) {
       throw new ForbiddenException('You can only delete your own account');
     }
     await this.usersService.remove(+id);
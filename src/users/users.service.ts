@@ -1,6 +1,6 @@
 import { Injectable, BadRequestException, UnauthorizedException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Repository, IsNull } from 'typeorm';
 import { User } from './entities/user.entity';
 import * as bcrypt from 'bcryptjs';
 
@@ -29,6 +29,14 @@ export class UsersService {
   }
 
   async update(id: number, updateData: Partial<User>): Promise<User> {
+    // A new address has to be verified again
+    if (updateData.email) {
+      const user = await this.usersRepository.findOneBy({ id });
+      if (user && user.email !== updateData.email) {
+        updateData = { ...updateData, emailVerifiedAt: null };
+      }
+    }
+
     await this.usersRepository.update(id, updateData);
     return this.usersRepository.findOneBy({ id }) as Promise<User>;
   }
@@ -102,6 +110,18 @@ export class UsersService {
     await this.usersRepository.update(userId, { password: hashedPassword });
   }
 
+  /**
+   * Set a new password without knowing the current one, once the user has proven they own the email address
+   */
+  async setPassword(userId: number, newPassword: string): Promise<void> {
+    const hashedPassword = await bcrypt.hash(newPassword, 12);
+    await this.usersRepository.update(userId, { password: hashedPassword });
+  }
+
+  async markEmailVerified(userId: number): Promise<void> {
+    await this.usersRepository.update({ id: userId, emailVerifiedAt: IsNull() }, { emailVerifiedAt: new Date() });
+  }
+
   async getTrialStatus(userId: number): Promise<{
     isTrialUser: boolean;
     isTrialActive: boolean;